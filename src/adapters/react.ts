@@ -0,0 +1,44 @@
+/**
+ * React adapter: `useModel()` re-renders a component when the model fields it uses change.
+ *
+ * @example
+ * ```tsx
+ * import { useModel } from '@cartago-git/quickmodel/react';
+ *
+ * function EmailField({ user }: { user: User }) {
+ *   useModel(user, ['email']); // re-renders on email changes only
+ *   return <input value={user.email} onChange={(e) => (user.email = e.target.value)} />;
+ * }
+ * ```
+ */
+
+import { useCallback, useMemo, useSyncExternalStore } from 'react';
+import type { QModel } from '../core/models/quick.model';
+import type { QModelField } from '../core/interfaces/reactivity.interface';
+import { ModelStore } from '../core/services/model-store.service';
+
+/**
+ * Subscribes a component to the changes of a model (built on `useSyncExternalStore`).
+ *
+ * Field values keep their model types (`Date`, `bigint`, `Map`, nested models, ...), as
+ * the component reads the model instance itself.
+ *
+ * @param model - The model instance
+ * @param fields - Property names the component renders (every field if omitted); changes
+ *   of other fields do not re-render it
+ * @returns The model instance
+ */
+export function useModel<M extends QModel<any>>(model: M, fields?: readonly QModelField<M>[]): M {
+  const store = useMemo(() => new ModelStore(model), [model]);
+  // Inline field arrays are new on every render: compare their content
+  const fieldsKey = fields?.join('\u0000');
+
+  const subscribe = useCallback(
+    (onChange: () => void) => store.subscribe(onChange, fields),
+    [store, fieldsKey]
+  );
+  const getSnapshot = useCallback(() => store.getVersion(fields), [store, fieldsKey]);
+
+  useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+  return model;
+}
@@ -0,0 +1,81 @@
+/**
+ * Vue adapter: `toReactive()` exposes a model to templates, computed values and watchers.
+ *
+ * @example
+ * ```vue
+ * <script setup lang="ts">
+ * import { toReactive } from '@cartago-git/quickmodel/vue';
+ *
+ * const user = toReactive(new User(data));
+ * </script>
+ *
+ * <template>
+ *   <input v-model="user.email" />
+ *   <time>{{ user.createdAt.toLocaleDateString() }}</time>
+ * </template>
+ * ```
+ */
+
+import { customRef, getCurrentScope, onScopeDispose, type Ref } from 'vue';
+import type { QModel } from '../core/models/quick.model';
+import { ModelStore } from '../core/services/model-store.service';
+
+/**
+ * Wraps a model in a reactive view.
+ *
+ * Every field read through the view is tracked on its own (a `customRef` per field), so
+ * renders, `computed()` values and watchers only re-run when the fields they read change
+ * (changes of nested models count for the field that holds them). Writes go to the model,
+ * and changes made to the model directly are seen too. Values keep their model types
+ * (`Date`, `bigint`, `Map`, nested models, ...), and methods stay available.
+ *
+ * Called inside a component `setup()` (or any effect scope), the subscription to the model
+ * ends with the scope.
+ *
+ * @param model - The model instance
+ * @returns The reactive view of the model
+ */
+export function toReactive<M extends QModel<any>>(model: M): M {
+  const refs = new Map<string, Ref<unknown>>();
+  const triggers = new Map<string, () => void>();
+
+  const unsubscribe = new ModelStore(model).subscribe((field) => triggers.get(field)?.());
+  if (getCurrentScope()) {
+    onScopeDispose(unsubscribe);
+  }
+
+  const fieldRef = (field: string): Ref<unknown> => {
+    let ref = refs.get(field);
+    if (!ref) {
+      ref = customRef((track, trigger) => {
+        triggers.set(field, trigger);
+        return {
+          get: () => {
+            track();
+            return (model as Record<string, unknown>)[field];
+          },
+          set: (value) => {
+            (model as Record<string, unknown>)[field] = value;
+          },
+        };
+      });
+      refs.set(field, ref);
+    }
+    return ref;
+  };
+
+  return new Proxy(model, {
+    get(target, key, receiver) {
+      const value: unknown = Reflect.get(target, key, receiver);
+      // Internal storage keys and methods are not tracked
+      if (typeof key !== 'string' || key.startsWith('__') || typeof value === 'function') {
+        return value;
+      }
+      return fieldRef(key).value;
+    },
+    set(target, key, value) {
+      // Field setters run on the model, which emits the change
+      return Reflect.set(target, key, value);
+    },
+  });
+}
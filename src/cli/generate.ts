@@ -0,0 +1,179 @@
+/**
+ * `quickmodel generate`: writes the TypeScript source of models described by JSON files.
+ *
+ * Each input file is a JSON Schema, an OpenAPI document (its `components.schemas`) or a sample
+ * payload (an object, or an array of objects). The models are built with `ModelFactory` and
+ * printed with `CodeGenerator`, so the generated classes behave like the runtime ones.
+ *
+ * @example
+ * ```bash
+ * quickmodel generate schemas/user.schema.json api/openapi.json --out src/models
+ * quickmodel generate samples/order.json --name Order
+ * ```
+ */
+
+import { readFileSync, writeFileSync, mkdirSync } from 'node:fs';
+import { basename, dirname, extname, join } from 'node:path';
+import type { IQJSONSchema, IQOpenAPIComponents } from '../core/interfaces/json-schema.interface';
+import { ModelFactory } from '../core/services/model-factory.service';
+import { CodeGenerator } from '../core/services/code-generator.service';
+
+/**
+ * Options of `generateFile()`.
+ */
+export interface IQGenerateOptions {
+  /**
+   * Directory of the generated files (defaults to the directory of each input)
+   */
+  outDir?: string;
+
+  /**
+   * Name of the root model of JSON Schema and sample inputs (defaults to the schema `title`,
+   * or the file name: `order-line.json` → `OrderLine`)
+   */
+  name?: string;
+
+  /**
+   * Module the generated code imports QuickModel from
+   */
+  importFrom?: string;
+}
+
+/**
+ * Writes through which the CLI reports progress (console by default).
+ */
+export interface IQCliOutput {
+  log(message: string): void;
+  error(message: string): void;
+}
+
+const USAGE = `Usage: quickmodel generate <file.json...> [options]
+
+Generates QModel classes from JSON Schema, OpenAPI (components.schemas) or sample JSON files.
+
+Options:
+  --out <dir>        Directory of the generated .ts files (default: next to each input)
+  --name <Name>      Class name of the root model (JSON Schema and samples)
+  --import <module>  Module to import QuickModel from (default: @cartago-git/quickmodel)
+  --help             Show this help`;
+
+/**
+ * Generates the `.ts` file of one input file.
+ *
+ * @param path - Path of the JSON input
+ * @param options - Output directory, root class name and import path
+ * @returns Path of the written file
+ * @throws {Error} If the file is not valid JSON or does not describe models
+ */
+export function generateFile(path: string, options: IQGenerateOptions = {}): string {
+  let document: unknown;
+  try {
+    document = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    throw new Error(`${path}: ${error instanceof Error ? error.message : String(error)}`, { cause: error });
+  }
+
+  const stem = basename(path, extname(path));
+  const source = new CodeGenerator().generate(loadModels(document, options.name, pascalCase(stem.split('.')[0]!)), {
+    importFrom: options.importFrom,
+    header: `Generated by \`quickmodel generate\` from ${basename(path)}.`,
+  });
+
+  const outDir = options.outDir ?? dirname(path);
+  const output = join(outDir, `${stem}.ts`);
+  mkdirSync(outDir, { recursive: true });
+  writeFileSync(output, source);
+  return output;
+}
+
+/**
+ * Runs the CLI.
+ *
+ * @param args - Command line arguments (without the node and script paths)
+ * @param output - Where to report progress and errors
+ * @returns The exit code
+ */
+export function runCli(args: string[], output: IQCliOutput = console): number {
+  const [command, ...rest] = args;
+  if (command === undefined || command === '--help' || rest.includes('--help')) {
+    output.log(USAGE);
+    return command === undefined ? 1 : 0;
+  }
+  if (command !== 'generate') {
+    output.error(`Unknown command "${command}"\n\n${USAGE}`);
+    return 1;
+  }
+
+  const options: IQGenerateOptions = {};
+  const files: string[] = [];
+  const flags: Record<string, keyof IQGenerateOptions> = { '--out': 'outDir', '--name': 'name', '--import': 'importFrom' };
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i]!;
+    const flag = flags[arg];
+    if (flag) {
+      const value = rest[++i];
+      if (value === undefined) {
+        output.error(`Missing value for ${arg}`);
+        return 1;
+      }
+      options[flag] = value;
+    } else if (arg.startsWith('--')) {
+      output.error(`Unknown option "${arg}"\n\n${USAGE}`);
+      return 1;
+    } else {
+      files.push(arg);
+    }
+  }
+  if (files.length === 0) {
+    output.error(`No input files\n\n${USAGE}`);
+    return 1;
+  }
+
+  let exitCode = 0;
+  for (const file of files) {
+    try {
+      output.log(`${file} → ${generateFile(file, options)}`);
+    } catch (error) {
+      output.error(error instanceof Error ? error.message : String(error));
+      exitCode = 1;
+    }
+  }
+  return exitCode;
+}
+
+/**
+ * Builds the models described by a JSON document.
+ *
+ * @param name - Name of the root model given by the user
+ * @param fileName - Name derived from the file, used when neither `name` nor a schema `title` is given
+ */
+function loadModels(document: unknown, name: string | undefined, fileName: string): Function[] {
+  const factory = new ModelFactory();
+  if (Array.isArray(document)) {
+    const samples = document.filter((item): item is object => typeof item === 'object' && item !== null);
+    return [factory.fromSample(Object.assign({}, ...samples) as Record<string, unknown>, { name: name ?? fileName })];
+  }
+  if (typeof document !== 'object' || document === null) {
+    throw new Error('Expected a JSON Schema, an OpenAPI document or a sample object');
+  }
+
+  const candidate = document as Record<string, unknown> & Partial<IQOpenAPIComponents>;
+  if (candidate.components?.schemas) {
+    return Object.values(factory.fromOpenAPI(candidate as IQOpenAPIComponents));
+  }
+  if (typeof candidate.$schema === 'string' || (candidate.type === 'object' && typeof candidate.properties === 'object')) {
+    const schema = candidate as IQJSONSchema;
+    return [factory.fromJSONSchema(schema, { name: name ?? schema.title ?? fileName })];
+  }
+  return [factory.fromSample(candidate, { name: name ?? fileName })];
+}
+
+function pascalCase(value: string): string {
+  return (
+    value
+      .split(/[^a-zA-Z0-9]+/)
+      .filter(Boolean)
+      .map((word) => word[0]!.toUpperCase() + word.slice(1))
+      .join('') || 'Model'
+  );
+}
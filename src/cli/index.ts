@@ -0,0 +1,9 @@
+#!/usr/bin/env node
+/**
+ * QuickModel command line (`quickmodel generate ...`).
+ */
+
+import 'reflect-metadata';
+import { runCli } from './generate';
+
+process.exitCode = runCli(process.argv.slice(2));
@@ -0,0 +1,34 @@
+/**
+ * @QAlias() property decorator for mapping a property to a different key in serialized data.
+ *
+ * The alias takes precedence over the class naming strategy (`@Quick(map, { naming })`).
+ * Deserialization reads the alias and serialization (`serialize()`, `toJSON()`,
+ * `toInterface()`) writes it.
+ */
+
+import 'reflect-metadata';
+import { defineWireName } from '../helpers/property-naming';
+
+/**
+ * Property decorator that sets the key used for a property in serialized data.
+ *
+ * @param name - Key in serialized data
+ * @returns A property decorator function
+ *
+ * @example
+ * ```typescript
+ * class User extends QModel<IUser> {
+ *   @QAlias('user_id') userId!: string;
+ *   @QAlias('created_at') @QType(Date) createdAt!: Date; // or @QType(Date, { name: 'created_at' })
+ * }
+ *
+ * const user = new User({ user_id: 'u1', created_at: '2024-01-01T00:00:00.000Z' });
+ * user.userId;      // 'u1'
+ * user.serialize(); // { user_id: 'u1', created_at: '2024-01-01T00:00:00.000Z' }
+ * ```
+ */
+export function QAlias(name: string): PropertyDecorator {
+  return function (target: object, propertyKey: string | symbol): void {
+    defineWireName(target, propertyKey, name);
+  };
+}
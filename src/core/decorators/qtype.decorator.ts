@@ -12,6 +12,9 @@
  */
 
 import 'reflect-metadata';
+import { transformerRegistry } from '../services/transformer-registry.service';
+import { defineWireName } from '../helpers/property-naming';
+import type { QBinaryEncoding } from '../interfaces/binary-encoding.interface';
 
 /**
  * Available field types as string literals with IntelliSense support.
@@ -39,6 +42,7 @@ export type QTypeString =
   | 'error'
   | 'url'
   | 'urlsearchparams'
+  | 'decimal'
   // Special types without usable constructor
   | 'bigint'
   | 'symbol'
@@ -68,6 +72,56 @@ export type QTypeString =
  */
 export const QTYPES_METADATA_KEY = Symbol('quickmodel:qtypes');
 
+/**
+ * Discriminated union of nested models: the value of the `discriminator` key
+ * in the serialized data selects the model class of each value.
+ *
+ * @example
+ * ```typescript
+ * class Order extends QModel<IOrder> {
+ *   @QType({ discriminator: 'kind', map: { card: CardPayment, bank: BankTransfer } })
+ *   payments!: Payment[];
+ * }
+ * ```
+ */
+export interface IQDiscriminator {
+  /**
+   * Key of the tag in serialized data.
+   */
+  discriminator: string;
+
+  /**
+   * Model class of each tag value.
+   */
+  map: Record<string, new (data: any) => any>;
+}
+
+/**
+ * Options of the @QType() decorator (second argument).
+ */
+export interface IQTypeOptions {
+  /**
+   * Key of the property in serialized data (same as `@QAlias(name)`).
+   */
+  name?: string;
+
+  /**
+   * Marks the field as set by the server only (`readOnly` in JSON Schema and OpenAPI).
+   */
+  readOnly?: boolean;
+
+  /**
+   * Marks the field as sent by the client only, e.g. passwords (`writeOnly` in JSON Schema and OpenAPI).
+   */
+  writeOnly?: boolean;
+
+  /**
+   * Form of an `ArrayBuffer`, `DataView` or typed array field in serialized data
+   * (overrides the `binary` option of the class).
+   */
+  binary?: QBinaryEncoding;
+}
+
 /**
  * Property decorator for marking QModel fields with automatic type handling.
  * 
@@ -83,7 +137,8 @@ export const QTYPES_METADATA_KEY = Symbol('quickmodel:qtypes');
  * - Supports: String literals, Native constructors, Q-Symbols, Model classes
  * 
  * @template T - The property type
- * @param typeOrClass - Optional: Constructor, Symbol, or String literal for the field type
+ * @param typeOrClass - Optional: Constructor, Symbol, String literal or discriminated union for the field type
+ * @param options - Optional: Field options (e.g. the key used in serialized data)
  * @returns A property decorator function that registers the field with appropriate metadata
  * 
  * @example
@@ -114,6 +169,16 @@ export const QTYPES_METADATA_KEY = Symbol('quickmodel:qtypes');
  * ```
  * 
  * @example
+ * **Custom transformers** (registered in the `TransformerRegistry`):
+ * ```typescript
+ * transformerRegistry.register('money', new MoneyTransformer());
+ *
+ * class Invoice extends QModel<IInvoice> {
+ *   @QType('money') total!: Money;
+ * }
+ * ```
+ * 
+ * @example
  * **Native constructors**:
  * ```typescript
  * class Binary extends QModel<IBinary> {
@@ -136,6 +201,31 @@ export const QTYPES_METADATA_KEY = Symbol('quickmodel:qtypes');
  * ```
  * 
  * @example
+ * **Different key in serialized data**:
+ * ```typescript
+ * class User extends QModel<IUser> {
+ *   @QType(Date, { name: 'created_at' }) createdAt!: Date;
+ * }
+ * ```
+ * 
+ * @example
+ * **Read-only and write-only fields** (markers for JSON Schema and OpenAPI):
+ * ```typescript
+ * class User extends QModel<IUser> {
+ *   @QType(Date, { readOnly: true }) createdAt!: Date;
+ *   @QType(String, { writeOnly: true }) password!: string;
+ * }
+ * ```
+ * 
+ * @example
+ * **Binary fields as strings** (`'base64'`, `'base64url'` or `'hex'` instead of an array):
+ * ```typescript
+ * class Upload extends QModel<IUpload> {
+ *   @QType(Uint8Array, { binary: 'base64' }) content!: Uint8Array;
+ * }
+ * ```
+ * 
+ * @example
  * **Nested models**:
  * ```typescript
  * class User extends QModel<IUser> {
@@ -143,12 +233,22 @@ export const QTYPES_METADATA_KEY = Symbol('quickmodel:qtypes');
  *   @QType(Vehicle) vehicles!: Vehicle[];  // Array of models
  * }
  * ```
+ * 
+ * @example
+ * **Polymorphic nested models** (selected by a tag in the data):
+ * ```typescript
+ * class Order extends QModel<IOrder> {
+ *   @QType({ discriminator: 'kind', map: { card: CardPayment, bank: BankTransfer } })
+ *   payments!: Payment[];
+ * }
+ * ```
  */
 export function QType<T>(
   typeOrClass?: 
     | (new (data: any) => T) 
     | symbol 
     | QTypeString 
+    | (string & {}) // Aliases of custom transformers in the TransformerRegistry
     | BigIntConstructor 
     | SymbolConstructor 
     | SetConstructor 
@@ -158,8 +258,23 @@ export function QType<T>(
     | NumberConstructor
     | StringConstructor
     | PromiseConstructor
+    | IQDiscriminator,
+  options?: IQTypeOptions
 ): PropertyDecorator {
   return function (target: any, propertyKey: string | symbol): void {
+    if (options?.name) {
+      defineWireName(target, propertyKey, options.name);
+    }
+    if (options?.readOnly) {
+      Reflect.defineMetadata('readOnly', true, target, propertyKey);
+    }
+    if (options?.writeOnly) {
+      Reflect.defineMetadata('writeOnly', true, target, propertyKey);
+    }
+    if (options?.binary) {
+      Reflect.defineMetadata('binaryEncoding', options.binary, target, propertyKey);
+    }
+
     // Register the property in the fields list
     const existingFields = (Reflect.getMetadata(QTYPES_METADATA_KEY, target) as Array<string | symbol>) || [];
     if (!existingFields.includes(propertyKey)) {
@@ -179,7 +294,12 @@ export function QType<T>(
           return this[storageKey];
         },
         set(this: any, value: any) {
-          this[storageKey] = value;
+          // Models write through writeField() (immutability, history and change events)
+          if (typeof this.writeField === 'function') {
+            this.writeField(String(propertyKey), storageKey, value);
+          } else {
+            this[storageKey] = value;
+          }
         },
         enumerable: true,
         configurable: true
@@ -191,7 +311,17 @@ export function QType<T>(
       return;
     }
 
-    if (typeof typeOrClass === 'string') {
+    if (Array.isArray(typeOrClass)) {
+      // Array with its element type (`@Quick({ items: [Item] })`)
+      const element = (typeOrClass as unknown[]).find((spec) => typeof spec === 'function');
+      if (element) {
+        Reflect.defineMetadata('arrayElementClass', element, target, propertyKey);
+        Reflect.defineMetadata('design:type', Array, target, propertyKey);
+      }
+    } else if (typeof typeOrClass === 'object' && 'discriminator' in typeOrClass) {
+      // Discriminated union of models (single value or array)
+      Reflect.defineMetadata('discriminator', typeOrClass, target, propertyKey);
+    } else if (typeof typeOrClass === 'string') {
       // String literal ('bigint', 'regexp', 'int8array', etc.)
       Reflect.defineMetadata('fieldType', typeOrClass, target, propertyKey);
     } else if (typeOrClass === BigInt) {
@@ -239,14 +369,6 @@ export function QType<T>(
         return;
       }
       
-      // Check if it's an arrow function or regular function transformer
-      const funcStr = typeOrClass.toString();
-      if (funcStr.includes('=>') || funcStr.startsWith('function')) {
-        // It's a transformer function - store the function itself
-        Reflect.defineMetadata('fieldTransformer', typeOrClass, target, propertyKey);
-        return;
-      }
-      
       // Check if it's a registered native constructor (RegExp, Error, URL, etc.)
       type INativeConstructor = typeof RegExp | typeof Error | typeof URL | typeof URLSearchParams |
         typeof Int8Array | typeof Uint8Array | typeof Uint8ClampedArray | typeof Int16Array |
@@ -262,24 +384,37 @@ export function QType<T>(
         Set, Map
       ];
       
-      const isNativeConstructor = nativeConstructors.some(ctor => ctor === typeOrClass);
+      // Constructors with a registered transformer (built-in or custom) are values, not nested models
+      const isNativeConstructor =
+        nativeConstructors.some(ctor => ctor === typeOrClass) || transformerRegistry.has(typeOrClass);
+      
+      // Classes (including @Quick()-wrapped constructors) are never transformer functions,
+      // even if their source contains arrow functions. Neither are native constructors,
+      // whose source also starts with 'function'
+      const funcStr = typeOrClass.toString();
+      const isClass =
+        funcStr.startsWith('class') || typeof (typeOrClass as any).__createQuickInstance === 'function';
+
+      // Check if it's an arrow function or regular function transformer
+      if (!isClass && !isNativeConstructor && (funcStr.includes('=>') || funcStr.startsWith('function'))) {
+        // It's a transformer function - store the function itself
+        Reflect.defineMetadata('fieldTransformer', typeOrClass, target, propertyKey);
+        return;
+      }
       
       if (isNativeConstructor) {
         // Store as fieldType using the constructor directly
         Reflect.defineMetadata('fieldType', typeOrClass, target, propertyKey);
       } else {
         // Check if it's a constructor (has prototype property) vs a plain function
-        const hasPrototype = typeOrClass.prototype && typeOrClass.prototype.constructor === typeOrClass;
+        const hasPrototype =
+          isClass || (typeOrClass.prototype && typeOrClass.prototype.constructor === typeOrClass);
         
         if (hasPrototype) {
-          // It's a custom model class (for arrays or nested models)
+          // It's a custom model class: a nested model, or the items of an array when the
+          // declared type is Array (`@QType(Tag) tags!: Tag[]`). Without a declared type
+          // (`@Quick()` fields), the data tells which one it is
           Reflect.defineMetadata('arrayElementClass', typeOrClass, target, propertyKey);
-          
-          // Also set design:type to Array if not already set
-          const existingDesignType = Reflect.getMetadata('design:type', target, propertyKey);
-          if (!existingDesignType) {
-            Reflect.defineMetadata('design:type', Array, target, propertyKey);
-          }
         } else {
           // It's a transformer function (Math.round, btoa, arrow function, etc.)
           // Examples: Math.round, Math.floor, btoa, atob, JSON.parse, (v) => v * 2
@@ -73,11 +73,18 @@
 
 import 'reflect-metadata';
 import { QType } from './qtype.decorator';
-import { ModelDeserializer } from '../services/model-deserializer.service';
+import type { IQDiscriminator } from './qtype.decorator';
 import type { IQTypeAlias } from '../interfaces/qtype-symbols.interface';
+import type { QValidateMode } from '../interfaces/validation.interface';
+import type { QTransformerSource } from '../services/transformer-registry.service';
+import type { QMigrations } from '../interfaces/versioning.interface';
+import type { QJsonMode } from '../interfaces/typed-json.interface';
+import type { QBinaryEncoding } from '../interfaces/binary-encoding.interface';
+import { QNamingStrategy, toPropertyName } from '../helpers/property-naming';
 
 const QUICK_DECORATOR_KEY = '__quickModel__';
 const QUICK_TYPE_MAP_KEY = '__quickTypeMap__';
+const QUICK_CONFIG_KEY = '__quickConfig__';
 
 /**
  * Constructor type for class-based type mapping
@@ -96,11 +103,13 @@ type ITransformerFunction = (value: any) => any;
  * - String literals: 'bigint', 'date', 'regexp', 'map', 'set', etc. (type conversions)
  * - Constructors: Date, RegExp, Map, Set, BigInt, Symbol, custom classes
  * - Transformer functions: (value) => transformed value (arrow or regular functions)
+ * - Discriminated unions: { discriminator: 'kind', map: { card: CardPayment } }
  */
 export type ISpec =
 	| IQTypeAlias // String literals like 'bigint', 'date', 'regexp'
 	| IConstructor // Constructors like Date, RegExp, Map, custom classes
-	| ITransformerFunction;
+	| ITransformerFunction
+	| IQDiscriminator; // Polymorphic nested models selected by a tag
 
 /**
  * All supported type specifications for @Quick() decorator for arrays
@@ -109,7 +118,7 @@ export type ISpec =
  * - String literals: 'bigint', 'date', 'regexp', 'map', 'set', etc. (type conversions)
  * - Constructors: Date, RegExp, Map, Set, BigInt, Symbol, custom classes
  * - Transformer functions: (value) => transformed value (arrow or regular functions)
- * - Array with element type: [Date, undefined, null]
+ * - Array with element type: [Item] (array of models), [Date, undefined, null]
  */
 export type ISpecs = ISpec[]; // Array of any Spec
 
@@ -131,6 +140,66 @@ export interface IQuickOptions {
 	[propertyName: string]: ISpec | ISpecs;
 }
 
+/**
+ * Class-level behaviour options for @Quick() (second argument)
+ *
+ * @example
+ * ```typescript
+ * @Quick({ createdAt: Date }, { validate: 'throw' })
+ * class User extends QModel<IUser> { ... }
+ * ```
+ */
+export interface IQuickConfig {
+	/**
+	 * Validate-on-construct mode. Overrides the global `QModel.configure()` setting.
+	 */
+	validate?: QValidateMode;
+
+	/**
+	 * Transformers of this model, overriding the inherited ones by alias
+	 * (e.g. `{ date: new EpochDateTransformer() }`), or a complete `TransformerRegistry`.
+	 * Nested models inherit them unless their own class overrides them.
+	 */
+	transformers?: QTransformerSource;
+
+	/**
+	 * Naming strategy of the keys in serialized data (e.g. `'snake_case'` maps
+	 * `createdAt` ↔ `created_at`). Properties with `@QAlias()` keep their alias.
+	 */
+	naming?: QNamingStrategy;
+
+	/**
+	 * Current schema version. `serialize()` stamps it as `__v`, and older
+	 * payloads are upgraded with `migrations` when deserialized.
+	 */
+	version?: number;
+
+	/**
+	 * Migrations keyed by the version they upgrade from (`{ 1: (v1) => v2, 2: (v2) => v3 }`).
+	 */
+	migrations?: QMigrations;
+
+	/**
+	 * Freezes every instance on construction (see `model.freeze()`): fields cannot be
+	 * set, and updates return new instances with `model.with()`.
+	 */
+	immutable?: boolean;
+
+	/**
+	 * JSON mode of `toJSON()` / `fromJSON()` (default `'plain'`). In `'typed'` mode, values JSON
+	 * has no type for are written as self-describing envelopes and read back losslessly,
+	 * even in undeclared fields.
+	 */
+	json?: QJsonMode;
+
+	/**
+	 * Form of `ArrayBuffer`, `DataView` and typed array fields in serialized data (default `'array'`).
+	 * Fields can override it with `@QType(type, { binary })`. Every form is read back.
+	 * Set globally with `QModel.configure({ binary })`.
+	 */
+	binary?: QBinaryEncoding;
+}
+
 /**
  * Class decorator that automatically applies @QType() to all properties.
  *
@@ -141,6 +210,7 @@ export interface IQuickOptions {
  * - Without explicit declaration, values are used as-is with TypeScript metadata only
  *
  * @param typeMap REQUIRED mapping for Set, Map, custom classes, and transformers
+ * @param config Optional class-level behaviour (validation mode, ...)
  * @returns A class decorator function
  *
  * @example
@@ -284,7 +354,10 @@ export interface IQuickOptions {
  *
  * @see {@link QType} for per-property decoration (supports TypeScript metadata for `!` syntax)
  */
-export function Quick(typeMap?: IQuickOptions): ClassDecorator {
+export function Quick(
+	typeMap?: IQuickOptions,
+	config?: IQuickConfig
+): ClassDecorator {
 	return function <T extends Function>(target: T): any {
 		// Mark class as using @Quick() for auto-registration
 		Reflect.defineMetadata(QUICK_DECORATOR_KEY, true, target);
@@ -294,6 +367,11 @@ export function Quick(typeMap?: IQuickOptions): ClassDecorator {
 			Reflect.defineMetadata(QUICK_TYPE_MAP_KEY, typeMap, target);
 		}
 
+		// Store class-level config if provided
+		if (config) {
+			Reflect.defineMetadata(QUICK_CONFIG_KEY, config, target);
+		}
+
 		// Add static method for creating instances (used by deserializer)
 		// This allows us to bypass the field initialization problem with `!`
 		(target as any).__createQuickInstance = function (data: any) {
@@ -305,42 +383,13 @@ export function Quick(typeMap?: IQuickOptions): ClassDecorator {
 			// This method is useful for declare syntax or programmatic instance creation
 
 			// Register properties if not already done
-			const typeMap =
-				Reflect.getMetadata(QUICK_TYPE_MAP_KEY, target) || {};
-			const properties = Object.keys(data);
-
-			for (const propertyKey of properties) {
-				const existingFieldType = Reflect.getMetadata(
-					'fieldType',
-					target.prototype,
-					propertyKey
-				);
-				const existingArrayClass = Reflect.getMetadata(
-					'arrayElementClass',
-					target.prototype,
-					propertyKey
-				);
-
-				if (
-					existingFieldType !== undefined ||
-					existingArrayClass !== undefined
-				) {
-					continue;
-				}
-
-				const mappedType = typeMap[propertyKey];
-				if (mappedType) {
-					Reflect.defineMetadata(
-						'design:type',
-						mappedType,
-						target.prototype,
-						propertyKey
-					);
-				}
-
-				const decorator = QType();
-				decorator(target.prototype, propertyKey);
-			}
+			const naming = getQuickConfig(target).naming;
+			registerQuickProperties(
+				target,
+				Object.keys(data).map((key) =>
+					toPropertyName(target.prototype, key, naming)
+				)
+			);
 
 			return instance;
 		};
@@ -367,10 +416,22 @@ export function Quick(typeMap?: IQuickOptions): ClassDecorator {
 						originalConstructor
 					) || {};
 
-				// Combine properties from data AND typeMap
+				// Combine properties from data (keys mapped to property names) AND typeMap
 				// This ensures we process properties even if they're not in the current data
+				// Internal keys (e.g. the `__v` version stamp) and the keys of payloads
+				// older than the model version (renamed by migrations) are not properties
+				const { naming, version } = getQuickConfig(originalConstructor);
+				const isOlderPayload =
+					version !== undefined &&
+					data.__v !== undefined &&
+					data.__v !== version;
+				const dataKeys = isOlderPayload
+					? []
+					: Object.keys(data).filter((key) => !key.startsWith('__'));
 				const allProperties = new Set([
-					...Object.keys(data),
+					...dataKeys.map((key) =>
+						toPropertyName(originalConstructor.prototype, key, naming)
+					),
 					...Object.keys(typeMap),
 				]);
 
@@ -511,3 +572,65 @@ export function Quick(typeMap?: IQuickOptions): ClassDecorator {
 export function isQuickDecorated(constructor: Function): boolean {
 	return Reflect.getMetadata(QUICK_DECORATOR_KEY, constructor) === true;
 }
+
+/**
+ * Returns the @Quick() config of a class (inherited from parent classes)
+ * @internal
+ */
+export function getQuickConfig(constructor: Function): IQuickConfig {
+	return Reflect.getMetadata(QUICK_CONFIG_KEY, constructor) || {};
+}
+
+/**
+ * Registers properties of a @Quick() class that have no type metadata yet,
+ * using the type map (same registration as the wrapped constructor).
+ *
+ * @param target - The @Quick() class
+ * @param properties - Property names to register (defaults to the keys of the type map)
+ * @internal
+ */
+export function registerQuickProperties(
+	target: Function,
+	properties?: Iterable<string>
+): void {
+	const typeMap = Reflect.getMetadata(QUICK_TYPE_MAP_KEY, target) || {};
+
+	for (const propertyKey of properties ?? Object.keys(typeMap)) {
+		const existingFieldType = Reflect.getMetadata(
+			'fieldType',
+			target.prototype,
+			propertyKey
+		);
+		const existingArrayClass = Reflect.getMetadata(
+			'arrayElementClass',
+			target.prototype,
+			propertyKey
+		);
+
+		if (
+			existingFieldType !== undefined ||
+			existingArrayClass !== undefined
+		) {
+			continue;
+		}
+
+		// Nested models keep array element classes from the type map
+		const mappedType = typeMap[propertyKey];
+		const decorator = mappedType ? QType(mappedType) : QType();
+		decorator(target.prototype, propertyKey);
+
+		// Types without transformer metadata (e.g. Symbol) resolve via design:type
+		if (
+			typeof mappedType === 'function' &&
+			Reflect.getMetadata('fieldType', target.prototype, propertyKey) === undefined &&
+			Reflect.getMetadata('arrayElementClass', target.prototype, propertyKey) === undefined
+		) {
+			Reflect.defineMetadata(
+				'design:type',
+				mappedType,
+				target.prototype,
+				propertyKey
+			);
+		}
+	}
+}
@@ -0,0 +1,43 @@
+import { QuickModelError } from './quickmodel.error';
+
+/**
+ * Thrown when a value cannot be converted into its model field type.
+ *
+ * `path` points at the failing value from the root model, through nested
+ * models and array elements (e.g. `/orders/3/items/0/price`).
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   new Customer(data);
+ * } catch (error) {
+ *   if (error instanceof DeserializationError) {
+ *     console.log(error.path); // '/orders/3/items/0/addedAt'
+ *   }
+ * }
+ * ```
+ */
+export class DeserializationError extends QuickModelError {
+  constructor(...args: ConstructorParameters<typeof QuickModelError>) {
+    super(...args);
+    this.name = 'DeserializationError';
+  }
+
+  /**
+   * Locates an error thrown while deserializing the value at `path`.
+   *
+   * Errors already located by a nested model or array element keep their deeper path.
+   * Any other error is wrapped in a DeserializationError (the original is kept as `cause`).
+   *
+   * @param error - The caught error
+   * @param path - JSON pointer of the value being deserialized
+   */
+  static at(error: unknown, path: string): QuickModelError {
+    if (error instanceof QuickModelError) {
+      return error.path ? error : error.withPath(path);
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    return new DeserializationError(message, { path }, { cause: error });
+  }
+}
@@ -0,0 +1,27 @@
+import { QuickModelError } from './quickmodel.error';
+
+/**
+ * Thrown when a frozen model is modified: a field set, a `patch()` / `applyPatch()` /
+ * `reset()` call, or a mutation of one of its `Map`, `Set` or typed-array fields.
+ *
+ * `path` is the pointer of the field (`''` for whole-model updates). The model is left unchanged.
+ *
+ * @example
+ * ```typescript
+ * const user = new User(data).freeze();
+ * try {
+ *   user.tags.add('admin');
+ * } catch (error) {
+ *   if (error instanceof ImmutableModelError) {
+ *     console.log(error.path); // '/tags'
+ *   }
+ * }
+ * const admin = user.with({ tags: [...user.tags, 'admin'] }); // new instance instead
+ * ```
+ */
+export class ImmutableModelError extends QuickModelError {
+  constructor(...args: ConstructorParameters<typeof QuickModelError>) {
+    super(...args);
+    this.name = 'ImmutableModelError';
+  }
+}
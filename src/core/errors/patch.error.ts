@@ -0,0 +1,25 @@
+import { QuickModelError } from './quickmodel.error';
+
+/**
+ * Thrown when a JSON Patch operation cannot be applied to a model:
+ * its path does not exist, its operation is unknown or a `test` fails.
+ *
+ * `path` is the pointer of the failing operation. The model is left unchanged.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   order.applyPatch([{ op: 'test', path: '/status', value: 'draft' }, ...ops]);
+ * } catch (error) {
+ *   if (error instanceof PatchError) {
+ *     console.log(error.path); // '/status'
+ *   }
+ * }
+ * ```
+ */
+export class PatchError extends QuickModelError {
+  constructor(...args: ConstructorParameters<typeof QuickModelError>) {
+    super(...args);
+    this.name = 'PatchError';
+  }
+}
@@ -1,26 +1,63 @@
+import type { IQValidationResult } from '../interfaces/transformer.interface';
+
+/**
+ * Contextual information carried by every QuickModel error.
+ */
+export interface IQuickModelErrorContext {
+  className?: string;
+  propertyKey?: string;
+  value?: unknown;
+  expectedType?: string;
+  /** JSON pointer of the failing value, e.g. `/orders/3/items/0/price` ('' for the model itself) */
+  path?: string;
+  errors?: IQValidationResult[];
+}
+
 /**
  * Custom error for QuickModel.
  * Provides additional contextual information about transformation errors.
+ *
+ * Base class of {@link DeserializationError}, {@link SerializationError},
+ * {@link CircularReferenceError} and {@link ValidationError}.
  */
 export class QuickModelError extends Error {
+  /**
+   * JSON pointer of the failing value, relative to the model being processed.
+   * Nested models and array elements are included, e.g. `/orders/3/items/0/price`.
+   */
+  readonly path: string;
+
   constructor(
     message: string,
-    public readonly context?: {
-      className?: string;
-      propertyKey?: string;
-      value?: unknown;
-      expectedType?: string;
-    },
+    public readonly context?: IQuickModelErrorContext,
+    options?: ErrorOptions,
   ) {
-    super(message);
+    super(message, options);
     this.name = 'QuickModelError';
+    this.path = context?.path ?? '';
 
     // Maintain correct stack trace
     if (Error.captureStackTrace) {
-      Error.captureStackTrace(this, QuickModelError);
+      Error.captureStackTrace(this, new.target);
     }
   }
 
+  /**
+   * Returns a copy of this error (same class, message and stack) located at `path`.
+   *
+   * @param path - The new JSON pointer
+   */
+  withPath(path: string): this {
+    const ErrorClass = this.constructor as new (
+      message: string,
+      context?: IQuickModelErrorContext,
+      options?: ErrorOptions,
+    ) => this;
+    const copy = new ErrorClass(this.message, { ...this.context, path }, { cause: this.cause });
+    copy.stack = this.stack;
+    return copy;
+  }
+
   /**
    * Helper to create invalid type errors.
    */
@@ -31,7 +68,7 @@ export class QuickModelError extends Error {
     actualValue: unknown,
   ): QuickModelError {
     const actualType = actualValue === null ? 'null' : typeof actualValue;
-    return new QuickModelError(
+    return new this(
       `${className}.${propertyKey}: Expected ${expectedType}, got ${actualType}`,
       {
         className,
@@ -51,7 +88,7 @@ export class QuickModelError extends Error {
     value: unknown,
     reason: string,
   ): QuickModelError {
-    return new QuickModelError(`${className}.${propertyKey}: Invalid value "${value}": ${reason}`, {
+    return new this(`${className}.${propertyKey}: Invalid value "${value}": ${reason}`, {
       className,
       propertyKey,
       value,
@@ -0,0 +1,46 @@
+import { QuickModelError } from './quickmodel.error';
+
+/**
+ * Thrown when a model value cannot be converted to its plain/JSON form.
+ *
+ * `path` points at the failing value from the root model, through nested
+ * models and array elements (e.g. `/orders/3/items/0/price`).
+ */
+export class SerializationError extends QuickModelError {
+  constructor(...args: ConstructorParameters<typeof QuickModelError>) {
+    super(...args);
+    this.name = 'SerializationError';
+  }
+
+  /**
+   * Prefixes the path of an error thrown while serializing a child value.
+   *
+   * Serialization errors are raised by the innermost model, so their path is
+   * completed while unwinding. Errors that are not QuickModel errors are wrapped
+   * in a SerializationError (the original is kept as `cause`).
+   *
+   * @param error - The caught error
+   * @param pointer - JSON pointer of the child value inside the current model
+   */
+  static within(error: unknown, pointer: string): QuickModelError {
+    if (error instanceof QuickModelError) {
+      return error.withPath(pointer + error.path);
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    return new SerializationError(message, { path: pointer }, { cause: error });
+  }
+}
+
+/**
+ * Thrown when a model references itself, directly or through nested models,
+ * and therefore cannot be serialized.
+ *
+ * `path` points at the property that closes the cycle.
+ */
+export class CircularReferenceError extends SerializationError {
+  constructor(...args: ConstructorParameters<typeof QuickModelError>) {
+    super(...args);
+    this.name = 'CircularReferenceError';
+  }
+}
@@ -0,0 +1,37 @@
+import type { IQValidationResult } from '../interfaces/transformer.interface';
+import { QuickModelError } from './quickmodel.error';
+
+/**
+ * Thrown by models in 'throw' validation mode.
+ * Aggregates every failing field, each with its own JSON pointer in `errors[].path`.
+ */
+export class ValidationError extends QuickModelError {
+  constructor(...args: ConstructorParameters<typeof QuickModelError>) {
+    super(...args);
+    this.name = 'ValidationError';
+  }
+
+  /**
+   * Every failing field, in the order it was detected.
+   */
+  get errors(): IQValidationResult[] {
+    return this.context?.errors ?? [];
+  }
+
+  /**
+   * Creates an aggregated error listing every failing path.
+   *
+   * @param className - Name of the model that failed validation
+   * @param errors - The failed validation results
+   */
+  static fromResults(className: string, errors: IQValidationResult[]): ValidationError {
+    const lines = errors.map((result) => `  - ${result.path || '/'}: ${result.error}`);
+    return new ValidationError(
+      `${className}: ${errors.length} validation error(s)\n${lines.join('\n')}`,
+      {
+        className,
+        errors,
+      },
+    );
+  }
+}
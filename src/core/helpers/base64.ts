@@ -0,0 +1,42 @@
+/**
+ * Base64 (RFC 4648) helpers for binary values written as text.
+ *
+ * @example
+ * ```typescript
+ * toBase64(new Uint8Array([1, 2, 3])); // 'AQID'
+ * fromBase64('AQID');                   // Uint8Array [1, 2, 3]
+ * ```
+ */
+
+// Bytes per String.fromCharCode() call, below the engines' argument limits
+const CHUNK_SIZE = 0x8000;
+
+/**
+ * Encodes bytes as base64.
+ */
+export const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let offset = 0; offset < bytes.byteLength; offset += CHUNK_SIZE) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + CHUNK_SIZE));
+  }
+  return btoa(binary);
+};
+
+/**
+ * Decodes base64 text.
+ *
+ * @returns The bytes, or `undefined` if the text is not valid base64
+ */
+export const fromBase64 = (text: string): Uint8Array<ArrayBuffer> | undefined => {
+  let binary: string;
+  try {
+    binary = atob(text);
+  } catch {
+    return undefined;
+  }
+  const bytes = new Uint8Array(binary.length);
+  for (let index = 0; index < binary.length; index++) {
+    bytes[index] = binary.charCodeAt(index);
+  }
+  return bytes;
+};
@@ -0,0 +1,118 @@
+/**
+ * Text forms of binary values (`QBinaryEncoding`): base64, base64url and hex.
+ *
+ * @example
+ * ```typescript
+ * encodeBytes(new Uint8Array([251, 255]), 'base64');    // '+/8='
+ * encodeBytes(new Uint8Array([251, 255]), 'base64url'); // '-_8'
+ * encodeBytes(new Uint8Array([251, 255]), 'hex');       // 'fbff'
+ * decodeBytes('-_8');                                   // Uint8Array [251, 255]
+ * ```
+ */
+
+import type { QBinaryEncoding } from '../interfaces/binary-encoding.interface';
+import type { IQJSONSchema } from '../interfaces/json-schema.interface';
+import { fromBase64, toBase64 } from './base64';
+
+const LITTLE_ENDIAN = new Uint8Array(new Uint16Array([1]).buffer)[0] === 1;
+
+const HEX_PATTERN = /^(?:[0-9a-fA-F]{2})*$/;
+
+// One alphabet or the other, not both
+const BASE64_PATTERN = /^(?:[A-Za-z0-9+/]*|[A-Za-z0-9_-]*)={0,2}$/;
+
+/**
+ * Encodes bytes as text.
+ */
+export const encodeBytes = (
+  bytes: Uint8Array,
+  encoding: Exclude<QBinaryEncoding, 'array'>
+): string => {
+  switch (encoding) {
+    case 'base64':
+      return toBase64(bytes);
+    case 'base64url':
+      return toBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+    case 'hex':
+      return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+  }
+};
+
+/**
+ * Decodes text written in any of the string forms.
+ *
+ * Base64 and base64url are told apart by their alphabets, and only read in their canonical
+ * form (the one `encodeBytes()` writes, padded or not). A string made only of hex digits
+ * could also be base64: it is read as hex unless `encoding` (the field's own form) is
+ * `'base64'` or `'base64url'`, so an odd number of hex digits is invalid in other fields.
+ *
+ * @param text - The text to decode
+ * @param encoding - Encoding of the field the text was written for
+ * @returns The bytes, or `undefined` if the text is in none of the forms
+ */
+export const decodeBytes = (
+  text: string,
+  encoding: QBinaryEncoding = 'array'
+): Uint8Array<ArrayBuffer> | undefined => {
+  if (/^[0-9a-fA-F]*$/.test(text) && encoding !== 'base64' && encoding !== 'base64url') {
+    return HEX_PATTERN.test(text) ? fromHex(text) : undefined;
+  }
+  return fromCanonicalBase64(text) ?? (HEX_PATTERN.test(text) ? fromHex(text) : undefined);
+};
+
+const fromCanonicalBase64 = (text: string): Uint8Array<ArrayBuffer> | undefined => {
+  if (!BASE64_PATTERN.test(text)) {
+    return undefined;
+  }
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  const bytes = fromBase64(base64);
+  if (!bytes) {
+    return undefined;
+  }
+  // atob() ignores the unused bits of the last character ('zz' and 'zw' are both [207])
+  const canonical = toBase64(bytes);
+  return base64 === canonical || base64 === canonical.replace(/=+$/, '') ? bytes : undefined;
+};
+
+const fromHex = (text: string): Uint8Array<ArrayBuffer> => {
+  const bytes = new Uint8Array(text.length / 2);
+  for (let index = 0; index < bytes.length; index++) {
+    bytes[index] = parseInt(text.slice(index * 2, index * 2 + 2), 16);
+  }
+  return bytes;
+};
+
+/**
+ * Returns the JSON Schema of a binary value written in a string form.
+ */
+export const binaryStringSchema = (encoding: Exclude<QBinaryEncoding, 'array'>): IQJSONSchema => ({
+  type: 'string',
+  contentEncoding: encoding === 'hex' ? 'base16' : encoding,
+});
+
+/**
+ * Returns a copy of the bytes of a typed array (or any view) in little-endian order.
+ */
+export const littleEndianBytes = (value: ArrayBufferView): Uint8Array<ArrayBuffer> => {
+  const bytes = new Uint8Array(value.buffer, value.byteOffset, value.byteLength).slice();
+  if (!LITTLE_ENDIAN) {
+    swapBytes(bytes, (value as unknown as { BYTES_PER_ELEMENT?: number }).BYTES_PER_ELEMENT ?? 1);
+  }
+  return bytes;
+};
+
+/**
+ * Converts little-endian elements of `size` bytes to the platform's order, in place.
+ */
+export const fromLittleEndian = (bytes: Uint8Array, size: number): void => {
+  if (!LITTLE_ENDIAN) {
+    swapBytes(bytes, size);
+  }
+};
+
+const swapBytes = (bytes: Uint8Array, size: number): void => {
+  if (size === 1) return;
+  for (let offset = 0; offset < bytes.byteLength; offset += size) {
+    bytes.subarray(offset, offset + size).reverse();
+  }
+};
@@ -0,0 +1,38 @@
+/**
+ * JSON pointer (RFC 6901) helpers used to locate values inside a model.
+ *
+ * @example
+ * ```typescript
+ * appendPointer('/orders/3', 'items'); // '/orders/3/items'
+ * appendPointer('', 'a/b');            // '/a~1b'
+ * parsePointer('/a~1b/0');              // ['a/b', '0']
+ * ```
+ */
+
+/**
+ * Escapes a property name or array index as a JSON pointer segment.
+ */
+export const escapePointerSegment = (segment: string | number): string =>
+  String(segment).replace(/~/g, '~0').replace(/\//g, '~1');
+
+/**
+ * Appends a segment to a JSON pointer.
+ *
+ * @param pointer - Base pointer ('' for the root)
+ * @param segment - Property name or array index
+ */
+export const appendPointer = (pointer: string, segment: string | number): string =>
+  `${pointer}/${escapePointerSegment(segment)}`;
+
+/**
+ * Splits a JSON pointer into its unescaped segments.
+ *
+ * @param pointer - The pointer ('' for the root); a leading '#' (URI fragment) is ignored
+ * @returns The property names and array indexes, in order
+ */
+export const parsePointer = (pointer: string): string[] =>
+  pointer
+    .replace(/^#/, '')
+    .split('/')
+    .slice(1)
+    .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
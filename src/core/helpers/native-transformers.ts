@@ -0,0 +1,99 @@
+/**
+ * Transformers of the binary wire formats (MessagePack, CBOR).
+ *
+ * Binary formats have types of their own for dates, bigints or bytes: their transformers
+ * keep these values native when serializing (for the codec to write them), and accept the
+ * decoded values when deserializing.
+ */
+
+import type { IQTransformer } from '../interfaces/transformer.interface';
+import { BaseTransformer } from '../bases/base-transformer';
+import { DeserializationError } from '../errors/deserialization.error';
+import {
+  transformerRegistry,
+  type QTransformerOverrides,
+} from '../services/transformer-registry.service';
+
+/**
+ * Keeps values native when serializing, and deserializes the decoded values (falling back
+ * to the default transformer for other inputs).
+ */
+class NativeTransformer extends BaseTransformer {
+  constructor(
+    private readonly fallback: IQTransformer,
+    private readonly fromBytes?: (bytes: Uint8Array) => unknown
+  ) {
+    super();
+  }
+
+  deserialize(value: unknown, propertyKey: string, className: string): unknown {
+    if (this.fromBytes && value instanceof Uint8Array) {
+      return this.fromBytes(value);
+    }
+    return this.fallback.deserialize(value, propertyKey, className);
+  }
+
+  serialize(value: unknown): unknown {
+    return value;
+  }
+}
+
+type QTypedArrayConstructor = new (buffer: ArrayBuffer) => ArrayBufferView;
+
+/**
+ * Returns the native transformer of a built-in alias.
+ *
+ * @param alias - Alias of the default transformer (e.g. `date`)
+ * @param fromBytes - Converts decoded bytes (`Uint8Array`) to the field's type
+ */
+export function nativeTransformer(
+  alias: string,
+  fromBytes?: (bytes: Uint8Array) => unknown
+): [string, IQTransformer] {
+  return [alias, new NativeTransformer(transformerRegistry.get(alias)!, fromBytes)];
+}
+
+/**
+ * Builds the transformers of a binary format, keyed by alias: dates, bigints, buffers and
+ * typed arrays stay native.
+ *
+ * @param formatName - Name of the format, for error messages
+ */
+export function binaryTransformers(formatName: string): QTransformerOverrides {
+  const typedArrays: QTypedArrayConstructor[] = [
+    Int8Array,
+    Uint8Array,
+    Uint8ClampedArray,
+    Int16Array,
+    Uint16Array,
+    Int32Array,
+    Uint32Array,
+    Float32Array,
+    Float64Array,
+    BigInt64Array,
+    BigUint64Array,
+  ];
+
+  return Object.fromEntries([
+    nativeTransformer('date'),
+    nativeTransformer('bigint'),
+    nativeTransformer('arraybuffer', (bytes) => bytes.slice().buffer),
+    nativeTransformer('dataview', (bytes) => new DataView(bytes.slice().buffer)),
+    nativeTransformer('sharedarraybuffer', (bytes) => {
+      const shared = new SharedArrayBuffer(bytes.byteLength);
+      new Uint8Array(shared).set(bytes);
+      return shared;
+    }),
+    ...typedArrays.map((TypedArray) =>
+      nativeTransformer(TypedArray.name, (bytes) => {
+        const size = (TypedArray as unknown as { BYTES_PER_ELEMENT: number }).BYTES_PER_ELEMENT;
+        if (bytes.byteLength % size !== 0) {
+          throw new DeserializationError(
+            `${formatName}: ${bytes.byteLength} bytes are not a whole number of ${TypedArray.name} elements`
+          );
+        }
+        return new TypedArray(bytes.slice().buffer);
+      })
+    ),
+  ]);
+}
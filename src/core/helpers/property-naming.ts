@@ -0,0 +1,97 @@
+/**
+ * Property name mapping between model properties and wire (serialized) keys.
+ *
+ * A key is resolved in this order:
+ * 1. Per-property alias (`@QAlias('created_at')` or `@QType(Date, { name: 'created_at' })`)
+ * 2. Class-level naming strategy (`@Quick(map, { naming: 'snake_case' })`)
+ * 3. The property name itself
+ *
+ * Strategies assume camelCase property names, so `createdAt` ↔ `created_at` round-trips.
+ * Use an alias for properties that do not follow that convention.
+ *
+ * @example
+ * ```typescript
+ * toWireName(User.prototype, 'createdAt', 'snake_case');     // 'created_at'
+ * toPropertyName(User.prototype, 'created_at', 'snake_case'); // 'createdAt'
+ * ```
+ */
+
+import 'reflect-metadata';
+import { kebabCase, snakeCase } from './transform-helpers';
+
+/**
+ * Naming strategy of the wire keys of a model.
+ * `camelCase` (the default) keeps property names as they are.
+ */
+export type QNamingStrategy = 'camelCase' | 'snake_case' | 'kebab-case' | 'PascalCase';
+
+/**
+ * Metadata key of the per-property aliases of a class (property name → wire name).
+ *
+ * @internal
+ */
+export const QALIASES_METADATA_KEY = Symbol('quickmodel:aliases');
+
+// Converts a separated key (created_at, created-at) back to camelCase
+const fromSeparated = (key: string): string =>
+  key.replace(/(?<=[a-zA-Z0-9])[_-]([a-zA-Z0-9])/g, (_, chr: string) => chr.toUpperCase());
+
+const toWire: Record<QNamingStrategy, (key: string) => string> = {
+  camelCase: (key) => key,
+  snake_case: snakeCase,
+  'kebab-case': kebabCase,
+  PascalCase: (key) => key.charAt(0).toUpperCase() + key.slice(1),
+};
+
+const toProperty: Record<QNamingStrategy, (key: string) => string> = {
+  camelCase: (key) => key,
+  snake_case: fromSeparated,
+  'kebab-case': fromSeparated,
+  PascalCase: (key) => key.charAt(0).toLowerCase() + key.slice(1),
+};
+
+/**
+ * Stores the wire name of a property.
+ *
+ * @param target - Class prototype
+ * @param propertyKey - Property name
+ * @param name - Key used in serialized data
+ */
+export function defineWireName(target: object, propertyKey: string | symbol, name: string): void {
+  const aliases = getWireNames(target);
+  Reflect.defineMetadata(QALIASES_METADATA_KEY, { ...aliases, [propertyKey]: name }, target);
+}
+
+/**
+ * Returns the per-property aliases of a class or instance (property name → wire name).
+ */
+export function getWireNames(target: object): Readonly<Record<string, string>> {
+  return Reflect.getMetadata(QALIASES_METADATA_KEY, target) || {};
+}
+
+/**
+ * Returns the key used in serialized data for a property.
+ *
+ * @param target - Class prototype or model instance
+ * @param propertyKey - Property name
+ * @param naming - Naming strategy of the class
+ */
+export function toWireName(target: object, propertyKey: string, naming?: QNamingStrategy): string {
+  return getWireNames(target)[propertyKey] ?? (naming ? toWire[naming](propertyKey) : propertyKey);
+}
+
+/**
+ * Returns the property that a key of serialized data maps to.
+ *
+ * @param target - Class prototype or model instance
+ * @param wireName - Key in serialized data
+ * @param naming - Naming strategy of the class
+ */
+export function toPropertyName(target: object, wireName: string, naming?: QNamingStrategy): string {
+  for (const [propertyKey, alias] of Object.entries(getWireNames(target))) {
+    if (alias === wireName) {
+      return propertyKey;
+    }
+  }
+  return naming ? toProperty[naming](wireName) : wireName;
+}
@@ -0,0 +1,93 @@
+/**
+ * Read-only views of `Map`, `Set` and typed-array values, used by frozen models.
+ *
+ * `Object.freeze()` does not protect the entries of a `Map` or `Set`, and throws on
+ * non-empty typed arrays. A view is a proxy that reads from the original value (it still
+ * passes `instanceof` checks and iterates normally) and calls `onMutation` instead of
+ * mutating it.
+ *
+ * @example
+ * ```typescript
+ * const tags = readonlyView(new Set(['a']), (operation) => {
+ *   throw new Error(`${operation} is not allowed`);
+ * });
+ * tags.has('a'); // true
+ * tags.add('b'); // throws 'add() is not allowed'
+ * ```
+ */
+
+// Methods that mutate each kind of value
+const MAP_MUTATORS = new Set(['set', 'delete', 'clear']);
+const SET_MUTATORS = new Set(['add', 'delete', 'clear']);
+const TYPED_ARRAY_MUTATORS = new Set(['set', 'fill', 'copyWithin', 'reverse', 'sort']);
+
+const views = new WeakSet<object>();
+
+/**
+ * Values that `readonlyView()` can wrap.
+ */
+export type QReadonlyViewable = Map<unknown, unknown> | Set<unknown> | ArrayBufferView;
+
+/**
+ * Checks whether a value can be wrapped in a read-only view.
+ */
+export function isReadonlyViewable(value: unknown): value is QReadonlyViewable {
+  return (
+    value instanceof Map ||
+    value instanceof Set ||
+    (ArrayBuffer.isView(value) && !(value instanceof DataView))
+  );
+}
+
+/**
+ * Checks whether a value is a view returned by `readonlyView()`.
+ */
+export function isReadonlyView(value: unknown): boolean {
+  return typeof value === 'object' && value !== null && views.has(value);
+}
+
+/**
+ * Wraps a `Map`, `Set` or typed array in a read-only view.
+ *
+ * @param target - The value to protect
+ * @param onMutation - Called with the attempted operation (e.g. `'add()'`, `'setting [0]'`); must throw
+ * @returns The view (the value itself if it already is one)
+ */
+export function readonlyView<T extends QReadonlyViewable>(
+  target: T,
+  onMutation: (operation: string) => never
+): T {
+  if (views.has(target)) {
+    return target;
+  }
+
+  const mutators =
+    target instanceof Map
+      ? MAP_MUTATORS
+      : target instanceof Set
+        ? SET_MUTATORS
+        : TYPED_ARRAY_MUTATORS;
+  const view = new Proxy(target, {
+    get(value, key) {
+      if (typeof key === 'string' && mutators.has(key)) {
+        return () => onMutation(`${key}()`);
+      }
+      // Built-in methods and getters need the original value as `this`
+      const property: unknown = Reflect.get(value, key, value);
+      return typeof property === 'function' && key !== 'constructor'
+        ? (property as (...args: unknown[]) => unknown).bind(value)
+        : property;
+    },
+    set(_value, key) {
+      return onMutation(`setting [${String(key)}]`);
+    },
+    defineProperty(_value, key) {
+      return onMutation(`setting [${String(key)}]`);
+    },
+    deleteProperty(_value, key) {
+      return onMutation(`deleting [${String(key)}]`);
+    },
+  });
+  views.add(view);
+  return view;
+}
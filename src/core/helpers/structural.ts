@@ -0,0 +1,70 @@
+/**
+ * Structural helpers for plain data (serialized models, patch documents, history snapshots).
+ *
+ * @example
+ * ```typescript
+ * deepEqual({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] }); // true
+ * deepEqual({ a: 1, b: undefined }, { a: 1 });            // true (undefined keys are absent)
+ * const copy = deepClone(document);                       // arrays and plain objects are copied
+ * ```
+ */
+
+/**
+ * Checks whether a value is a plain object (`{}` or `Object.create(null)`), not an array or class instance.
+ */
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value) as object | null;
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Checks whether a value is a model instance (an object with `serialize()` whose class has `deserialize()`).
+ */
+export function isModelInstance(value: unknown): value is object {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as { serialize?: unknown }).serialize === 'function' &&
+    typeof (value.constructor as { deserialize?: unknown } | undefined)?.deserialize === 'function'
+  );
+}
+
+/**
+ * Copies the arrays and plain objects of a value (other values are shared).
+ */
+export function deepClone<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map((item: unknown) => deepClone(item)) as T;
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, deepClone(item)])) as T;
+  }
+  return value;
+}
+
+/**
+ * Structural equality of arrays, plain objects (keys with `undefined` values count as absent),
+ * dates and primitives (`NaN` equals `NaN`).
+ */
+export function deepEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) {
+    return true;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => deepEqual(item, b[index]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a).filter((key) => a[key] !== undefined);
+    return (
+      keys.length === Object.keys(b).filter((key) => b[key] !== undefined).length &&
+      keys.every((key) => deepEqual(a[key], b[key]))
+    );
+  }
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime();
+  }
+  return false;
+}
@@ -14,6 +14,9 @@
  * ```
  */
 
+import { QDecimal } from '../models/decimal.model';
+import type { QDecimalInput } from '../interfaces/decimal.interface';
+
 // ============================================================================
 // STRING HELPERS
 // ============================================================================
@@ -146,18 +149,32 @@ export const pipe = compose;
 // CURRENCY/BUSINESS HELPERS
 // ============================================================================
 
-export const tax = (rate: number) => (price: number): number => 
-  price * rate;
+/**
+ * Price helper computed with exact decimals (no float drift: `tax(0.1)(0.2)` is `0.02`).
+ * Numbers give numbers; decimals and decimal strings give a `QDecimal`.
+ */
+export interface QMoneyFn {
+  (price: number): number;
+  (price: QDecimal | string): QDecimal;
+}
+
+const money = (fn: (price: QDecimal) => QDecimal): QMoneyFn =>
+  ((price: QDecimalInput) => {
+    const result = fn(QDecimal.from(price));
+    return typeof price === 'number' ? result.toNumber() : result;
+  }) as QMoneyFn;
+
+export const tax = (rate: QDecimalInput): QMoneyFn =>
+  money((price) => price.times(rate));
 
-export const discount = (rate: number) => (price: number): number => 
-  price * (1 - rate);
+export const discount = (rate: QDecimalInput): QMoneyFn =>
+  money((price) => price.minus(price.times(rate)));
 
-export const vat = (price: number): number => 
-  price * 0.21; // IVA 21%
+export const vat: QMoneyFn = money((price) => price.times('0.21')); // IVA 21%
 
 export const formatCurrency = (currency: string = '$', decimals: number = 2) => 
-  (amount: number): string => 
-    `${currency}${amount.toFixed(decimals)}`;
+  (amount: number | QDecimal): string => 
+    `${currency}${QDecimal.from(amount).toFixed(decimals)}`;
 
 // ============================================================================
 // ARRAY HELPERS
@@ -0,0 +1,30 @@
+import type { IQTransformer } from './transformer.interface';
+
+/**
+ * Form of binary values (`ArrayBuffer`, `DataView`, typed arrays) in serialized data:
+ * - `'array'`: array of the elements (bytes for buffers), the default
+ * - `'base64'`: base64 string (RFC 4648 §4, padded)
+ * - `'base64url'`: URL-safe base64 string (RFC 4648 §5, unpadded)
+ * - `'hex'`: string of two lower-case hex digits per byte
+ *
+ * Typed arrays are written in the string forms as the bytes of their elements, little-endian.
+ */
+export type QBinaryEncoding = 'array' | 'base64' | 'base64url' | 'hex';
+
+/**
+ * Transformer of a binary type that can write it in each `QBinaryEncoding`.
+ */
+export interface IQBinaryTransformer<TInput = any, TOutput = any> extends IQTransformer<
+  TInput,
+  TOutput
+> {
+  /**
+   * Form written by `serialize()`. Also decides how strings made only of hex digits are read.
+   */
+  readonly encoding: QBinaryEncoding;
+
+  /**
+   * Returns a transformer of the same type that writes the given encoding.
+   */
+  withEncoding(encoding: QBinaryEncoding): IQBinaryTransformer<TInput, TOutput>;
+}
@@ -0,0 +1,39 @@
+/**
+ * Types of the change-tracking baseline operations (`markClean()`, `rebase()`).
+ */
+
+/**
+ * Options of `model.rebase()`.
+ */
+export interface IQRebaseOptions {
+  /**
+   * Value kept for fields changed both locally and on the server (default `'server'`)
+   */
+  prefer?: 'server' | 'local';
+}
+
+/**
+ * A field changed both locally and on the server, to different values.
+ * Values are serialized (as produced by `serialize()`).
+ */
+export interface IQRebaseConflict {
+  /**
+   * Wire name of the field
+   */
+  field: string;
+
+  /**
+   * Value in the previous baseline
+   */
+  base: unknown;
+
+  /**
+   * Value edited locally
+   */
+  local: unknown;
+
+  /**
+   * Value in the server data
+   */
+  server: unknown;
+}
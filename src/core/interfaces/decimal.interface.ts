@@ -0,0 +1,41 @@
+import type { QDecimal } from '../models/decimal.model';
+
+/**
+ * How `QDecimal` drops digits when a result has more than the requested scale:
+ * - `'half-up'`: to the nearest, ties away from zero (2.345 → 2.35, -2.345 → -2.35)
+ * - `'half-down'`: to the nearest, ties toward zero (2.345 → 2.34)
+ * - `'half-even'`: to the nearest, ties to the even digit (2.345 → 2.34, 2.355 → 2.36)
+ * - `'up'`: away from zero (2.341 → 2.35)
+ * - `'down'`: toward zero (2.349 → 2.34)
+ * - `'ceil'`: toward +∞ (-2.349 → -2.34)
+ * - `'floor'`: toward -∞ (-2.341 → -2.35)
+ */
+export type QRoundingMode =
+  | 'half-up'
+  | 'half-down'
+  | 'half-even'
+  | 'up'
+  | 'down'
+  | 'ceil'
+  | 'floor';
+
+/**
+ * Scale and rounding of `QDecimal` operations that cannot keep every digit.
+ */
+export interface IQDecimalOptions {
+  /**
+   * Digits after the decimal point (e.g. 2 for cents).
+   */
+  scale: number;
+
+  /**
+   * Rounding of the dropped digits.
+   */
+  rounding: QRoundingMode;
+}
+
+/**
+ * Values accepted where a decimal is expected. Numbers are read by their shortest
+ * representation (`0.1` is exactly `'0.1'`).
+ */
+export type QDecimalInput = QDecimal | string | number | bigint;
@@ -0,0 +1,28 @@
+/**
+ * Types of the change events of `model.on()` / `model.watch()`.
+ */
+
+/**
+ * A field set on a model or on one of its nested models.
+ */
+export interface IQChangeEvent {
+  /**
+   * JSON pointer of the field from the listening model (property names, array indexes
+   * and `Map` keys), e.g. `/address/city` or `/items/0/qty`
+   */
+  path: string;
+  oldValue: unknown;
+  newValue: unknown;
+}
+
+/**
+ * Listener of change events.
+ */
+export type QChangeListener = (event: IQChangeEvent) => void;
+
+/**
+ * Events emitted by a model, by name.
+ */
+export interface IQModelEvents {
+  change: IQChangeEvent;
+}
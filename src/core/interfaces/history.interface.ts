@@ -0,0 +1,23 @@
+/**
+ * Types of the undo/redo history of `model.enableHistory()`.
+ */
+
+/**
+ * Options of `model.enableHistory()`.
+ */
+export interface IQHistoryOptions {
+  /**
+   * Maximum number of undo steps kept (the oldest are dropped). Defaults to 100.
+   */
+  limit?: number;
+}
+
+/**
+ * A step of the history, as returned by `undo()` and `redo()`.
+ */
+export interface IQHistoryStep {
+  /**
+   * Label given by `checkpoint(label)` to the step, if any
+   */
+  label?: string;
+}
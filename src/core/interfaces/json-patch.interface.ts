@@ -0,0 +1,25 @@
+/**
+ * Types of JSON Patch (RFC 6902) documents produced by `model.getPatch()`
+ * and accepted by `model.applyPatch()`.
+ */
+
+/**
+ * A JSON Patch operation. Paths are JSON pointers into the serialized model
+ * (wire names), where `Map`s are objects keyed by entry key and `Set`s are arrays.
+ *
+ * @example
+ * ```typescript
+ * const ops: QPatchOperation[] = [
+ *   { op: 'replace', path: '/orders/3/items/0/qty', value: 2 },
+ *   { op: 'add', path: '/tags/-', value: 'vip' },
+ *   { op: 'remove', path: '/meta/draft' },
+ * ];
+ * ```
+ */
+export type QPatchOperation =
+  | { op: 'add'; path: string; value: unknown }
+  | { op: 'remove'; path: string }
+  | { op: 'replace'; path: string; value: unknown }
+  | { op: 'move'; from: string; path: string }
+  | { op: 'copy'; from: string; path: string }
+  | { op: 'test'; path: string; value: unknown };
@@ -0,0 +1,82 @@
+/**
+ * JSON Schema (draft 2020-12) and OpenAPI 3.1 documents generated from model metadata.
+ */
+
+/**
+ * Simple JSON Schema types.
+ */
+export type QJSONSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+/**
+ * A JSON Schema (draft 2020-12). Only the keywords used by QuickModel are typed;
+ * any other keyword is allowed.
+ */
+export interface IQJSONSchema {
+  $schema?: string;
+  $id?: string;
+  $ref?: string;
+  $defs?: Record<string, IQJSONSchema>;
+  title?: string;
+  description?: string;
+  type?: QJSONSchemaType | QJSONSchemaType[];
+  format?: string;
+  pattern?: string;
+  const?: unknown;
+  enum?: unknown[];
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  items?: IQJSONSchema;
+  prefixItems?: IQJSONSchema[];
+  minItems?: number;
+  maxItems?: number;
+  properties?: Record<string, IQJSONSchema>;
+  required?: string[];
+  additionalProperties?: boolean | IQJSONSchema;
+  anyOf?: IQJSONSchema[];
+  oneOf?: IQJSONSchema[];
+  readOnly?: boolean;
+  writeOnly?: boolean;
+  discriminator?: IQOpenAPIDiscriminator;
+  [keyword: string]: unknown;
+}
+
+/**
+ * OpenAPI discriminator of a `oneOf` of models (selects the schema by the value of a property).
+ */
+export interface IQOpenAPIDiscriminator {
+  propertyName: string;
+  mapping?: Record<string, string>;
+}
+
+/**
+ * OpenAPI 3.1 document holding the schemas of a set of models, to merge into an API description.
+ */
+export interface IQOpenAPIComponents {
+  components: {
+    schemas: Record<string, IQJSONSchema>;
+  };
+}
+
+/**
+ * Implemented by transformers that can describe their serialized format.
+ *
+ * @example
+ * ```typescript
+ * class DecimalTransformer extends BaseTransformer<string, Decimal> implements IQSchemaProvider {
+ *   // ...
+ *   toJSONSchema(): IQJSONSchema {
+ *     return { type: 'string', pattern: '^-?\\d+(\\.\\d+)?$' };
+ *   }
+ * }
+ * ```
+ */
+export interface IQSchemaProvider {
+  /**
+   * Returns the schema of the values produced by `serialize()` (and accepted by `deserialize()`)
+   */
+  toJSONSchema(): IQJSONSchema;
+}
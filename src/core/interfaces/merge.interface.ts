@@ -0,0 +1,45 @@
+/**
+ * Types of the three-way merge of `QModel.merge()`.
+ */
+
+/**
+ * Options of `QModel.merge()`.
+ */
+export interface IQMergeOptions {
+  /**
+   * Side whose value conflicting fields take (default `'local'`)
+   */
+  strategy?: 'local' | 'remote';
+
+  /**
+   * Wire name of the field that identifies the items of arrays of nested models (default `'id'`)
+   */
+  identity?: string;
+}
+
+/**
+ * A value changed on both sides to different values (or deleted on one side and changed
+ * on the other). Values are serialized; `undefined` means deleted.
+ */
+export interface IQMergeConflict {
+  /**
+   * JSON pointer of the value (wire names, `Map` keys, array indexes of the local side)
+   */
+  path: string;
+  base: unknown;
+  local: unknown;
+  remote: unknown;
+}
+
+/**
+ * Result of `QModel.merge()`.
+ *
+ * @template T - The model instance type
+ */
+export interface IQMergeResult<T> {
+  /**
+   * The merged model (conflicts resolved with the chosen strategy)
+   */
+  model: T;
+  conflicts: IQMergeConflict[];
+}
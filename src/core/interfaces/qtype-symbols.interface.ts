@@ -46,6 +46,7 @@ export type IQTypeAlias =
   | 'promise'
   | 'array'
   | 'object'
+  | 'decimal'
   
   // Typed Arrays
   | 'int8array'
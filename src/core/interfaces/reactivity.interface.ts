@@ -0,0 +1,44 @@
+/**
+ * Types of the reactivity bridges (`ModelStore`, `toSignal()` and the React / Vue adapters).
+ */
+
+/**
+ * Names of the data fields of a model instance (its non-method keys).
+ *
+ * @template M - The model instance type
+ */
+export type QModelField<M> = {
+  [K in keyof M]: M[K] extends (...args: any[]) => any ? never : K;
+}[keyof M] &
+  string;
+
+/**
+ * A read-only signal (TC39 signals style).
+ */
+export interface IQSignal<T> {
+  get(): T;
+}
+
+/**
+ * A writable signal (`Signal.State` of the TC39 proposal and its polyfill).
+ */
+export interface IQSignalState<T> extends IQSignal<T> {
+  set(value: T): void;
+}
+
+/**
+ * The signal primitives `toSignal()` builds on: the `Signal` namespace of the TC39
+ * proposal (e.g. from `signal-polyfill`), or any class with the same shape.
+ */
+export interface IQSignalApi {
+  State: new <T>(value: T, options?: { equals?: (a: T, b: T) => boolean }) => IQSignalState<T>;
+}
+
+/**
+ * Signals of the fields of a model, created on first access.
+ *
+ * @template M - The model instance type
+ */
+export type QModelSignals<M> = {
+  readonly [K in QModelField<M>]: IQSignal<M[K]>;
+};
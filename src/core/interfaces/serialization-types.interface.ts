@@ -4,10 +4,14 @@
  * These types correctly map TypeScript types to their serialized representations
  */
 
+import type { QDecimal } from '../models/decimal.model';
+
 /**
  * Maps a TypeScript type to its serialized version
  */
-export type Serialized<T> = T extends RegExp
+export type Serialized<T> = T extends QDecimal
+  ? string
+  : T extends RegExp
   ? string | { __type: 'regexp'; source: string; flags: string }
   : T extends Error
   ? string
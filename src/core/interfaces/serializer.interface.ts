@@ -3,26 +3,59 @@
  * SOLID - Dependency Inversion: Depend on abstractions (interfaces)
  */
 
+import type { IQValidationResult } from './transformer.interface';
+import type { IQAppliedMigration } from './versioning.interface';
+import type { IQTransformScope, QTransformerSource } from '../services/transformer-registry.service';
+
+/**
+ * State propagated through a deserialization, including nested models.
+ */
+export interface IQDeserializeState {
+  /**
+   * JSON pointer of the value being deserialized ('' for the root)
+   */
+  path: string;
+
+  /**
+   * When present, field errors are collected here instead of thrown
+   */
+  errors?: IQValidationResult[];
+
+  /**
+   * Transformers inherited from the scope or the parent model (defaults to the service registry)
+   */
+  transformers?: QTransformerSource;
+
+  /**
+   * When present, the migrations applied to versioned payloads are recorded here
+   */
+  migrations?: IQAppliedMigration[];
+}
+
 export interface IQSerializer<TModel extends Record<string, unknown>, TInterface> {
   /**
    * Serializes a model to its interface representation
    */
-  serialize(model: TModel): TInterface;
+  serialize(model: TModel, scope?: IQTransformScope): TInterface;
 
   /**
    * Serializa a JSON string
    */
-  serializeToJson(model: TModel): string;
+  serializeToJson(model: TModel, scope?: IQTransformScope): string;
 }
 
 export interface IQDeserializer<TInterface extends Record<string, unknown>, TModel> {
   /**
    * Deserializa una interfaz a un modelo
    */
-  deserialize(data: TInterface, modelClass: new (data: TInterface) => TModel): TModel;
+  deserialize(
+    data: TInterface,
+    modelClass: new (data: TInterface) => TModel,
+    state?: IQDeserializeState
+  ): TModel;
 
   /**
    * Deserializes from JSON string.
    */
-  deserializeFromJson(json: string, modelClass: new (data: any) => TModel): TModel;
+  deserializeFromJson(json: string, modelClass: new (data: any) => TModel, scope?: IQTransformScope): TModel;
 }
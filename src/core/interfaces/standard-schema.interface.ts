@@ -0,0 +1,49 @@
+/**
+ * Types of the Standard Schema v1 specification (https://standardschema.dev),
+ * the common validator interface understood by tRPC, form libraries, Hono, ...
+ *
+ * The spec asks libraries to copy these types instead of depending on a package.
+ */
+
+/**
+ * A validator that follows the Standard Schema v1 specification.
+ *
+ * @template TInput - Type of the accepted (serialized) data
+ * @template TOutput - Type of the validated value
+ */
+export interface IQStandardSchema<TInput = unknown, TOutput = TInput> {
+  readonly '~standard': IQStandardSchemaProps<TInput, TOutput>;
+}
+
+/**
+ * Properties of a Standard Schema, under its `~standard` key.
+ */
+export interface IQStandardSchemaProps<TInput = unknown, TOutput = TInput> {
+  readonly version: 1;
+  readonly vendor: string;
+  readonly validate: (value: unknown) => IQStandardResult<TOutput> | Promise<IQStandardResult<TOutput>>;
+
+  /**
+   * Inferred types (type-level only, never set at runtime)
+   */
+  readonly types?: { readonly input: TInput; readonly output: TOutput } | undefined;
+}
+
+/**
+ * Result of `~standard.validate`: the value, or the issues that prevented creating it.
+ */
+export type IQStandardResult<TOutput> =
+  | { readonly value: TOutput; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<IQStandardIssue> };
+
+/**
+ * A problem reported by a Standard Schema.
+ */
+export interface IQStandardIssue {
+  readonly message: string;
+
+  /**
+   * Keys from the validated root to the failing value (array indexes as numbers)
+   */
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }> | undefined;
+}
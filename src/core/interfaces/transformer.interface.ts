@@ -3,6 +3,8 @@
  * SOLID - Interface Segregation: Specific interfaces, not generic
  */
 
+import type { IQJSONSchema } from './json-schema.interface';
+
 export interface IQTransformer<TInput = any, TOutput = any> {
   /**
    * Transforma desde la interfaz (JSON) hacia el tipo del modelo
@@ -36,9 +38,31 @@ export interface IQValidationContext {
   propertyKey: string;
   className: string;
   value: any;
+  /** Model instance that owns the value (available during model validation) */
+  instance?: Record<string, unknown>;
 }
 
 export interface IQValidationResult {
   isValid: boolean;
   error?: string;
+  /** JSON pointer to the failing value, relative to the validated root (e.g. `/orders/0/price`) */
+  path?: string;
+  /** Name of the rule that produced the result ('type', 'required', 'min', ...) */
+  rule?: string;
+}
+
+/**
+ * Declarative validation rule attached to a model property
+ * (via @Required(), @Min(), @Pattern(), etc.)
+ */
+export interface IQValidationRule extends IQValidator {
+  /**
+   * Nombre de la regla (se copia en IQValidationResult.rule)
+   */
+  name: string;
+
+  /**
+   * JSON Schema keywords expressing the rule, merged into the field schema by `toJSONSchema()`
+   */
+  schema?: IQJSONSchema;
 }
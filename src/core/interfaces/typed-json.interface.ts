@@ -0,0 +1,28 @@
+/**
+ * Types of the JSON modes of `toJSON()` / `fromJSON()`.
+ */
+
+import type { QTransformerSource } from '../services/transformer-registry.service';
+
+/**
+ * How `toJSON()` / `fromJSON()` write and read values JSON has no type for:
+ * - `'plain'`: the transformers' forms (e.g. dates as ISO strings), read back by field type
+ * - `'typed'`: self-describing `{ "$type", "value" }` envelopes (see docs/TYPED-JSON.md),
+ *   read back whatever the field's declaration
+ */
+export type QJsonMode = 'plain' | 'typed';
+
+/**
+ * Options of `toJSON()` and `fromJSON()`.
+ */
+export interface IQJsonOptions {
+  /**
+   * Transformers for this call, inherited by nested models
+   */
+  transformers?: QTransformerSource;
+
+  /**
+   * JSON mode (default: the `json` option of the model class, or `'plain'`)
+   */
+  json?: QJsonMode;
+}
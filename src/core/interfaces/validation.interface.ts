@@ -0,0 +1,31 @@
+/**
+ * Types for validate-on-construct mode and safe parsing.
+ */
+
+import type { IQValidationResult } from './transformer.interface';
+
+/**
+ * How a model validates its data on construction.
+ *
+ * - `'throw'`: every field is processed, then one error listing every failing path is thrown
+ * - `'collect'`: every field is processed and failures are kept in `model.getErrors()`
+ */
+export type QValidateMode = 'throw' | 'collect';
+
+/**
+ * Result of `Model.safeParse(data)`. Never throws.
+ *
+ * @template T - The model instance type
+ *
+ * @example
+ * ```typescript
+ * const result = User.safeParse(body);
+ * if (!result.success) {
+ *   return res.status(400).json(result.errors);
+ * }
+ * result.data; // User
+ * ```
+ */
+export type IQSafeParseResult<T> =
+  | { success: true; data: T; errors: [] }
+  | { success: false; data: undefined; errors: IQValidationResult[] };
@@ -0,0 +1,53 @@
+/**
+ * Types for schema versioning and migrations of serialized models.
+ */
+
+/**
+ * Upgrades a serialized payload by one version.
+ *
+ * @param data - Payload in the shape of the source version (without `__v`)
+ * @returns Payload in the shape of the next version
+ */
+export type QMigration = (data: Record<string, any>) => Record<string, any>;
+
+/**
+ * Migrations keyed by the version they upgrade from (`1` upgrades v1 payloads to v2).
+ *
+ * @example
+ * ```typescript
+ * @Quick({ createdAt: Date }, {
+ *   version: 3,
+ *   migrations: {
+ *     1: ({ name, ...rest }) => ({ ...rest, fullName: name }),
+ *     2: (v2) => ({ ...v2, tags: v2.tags ?? [] }),
+ *   },
+ * })
+ * class User extends QModel<IUser> { ... }
+ * ```
+ */
+export type QMigrations = Record<number, QMigration>;
+
+/**
+ * A migration step applied while deserializing a payload.
+ */
+export interface IQAppliedMigration {
+  /**
+   * JSON pointer of the migrated model ('' for the root)
+   */
+  path: string;
+
+  /**
+   * Name of the migrated model class
+   */
+  className: string;
+
+  /**
+   * Version of the payload before the step
+   */
+  from: number;
+
+  /**
+   * Version of the payload after the step
+   */
+  to: number;
+}
@@ -0,0 +1,337 @@
+import type {
+  IQDecimalOptions,
+  QDecimalInput,
+  QRoundingMode,
+} from '../interfaces/decimal.interface';
+
+const DECIMAL_PATTERN = /^([+-])?(\d*)(?:\.(\d*))?(?:[eE]([+-]?\d+))?$/;
+
+// Limits of parsed strings, so that input like '1e400000000' cannot exhaust memory
+const MAX_DIGITS = 1000;
+const MAX_EXPONENT = 1000;
+
+const pow10 = (exponent: number): bigint => 10n ** BigInt(exponent);
+
+/**
+ * Divides two integers, rounding the quotient with a rounding mode.
+ */
+const divideRounded = (numerator: bigint, denominator: bigint, rounding: QRoundingMode): bigint => {
+  const quotient = numerator / denominator;
+  const remainder = numerator % denominator;
+  if (remainder === 0n) {
+    return quotient;
+  }
+
+  const negative = numerator < 0n !== denominator < 0n;
+  const twice = 2n * (remainder < 0n ? -remainder : remainder);
+  const divisor = denominator < 0n ? -denominator : denominator;
+  let awayFromZero: boolean;
+  switch (rounding) {
+    case 'up':
+      awayFromZero = true;
+      break;
+    case 'down':
+      awayFromZero = false;
+      break;
+    case 'ceil':
+      awayFromZero = !negative;
+      break;
+    case 'floor':
+      awayFromZero = negative;
+      break;
+    default:
+      awayFromZero =
+        twice > divisor ||
+        (twice === divisor &&
+          (rounding === 'half-up' || (rounding === 'half-even' && quotient % 2n !== 0n)));
+  }
+  return awayFromZero ? quotient + (negative ? -1n : 1n) : quotient;
+};
+
+/**
+ * Exact decimal number, for money and other values that must not drift like floats
+ * (`0.1 + 0.2` is exactly `0.3`).
+ *
+ * A decimal is its digits and a scale (the digits after the point): `'19.90'` has scale 2
+ * and is written back as `'19.90'`. Addition, subtraction and multiplication are exact;
+ * division and `round()` keep `scale` digits, dropping the rest with a rounding mode.
+ * Both default to `QDecimal.configure()`.
+ *
+ * Decimals are immutable. In models they are serialized as strings (`'decimal'` QType alias).
+ *
+ * @example
+ * ```typescript
+ * const price = QDecimal.from('19.99');
+ * price.times(3).toString();                  // '59.97'
+ * price.times('0.21').round().toString();     // '4.20'
+ * QDecimal.from(10).dividedBy(3).toString();  // '3.33'
+ * QDecimal.from('2.345').round(2, 'half-even').toString(); // '2.34'
+ *
+ * @Quick({ price: QDecimal }) // or 'decimal'
+ * class Product extends QModel<IProduct> { price!: QDecimal; }
+ * ```
+ */
+export class QDecimal {
+  private static defaults: IQDecimalOptions = { scale: 2, rounding: 'half-up' };
+
+  // The value times 10^scale
+  private readonly units: bigint;
+
+  /**
+   * Digits after the decimal point.
+   */
+  readonly scale: number;
+
+  /**
+   * Creates a decimal (like `QDecimal.from()`), or a decimal from its digits as an integer
+   * and its scale (`new QDecimal(1999n, 2)` is `19.99`).
+   *
+   * @param value - A decimal, a decimal string (`'-12.50'`, `'1e-3'`), a finite number or a bigint
+   * @param scale - Digits of a bigint value after the point
+   * @throws {SyntaxError} If a string is not a decimal number, or has more than 1000 digits
+   * or an exponent beyond ±1000
+   * @throws {RangeError} If a number is not finite, or the scale is not a non-negative integer
+   */
+  constructor(value: QDecimalInput = 0n, scale?: number) {
+    if (typeof value === 'bigint') {
+      if (scale !== undefined) {
+        QDecimal.checkScale(scale);
+      }
+      this.units = value;
+      this.scale = scale ?? 0;
+      return;
+    }
+    if (value instanceof QDecimal) {
+      this.units = value.units;
+      this.scale = value.scale;
+      return;
+    }
+    if (typeof value === 'number' && !Number.isFinite(value)) {
+      throw new RangeError(`QDecimal: ${value} is not a finite number`);
+    }
+
+    const parts = QDecimal.parse(String(value));
+    if (!parts) {
+      throw new SyntaxError(`QDecimal: Invalid decimal ${JSON.stringify(value)}`);
+    }
+    this.units = parts.units;
+    this.scale = parts.scale;
+  }
+
+  /**
+   * Sets the default scale and rounding of `dividedBy()`, `round()` and `toFixed()`
+   * (initially 2 digits, `'half-up'`).
+   *
+   * @param options - Defaults to change (merged with the current ones)
+   */
+  static configure(options: Partial<IQDecimalOptions>): void {
+    if (options.scale !== undefined) {
+      QDecimal.checkScale(options.scale);
+    }
+    QDecimal.defaults = { ...QDecimal.defaults, ...options };
+  }
+
+  /**
+   * Returns a decimal as is, or creates one from any other value (see the constructor).
+   */
+  static from(value: QDecimalInput): QDecimal {
+    return value instanceof QDecimal ? value : new QDecimal(value);
+  }
+
+  /**
+   * Checks whether a value can be read as a decimal by `QDecimal.from()`.
+   */
+  static isDecimal(value: unknown): value is QDecimalInput {
+    return (
+      value instanceof QDecimal ||
+      typeof value === 'bigint' ||
+      (typeof value === 'number' && Number.isFinite(value)) ||
+      (typeof value === 'string' && QDecimal.parse(value) !== undefined)
+    );
+  }
+
+  /**
+   * Adds decimals exactly.
+   */
+  static sum(...values: QDecimalInput[]): QDecimal {
+    return values.reduce<QDecimal>((total, value) => total.plus(value), new QDecimal());
+  }
+
+  private static parse(text: string): { units: bigint; scale: number } | undefined {
+    const match = DECIMAL_PATTERN.exec(text.trim());
+    if (!match || (!match[2] && !match[3])) {
+      return undefined;
+    }
+
+    const [, sign, integer = '', fraction = '', exponent = '0'] = match;
+    if (
+      integer.length + fraction.length > MAX_DIGITS ||
+      Math.abs(Number(exponent)) > MAX_EXPONENT
+    ) {
+      return undefined;
+    }
+    let units = BigInt(integer + fraction || '0');
+    let scale = fraction.length - Number(exponent);
+    if (scale < 0) {
+      units *= pow10(-scale);
+      scale = 0;
+    }
+    return { units: sign === '-' ? -units : units, scale };
+  }
+
+  private static checkScale(scale: number): void {
+    if (!Number.isSafeInteger(scale) || scale < 0) {
+      throw new RangeError(`QDecimal: Invalid scale ${scale}`);
+    }
+  }
+
+  /**
+   * Returns this decimal plus another one (exact).
+   */
+  plus(other: QDecimalInput): QDecimal {
+    const addend = QDecimal.from(other);
+    const scale = Math.max(this.scale, addend.scale);
+    return new QDecimal(this.unitsAt(scale) + addend.unitsAt(scale), scale);
+  }
+
+  /**
+   * Returns this decimal minus another one (exact).
+   */
+  minus(other: QDecimalInput): QDecimal {
+    return this.plus(QDecimal.from(other).negate());
+  }
+
+  /**
+   * Returns this decimal times another one (exact: the scales add up).
+   */
+  times(other: QDecimalInput): QDecimal {
+    const factor = QDecimal.from(other);
+    return new QDecimal(this.units * factor.units, this.scale + factor.scale);
+  }
+
+  /**
+   * Returns this decimal divided by another one, with `scale` digits.
+   *
+   * @param other - The divisor
+   * @param scale - Digits of the result (defaults to `QDecimal.configure()`)
+   * @param rounding - Rounding of the dropped digits (defaults to `QDecimal.configure()`)
+   * @throws {RangeError} If the divisor is zero
+   */
+  dividedBy(
+    other: QDecimalInput,
+    scale: number = QDecimal.defaults.scale,
+    rounding: QRoundingMode = QDecimal.defaults.rounding
+  ): QDecimal {
+    const divisor = QDecimal.from(other);
+    if (divisor.units === 0n) {
+      throw new RangeError('QDecimal: Division by zero');
+    }
+    QDecimal.checkScale(scale);
+
+    // this / divisor = (units / 10^s1) / (divisorUnits / 10^s2), computed at 10^scale
+    const numerator = this.units * pow10(scale + divisor.scale);
+    const denominator = divisor.units * pow10(this.scale);
+    return new QDecimal(divideRounded(numerator, denominator, rounding), scale);
+  }
+
+  /**
+   * Returns this decimal with exactly `scale` digits, rounding the dropped ones
+   * (or padding with zeros).
+   *
+   * @param scale - Digits after the point (defaults to `QDecimal.configure()`)
+   * @param rounding - Rounding of the dropped digits (defaults to `QDecimal.configure()`)
+   */
+  round(
+    scale: number = QDecimal.defaults.scale,
+    rounding: QRoundingMode = QDecimal.defaults.rounding
+  ): QDecimal {
+    QDecimal.checkScale(scale);
+    if (scale >= this.scale) {
+      return new QDecimal(this.unitsAt(scale), scale);
+    }
+    return new QDecimal(divideRounded(this.units, pow10(this.scale - scale), rounding), scale);
+  }
+
+  /**
+   * Returns the negation of this decimal.
+   */
+  negate(): QDecimal {
+    return new QDecimal(-this.units, this.scale);
+  }
+
+  /**
+   * Returns the absolute value of this decimal.
+   */
+  abs(): QDecimal {
+    return this.units < 0n ? this.negate() : this;
+  }
+
+  /**
+   * Compares this decimal with another one by value (`'1.50'` equals `'1.5'`).
+   *
+   * @returns -1, 0 or 1 if this decimal is less than, equal to or greater than the other
+   */
+  compare(other: QDecimalInput): -1 | 0 | 1 {
+    const value = QDecimal.from(other);
+    const scale = Math.max(this.scale, value.scale);
+    const difference = this.unitsAt(scale) - value.unitsAt(scale);
+    return difference < 0n ? -1 : difference > 0n ? 1 : 0;
+  }
+
+  /**
+   * Checks whether this decimal has the same value as another one (`'1.50'` equals `'1.5'`).
+   */
+  equals(other: QDecimalInput): boolean {
+    return this.compare(other) === 0;
+  }
+
+  isZero(): boolean {
+    return this.units === 0n;
+  }
+
+  isNegative(): boolean {
+    return this.units < 0n;
+  }
+
+  /**
+   * Returns the nearest number (may lose precision).
+   */
+  toNumber(): number {
+    return Number(this.toString());
+  }
+
+  /**
+   * Returns the decimal string with `digits` digits after the point.
+   *
+   * @param digits - Digits after the point (defaults to `QDecimal.configure()`)
+   * @param rounding - Rounding of the dropped digits (defaults to `QDecimal.configure()`)
+   */
+  toFixed(digits: number = QDecimal.defaults.scale, rounding?: QRoundingMode): string {
+    return this.round(digits, rounding).toString();
+  }
+
+  /**
+   * Returns the decimal string, with every digit of the scale (`'19.90'`, `'-0.05'`, `'3'`).
+   */
+  toString(): string {
+    const digits = (this.units < 0n ? -this.units : this.units)
+      .toString()
+      .padStart(this.scale + 1, '0');
+    const sign = this.units < 0n ? '-' : '';
+    if (this.scale === 0) {
+      return sign + digits;
+    }
+    return `${sign}${digits.slice(0, -this.scale)}.${digits.slice(-this.scale)}`;
+  }
+
+  /**
+   * Returns the decimal string, so that `JSON.stringify()` writes decimals as strings.
+   */
+  toJSON(): string {
+    return this.toString();
+  }
+
+  private unitsAt(scale: number): bigint {
+    return this.units * pow10(scale - this.scale);
+  }
+}
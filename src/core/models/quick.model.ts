@@ -11,8 +11,72 @@
 import 'reflect-metadata';
 import { ModelDeserializer } from '@/core/services/model-deserializer.service';
 import { ModelSerializer } from '@/core/services/model-serializer.service';
+import {
+	IQTransformScope,
+	resolveBinaryEncoding,
+	resolveTransformers,
+	TransformerRegistry,
+	transformerRegistry,
+} from '@/core/services/transformer-registry.service';
 import { MockGenerator } from '@/core/services/mock-generator.service';
 import { MockBuilder } from '@/core/services/mock-builder.service';
+import { ValidationService } from '@/core/services/validation.service';
+import { JsonSchemaService } from '@/core/services/json-schema.service';
+import { JsonPatchService } from '@/core/services/json-patch.service';
+import { ModelMerger } from '@/core/services/model-merge.service';
+import {
+	MsgPackService,
+	MSGPACK_TRANSFORMERS,
+} from '@/core/services/msgpack.service';
+import { CborService, CBOR_TRANSFORMERS } from '@/core/services/cbor.service';
+import {
+	TypedJsonService,
+	TYPED_JSON_TRANSFORMERS,
+} from '@/core/services/typed-json.service';
+import { ModelHistory } from '@/core/services/model-history.service';
+import { ModelEvents } from '@/core/services/model-events.service';
+import type { IQValidationResult } from '@/core/interfaces/transformer.interface';
+import type {
+	IQSafeParseResult,
+	QValidateMode,
+} from '@/core/interfaces/validation.interface';
+import type { IQAppliedMigration } from '@/core/interfaces/versioning.interface';
+import type { IQJSONSchema } from '@/core/interfaces/json-schema.interface';
+import type { IQJsonOptions } from '@/core/interfaces/typed-json.interface';
+import type { QPatchOperation } from '@/core/interfaces/json-patch.interface';
+import type {
+	IQHistoryOptions,
+	IQHistoryStep,
+} from '@/core/interfaces/history.interface';
+import type {
+	IQRebaseConflict,
+	IQRebaseOptions,
+} from '@/core/interfaces/change-tracking.interface';
+import type {
+	IQModelEvents,
+	QChangeListener,
+} from '@/core/interfaces/events.interface';
+import type {
+	IQMergeOptions,
+	IQMergeResult,
+} from '@/core/interfaces/merge.interface';
+import type {
+	IQStandardResult,
+	IQStandardSchema,
+} from '@/core/interfaces/standard-schema.interface';
+import { QuickModelError } from '@/core/errors/quickmodel.error';
+import { ValidationError } from '@/core/errors/validation.error';
+import { ImmutableModelError } from '@/core/errors/immutable.error';
+import { DeserializationError } from '@/core/errors/deserialization.error';
+import { appendPointer, parsePointer } from '@/core/helpers/json-pointer';
+import { toPropertyName } from '@/core/helpers/property-naming';
+import { deepEqual, isPlainObject } from '@/core/helpers/structural';
+import { hasVersionStamp } from '@/core/services/migration.service';
+import {
+	isReadonlyView,
+	isReadonlyViewable,
+	readonlyView,
+} from '@/core/helpers/readonly-view';
 import type {
 	QModelInstance,
 	QModelInterface,
@@ -21,7 +85,14 @@ import type {
 	SerializedInterface,
 	ModelData,
 } from '@/core/interfaces/serialization-types.interface';
-import { QTYPES_METADATA_KEY } from '@/core/decorators/qtype.decorator';
+import {
+	IQDiscriminator,
+	QTYPES_METADATA_KEY,
+} from '@/core/decorators/qtype.decorator';
+import {
+	getQuickConfig,
+	type IQuickConfig,
+} from '@/core/decorators/quick.decorator';
 
 // Internal exports only (QType is implementation detail)
 // Public API uses only @Quick() decorator
@@ -106,10 +177,68 @@ export abstract class QModel<TInterface extends Record<string, any>> {
 	private static readonly deserializer = new ModelDeserializer();
 	private static readonly serializer = new ModelSerializer();
 	private static readonly mockGenerator = new MockGenerator();
+	private static readonly validator = new ValidationService();
+	private static readonly jsonSchema = new JsonSchemaService();
+	private static readonly jsonPatch = new JsonPatchService();
+	private static readonly merger = new ModelMerger(QModel.jsonPatch);
+	private static readonly msgpack = new MsgPackService();
+	private static readonly cbor = new CborService();
+	private static readonly typedJson = new TypedJsonService();
+
+	// Process-wide defaults (overridden per class by @Quick(map, config))
+	private static globalConfig: IQuickConfig = {};
+
+	// Forced validation mode while running safeParse()
+	private static validateModeOverride?: QValidateMode;
 
 	// Store initial state for change tracking and reset
 	private __initData?: SerializedInterface<TInterface>;
 
+	// Errors collected on construction in 'collect' validation mode
+	private __errors?: IQValidationResult[];
+
+	// Migrations applied to an older payload on construction/deserialization
+	private __migrations?: IQAppliedMigration[];
+
+	// Undo/redo history, recorded by field setters once enableHistory() is called
+	private __history?: ModelHistory<SerializedInterface<TInterface>>;
+
+	// Listeners of on()/watch(), created on the first subscription
+	private __events?: ModelEvents<IQModelEvents>;
+
+	// Models holding this one in a field, which its changes bubble up to
+	private __owners?: Array<{ owner: QModel<any>; key: string }>;
+
+	// Set by freeze(): setters and updates throw
+	private __frozen?: boolean;
+
+	/**
+	 * Sets process-wide defaults for all models.
+	 * Class-level config passed to @Quick(map, config) takes precedence.
+	 *
+	 * @param config - Global configuration (merged with the current one)
+	 *
+	 * @example
+	 * ```typescript
+	 * // Every model validates on construction and throws one aggregated error
+	 * QModel.configure({ validate: 'throw' });
+	 *
+	 * // Binary fields are written as base64 strings unless their model or field says otherwise
+	 * QModel.configure({ binary: 'base64' });
+	 * ```
+	 */
+	static configure(config: IQuickConfig): void {
+		QModel.globalConfig = { ...QModel.globalConfig, ...config };
+
+		// The shared registry holds the process-wide binary transformers
+		if (config.binary) {
+			const encoded = resolveBinaryEncoding(config.binary, transformerRegistry);
+			for (const key of encoded.keys()) {
+				transformerRegistry.override(key, encoded.get(key)!);
+			}
+		}
+	}
+
 	/**
 	 * Creates a type-safe mock builder for generating test data.
 	 * Each derived class automatically infers its correct types.
@@ -161,6 +290,10 @@ export abstract class QModel<TInterface extends Record<string, any>> {
 	static getMetadata(): Map<string, { type: string; transformer: any }> {
 		const result = new Map<string, { type: string; transformer: any }>();
 		const prototype = this.prototype;
+		const registry = resolveTransformers(
+			getQuickConfig(this).transformers,
+			transformerRegistry
+		);
 
 		// Get all registered qtypes using the correct symbol
 		const qtypes =
@@ -182,6 +315,11 @@ export abstract class QModel<TInterface extends Record<string, any>> {
 				prototype,
 				fieldName
 			);
+			const union = Reflect.getMetadata(
+				'discriminator',
+				prototype,
+				fieldName
+			) as IQDiscriminator | undefined;
 
 			let type = 'unknown';
 			let transformer = null;
@@ -189,18 +327,18 @@ export abstract class QModel<TInterface extends Record<string, any>> {
 			if (customTransformer) {
 				type = 'Custom';
 				transformer = customTransformer;
+			} else if (union) {
+				type = `Union<${Object.values(union.map)
+					.map((member) => member.name)
+					.join(' | ')}>`;
 			} else if (arrayElementClass) {
 				type = `Array<${arrayElementClass.name || 'unknown'}>`;
-				// Get transformer for array element type from deserializer registry
-				transformer = (QModel.deserializer as any).transformers?.get(
-					arrayElementClass
-				);
+				// Get transformer for array element type from the registry
+				transformer = registry.get(arrayElementClass);
 			} else if (fieldType) {
 				type = fieldType.name || fieldType.toString();
-				// Get transformer from deserializer registry
-				transformer = (QModel.deserializer as any).transformers?.get(
-					fieldType
-				);
+				// Get transformer from the registry
+				transformer = registry.get(fieldType);
 			}
 
 			result.set(fieldName as string, { type, transformer });
@@ -209,6 +347,24 @@ export abstract class QModel<TInterface extends Record<string, any>> {
 		return result;
 	}
 
+	/**
+	 * Generates the JSON Schema (draft 2020-12) of the serialized format of this model.
+	 * Fields use their wire names and serialized types, validation decorators add their
+	 * constraints, and nested models are referenced from `$defs`.
+	 *
+	 * @returns The JSON Schema of `serialize()` output
+	 *
+	 * @example
+	 * ```typescript
+	 * const schema = User.toJSONSchema();
+	 * // { $schema: 'https://json-schema.org/draft/2020-12/schema', title: 'User', type: 'object',
+	 * //   properties: { createdAt: { type: 'string', format: 'date-time' }, ... } }
+	 * ```
+	 */
+	static toJSONSchema(): IQJSONSchema {
+		return QModel.jsonSchema.generate(this);
+	}
+
 	// Temporary property for unprocessed data (removed after initialize)
 	private readonly __tempData?: ModelData<TInterface>;
 
@@ -241,6 +397,10 @@ export abstract class QModel<TInterface extends Record<string, any>> {
 
 		// Auto-initialize and store deserialized values
 		this.initialize();
+
+		if (getQuickConfig(this.constructor).immutable) {
+			this.freeze();
+		}
 	}
 
 	/**
@@ -259,13 +419,25 @@ export abstract class QModel<TInterface extends Record<string, any>> {
 			return;
 		}
 
+		// Validate-on-construct: collect field errors instead of throwing the first one
+		const validateMode =
+			QModel.validateModeOverride ??
+			getQuickConfig(this.constructor).validate ??
+			QModel.globalConfig.validate;
+		const errors: IQValidationResult[] | undefined = validateMode
+			? []
+			: undefined;
+		const migrations: IQAppliedMigration[] = [];
+
 		// Auto-register was already done in constructor, just deserialize
 		type DataAsInterface = Record<string, unknown>;
 		type ThisConstructor = new (data: DataAsInterface) => this;
 		const deserialized = QModel.deserializer.deserialize(
 			data as unknown as DataAsInterface,
-			this.constructor as ThisConstructor
+			this.constructor as ThisConstructor,
+			{ path: '', errors, migrations }
 		);
+		this.recordMigrations(migrations);
 
 		// Copy ALL properties from deserialized instance
 		// (includes both transformed properties with @QType and copied properties without @QType)
@@ -324,11 +496,27 @@ export abstract class QModel<TInterface extends Record<string, any>> {
 			(k) => !k.startsWith('__quickmodel_')
 		);
 		this.installLazyGetters(propertyNames);
+		this.adoptFields();
 
 		// Remove temporary property
 		Reflect.deleteProperty(this, '__tempData');
 
 		// Store ORIGINAL data (before transformations) for format preservation in toInterface()
+		this.setBaseline(data);
+		// Upgraded or stamped payloads are tracked in their current form, without `__v`
+		if (migrations.length > 0 || hasVersionStamp(data)) {
+			this.setBaseline(this.toInterface() as ModelData<TInterface>);
+		}
+
+		if (validateMode && errors) {
+			this.applyValidateMode(validateMode, errors);
+		}
+	}
+
+	/**
+	 * Stores a copy of the data that change tracking compares against (`__initData`).
+	 */
+	private setBaseline(data: ModelData<TInterface>): void {
 		// Use custom clone because structuredClone doesn't support symbols
 		const initDataClone: any = {};
 		for (const key in data) {
@@ -354,6 +542,39 @@ export abstract class QModel<TInterface extends Record<string, any>> {
 		});
 	}
 
+	/**
+	 * Runs the validation rules after construction and applies the validation mode.
+	 *
+	 * @param mode - 'throw' raises one aggregated error, 'collect' stores the errors
+	 * @param errors - Field errors already collected by the deserializer
+	 * @throws {ValidationError} In 'throw' mode, listing every failing path
+	 */
+	private applyValidateMode(
+		mode: QValidateMode,
+		errors: IQValidationResult[]
+	): void {
+		// Fields that failed to deserialize are already reported
+		const failedPaths = new Set(errors.map((result) => result.path));
+		for (const result of this.validate()) {
+			if (!failedPaths.has(result.path)) {
+				errors.push(result);
+			}
+		}
+
+		if (errors.length === 0) return;
+
+		if (mode === 'throw') {
+			throw ValidationError.fromResults(this.constructor.name, errors);
+		}
+
+		Object.defineProperty(this, '__errors', {
+			value: errors,
+			writable: false,
+			enumerable: false,
+			configurable: true,
+		});
+	}
+
 	/**
 	 * Instala getters que recuperan valores del backup si fueron sobrescritos por Bun
 	 */
@@ -383,7 +604,7 @@ export abstract class QModel<TInterface extends Record<string, any>> {
 					return undefined;
 				},
 				set(this: any, value: any) {
-					this[storageKey] = value;
+					this.writeField(key, storageKey, value);
 				},
 				enumerable: true,
 				configurable: true,
@@ -397,6 +618,7 @@ export abstract class QModel<TInterface extends Record<string, any>> {
 	 *
 	 * SOLID - Single Responsibility: Delegates serialization to ModelSerializer.
 	 *
+	 * @param scope - Optional transformers for this call, inherited by nested models
 	 * @returns The serialized version of the instance (complex types converted to primitives/plain objects)
 	 *
 	 * @example
@@ -404,12 +626,16 @@ export abstract class QModel<TInterface extends Record<string, any>> {
 	 * const user = new User({ id: '1', name: 'John', createdAt: new Date() });
 	 * const data = user.serialize();
 	 * // { id: '1', name: 'John', createdAt: '2024-01-01T00:00:00.000Z' }
+	 *
+	 * user.serialize({ transformers: { date: new EpochDateTransformer() } });
+	 * // { id: '1', name: 'John', createdAt: 1704067200000 }
 	 * ```
 	 */
-	serialize(): SerializedInterface<TInterface> {
+	serialize(scope?: IQTransformScope): SerializedInterface<TInterface> {
 		type ModelAsRecord = Record<string, unknown>;
 		return QModel.serializer.serialize(
-			this as unknown as ModelAsRecord
+			this as unknown as ModelAsRecord,
+			scope
 		) as SerializedInterface<TInterface>;
 	}
 
@@ -419,8 +645,13 @@ export abstract class QModel<TInterface extends Record<string, any>> {
 	 * Converts the model to a JSON string representation. This is a convenience method
 	 * that combines serialize() and JSON.stringify().
 	 *
+	 * In `'typed'` mode (`options.json`, or the `json` option of the class), values JSON has
+	 * no type for are written as `{ "$type", "value" }` envelopes, which `fromJSON()` reads
+	 * back as the same values, even in undeclared fields (see docs/TYPED-JSON.md).
+	 *
 	 * **SOLID - Single Responsibility:** Delegates to ModelSerializer service.
 	 *
+	 * @param options - Optional transformers for this call (inherited by nested models) and JSON mode
 	 * @returns JSON string representation of the model
 	 *
 	 * @example
@@ -428,12 +659,33 @@ export abstract class QModel<TInterface extends Record<string, any>> {
 	 * const user = new User({ id: '1', name: 'John', createdAt: new Date() });
 	 * const json = user.toJSON();
 	 * // '{"id":"1","name":"John","createdAt":"2024-01-01T00:00:00.000Z"}'
+	 *
+	 * user.toJSON({ json: 'typed' });
+	 * // '{"id":"1","name":"John","createdAt":{"$type":"date","value":"2024-01-01T00:00:00.000Z"}}'
 	 * ```
 	 */
-	toJSON(): string {
+	toJSON(options?: IQJsonOptions): string {
+		// JSON.stringify() calls toJSON(key) with the property name
+		const scope = typeof options === 'object' ? options : undefined;
+		if ((scope?.json ?? getQuickConfig(this.constructor).json) === 'typed') {
+			const data = this.serialize({ transformers: QModel.typedJsonTransformers(scope) });
+			return JSON.stringify(QModel.typedJson.encode(data));
+		}
+
 		type ModelAsRecord = Record<string, unknown>;
 		return QModel.serializer.serializeToJson(
-			this as unknown as ModelAsRecord
+			this as unknown as ModelAsRecord,
+			scope?.transformers ? { transformers: scope.transformers } : undefined
+		);
+	}
+
+	/**
+	 * Returns the transformers of typed JSON, on top of the call's transformers.
+	 */
+	private static typedJsonTransformers(options?: IQJsonOptions): TransformerRegistry {
+		return resolveTransformers(
+			TYPED_JSON_TRANSFORMERS,
+			resolveTransformers(options?.transformers, transformerRegistry)
 		);
 	}
 
@@ -448,6 +700,7 @@ export abstract class QModel<TInterface extends Record<string, any>> {
 	 *
 	 * @template T - The model class type
 	 * @param data - Plain object matching the model's interface structure
+	 * @param scope - Optional transformers for this call, inherited by nested models
 	 * @returns A new, fully typed model instance
 	 *
 	 * @example
@@ -480,9 +733,116 @@ export abstract class QModel<TInterface extends Record<string, any>> {
 	 */
 	static deserialize<T extends QModel<any>>(
 		this: new (data: ModelData<any>) => T,
-		data: ModelData<any>
+		data: ModelData<any>,
+		scope?: IQTransformScope
+	): T {
+		return QModel.deserializeRoot(this, data, scope);
+	}
+
+	/**
+	 * Deserializes a root model, recording the migrations applied to its payload.
+	 */
+	private static deserializeRoot<T extends QModel<any>>(
+		modelClass: new (data: ModelData<any>) => T,
+		data: ModelData<any>,
+		scope?: IQTransformScope
 	): T {
-		return QModel.deserializer.deserialize(data, this);
+		const migrations: IQAppliedMigration[] = [];
+		const instance = QModel.deserializer.deserialize(data, modelClass, {
+			path: '',
+			transformers: scope?.transformers,
+			migrations,
+		});
+		instance.recordMigrations(migrations);
+		return instance;
+	}
+
+	/**
+	 * Creates a model instance without ever throwing.
+	 *
+	 * Processes every field and runs every validation rule, then reports all problems
+	 * at once. Useful at API boundaries to return every error to the client.
+	 *
+	 * @template T - The model class type
+	 * @param data - Plain object matching the model's interface structure
+	 * @returns `{ success: true, data }` or `{ success: false, errors }` with every failing path
+	 * (a single error at the root path `''` if `data` is not an object)
+	 *
+	 * @example
+	 * ```typescript
+	 * const result = User.safeParse(req.body);
+	 * if (!result.success) {
+	 *   return res.status(400).json({ errors: result.errors });
+	 * }
+	 * save(result.data); // User instance
+	 * ```
+	 */
+	static safeParse<T extends QModel<any>>(
+		this: new (data: ModelData<any>) => T,
+		data: ModelData<any>
+	): IQSafeParseResult<T> {
+		if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+			const error = `${this.name}: Expected an object`;
+			return { success: false, data: undefined, errors: [{ isValid: false, path: '', error }] };
+		}
+
+		const previousMode = QModel.validateModeOverride;
+		QModel.validateModeOverride = 'throw';
+
+		try {
+			return { success: true, data: new this(data), errors: [] };
+		} catch (error) {
+			if (error instanceof ValidationError) {
+				return { success: false, data: undefined, errors: error.errors };
+			}
+			const errors: IQValidationResult[] = [
+				{
+					isValid: false,
+					path: error instanceof QuickModelError ? error.path : '',
+					error: error instanceof Error ? error.message : String(error),
+				},
+			];
+			return { success: false, data: undefined, errors };
+		} finally {
+			QModel.validateModeOverride = previousMode;
+		}
+	}
+
+	/**
+	 * Returns a Standard Schema (v1) validator of this model, for libraries that accept any
+	 * Standard Schema (tRPC, form resolvers, ...). Its `~standard.validate` deserializes the
+	 * data and runs every validation rule, like `safeParse()`.
+	 *
+	 * @returns A validator whose value is a model instance and whose issues carry the failing paths
+	 *
+	 * @example
+	 * ```typescript
+	 * const createUser = t.procedure.input(User.toStandardSchema()).mutation(({ input }) => {
+	 *   input; // User
+	 * });
+	 * ```
+	 */
+	static toStandardSchema<T extends abstract new (...args: any[]) => QModel<any>>(
+		this: T
+	): IQStandardSchema<ModelData<QModelInterface<T>>, QModelInstance<T>> {
+		const modelClass = this as unknown as typeof QModel & (new (data: ModelData<any>) => QModelInstance<T>);
+
+		const validate = (value: unknown): IQStandardResult<QModelInstance<T>> => {
+			const result = modelClass.safeParse(value as ModelData<any>);
+			if (result.success) {
+				return { value: result.data };
+			}
+			return {
+				issues: result.errors.map((error) => {
+					const path = parsePointer(error.path ?? '').map((segment) =>
+						/^\d+$/.test(segment) ? Number(segment) : segment
+					);
+					return { message: error.error ?? 'Invalid value', ...(path.length > 0 && { path }) };
+				}),
+			};
+		};
+
+		return { '~standard': { version: 1, vendor: 'quickmodel', validate } };
 	}
 
 	/**
@@ -491,9 +851,14 @@ export abstract class QModel<TInterface extends Record<string, any>> {
 	 * Parses a JSON string and deserializes it into a fully typed model instance.
 	 * This is a convenience method that combines JSON.parse() and deserialize().
 	 *
+	 * In `'typed'` mode (see {@link toJSON}), the `{ "$type", "value" }` envelopes are
+	 * read back as the values they hold before the fields are deserialized.
+	 *
 	 * @template T - The model class type
 	 * @param json - JSON string representation of the model
+	 * @param options - Optional transformers for this call (inherited by nested models) and JSON mode
 	 * @returns A new, fully typed model instance
+	 * @throws {DeserializationError} In typed mode, if the JSON is not an object or has an invalid envelope
 	 *
 	 * @example
 	 * ```typescript
@@ -506,9 +871,118 @@ export abstract class QModel<TInterface extends Record<string, any>> {
 	 */
 	static fromJSON<T extends QModel<any>>(
 		this: new (data: ModelData<any>) => T,
-		json: string
+		json: string,
+		options?: IQJsonOptions
 	): T {
-		return QModel.deserializer.deserializeFromJson(json, this);
+		if ((options?.json ?? getQuickConfig(this).json) !== 'typed') {
+			const scope = options?.transformers ? { transformers: options.transformers } : undefined;
+			return QModel.deserializeRoot(this, JSON.parse(json), scope);
+		}
+
+		const data = QModel.typedJson.decode(JSON.parse(json));
+		if (!isPlainObject(data)) {
+			throw new DeserializationError(`${this.name}: Expected a JSON object`, {
+				className: this.name,
+				value: data,
+			});
+		}
+		return QModel.deserializeRoot(this, data, {
+			transformers: QModel.typedJsonTransformers(options),
+		});
+	}
+
+	/**
+	 * Encodes the model instance as MessagePack.
+	 *
+	 * Fields are serialized as by `serialize()`, except that dates are written as timestamps,
+	 * bigints as 64-bit integers and binary values (`ArrayBuffer`, `DataView`, typed arrays)
+	 * as bin, instead of their JSON forms.
+	 *
+	 * @returns The MessagePack bytes
+	 * @throws {SerializationError} If a value cannot be encoded (e.g. a bigint beyond 64 bits)
+	 *
+	 * @example
+	 * ```typescript
+	 * const bytes = sensor.toMsgPack();
+	 * await fetch('/readings', { method: 'POST', body: bytes });
+	 * ```
+	 */
+	toMsgPack(): Uint8Array {
+		return QModel.msgpack.encode(this.serialize({ transformers: MSGPACK_TRANSFORMERS }));
+	}
+
+	/**
+	 * Creates a model instance from MessagePack bytes (see {@link toMsgPack}).
+	 *
+	 * @template T - The model class type
+	 * @param bytes - The MessagePack bytes of a map
+	 * @returns A new instance of the model
+	 * @throws {DeserializationError} If the bytes are not a valid MessagePack map
+	 *
+	 * @example
+	 * ```typescript
+	 * const sensor = Sensor.fromMsgPack(new Uint8Array(await response.arrayBuffer()));
+	 * ```
+	 */
+	static fromMsgPack<T extends QModel<any>>(
+		this: new (data: ModelData<any>) => T,
+		bytes: Uint8Array | ArrayBuffer
+	): T {
+		const data = QModel.msgpack.decode(bytes);
+		if (!isPlainObject(data)) {
+			throw new DeserializationError(`${this.name}: Expected a MessagePack map`, {
+				className: this.name,
+				value: data,
+			});
+		}
+		return QModel.deserializeRoot(this, data, { transformers: MSGPACK_TRANSFORMERS });
+	}
+
+	/**
+	 * Encodes the model instance as CBOR (RFC 8949).
+	 *
+	 * Fields are serialized as by `serialize()`, except that dates, bigints, URLs, regular
+	 * expressions and typed arrays are written with their CBOR tags, `Map`s as CBOR maps and
+	 * `Set`s as tag 258 arrays, instead of their JSON forms.
+	 *
+	 * @returns The CBOR bytes
+	 * @throws {SerializationError} If a value cannot be encoded
+	 *
+	 * @example
+	 * ```typescript
+	 * const bytes = reading.toCBOR();
+	 * await fetch('/ingest', { method: 'POST', body: bytes, headers: { 'Content-Type': 'application/cbor' } });
+	 * ```
+	 */
+	toCBOR(): Uint8Array {
+		return QModel.cbor.encode(this.serialize({ transformers: CBOR_TRANSFORMERS }));
+	}
+
+	/**
+	 * Creates a model instance from CBOR bytes (see {@link toCBOR}).
+	 *
+	 * @template T - The model class type
+	 * @param bytes - The CBOR bytes of a map
+	 * @returns A new instance of the model
+	 * @throws {DeserializationError} If the bytes are not a valid CBOR map
+	 *
+	 * @example
+	 * ```typescript
+	 * const reading = Reading.fromCBOR(new Uint8Array(await request.arrayBuffer()));
+	 * ```
+	 */
+	static fromCBOR<T extends QModel<any>>(
+		this: new (data: ModelData<any>) => T,
+		bytes: Uint8Array | ArrayBuffer
+	): T {
+		const data = QModel.cbor.decode(bytes);
+		if (!isPlainObject(data)) {
+			throw new DeserializationError(`${this.name}: Expected a CBOR map`, {
+				className: this.name,
+				value: data,
+			});
+		}
+		return QModel.deserializeRoot(this, data, { transformers: CBOR_TRANSFORMERS });
 	}
 
 	/**
@@ -751,6 +1225,36 @@ export abstract class QModel<TInterface extends Record<string, any>> {
 		return changes;
 	}
 
+	/**
+	 * Returns the JSON Patch (RFC 6902) operations that turn the initial state into the current one.
+	 *
+	 * Unlike {@link getChanges}, paths point at the innermost change: a field of a nested model,
+	 * an array item, a `Map` entry (keyed by its key) or a `Set` member (by its position).
+	 * Values are in serialized form and paths use wire names.
+	 *
+	 * @returns The operations, ready to send to a server or to {@link applyPatch} (empty if unchanged)
+	 *
+	 * @example
+	 * ```typescript
+	 * order.orders[3].items[0].qty = 2;
+	 * order.tags.add('vip');
+	 *
+	 * order.getPatch();
+	 * // [
+	 * //   { op: 'replace', path: '/orders/3/items/0/qty', value: 2 },
+	 * //   { op: 'add', path: '/tags/1', value: 'vip' }
+	 * // ]
+	 * ```
+	 */
+	getPatch(): QPatchOperation[] {
+		const Constructor = this.constructor as typeof QModel;
+		const initial = (Constructor as any).deserialize(this.getInitInterface());
+		return QModel.jsonPatch.diff(
+			QModel.jsonPatch.document(initial),
+			QModel.jsonPatch.document(this)
+		);
+	}
+
 	/**
 	 * Resets the model to its initial state.
 	 *
@@ -781,10 +1285,117 @@ export abstract class QModel<TInterface extends Record<string, any>> {
 		const Constructor = this.constructor as typeof QModel;
 		const restored = (Constructor as any).deserialize(initial);
 
-		// Copy all properties from restored instance
-		for (const key of Object.keys(restored)) {
-			(this as any)[key] = (restored as any)[key];
+		this.assign(restored);
+	}
+
+	/**
+	 * Makes the current state the new change-tracking baseline, e.g. after a successful save.
+	 * `hasChanges()`, `getChanges()`, `getPatch()` and `reset()` are relative to it from now on.
+	 *
+	 * @example
+	 * ```typescript
+	 * user.name = 'Jane';
+	 * await api.patch(`/users/${user.id}`, user.getChanges());
+	 * user.markClean();
+	 * user.hasChanges(); // false
+	 * ```
+	 */
+	markClean(): void {
+		this.setBaseline(this.toInterface() as ModelData<TInterface>);
+	}
+
+	/**
+	 * Alias for {@link markClean}.
+	 */
+	commit(): void {
+		this.markClean();
+	}
+
+	/**
+	 * Takes data from the server as the new baseline, keeping the local edits.
+	 *
+	 * Fields not edited locally take the server value. Fields edited locally keep their value,
+	 * unless the server changed them too (to a different value): those are conflicts, reported
+	 * field by field and resolved with the server value (or the local one with `prefer: 'local'`).
+	 *
+	 * @param serverData - The server's version of the model (e.g. the response of a save)
+	 * @param options - `prefer`: which value conflicting fields take (default `'server'`)
+	 * @returns The conflicts, keyed by wire name, with their serialized base, local and server values
+	 *
+	 * @example
+	 * ```typescript
+	 * user.name = 'Jane';                       // local edit
+	 * const conflicts = user.rebase(await api.get(`/users/${user.id}`));
+	 * user.name;                                // 'Jane' unless the server changed it too
+	 * conflicts;                                // [{ field: 'email', base: 'a@x.io', local: 'b@x.io', server: 'c@x.io' }]
+	 * user.getChanges();                        // local edits relative to the server data
+	 * ```
+	 */
+	rebase(
+		serverData: ModelData<TInterface>,
+		options: IQRebaseOptions = {}
+	): IQRebaseConflict[] {
+		type Serialized = Record<string, unknown>;
+		const Constructor = this.constructor as typeof QModel;
+		const base = (Constructor as any).deserialize(this.getInitInterface()).serialize() as Serialized;
+		const serverModel = (Constructor as any).deserialize(serverData) as QModel<TInterface>;
+		const server = serverModel.serialize() as Serialized;
+		const local = this.serialize() as Serialized;
+
+		const merged: Serialized = { ...server };
+		const conflicts: IQRebaseConflict[] = [];
+		for (const field of new Set([...Object.keys(base), ...Object.keys(local), ...Object.keys(server)])) {
+			// Fields not edited locally take the server value
+			if (deepEqual(local[field], base[field])) continue;
+
+			if (!deepEqual(server[field], base[field]) && !deepEqual(server[field], local[field])) {
+				conflicts.push({ field, base: base[field], local: local[field], server: server[field] });
+				if (options.prefer !== 'local') continue;
+			}
+			merged[field] = local[field];
 		}
+
+		this.assign((Constructor as any).deserialize(merged));
+		this.setBaseline(serverModel.toInterface() as ModelData<TInterface>);
+		return conflicts;
+	}
+
+	/**
+	 * Merges two concurrent edits of a model (three-way merge).
+	 *
+	 * Values changed on one side take that side's value. Values changed on both sides are
+	 * merged by field type: `Set`s keep the additions of both sides and drop the removals
+	 * of either, `Map`s and nested models are merged entry by entry, and arrays of nested
+	 * models are merged item by item, matching items by an identity field. The rest are
+	 * conflicts, resolved with the `strategy` side. Values are compared serialized, as in
+	 * `rebase()`.
+	 *
+	 * @template T - The model class type
+	 * @param base - The version both sides started from (instance or serialized data)
+	 * @param local - The local version
+	 * @param remote - The remote version
+	 * @param options - `strategy`: side of conflicting values (default `'local'`),
+	 *   `identity`: wire name of the identity of array items (default `'id'`)
+	 * @returns A new merged model and the conflicts (JSON pointers with serialized values)
+	 *
+	 * @example
+	 * ```typescript
+	 * const { model, conflicts } = Order.merge(snapshot, order, await api.get(`/orders/${order.id}`));
+	 * conflicts; // [{ path: '/items/0/qty', base: 1, local: 2, remote: 3 }]
+	 * ```
+	 */
+	static merge<T extends QModel<any>>(
+		this: new (data: ModelData<any>) => T,
+		base: object,
+		local: object,
+		remote: object,
+		options: IQMergeOptions = {}
+	): IQMergeResult<T> {
+		const toModel = (side: object): QModel<any> =>
+			side instanceof QModel ? side : QModel.deserializeRoot(this, side);
+
+		const { data, conflicts } = QModel.merger.merge(toModel(base), toModel(local), toModel(remote), options);
+		return { model: QModel.deserializeRoot(this, data), conflicts };
 	}
 
 	/**
@@ -820,12 +1431,580 @@ export abstract class QModel<TInterface extends Record<string, any>> {
 		const merged = { ...current, ...patch };
 		const updated = (Constructor as any).deserialize(merged);
 
-		// Copy all properties from updated instance
-		for (const key of Object.keys(updated)) {
-			(this as any)[key] = (updated as any)[key];
+		this.assign(updated);
+	}
+
+	/**
+	 * Applies JSON Patch (RFC 6902) operations to the model.
+	 *
+	 * The operations are applied to the serialized form of the model (as produced by
+	 * {@link getPatch}), then the result goes through the deserializer again, so values are
+	 * converted and checked like constructor input (and validated if the class has a
+	 * `validate` mode). The model is only updated if every step succeeds.
+	 *
+	 * @param operations - `add`, `remove`, `replace`, `move`, `copy` and `test` operations
+	 * @throws {PatchError} If a path does not exist or a `test` operation fails
+	 * @throws {DeserializationError} If a patched value cannot be converted to its field type
+	 *
+	 * @example
+	 * ```typescript
+	 * replica.applyPatch(original.getPatch());
+	 *
+	 * order.applyPatch([
+	 *   { op: 'test', path: '/status', value: 'draft' },
+	 *   { op: 'replace', path: '/status', value: 'sent' },
+	 *   { op: 'add', path: '/sentAt', value: new Date().toISOString() },
+	 * ]);
+	 * ```
+	 */
+	applyPatch(operations: QPatchOperation[]): void {
+		const Constructor = this.constructor as new (data: ModelData<TInterface>) => this;
+		const patched = QModel.jsonPatch.apply(QModel.jsonPatch.document(this), operations);
+		const updated = new Constructor(QModel.jsonPatch.restoreKeys(patched, this) as ModelData<TInterface>);
+
+		this.assign(updated);
+	}
+
+	/**
+	 * Replaces the state of this instance with the state of another one
+	 * (recorded as one step in the history).
+	 */
+	private assign(source: QModel<TInterface>): void {
+		this.assertMutable('');
+
+		// Values are copied through their storage keys (lazy getter fields included), so that
+		// setters do not fire: change events are emitted once, for the fields that changed
+		const storedKeys = (model: object) =>
+			Object.keys(model).filter((key) =>
+				key.startsWith('__') ? key.startsWith('__quickmodel_') : !(`__quickmodel_${key}` in model)
+			);
+		const copy = () => {
+			const keys = new Set(storedKeys(source));
+			for (const key of storedKeys(this)) {
+				if (keys.has(key)) {
+					continue;
+				}
+				// Fields missing in the source are cleared, with their lazy getter backup
+				(this as any)[key] = undefined;
+				delete (this as any).__qm_values?.[key.replace(/^__quickmodel_/, '')];
+			}
+			for (const key of keys) {
+				(this as any)[key] = (source as any)[key];
+			}
+		};
+
+		const before = this.__events || this.__owners ? this.fieldStates() : undefined;
+		if (this.__history) {
+			this.__history.batch(copy);
+		} else {
+			copy();
+		}
+		this.adoptFields();
+
+		if (before) {
+			const after = this.fieldStates();
+			for (const key of new Set([...before.keys(), ...after.keys()])) {
+				const [oldValue, oldSerialized] = before.get(key) ?? [];
+				const [newValue, newSerialized] = after.get(key) ?? [];
+				if (!deepEqual(oldSerialized, newSerialized)) {
+					this.notifyChange([key], oldValue, newValue, new Set());
+				}
+			}
+		}
+	}
+
+	/**
+	 * Returns the live and serialized value of every field, by property name.
+	 */
+	private fieldStates(): Map<string, [unknown, unknown]> {
+		const naming = getQuickConfig(this.constructor).naming;
+		const serialized = this.serialize() as Record<string, unknown>;
+		return new Map(
+			Object.entries(serialized).map(([wireName, value]) => {
+				const key = toPropertyName(this, wireName, naming);
+				return [key, [(this as any)[key], value]];
+			})
+		);
+	}
+
+	/**
+	 * Starts recording an undo/redo history of this instance.
+	 *
+	 * Every field set (through the setters installed for model fields) becomes an undo step,
+	 * as does every `patch()`, `applyPatch()` and `reset()` call. Use {@link checkpoint} to
+	 * group several sets into one step. Calling it again starts a new, empty history.
+	 *
+	 * @param options - `limit`: maximum number of undo steps kept (default 100)
+	 * @returns This instance
+	 *
+	 * @example
+	 * ```typescript
+	 * const user = new User(data).enableHistory({ limit: 50 });
+	 *
+	 * user.name = 'Jane';
+	 * user.undo();       // name is back to its previous value
+	 * user.canRedo();    // true
+	 * ```
+	 */
+	enableHistory(options?: IQHistoryOptions): this {
+		Object.defineProperty(this, '__history', {
+			value: new ModelHistory(
+				() => this.serialize(),
+				(state) => this.patch(state as Partial<ModelData<TInterface>>),
+				options
+			),
+			writable: false,
+			enumerable: false,
+			configurable: true,
+		});
+		return this;
+	}
+
+	/**
+	 * Starts an undo step: every change until the next checkpoint, `undo()` or `redo()`
+	 * is undone at once. Does nothing if the history is not enabled.
+	 *
+	 * @param label - Name of the step, returned by `undo()` / `redo()`
+	 *
+	 * @example
+	 * ```typescript
+	 * user.checkpoint('Rename');
+	 * user.firstName = 'Jane';
+	 * user.lastName = 'Doe';
+	 * user.undo(); // { label: 'Rename' } (both names are restored)
+	 * ```
+	 */
+	checkpoint(label?: string): void {
+		this.__history?.checkpoint(label);
+	}
+
+	/**
+	 * Restores the state before the last step of the history.
+	 *
+	 * @returns The undone step (`{ label }` if labelled), or `undefined` if there is nothing to undo
+	 */
+	undo(): IQHistoryStep | undefined {
+		return this.__history?.undo();
+	}
+
+	/**
+	 * Restores the state of the last undone step.
+	 *
+	 * @returns The redone step (`{ label }` if labelled), or `undefined` if there is nothing to redo
+	 */
+	redo(): IQHistoryStep | undefined {
+		return this.__history?.redo();
+	}
+
+	/**
+	 * Checks whether {@link undo} would restore a previous state.
+	 */
+	canUndo(): boolean {
+		return this.__history?.canUndo() ?? false;
+	}
+
+	/**
+	 * Checks whether {@link redo} would restore an undone state.
+	 */
+	canRedo(): boolean {
+		return this.__history?.canRedo() ?? false;
+	}
+
+	/**
+	 * Freezes this model and its nested models (deep).
+	 *
+	 * Setting a field, `patch()`, `applyPatch()`, `reset()`, `undo()` and `rebase()` then throw
+	 * an {@link ImmutableModelError}. Arrays and plain objects are frozen, and `Map`, `Set` and
+	 * typed-array fields are replaced by read-only views (same reads and `instanceof` checks,
+	 * mutating methods throw). Use {@link with} to get updated copies. Models of classes with
+	 * `@Quick(map, { immutable: true })` are frozen on construction.
+	 *
+	 * @returns This instance
+	 *
+	 * @example
+	 * ```typescript
+	 * const user = new User(data).freeze();
+	 * user.name = 'Jane';     // throws ImmutableModelError
+	 * user.roles.add('admin'); // throws ImmutableModelError
+	 * ```
+	 */
+	freeze(): this {
+		if (this.__frozen) return this;
+
+		Object.defineProperty(this, '__frozen', {
+			value: true,
+			writable: false,
+			enumerable: false,
+			configurable: true,
+		});
+		for (const key of Object.keys(this)) {
+			if (!key.startsWith('__quickmodel_')) continue;
+
+			const field = key.slice('__quickmodel_'.length);
+			const value = this.freezeValue((this as any)[key], appendPointer('', field), field);
+			(this as any)[key] = value;
+			if ((this as any).__qm_values && field in (this as any).__qm_values) {
+				(this as any).__qm_values[field] = value;
+			}
+		}
+		return this;
+	}
+
+	/**
+	 * Checks whether the model is frozen (by {@link freeze} or an immutable class).
+	 */
+	isFrozen(): boolean {
+		return this.__frozen === true;
+	}
+
+	/**
+	 * Returns a copy of the model with some fields changed, leaving this instance untouched.
+	 *
+	 * Changes are given in serialized form, as in `patch()`. The copy of a frozen model is
+	 * frozen and shares the unchanged fields with this instance (nested models included); the
+	 * copy of a mutable model is a deep copy, so editing one never changes the other.
+	 *
+	 * @param changes - Partial object with the fields to change
+	 * @returns The updated copy
+	 *
+	 * @example
+	 * ```typescript
+	 * const user = new User(data).freeze();
+	 * const renamed = user.with({ name: 'Jane' });
+	 * renamed.name;                    // 'Jane'
+	 * user.name;                       // 'John'
+	 * renamed.address === user.address; // true
+	 * ```
+	 */
+	with(changes: Partial<ModelData<TInterface>>): this {
+		const Constructor = this.constructor as typeof QModel;
+		const next = (Constructor as any).deserialize({ ...this.serialize(), ...changes }) as this;
+		if (!this.__frozen) {
+			return next;
+		}
+
+		const naming = getQuickConfig(this.constructor).naming;
+		const changed = new Set(Object.keys(changes).map((wireName) => toPropertyName(this, wireName, naming)));
+		// Shared values are frozen and never emit changes, so the copy does not adopt them
+		// (which would add an owner link to them on every call)
+		for (const key of Object.keys(this)) {
+			const field = key.slice('__quickmodel_'.length);
+			if (!key.startsWith('__quickmodel_') || changed.has(field)) continue;
+
+			(next as any)[key] = (this as any)[key];
+			if ((next as any).__qm_values && field in (next as any).__qm_values) {
+				(next as any).__qm_values[field] = (this as any)[key];
+			}
+		}
+
+		return next.freeze();
+	}
+
+	/**
+	 * Throws if the model is frozen.
+	 */
+	private assertMutable(path: string, field?: string): void {
+		if (!this.__frozen) return;
+
+		const target = field ? `${this.constructor.name}.${field}` : this.constructor.name;
+		throw new ImmutableModelError(`${target}: Cannot modify a frozen model`, {
+			className: this.constructor.name,
+			propertyKey: field,
+			path,
+		});
+	}
+
+	/**
+	 * Deep-freezes the value of a field, returning it (or its read-only view).
+	 */
+	private freezeValue(value: unknown, path: string, field: string): unknown {
+		if (value instanceof QModel) {
+			return value.freeze();
+		}
+		if (isReadonlyView(value) || typeof value !== 'object' || value === null) {
+			return value;
+		}
+		// Already frozen (e.g. by the deserializer, for the instance this one is built from)
+		if ((Array.isArray(value) || isPlainObject(value)) && Object.isFrozen(value)) {
+			return value;
+		}
+		if (Array.isArray(value)) {
+			value.forEach((item: unknown, index) => {
+				value[index] = this.freezeValue(item, appendPointer(path, index), field);
+			});
+			return Object.freeze(value);
+		}
+		if (isPlainObject(value)) {
+			for (const [key, item] of Object.entries(value)) {
+				value[key] = this.freezeValue(item, appendPointer(path, key), field);
+			}
+			return Object.freeze(value);
+		}
+		if (isReadonlyViewable(value)) {
+			if (value instanceof Map) {
+				for (const [key, item] of value) {
+					value.set(key, this.freezeValue(item, appendPointer(path, String(key)), field));
+				}
+			} else if (value instanceof Set) {
+				for (const item of value) {
+					this.freezeValue(item, path, field);
+				}
+			}
+			return readonlyView(value, (operation) => {
+				throw new ImmutableModelError(
+					`${this.constructor.name}.${field}: ${operation} is not allowed on a frozen model`,
+					{ className: this.constructor.name, propertyKey: field, path }
+				);
+			});
+		}
+		return value;
+	}
+
+	/**
+	 * Subscribes to the changes of this model.
+	 *
+	 * A `change` event is emitted for every field set through the setters installed for model
+	 * fields, and for every field changed by `patch()`, `applyPatch()`, `reset()`, `undo()` or
+	 * `redo()`. Changes of nested models (in fields, arrays, `Map`s and `Set`s) bubble up with
+	 * their full path. In-place mutations (`items.push()`, `tags.add()`) are not detected.
+	 *
+	 * @param event - The event name (`'change'`)
+	 * @param listener - Called with `{ path, oldValue, newValue }`
+	 * @returns A function that unsubscribes the listener
+	 *
+	 * @example
+	 * ```typescript
+	 * const off = order.on('change', ({ path, oldValue, newValue }) => {
+	 *   console.log(path, oldValue, newValue); // '/items/0/qty' 1 2
+	 * });
+	 * order.items[0].qty = 2;
+	 * off();
+	 * ```
+	 */
+	on(event: 'change', listener: QChangeListener): () => void {
+		if (!this.__events) {
+			Object.defineProperty(this, '__events', {
+				value: new ModelEvents<IQModelEvents>(),
+				writable: false,
+				enumerable: false,
+				configurable: true,
+			});
+		}
+		return this.__events!.on(event, listener);
+	}
+
+	/**
+	 * Subscribes to the changes of one field (including the changes inside it, when it
+	 * holds nested models).
+	 *
+	 * @param field - The property name
+	 * @param listener - Called with `{ path, oldValue, newValue }`
+	 * @returns A function that unsubscribes the listener
+	 *
+	 * @example
+	 * ```typescript
+	 * user.watch('email', ({ newValue }) => autosave({ email: newValue }));
+	 * ```
+	 */
+	watch(field: string, listener: QChangeListener): () => void {
+		return this.on('change', (event) => {
+			if (parsePointer(event.path)[0] === field) {
+				listener(event);
+			}
+		});
+	}
+
+	/**
+	 * Called by field setters: writes the value, records the history and emits the change.
+	 *
+	 * @throws {ImmutableModelError} If the model is frozen
+	 */
+	private writeField(key: string, storageKey: string, newValue: unknown): void {
+		this.assertMutable(appendPointer('', key), key);
+		const oldValue = (this as any)[key];
+		(this as any)[storageKey] = newValue;
+
+		this.__history?.record();
+		this.adopt(key, newValue);
+		if (!Object.is(oldValue, newValue)) {
+			this.notifyChange([key], oldValue, newValue, new Set());
+		}
+	}
+
+	/**
+	 * Emits a change to the listeners of this model, then bubbles it up to its owners.
+	 */
+	private notifyChange(
+		segments: string[],
+		oldValue: unknown,
+		newValue: unknown,
+		visited: Set<QModel<any>>
+	): void {
+		if (visited.has(this)) return;
+		visited.add(this);
+
+		this.__events?.emit('change', {
+			path: segments.reduce<string>(appendPointer, ''),
+			oldValue,
+			newValue,
+		});
+
+		for (const link of [...(this.__owners ?? [])]) {
+			const location = QModel.locate((link.owner as any)[link.key], this);
+			if (!location) {
+				// No longer held by that field
+				this.__owners!.splice(this.__owners!.indexOf(link), 1);
+				continue;
+			}
+			link.owner.__history?.record();
+			link.owner.notifyChange([link.key, ...location, ...segments], oldValue, newValue, visited);
+		}
+	}
+
+	/**
+	 * Registers this model as the owner of the nested models of every field.
+	 */
+	private adoptFields(): void {
+		for (const key of Object.keys(this)) {
+			if (key.startsWith('__quickmodel_')) {
+				this.adopt(key.slice('__quickmodel_'.length), (this as any)[key]);
+			}
+		}
+	}
+
+	/**
+	 * Registers this model as the owner of the nested models held by a field.
+	 */
+	private adopt(key: string, value: unknown): void {
+		const children =
+			value instanceof Map ? [...value.values()]
+			: value instanceof Set || Array.isArray(value) ? [...value]
+			: [value];
+
+		for (const child of children) {
+			if (!(child instanceof QModel) || child === this) continue;
+			if (!child.__owners) {
+				Object.defineProperty(child, '__owners', {
+					value: [],
+					writable: false,
+					enumerable: false,
+					configurable: true,
+				});
+			}
+			if (!child.__owners!.some((link) => link.owner === this && link.key === key)) {
+				child.__owners!.push({ owner: this, key });
+			}
 		}
 	}
 
+	/**
+	 * Returns the path segments of a nested model inside a field value
+	 * (`[]` for the value itself), or `undefined` if the value does not hold it.
+	 */
+	private static locate(value: unknown, child: QModel<any>): string[] | undefined {
+		if (value === child) return [];
+		if (Array.isArray(value) || value instanceof Set) {
+			const index = [...value].indexOf(child);
+			return index === -1 ? undefined : [String(index)];
+		}
+		if (value instanceof Map) {
+			for (const [key, item] of value) {
+				if (item === child) return [String(key)];
+			}
+		}
+		return undefined;
+	}
+
+	/**
+	 * Validates the current state of the model.
+	 *
+	 * Runs the type checks of the field transformers (Date, Map, Set, buffers, ...)
+	 * and the declarative rules (@Required(), @Min(), @Email(), ...), recursing into
+	 * nested models.
+	 *
+	 * @returns Failed validation results with the JSON pointer of each failing value (empty if valid)
+	 *
+	 * @example
+	 * ```typescript
+	 * class User extends QModel<IUser> {
+	 *   @Required() @Email() email!: string;
+	 *   @Min(18) age!: number;
+	 * }
+	 *
+	 * const user = new User({ email: 'nope', age: 12 });
+	 * user.validate();
+	 * // [
+	 * //   { isValid: false, path: '/email', rule: 'email', error: '...' },
+	 * //   { isValid: false, path: '/age', rule: 'min', error: '...' }
+	 * // ]
+	 * ```
+	 */
+	validate(): IQValidationResult[] {
+		return QModel.validator.validate(
+			this as unknown as Record<string, unknown>,
+			this.constructor
+		);
+	}
+
+	/**
+	 * Returns the errors collected on construction in `'collect'` validation mode.
+	 *
+	 * @returns Field and rule failures found when the instance was created (empty otherwise)
+	 *
+	 * @example
+	 * ```typescript
+	 * @Quick({ createdAt: Date }, { validate: 'collect' })
+	 * class User extends QModel<IUser> { ... }
+	 *
+	 * const user = new User({ createdAt: 'not a date', email: 'nope' });
+	 * user.getErrors(); // [{ path: '/createdAt', ... }, { path: '/email', ... }]
+	 * ```
+	 */
+	getErrors(): IQValidationResult[] {
+		return [...(this.__errors ?? [])];
+	}
+
+	/**
+	 * Returns the migrations that upgraded the payload of this model and its nested models.
+	 *
+	 * @returns One entry per step, in the order they ran (empty for current payloads)
+	 *
+	 * @example
+	 * ```typescript
+	 * @Quick({}, { version: 3, migrations: { 1: toV2, 2: toV3 } })
+	 * class User extends QModel<IUser> { ... }
+	 *
+	 * const user = User.fromJSON('{"__v":1,"name":"Ann"}');
+	 * user.getMigrations(); // [{ path: '', className: 'User', from: 1, to: 2 }, { ..., from: 2, to: 3 }]
+	 * ```
+	 */
+	getMigrations(): IQAppliedMigration[] {
+		return [...(this.__migrations ?? [])];
+	}
+
+	/**
+	 * Stores the migrations applied to the payload of this model.
+	 */
+	private recordMigrations(migrations: IQAppliedMigration[]): void {
+		if (migrations.length === 0) return;
+
+		Object.defineProperty(this, '__migrations', {
+			value: migrations,
+			writable: false,
+			enumerable: false,
+			configurable: true,
+		});
+	}
+
+	/**
+	 * Checks if the current state of the model passes all validations.
+	 *
+	 * @returns true if {@link validate} returns no failures
+	 */
+	isValid(): boolean {
+		return this.validate().length === 0;
+	}
+
 	/**
 	 * Deep equality comparison for change detection.
 	 *
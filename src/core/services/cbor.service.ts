@@ -0,0 +1,723 @@
+/**
+ * Service for CBOR (RFC 8949), the binary wire format of `model.toCBOR()` / `Model.fromCBOR()`.
+ *
+ * Models are still serialized by `ModelSerializer` / `ModelDeserializer`, with the
+ * transformers of `CBOR_TRANSFORMERS` in scope: they keep the values CBOR has types or tags
+ * for native, so that the codec writes them as such:
+ * - `Date` → tag 1 (epoch seconds); tag 0 (RFC 3339 string) is also read
+ * - `bigint` → integer, or tag 2 / 3 (bignum) beyond 64 bits
+ * - `URL` → tag 32
+ * - `RegExp` → tag 35 (its source), or tag 21066 (`[source, flags]`) when it has flags
+ * - `Map` → map, `Set` → tag 258 (array of distinct values)
+ * - typed arrays → RFC 8746 tags (64–86), in platform byte order
+ * - `ArrayBuffer`, `SharedArrayBuffer` and `DataView` → byte string
+ *
+ * Other values take their usual serialized form. When decoding, integers within the safe
+ * integer range become numbers (bigint fields accept them), byte strings become
+ * `Uint8Array`s and maps with string keys become plain objects. Indefinite-length items
+ * and half-precision floats, which constrained devices often send, are read as well.
+ *
+ * @remarks
+ * This class follows SOLID principles:
+ * - **Single Responsibility**: Only encodes and decodes values; models are (de)serialized by the model services
+ *
+ * @example
+ * ```typescript
+ * const codec = new CborService();
+ * const bytes = codec.encode({ at: new Date(0), tags: new Set(['a']), data: new Float32Array([1.5]) });
+ * codec.decode(bytes); // { at: Date(0), tags: Set { 'a' }, data: Float32Array [1.5] }
+ * ```
+ */
+
+import type { QTransformerOverrides } from './transformer-registry.service';
+import { DeserializationError } from '../errors/deserialization.error';
+import { SerializationError } from '../errors/serialization.error';
+import { binaryTransformers, nativeTransformer } from '../helpers/native-transformers';
+
+// Major types
+const UNSIGNED = 0;
+const NEGATIVE = 1;
+const BYTES = 2;
+const TEXT = 3;
+const ARRAY = 4;
+const MAP = 5;
+const TAG = 6;
+const SIMPLE = 7;
+
+// Tags
+const TAG_DATE_STRING = 0;
+const TAG_DATE_EPOCH = 1;
+const TAG_POSITIVE_BIGNUM = 2;
+const TAG_NEGATIVE_BIGNUM = 3;
+const TAG_URI = 32;
+const TAG_REGEXP = 35;
+const TAG_SET = 258;
+const TAG_ECMASCRIPT_REGEXP = 21066;
+const TAG_SELF_DESCRIBED = 55799;
+
+const INDEFINITE = 31;
+const BREAK = 0xff;
+
+const UINT64_MAX = 2n ** 64n - 1n;
+
+// Nesting limit of arrays, maps and tags, so that deep input cannot overflow the call stack
+const MAX_DEPTH = 512;
+
+const LITTLE_ENDIAN = new Uint8Array(new Uint16Array([1]).buffer)[0] === 1;
+
+type QTypedArrayConstructor = (new (buffer: ArrayBuffer) => ArrayBufferView) & {
+  BYTES_PER_ELEMENT: number;
+};
+
+/**
+ * RFC 8746 tags of the typed arrays: [constructor, big-endian tag, little-endian tag].
+ */
+const TYPED_ARRAY_TAGS: Array<[QTypedArrayConstructor, number, number]> = [
+  [Uint8Array, 64, 64],
+  [Uint16Array, 65, 69],
+  [Uint32Array, 66, 70],
+  [BigUint64Array, 67, 71],
+  [Uint8ClampedArray, 68, 68],
+  [Int8Array, 72, 72],
+  [Int16Array, 73, 77],
+  [Int32Array, 74, 78],
+  [BigInt64Array, 75, 79],
+  [Float32Array, 81, 85],
+  [Float64Array, 82, 86],
+];
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+/**
+ * Growable byte buffer the encoder writes to.
+ */
+class CborWriter {
+  private bytes = new Uint8Array(256);
+  private view = new DataView(this.bytes.buffer);
+  private length = 0;
+
+  result(): Uint8Array {
+    return this.bytes.slice(0, this.length);
+  }
+
+  u8(value: number): void {
+    this.reserve(1);
+    this.view.setUint8(this.length++, value);
+  }
+
+  u16(value: number): void {
+    this.reserve(2);
+    this.view.setUint16(this.length, value);
+    this.length += 2;
+  }
+
+  u32(value: number): void {
+    this.reserve(4);
+    this.view.setUint32(this.length, value);
+    this.length += 4;
+  }
+
+  u64(value: bigint): void {
+    this.reserve(8);
+    this.view.setBigUint64(this.length, value);
+    this.length += 8;
+  }
+
+  f32(value: number): void {
+    this.reserve(4);
+    this.view.setFloat32(this.length, value);
+    this.length += 4;
+  }
+
+  f64(value: number): void {
+    this.reserve(8);
+    this.view.setFloat64(this.length, value);
+    this.length += 8;
+  }
+
+  raw(bytes: Uint8Array): void {
+    this.reserve(bytes.byteLength);
+    this.bytes.set(bytes, this.length);
+    this.length += bytes.byteLength;
+  }
+
+  private reserve(size: number): void {
+    if (this.length + size <= this.bytes.byteLength) {
+      return;
+    }
+    const grown = new Uint8Array(Math.max(this.bytes.byteLength * 2, this.length + size));
+    grown.set(this.bytes.subarray(0, this.length));
+    this.bytes = grown;
+    this.view = new DataView(grown.buffer);
+  }
+}
+
+/**
+ * Cursor over the bytes the decoder reads.
+ */
+class CborReader {
+  private readonly bytes: Uint8Array;
+  private readonly view: DataView;
+  private depth = 0;
+  offset = 0;
+
+  constructor(bytes: Uint8Array) {
+    // A plain Uint8Array, whose slices are copies (those of a Node.js Buffer are views)
+    this.bytes = new Uint8Array(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  get done(): boolean {
+    return this.offset >= this.bytes.byteLength;
+  }
+
+  /**
+   * Consumes the "break" stop code of an indefinite-length item, if it comes next.
+   */
+  atBreak(): boolean {
+    if (this.done) {
+      throw new DeserializationError(`CBOR: Unexpected end of data at byte ${this.offset}`);
+    }
+    if (this.view.getUint8(this.offset) !== BREAK) {
+      return false;
+    }
+    this.offset++;
+    return true;
+  }
+
+  u8(): number {
+    return this.view.getUint8(this.take(1));
+  }
+
+  u16(): number {
+    return this.view.getUint16(this.take(2));
+  }
+
+  u32(): number {
+    return this.view.getUint32(this.take(4));
+  }
+
+  u64(): bigint {
+    return this.view.getBigUint64(this.take(8));
+  }
+
+  f16(): number {
+    const half = this.u16();
+    const exponent = (half >> 10) & 0x1f;
+    const mantissa = half & 0x3ff;
+    const sign = half & 0x8000 ? -1 : 1;
+    if (exponent === 0) return sign * mantissa * 2 ** -24;
+    if (exponent === 0x1f) return mantissa ? NaN : sign * Infinity;
+    return sign * (mantissa + 0x400) * 2 ** (exponent - 25);
+  }
+
+  f32(): number {
+    return this.view.getFloat32(this.take(4));
+  }
+
+  f64(): number {
+    return this.view.getFloat64(this.take(8));
+  }
+
+  raw(length: number): Uint8Array {
+    const start = this.take(length);
+    return this.bytes.slice(start, start + length);
+  }
+
+  /**
+   * Enters an array, a map or a tag, checking the nesting depth.
+   */
+  enter(): void {
+    if (++this.depth > MAX_DEPTH) {
+      throw new DeserializationError(
+        `CBOR: Nesting deeper than ${MAX_DEPTH} levels at byte ${this.offset}`
+      );
+    }
+  }
+
+  leave(): void {
+    this.depth--;
+  }
+
+  private take(size: number): number {
+    if (this.offset + size > this.bytes.byteLength) {
+      throw new DeserializationError(`CBOR: Unexpected end of data at byte ${this.offset}`);
+    }
+    const start = this.offset;
+    this.offset += size;
+    return start;
+  }
+}
+
+export class CborService {
+  /**
+   * Encodes a value (typically a serialized model) as CBOR.
+   *
+   * @param value - Plain data: primitives, bigints, dates, URLs, regular expressions, binary
+   *   values, arrays, `Set`s, `Map`s and objects
+   * @returns The encoded bytes
+   * @throws {SerializationError} If a value cannot be encoded (functions, symbols, invalid dates)
+   */
+  encode(value: unknown): Uint8Array {
+    const writer = new CborWriter();
+    this.write(writer, value, '');
+    return writer.result();
+  }
+
+  /**
+   * Decodes CBOR bytes.
+   *
+   * @param bytes - The encoded value
+   * @returns The decoded value
+   * @throws {DeserializationError} If the bytes are not valid CBOR (or use unsupported tags), or
+   * nest arrays, maps and tags deeper than 512 levels
+   */
+  decode(bytes: Uint8Array | ArrayBuffer): unknown {
+    const reader = new CborReader(bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes));
+    const value = this.read(reader);
+    if (!reader.done) {
+      throw new DeserializationError(
+        `CBOR: Unexpected data after the value at byte ${reader.offset}`
+      );
+    }
+    return value;
+  }
+
+  private write(writer: CborWriter, value: unknown, path: string): void {
+    if (value === null || value === undefined) {
+      writer.u8(0xf6);
+    } else if (typeof value === 'boolean') {
+      writer.u8(value ? 0xf5 : 0xf4);
+    } else if (typeof value === 'number') {
+      this.writeNumber(writer, value);
+    } else if (typeof value === 'bigint') {
+      this.writeBigInt(writer, value);
+    } else if (typeof value === 'string') {
+      this.writeText(writer, value);
+    } else if (value instanceof Date) {
+      this.writeDate(writer, value, path);
+    } else if (value instanceof URL) {
+      this.writeHead(writer, TAG, TAG_URI);
+      this.writeText(writer, value.href);
+    } else if (value instanceof RegExp) {
+      if (value.flags) {
+        this.writeHead(writer, TAG, TAG_ECMASCRIPT_REGEXP);
+        this.write(writer, [value.source, value.flags], path);
+      } else {
+        this.writeHead(writer, TAG, TAG_REGEXP);
+        this.writeText(writer, value.source);
+      }
+    } else if (ArrayBuffer.isView(value) && !(value instanceof DataView)) {
+      this.writeTypedArray(writer, value, path);
+    } else if (
+      value instanceof ArrayBuffer ||
+      value instanceof SharedArrayBuffer ||
+      value instanceof DataView
+    ) {
+      this.writeBytes(
+        writer,
+        value instanceof DataView
+          ? new Uint8Array(value.buffer, value.byteOffset, value.byteLength)
+          : new Uint8Array(value)
+      );
+    } else if (Array.isArray(value)) {
+      this.writeHead(writer, ARRAY, value.length);
+      value.forEach((item: unknown, index) => this.write(writer, item, `${path}/${index}`));
+    } else if (value instanceof Set) {
+      this.writeHead(writer, TAG, TAG_SET);
+      this.write(writer, [...(value as Set<unknown>)], path);
+    } else if (value instanceof Map) {
+      this.writeHead(writer, MAP, value.size);
+      for (const [key, item] of value as Map<unknown, unknown>) {
+        this.write(writer, key, path);
+        this.write(writer, item, `${path}/${String(key)}`);
+      }
+    } else if (typeof value === 'object') {
+      // Keys with undefined values are left out, as in JSON
+      const entries = Object.entries(value).filter(([, item]) => item !== undefined);
+      this.writeHead(writer, MAP, entries.length);
+      for (const [key, item] of entries) {
+        this.writeText(writer, key);
+        this.write(writer, item, `${path}/${key}`);
+      }
+    } else {
+      throw new SerializationError(`CBOR: Cannot encode a value of type ${typeof value}`, {
+        path,
+        value,
+      });
+    }
+  }
+
+  /**
+   * Writes the initial byte of an item and its argument, in the shortest form.
+   */
+  private writeHead(writer: CborWriter, major: number, argument: number | bigint): void {
+    if (argument < 24) {
+      writer.u8((major << 5) | Number(argument));
+    } else if (argument <= 0xff) {
+      writer.u8((major << 5) | 24);
+      writer.u8(Number(argument));
+    } else if (argument <= 0xffff) {
+      writer.u8((major << 5) | 25);
+      writer.u16(Number(argument));
+    } else if (argument <= 0xffffffff) {
+      writer.u8((major << 5) | 26);
+      writer.u32(Number(argument));
+    } else {
+      writer.u8((major << 5) | 27);
+      writer.u64(BigInt(argument));
+    }
+  }
+
+  private writeText(writer: CborWriter, value: string): void {
+    const bytes = textEncoder.encode(value);
+    this.writeHead(writer, TEXT, bytes.byteLength);
+    writer.raw(bytes);
+  }
+
+  private writeBytes(writer: CborWriter, bytes: Uint8Array): void {
+    this.writeHead(writer, BYTES, bytes.byteLength);
+    writer.raw(bytes);
+  }
+
+  private writeNumber(writer: CborWriter, value: number): void {
+    if (Number.isSafeInteger(value) && !Object.is(value, -0)) {
+      if (value >= 0) {
+        this.writeHead(writer, UNSIGNED, value);
+      } else {
+        this.writeHead(writer, NEGATIVE, -1 - value);
+      }
+    } else if (Object.is(Math.fround(value), value)) {
+      // Single precision when it holds the value exactly
+      writer.u8(0xfa);
+      writer.f32(value);
+    } else {
+      writer.u8(0xfb);
+      writer.f64(value);
+    }
+  }
+
+  /**
+   * Writes a bigint as an integer, or as a bignum (tag 2 / 3) beyond 64 bits.
+   */
+  private writeBigInt(writer: CborWriter, value: bigint): void {
+    const negative = value < 0n;
+    const magnitude = negative ? -1n - value : value;
+    if (magnitude <= UINT64_MAX) {
+      this.writeHead(writer, negative ? NEGATIVE : UNSIGNED, magnitude);
+      return;
+    }
+    const hex = magnitude.toString(16);
+    const bytes = new Uint8Array(Math.ceil(hex.length / 2));
+    const padded = hex.padStart(bytes.length * 2, '0');
+    for (let index = 0; index < bytes.length; index++) {
+      bytes[index] = parseInt(padded.slice(index * 2, index * 2 + 2), 16);
+    }
+    this.writeHead(writer, TAG, negative ? TAG_NEGATIVE_BIGNUM : TAG_POSITIVE_BIGNUM);
+    this.writeBytes(writer, bytes);
+  }
+
+  /**
+   * Writes a date as epoch seconds (tag 1): an integer for whole seconds, a float otherwise.
+   */
+  private writeDate(writer: CborWriter, value: Date, path: string): void {
+    const time = value.getTime();
+    if (Number.isNaN(time)) {
+      throw new SerializationError('CBOR: Cannot encode an invalid Date', { path, value });
+    }
+    this.writeHead(writer, TAG, TAG_DATE_EPOCH);
+    if (time % 1000 === 0) {
+      this.writeNumber(writer, time / 1000);
+    } else {
+      writer.u8(0xfb);
+      writer.f64(time / 1000);
+    }
+  }
+
+  private writeTypedArray(writer: CborWriter, value: ArrayBufferView, path: string): void {
+    const entry = TYPED_ARRAY_TAGS.find(([TypedArray]) => value instanceof TypedArray);
+    if (!entry) {
+      throw new SerializationError(`CBOR: Cannot encode a ${value.constructor.name}`, {
+        path,
+        value,
+      });
+    }
+    this.writeHead(writer, TAG, LITTLE_ENDIAN ? entry[2] : entry[1]);
+    this.writeBytes(writer, new Uint8Array(value.buffer, value.byteOffset, value.byteLength));
+  }
+
+  private read(reader: CborReader): unknown {
+    const start = reader.offset;
+    const initial = reader.u8();
+    const major = initial >> 5;
+    const info = initial & 0x1f;
+
+    if (major === SIMPLE) {
+      return this.readSimple(reader, info, start);
+    }
+
+    if (info === INDEFINITE) {
+      switch (major) {
+        case BYTES:
+          return this.readChunks(reader, BYTES, start);
+        case TEXT:
+          return this.readChunks(reader, TEXT, start);
+        case ARRAY:
+          return this.readArray(reader, undefined);
+        case MAP:
+          return this.readMap(reader, undefined);
+        default:
+          throw new DeserializationError(`CBOR: Invalid indefinite length at byte ${start}`);
+      }
+    }
+
+    const argument = this.readArgument(reader, info, start);
+    switch (major) {
+      case UNSIGNED:
+        return typeof argument === 'bigint' ? this.toNumberIfSafe(argument) : argument;
+      case NEGATIVE:
+        return typeof argument === 'bigint' ? this.toNumberIfSafe(-1n - argument) : -1 - argument;
+      case BYTES:
+        return reader.raw(this.toLength(argument, start));
+      case TEXT:
+        return textDecoder.decode(reader.raw(this.toLength(argument, start)));
+      case ARRAY:
+        return this.readArray(reader, this.toLength(argument, start));
+      case MAP:
+        return this.readMap(reader, this.toLength(argument, start));
+      default:
+        return this.readTag(reader, Number(argument), start);
+    }
+  }
+
+  /**
+   * Reads the argument that follows the initial byte (additional information 0–27).
+   */
+  private readArgument(reader: CborReader, info: number, start: number): number | bigint {
+    if (info < 24) return info;
+    switch (info) {
+      case 24:
+        return reader.u8();
+      case 25:
+        return reader.u16();
+      case 26:
+        return reader.u32();
+      case 27:
+        return reader.u64();
+      default:
+        throw new DeserializationError(
+          `CBOR: Reserved additional information ${info} at byte ${start}`
+        );
+    }
+  }
+
+  private readSimple(reader: CborReader, info: number, start: number): unknown {
+    switch (info) {
+      case 20:
+        return false;
+      case 21:
+        return true;
+      case 22:
+        return null;
+      case 23:
+        return undefined;
+      case 25:
+        return reader.f16();
+      case 26:
+        return reader.f32();
+      case 27:
+        return reader.f64();
+      default:
+        throw new DeserializationError(
+          info === INDEFINITE
+            ? `CBOR: Unexpected break at byte ${start}`
+            : `CBOR: Unsupported simple value ${info === 24 ? reader.u8() : info} at byte ${start}`
+        );
+    }
+  }
+
+  /**
+   * Reads an indefinite-length byte or text string: definite-length chunks up to a break.
+   */
+  private readChunks(reader: CborReader, major: number, start: number): Uint8Array | string {
+    const chunks: Uint8Array[] = [];
+    while (!reader.atBreak()) {
+      const chunkStart = reader.offset;
+      const initial = reader.u8();
+      if (initial >> 5 !== major || (initial & 0x1f) === INDEFINITE) {
+        throw new DeserializationError(
+          `CBOR: Invalid chunk at byte ${chunkStart} of the string at byte ${start}`
+        );
+      }
+      const length = this.toLength(
+        this.readArgument(reader, initial & 0x1f, chunkStart),
+        chunkStart
+      );
+      chunks.push(reader.raw(length));
+    }
+
+    const bytes = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.byteLength, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+      bytes.set(chunk, offset);
+      offset += chunk.byteLength;
+    }
+    return major === TEXT ? textDecoder.decode(bytes) : bytes;
+  }
+
+  /**
+   * Reads an array of the given length, or up to a break when the length is indefinite.
+   */
+  private readArray(reader: CborReader, length: number | undefined): unknown[] {
+    reader.enter();
+    const items: unknown[] = [];
+    while (length === undefined ? !reader.atBreak() : items.length < length) {
+      items.push(this.read(reader));
+    }
+    reader.leave();
+    return items;
+  }
+
+  /**
+   * Reads a map: a plain object when every key is a string, a `Map` otherwise.
+   */
+  private readMap(
+    reader: CborReader,
+    length: number | undefined
+  ): Record<string, unknown> | Map<unknown, unknown> {
+    reader.enter();
+    const entries: Array<[unknown, unknown]> = [];
+    while (length === undefined ? !reader.atBreak() : entries.length < length) {
+      entries.push([this.read(reader), this.read(reader)]);
+    }
+    reader.leave();
+    if (!entries.every(([key]) => typeof key === 'string')) {
+      return new Map(entries);
+    }
+
+    const object: Record<string, unknown> = {};
+    for (const [key, value] of entries) {
+      // defineProperty, so that a "__proto__" key stays a plain key
+      Object.defineProperty(object, key as string, {
+        value,
+        enumerable: true,
+        writable: true,
+        configurable: true,
+      });
+    }
+    return object;
+  }
+
+  private readTag(reader: CborReader, tag: number, start: number): unknown {
+    reader.enter();
+    const content = this.read(reader);
+    reader.leave();
+    const invalid = (): never => {
+      throw new DeserializationError(`CBOR: Invalid content of tag ${tag} at byte ${start}`);
+    };
+
+    switch (tag) {
+      case TAG_DATE_STRING: {
+        const date = typeof content === 'string' ? new Date(content) : invalid();
+        return Number.isNaN(date.getTime()) ? invalid() : date;
+      }
+      case TAG_DATE_EPOCH:
+        if (typeof content !== 'number' && typeof content !== 'bigint') return invalid();
+        return new Date(Math.round(Number(content) * 1000));
+      case TAG_POSITIVE_BIGNUM:
+      case TAG_NEGATIVE_BIGNUM: {
+        if (!(content instanceof Uint8Array)) return invalid();
+        let magnitude = 0n;
+        for (const byte of content) {
+          magnitude = (magnitude << 8n) | BigInt(byte);
+        }
+        return tag === TAG_POSITIVE_BIGNUM ? magnitude : -1n - magnitude;
+      }
+      case TAG_URI:
+        if (typeof content !== 'string') return invalid();
+        try {
+          return new URL(content);
+        } catch {
+          return invalid();
+        }
+      case TAG_REGEXP:
+        return typeof content === 'string' ? this.toRegExp(content, '', invalid) : invalid();
+      case TAG_ECMASCRIPT_REGEXP:
+        if (!Array.isArray(content) || typeof content[0] !== 'string') return invalid();
+        return this.toRegExp(content[0], typeof content[1] === 'string' ? content[1] : '', invalid);
+      case TAG_SET:
+        return Array.isArray(content) ? new Set(content) : invalid();
+      case TAG_SELF_DESCRIBED:
+        return content;
+      default: {
+        const entry = TYPED_ARRAY_TAGS.find(([, bigEndian, littleEndian]) =>
+          [bigEndian, littleEndian].includes(tag)
+        );
+        if (!entry) {
+          throw new DeserializationError(`CBOR: Unsupported tag ${tag} at byte ${start}`);
+        }
+        if (!(content instanceof Uint8Array)) return invalid();
+        return this.toTypedArray(content, entry[0], tag === entry[2], tag, start);
+      }
+    }
+  }
+
+  private toRegExp(source: string, flags: string, invalid: () => never): RegExp {
+    try {
+      return new RegExp(source, flags);
+    } catch {
+      return invalid();
+    }
+  }
+
+  /**
+   * Builds a typed array from the bytes of an RFC 8746 tag, swapping them to platform byte order.
+   */
+  private toTypedArray(
+    bytes: Uint8Array,
+    TypedArray: QTypedArrayConstructor,
+    littleEndian: boolean,
+    tag: number,
+    start: number
+  ): ArrayBufferView {
+    const size = TypedArray.BYTES_PER_ELEMENT;
+    if (bytes.byteLength % size !== 0) {
+      throw new DeserializationError(
+        `CBOR: ${bytes.byteLength} bytes are not a whole number of ${TypedArray.name} elements (tag ${tag} at byte ${start})`
+      );
+    }
+    if (size > 1 && littleEndian !== LITTLE_ENDIAN) {
+      for (let offset = 0; offset < bytes.byteLength; offset += size) {
+        bytes.subarray(offset, offset + size).reverse();
+      }
+    }
+    return new TypedArray(bytes.slice().buffer);
+  }
+
+  private toLength(argument: number | bigint, start: number): number {
+    if (typeof argument === 'bigint' && argument > BigInt(Number.MAX_SAFE_INTEGER)) {
+      throw new DeserializationError(`CBOR: Length ${argument} is too large at byte ${start}`);
+    }
+    return Number(argument);
+  }
+
+  private toNumberIfSafe(value: bigint): number | bigint {
+    return value >= BigInt(Number.MIN_SAFE_INTEGER) && value <= BigInt(Number.MAX_SAFE_INTEGER)
+      ? Number(value)
+      : value;
+  }
+}
+
+/**
+ * Transformers in scope when models are converted to / from CBOR.
+ */
+export const CBOR_TRANSFORMERS: QTransformerOverrides = {
+  ...binaryTransformers('CBOR'),
+  ...Object.fromEntries([
+    nativeTransformer('url'),
+    nativeTransformer('regexp'),
+    nativeTransformer('map'),
+    nativeTransformer('set'),
+  ]),
+};
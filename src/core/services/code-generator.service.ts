@@ -0,0 +1,390 @@
+/**
+ * Service for emitting the TypeScript source of model classes.
+ *
+ * For each model (and every model nested in it) the output holds the interface of the
+ * serialized format (`IUser`), and a class extending `QModel<IUser>` whose `@Quick({...})` map
+ * and `QInterface<IUser, {...}>` transforms list the same fields, so they cannot drift apart.
+ * Validation rules and single nested models are declared with property decorators.
+ *
+ * Models are read from their metadata, so the source can be generated from decorated classes
+ * as well as from classes built by `ModelFactory` (JSON Schema, OpenAPI or sample payloads).
+ *
+ * @remarks
+ * This class follows SOLID principles:
+ * - **Single Responsibility**: Only prints model metadata as TypeScript
+ *
+ * @example
+ * ```typescript
+ * const User = new ModelFactory().fromJSONSchema(userSchema);
+ * const source = new CodeGenerator().generate([User]);
+ * // export interface IUser { email: string; createdAt?: string; }
+ * //
+ * // @Quick({ createdAt: Date })
+ * // export class User extends QModel<IUser> implements QInterface<IUser, { createdAt?: Date }> {
+ * //   @QType() @Required() @Email() email!: string;
+ * //   declare createdAt?: Date;
+ * // }
+ * ```
+ */
+
+import 'reflect-metadata';
+import type { IQJSONSchema } from '../interfaces/json-schema.interface';
+import { QTYPES_METADATA_KEY, type IQDiscriminator } from '../decorators/qtype.decorator';
+import { getQuickConfig } from '../decorators/quick.decorator';
+import { toPropertyName } from '../helpers/property-naming';
+import { JsonSchemaService } from './json-schema.service';
+import { TransformerRegistry, transformerRegistry } from './transformer-registry.service';
+import { VERSION_KEY } from './migration.service';
+
+/**
+ * Options of `CodeGenerator.generate()`.
+ */
+export interface IQCodeGeneratorOptions {
+  /**
+   * Module the generated code imports QuickModel from
+   */
+  importFrom?: string;
+
+  /**
+   * Comment written at the top of the file (without comment markers)
+   */
+  header?: string;
+}
+
+/**
+ * How a field is declared in the generated class.
+ */
+interface IQFieldCode {
+  /**
+   * Key in serialized data (interface member)
+   */
+  key: string;
+
+  /**
+   * Property of the class
+   */
+  property: string;
+  optional: boolean;
+  wireType: string;
+  runtimeType: string;
+  spec?: string;
+  decorated: boolean;
+  rules: string[];
+}
+
+// Runtime types of transformer constructors whose type differs from their name
+const RUNTIME_TYPES = new Map<Function, string>([
+  [BigInt, 'bigint'],
+  [Symbol, 'symbol'],
+  [Map, 'Map<unknown, unknown>'],
+  [Set, 'Set<unknown>'],
+]);
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+export class CodeGenerator {
+  private readonly jsonSchema: JsonSchemaService;
+
+  /**
+   * Creates a code generator.
+   *
+   * @param registry - Transformers of the models (defaults to the shared `transformerRegistry`)
+   */
+  constructor(private readonly registry: TransformerRegistry = transformerRegistry) {
+    this.jsonSchema = new JsonSchemaService(registry);
+  }
+
+  /**
+   * Generates the source of models and of the models nested in them.
+   *
+   * @param modelClasses - The models to generate (nested models are generated before the models using them)
+   * @param options - Import path and header comment
+   * @returns The TypeScript source
+   */
+  generate(modelClasses: Function[], options: IQCodeGeneratorOptions = {}): string {
+    const ordered = this.collect(modelClasses);
+    const names = this.assignNames(ordered);
+    const imports = new Set<string>(['QModel']);
+    const blocks = ordered.map((modelClass) => this.modelCode(modelClass, names, imports));
+
+    const header = options.header ? `${options.header.split('\n').map((line) => `// ${line}`.trimEnd()).join('\n')}\n\n` : '';
+    const order = ['QModel', 'Quick', 'QType', 'Required', 'Min', 'Max', 'Length', 'Pattern', 'Email'];
+    const values = order.filter((name) => imports.has(name));
+    const types = imports.has('QInterface') ? ', type QInterface' : '';
+    const from = options.importFrom ?? '@cartago-git/quickmodel';
+    return `${header}import { ${values.join(', ')}${types} } from '${from}';\n\n${blocks.join('\n\n')}\n`;
+  }
+
+  /**
+   * Returns the models and the models nested in them, dependencies first.
+   */
+  private collect(modelClasses: Function[]): Function[] {
+    const ordered: Function[] = [];
+    const visiting = new Set<Function>();
+    const visit = (modelClass: Function): void => {
+      if (ordered.includes(modelClass) || visiting.has(modelClass)) {
+        return;
+      }
+      visiting.add(modelClass);
+      for (const nested of this.nestedModels(modelClass)) {
+        visit(nested);
+      }
+      ordered.push(modelClass);
+    };
+    modelClasses.forEach(visit);
+    return ordered;
+  }
+
+  /**
+   * Gives every model a unique class name (`Item`, `Item2`, ...).
+   */
+  private assignNames(modelClasses: Function[]): Map<Function, string> {
+    const names = new Map<Function, string>();
+    const used = new Set<string>();
+    for (const modelClass of modelClasses) {
+      const base = modelClass.name || 'Model';
+      let name = base;
+      for (let i = 2; used.has(name); i++) {
+        name = `${base}${i}`;
+      }
+      used.add(name);
+      names.set(modelClass, name);
+    }
+    return names;
+  }
+
+  /**
+   * Prints the interface and the class of a model.
+   */
+  private modelCode(modelClass: Function, names: Map<Function, string>, imports: Set<string>): string {
+    const name = names.get(modelClass)!;
+    const schema = this.jsonSchema.generate(modelClass);
+    const { naming, version } = getQuickConfig(modelClass);
+    const required = new Set(schema.required ?? []);
+    const fields = Object.entries(schema.properties ?? {})
+      .filter(([key]) => key !== VERSION_KEY)
+      .map(([key, property]) =>
+        this.fieldCode(modelClass, key, toPropertyName(modelClass.prototype as object, key, naming), property, required.has(key), names)
+      );
+
+    const interfaceLines = fields.map((field) => `  ${this.member(field.key, field.optional)}: ${field.wireType};`);
+    const transforms = fields.filter((field) => field.runtimeType !== field.wireType);
+    const map = fields.filter((field) => field.spec && !field.decorated);
+
+    const config = [naming && `naming: '${naming}'`, version !== undefined && `version: ${version}`].filter(Boolean);
+    const typeMap = map.length > 0 ? `{\n${map.map((field) => `  ${this.key(field.property)}: ${field.spec},`).join('\n')}\n}` : undefined;
+    const quickArgs = config.length > 0 ? [typeMap ?? '{}', `{ ${config.join(', ')} }`] : typeMap ? [typeMap] : [];
+
+    const classLines = fields.map((field) => {
+      if (!field.decorated) {
+        return `  declare ${this.member(field.property, field.optional)}: ${field.runtimeType};`;
+      }
+      imports.add('QType');
+      field.rules.forEach((rule) => imports.add(rule.slice(1, rule.indexOf('('))));
+      const decorators = [`@QType(${field.spec ?? ''})`, ...field.rules].join(' ');
+      return `  ${decorators} ${this.key(field.property)}${field.optional ? '?' : '!'}: ${field.runtimeType};`;
+    });
+
+    const iface = `I${name}`;
+    let implementsClause = '';
+    // QInterface transforms are keyed like the interface, so properties must match the serialized keys
+    if (transforms.length > 0 && fields.every((field) => field.property === field.key)) {
+      imports.add('QInterface');
+      const members = transforms.map((field) => `${this.member(field.key, field.optional)}: ${field.runtimeType}`).join('; ');
+      implementsClause = ` implements QInterface<${iface}, { ${members} }>`;
+    }
+
+    imports.add('Quick');
+    return [
+      `export interface ${iface} {`,
+      ...interfaceLines,
+      '}',
+      '',
+      `@Quick(${quickArgs.join(', ')})`,
+      `export class ${name} extends QModel<${iface}>${implementsClause} {`,
+      ...classLines,
+      '}',
+    ].join('\n');
+  }
+
+  /**
+   * Describes how a field is typed and declared, from its metadata and its schema.
+   */
+  private fieldCode(
+    modelClass: Function,
+    key: string,
+    property: string,
+    schema: IQJSONSchema,
+    required: boolean,
+    names: Map<Function, string>
+  ): IQFieldCode {
+    const prototype = modelClass.prototype as object;
+    const designType = Reflect.getMetadata('design:type', prototype, property) as Function | undefined;
+    const isArray = designType === Array;
+    const union = Reflect.getMetadata('discriminator', prototype, property) as IQDiscriminator | undefined;
+    const fieldType = this.transformerType(Reflect.getMetadata('fieldType', prototype, property) as string | Function | undefined);
+    const arrayElementClass = Reflect.getMetadata('arrayElementClass', prototype, property) as Function | undefined;
+    const rules = this.rules(schema, required, isArray);
+    const field: IQFieldCode = {
+      key,
+      property,
+      optional: !required,
+      wireType: this.wireType(schema),
+      runtimeType: '',
+      decorated: rules.length > 0,
+      rules,
+    };
+
+    const list = (type: string): string => (isArray ? `${type.includes(' ') ? `(${type})` : type}[]` : type);
+    if (union) {
+      const members = Object.entries(union.map);
+      const tag = this.literal(union.discriminator);
+      field.spec = `{ discriminator: ${tag}, map: { ${members.map(([value, member]) => `${this.key(value)}: ${names.get(member)}`).join(', ')} } }`;
+      field.runtimeType = list(members.map(([, member]) => names.get(member)).join(' | '));
+      field.wireType = list(
+        members.map(([value, member]) => `(I${names.get(member)} & { ${this.key(union.discriminator)}: ${this.literal(value)} })`).join(' | ')
+      );
+    } else if (arrayElementClass && this.isModel(arrayElementClass)) {
+      const nested = names.get(arrayElementClass)!;
+      field.spec = isArray ? `[${nested}]` : nested;
+      field.runtimeType = list(nested);
+      field.wireType = list(`I${nested}`);
+    } else if (fieldType) {
+      field.spec = fieldType.name;
+      field.runtimeType = RUNTIME_TYPES.get(fieldType) ?? fieldType.name;
+    } else {
+      field.runtimeType = field.wireType;
+    }
+    return field;
+  }
+
+  /**
+   * Prints the validation decorators expressing the constraints of a field schema.
+   */
+  private rules(schema: IQJSONSchema, required: boolean, isArray: boolean): string[] {
+    const rules: string[] = [];
+    if (required) rules.push('@Required()');
+    if (typeof schema.minimum === 'number') rules.push(`@Min(${schema.minimum})`);
+    if (typeof schema.maximum === 'number') rules.push(`@Max(${schema.maximum})`);
+
+    const min = isArray ? schema.minItems : schema.minLength;
+    const max = isArray ? schema.maxItems : schema.maxLength;
+    if (min !== undefined || max !== undefined) {
+      rules.push(max === undefined ? `@Length(${min})` : `@Length(${min ?? 0}, ${max})`);
+    }
+    if (typeof schema.pattern === 'string') rules.push(`@Pattern(new RegExp(${this.literal(schema.pattern)}))`);
+    if (schema.format === 'email') rules.push('@Email()');
+    return rules;
+  }
+
+  /**
+   * Prints the TypeScript type of values matching a schema (without `$ref`s).
+   */
+  private wireType(schema: IQJSONSchema): string {
+    if (schema.const !== undefined) {
+      return this.literal(schema.const);
+    }
+    if (schema.enum) {
+      return schema.enum.map((value) => this.literal(value)).join(' | ');
+    }
+    const members = schema.anyOf ?? schema.oneOf;
+    if (members) {
+      return [...new Set(members.map((member) => this.wireType(member)))].join(' | ');
+    }
+
+    const types = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+    const printed = types.map((type) => {
+      switch (type) {
+        case 'string':
+          return 'string';
+        case 'number':
+        case 'integer':
+          return 'number';
+        case 'boolean':
+          return 'boolean';
+        case 'null':
+          return 'null';
+        case 'array':
+          if (schema.prefixItems) {
+            return `[${schema.prefixItems.map((item) => this.wireType(item)).join(', ')}]`;
+          }
+          return `${this.parenthesize(schema.items ? this.wireType(schema.items) : 'unknown')}[]`;
+        default:
+          return this.objectType(schema);
+      }
+    });
+    return printed.length > 0 ? [...new Set(printed)].join(' | ') : 'unknown';
+  }
+
+  private objectType(schema: IQJSONSchema): string {
+    if (schema.maxProperties === 0) {
+      return 'Record<string, never>';
+    }
+    if (!schema.properties) {
+      return 'Record<string, unknown>';
+    }
+    const required = new Set(schema.required ?? []);
+    const members = Object.entries(schema.properties).map(
+      ([key, property]) => `${this.key(key)}${required.has(key) ? '' : '?'}: ${this.wireType(property)}`
+    );
+    return members.length > 0 ? `{ ${members.join('; ')} }` : 'Record<string, never>';
+  }
+
+  /**
+   * Prints a JSON value as a TypeScript literal (single-quoted strings).
+   */
+  private literal(value: unknown): string {
+    return typeof value === 'string' ? `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'` : JSON.stringify(value);
+  }
+
+  private parenthesize(type: string): string {
+    return type.includes(' | ') ? `(${type})` : type;
+  }
+
+  /**
+   * Returns the constructor of a transformer type (aliases resolve to the constructor of their transformer).
+   */
+  private transformerType(fieldType: string | Function | undefined): Function | undefined {
+    if (typeof fieldType === 'function') {
+      return fieldType.name ? fieldType : undefined;
+    }
+    const transformer = fieldType === undefined ? undefined : this.registry.get(fieldType);
+    if (!transformer) {
+      return undefined;
+    }
+    return this.registry.keys().find(
+      (key): key is Function => typeof key === 'function' && this.registry.get(key) === transformer
+    );
+  }
+
+  private member(key: string, optional: boolean): string {
+    return `${this.key(key)}${optional ? '?' : ''}`;
+  }
+
+  private key(key: string): string {
+    return IDENTIFIER.test(key) ? key : this.literal(key);
+  }
+
+  private isModel(type: Function): boolean {
+    return typeof (type.prototype as { serialize?: unknown } | undefined)?.serialize === 'function';
+  }
+
+  /**
+   * Returns the model classes used by the fields of a model.
+   */
+  private nestedModels(modelClass: Function): Function[] {
+    const prototype = modelClass.prototype as object;
+    const fields = (Reflect.getMetadata(QTYPES_METADATA_KEY, prototype) as string[] | undefined) ?? [];
+    const nested: Function[] = [];
+    for (const field of fields) {
+      const union = Reflect.getMetadata('discriminator', prototype, field) as IQDiscriminator | undefined;
+      const elementClass = Reflect.getMetadata('arrayElementClass', prototype, field) as Function | undefined;
+      if (union) {
+        nested.push(...Object.values(union.map));
+      } else if (elementClass && this.isModel(elementClass)) {
+        nested.push(elementClass);
+      }
+    }
+    return nested;
+  }
+}
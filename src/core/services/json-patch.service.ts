@@ -0,0 +1,383 @@
+/**
+ * Service for JSON Patch (RFC 6902): diffs between two states of a model and
+ * application of patches to the serialized form of a model.
+ *
+ * Patches work on the "patch document" of a model: its serialized form (wire names,
+ * transformer formats), where nested models are objects, `Map`s are objects keyed by
+ * entry key and `Set`s are arrays. Paths therefore reach into nested models, arrays,
+ * `Map` entries and `Set` members (`/orders/3/items/0/qty`, `/meta/color`, `/tags/2`).
+ * The document can be deserialized again, which is how patched models are rebuilt, once
+ * `restoreKeys()` has given `Map` keys back their type.
+ *
+ * @remarks
+ * This class follows SOLID principles:
+ * - **Single Responsibility**: Only builds, diffs and patches documents; models are rebuilt by the deserializer
+ *
+ * @example
+ * ```typescript
+ * const service = new JsonPatchService();
+ * const ops = service.diff(service.document(before), service.document(after));
+ * // [{ op: 'replace', path: '/orders/3/items/0/qty', value: 2 }]
+ *
+ * service.apply(service.document(before), ops); // equals service.document(after)
+ * ```
+ */
+
+import type { QPatchOperation } from '../interfaces/json-patch.interface';
+import { getQuickConfig } from '../decorators/quick.decorator';
+import { PatchError } from '../errors/patch.error';
+import { appendPointer, parsePointer } from '../helpers/json-pointer';
+import { toPropertyName } from '../helpers/property-naming';
+import { deepClone, deepEqual, isModelInstance, isPlainObject } from '../helpers/structural';
+
+type QPatchContainer = Record<string, unknown> | unknown[];
+
+// Array index of a pointer segment (no leading zeros, as required by RFC 6901)
+const INDEX_PATTERN = /^(0|[1-9]\d*)$/;
+
+// Keys that would reach object prototypes instead of document values
+const UNSAFE_SEGMENTS = new Set(['__proto__', 'constructor', 'prototype']);
+
+export class JsonPatchService {
+  /**
+   * Builds the patch document of a model.
+   *
+   * @param model - The model instance
+   * @returns Its serialized form, with `Map`s as objects and `Set`s as arrays
+   */
+  document(model: object): Record<string, unknown> {
+    const serialized = (model as { serialize(): Record<string, unknown> }).serialize();
+    return this.modelDocument(model, serialized);
+  }
+
+  /**
+   * Computes the operations that turn one document into another: `add` / `remove` for
+   * keys and trailing array items, `replace` for changed values, recursing into
+   * objects and arrays so that paths point at the innermost change.
+   *
+   * @param from - The original document
+   * @param to - The target document
+   * @returns The operations, in application order (empty if both are equal)
+   */
+  diff(from: unknown, to: unknown): QPatchOperation[] {
+    const operations: QPatchOperation[] = [];
+    this.diffValues(from, to, '', operations);
+    return operations;
+  }
+
+  /**
+   * Applies operations to a copy of a document. Operations are applied in order and all
+   * of them must succeed: the first failing one aborts the patch.
+   *
+   * @param document - The document to patch (not modified)
+   * @param operations - The JSON Patch operations
+   * @returns The patched copy
+   * @throws {PatchError} If a path does not exist, an operation is unknown or a `test` fails
+   */
+  apply<T>(document: T, operations: QPatchOperation[]): T {
+    let result: unknown = deepClone(document);
+    for (const operation of operations) {
+      result = this.applyOperation(result, operation);
+    }
+    return result as T;
+  }
+
+  /**
+   * Gives `Map` keys of a document back their type: keys are strings in documents, so the
+   * keys of a `Map<number, V>` would otherwise be deserialized as strings. Keys of the
+   * models' live `Map`s keep their type, and new keys take the type of the other keys
+   * (`'3'` is `3` in a `Map` of numbers).
+   *
+   * @param document - A document built from the models (patched or merged)
+   * @param models - The models it was built from
+   * @returns A copy of the document, with `Map`s in their `{ __type: 'Map', entries }` form
+   */
+  restoreKeys(document: Record<string, unknown>, ...models: object[]): Record<string, unknown> {
+    return this.restoreModel(document, models.filter(isModelInstance));
+  }
+
+  /**
+   * Builds the document of a model from its serialized form and its live field values.
+   */
+  private modelDocument(model: object, serialized: Record<string, unknown>): Record<string, unknown> {
+    const naming = getQuickConfig(model.constructor).naming;
+    const document: Record<string, unknown> = {};
+    for (const [wireName, value] of Object.entries(serialized)) {
+      if (value === undefined) {
+        continue;
+      }
+      const live = (model as Record<string, unknown>)[toPropertyName(model, wireName, naming)];
+      document[wireName] = this.valueDocument(live, value);
+    }
+    return document;
+  }
+
+  private valueDocument(live: unknown, serialized: unknown): unknown {
+    if (isModelInstance(live)) {
+      return this.modelDocument(live, serialized as Record<string, unknown>);
+    }
+    if (Array.isArray(live) && Array.isArray(serialized)) {
+      return live.map((item: unknown, index) => this.valueDocument(item, serialized[index]));
+    }
+    if (live instanceof Map) {
+      return Object.fromEntries(
+        Array.from(live, ([key, value]: [unknown, unknown]) => [String(key), this.entryDocument(value)])
+      );
+    }
+    if (live instanceof Set) {
+      return Array.from(live, (value: unknown) => this.entryDocument(value));
+    }
+    return serialized;
+  }
+
+  /**
+   * Builds the document of a `Map` or `Set` value (kept as it is, unless it is a model).
+   */
+  private entryDocument(value: unknown): unknown {
+    return isModelInstance(value) ? this.document(value) : value;
+  }
+
+  private restoreModel(document: Record<string, unknown>, models: object[]): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    for (const [wireName, value] of Object.entries(document)) {
+      const lives = models.map(
+        (model) =>
+          (model as Record<string, unknown>)[
+            toPropertyName(model, wireName, getQuickConfig(model.constructor).naming)
+          ]
+      );
+      result[wireName] = this.restoreValue(value, lives);
+    }
+    return result;
+  }
+
+  private restoreValue(value: unknown, lives: unknown[]): unknown {
+    const models = lives.filter(isModelInstance);
+    if (models.length > 0 && isPlainObject(value)) {
+      return this.restoreModel(value, models);
+    }
+    const arrays = lives.filter((live): live is unknown[] => Array.isArray(live));
+    if (arrays.length > 0 && Array.isArray(value)) {
+      return value.map((item: unknown, index) => this.restoreValue(item, arrays.map((array) => array[index])));
+    }
+    const maps = lives.filter((live): live is Map<unknown, unknown> => live instanceof Map);
+    if (maps.length > 0 && isPlainObject(value)) {
+      const keys = new Map(maps.flatMap((map) => Array.from(map.keys(), (key) => [String(key), key])));
+      const sample = maps.flatMap((map) => Array.from(map.keys()))[0];
+      const entries = Object.entries(value).map(([text, entry]) => {
+        const key = keys.has(text) ? keys.get(text) : this.parseKey(text, sample);
+        return [key, this.restoreValue(entry, maps.map((map) => map.get(key)))];
+      });
+      return { __type: 'Map', entries };
+    }
+    return value;
+  }
+
+  /**
+   * Reads a new `Map` key with the type of another key of the `Map` (strings otherwise).
+   */
+  private parseKey(text: string, sample: unknown): unknown {
+    switch (typeof sample) {
+      case 'number':
+        return String(Number(text)) === text ? Number(text) : text;
+      case 'bigint':
+        return /^-?\d+$/.test(text) ? BigInt(text) : text;
+      case 'boolean':
+        return text === 'true' || text === 'false' ? text === 'true' : text;
+      default:
+        return text;
+    }
+  }
+
+  private diffValues(from: unknown, to: unknown, path: string, operations: QPatchOperation[]): void {
+    if (deepEqual(from, to)) {
+      return;
+    }
+
+    if (Array.isArray(from) && Array.isArray(to)) {
+      const common = Math.min(from.length, to.length);
+      for (let index = 0; index < common; index++) {
+        this.diffValues(from[index], to[index], appendPointer(path, index), operations);
+      }
+      for (let index = common; index < to.length; index++) {
+        operations.push({ op: 'add', path: appendPointer(path, index), value: deepClone(to[index]) });
+      }
+      // Remove from the end, so that earlier indexes stay valid
+      for (let index = from.length - 1; index >= common; index--) {
+        operations.push({ op: 'remove', path: appendPointer(path, index) });
+      }
+      return;
+    }
+
+    if (isPlainObject(from) && isPlainObject(to)) {
+      for (const key of Object.keys(from)) {
+        if (from[key] !== undefined && to[key] === undefined) {
+          operations.push({ op: 'remove', path: appendPointer(path, key) });
+        }
+      }
+      for (const [key, value] of Object.entries(to)) {
+        if (value === undefined) {
+          continue;
+        }
+        if (from[key] === undefined) {
+          operations.push({ op: 'add', path: appendPointer(path, key), value: deepClone(value) });
+        } else {
+          this.diffValues(from[key], value, appendPointer(path, key), operations);
+        }
+      }
+      return;
+    }
+
+    operations.push({ op: 'replace', path, value: deepClone(to) });
+  }
+
+  /**
+   * Applies one operation, returning the (possibly replaced) document.
+   */
+  private applyOperation(document: unknown, operation: QPatchOperation): unknown {
+    switch (operation.op) {
+      case 'add':
+        return this.add(document, operation.path, deepClone(operation.value));
+      case 'remove':
+        this.remove(document, operation.path);
+        return document;
+      case 'replace':
+        return this.replace(document, operation.path, deepClone(operation.value));
+      case 'move': {
+        if (operation.path.startsWith(`${operation.from}/`)) {
+          throw new PatchError(`Cannot move "${operation.from}" into one of its children`, { path: operation.path });
+        }
+        const value = this.get(document, operation.from);
+        this.remove(document, operation.from);
+        return this.add(document, operation.path, value);
+      }
+      case 'copy':
+        return this.add(document, operation.path, deepClone(this.get(document, operation.from)));
+      case 'test':
+        if (!deepEqual(this.get(document, operation.path), operation.value)) {
+          throw new PatchError(`Test failed at "${operation.path}"`, {
+            path: operation.path,
+            value: operation.value,
+          });
+        }
+        return document;
+      default:
+        throw new PatchError(`Unknown patch operation "${(operation as { op: unknown }).op}"`, {
+          path: (operation as { path?: string }).path,
+          value: operation,
+        });
+    }
+  }
+
+  private add(document: unknown, path: string, value: unknown): unknown {
+    const segments = this.segments(path);
+    if (segments.length === 0) {
+      return value;
+    }
+
+    const key = segments.pop()!;
+    const parent = this.container(document, segments, path);
+    if (Array.isArray(parent)) {
+      const index = key === '-' ? parent.length : this.index(key, parent.length, path);
+      parent.splice(index, 0, value);
+    } else {
+      parent[key] = value;
+    }
+    return document;
+  }
+
+  private remove(document: unknown, path: string): void {
+    const segments = this.segments(path);
+    if (segments.length === 0) {
+      throw new PatchError('Cannot remove the whole document', { path });
+    }
+
+    const key = segments.pop()!;
+    const parent = this.container(document, segments, path);
+    if (Array.isArray(parent)) {
+      parent.splice(this.index(key, parent.length - 1, path), 1);
+    } else if (Object.hasOwn(parent, key)) {
+      delete parent[key];
+    } else {
+      throw new PatchError(`Path "${path}" does not exist`, { path });
+    }
+  }
+
+  private replace(document: unknown, path: string, value: unknown): unknown {
+    const segments = this.segments(path);
+    if (segments.length === 0) {
+      return value;
+    }
+
+    const key = segments.pop()!;
+    const parent = this.container(document, segments, path);
+    if (Array.isArray(parent)) {
+      parent[this.index(key, parent.length - 1, path)] = value;
+    } else if (Object.hasOwn(parent, key)) {
+      parent[key] = value;
+    } else {
+      throw new PatchError(`Path "${path}" does not exist`, { path });
+    }
+    return document;
+  }
+
+  private get(document: unknown, path: string): unknown {
+    const segments = this.segments(path);
+    if (segments.length === 0) {
+      return document;
+    }
+
+    const key = segments.pop()!;
+    const parent = this.container(document, segments, path);
+    if (Array.isArray(parent)) {
+      return parent[this.index(key, parent.length - 1, path)];
+    }
+    if (!Object.hasOwn(parent, key)) {
+      throw new PatchError(`Path "${path}" does not exist`, { path });
+    }
+    return parent[key];
+  }
+
+  /**
+   * Parses a path, rejecting segments that would reach object prototypes.
+   */
+  private segments(path: string): string[] {
+    const segments = parsePointer(path);
+    const unsafe = segments.find((segment) => UNSAFE_SEGMENTS.has(segment));
+    if (unsafe !== undefined) {
+      throw new PatchError(`Path "${path}" has a forbidden segment "${unsafe}"`, { path });
+    }
+    return segments;
+  }
+
+  /**
+   * Walks to the object or array that holds the last segment of a path.
+   */
+  private container(document: unknown, segments: string[], path: string): QPatchContainer {
+    let current = document;
+    for (const segment of segments) {
+      if (Array.isArray(current)) {
+        current = current[this.index(segment, current.length - 1, path)];
+      } else if (isPlainObject(current) && Object.hasOwn(current, segment)) {
+        current = current[segment];
+      } else {
+        throw new PatchError(`Path "${path}" does not exist`, { path });
+      }
+    }
+    if (!Array.isArray(current) && !isPlainObject(current)) {
+      throw new PatchError(`Path "${path}" does not exist`, { path });
+    }
+    return current;
+  }
+
+  /**
+   * Parses an array index, checking it is within `0..max`.
+   */
+  private index(segment: string, max: number, path: string): number {
+    const index = INDEX_PATTERN.test(segment) ? Number(segment) : NaN;
+    if (!(index <= max)) {
+      throw new PatchError(`Path "${path}" does not exist`, { path });
+    }
+    return index;
+  }
+}
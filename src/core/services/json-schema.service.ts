@@ -0,0 +1,396 @@
+/**
+ * Service for describing the serialized format of models as JSON Schema (draft 2020-12)
+ * and as OpenAPI 3.1 components.
+ *
+ * The schema follows the output of `serialize()`: fields are keyed by their wire names,
+ * typed by the `toJSONSchema()` of their transformers (a `Date` is a `date-time` string,
+ * a `bigint` an integer string, a `Map` a `{ __type: 'Map', entries }` object, ...),
+ * constrained by their validation decorators, and nested models are referenced from `$defs`.
+ *
+ * @remarks
+ * This class follows SOLID principles:
+ * - **Single Responsibility**: Only builds schemas from model metadata
+ * - **Open/Closed**: Custom transformers describe their format by implementing `IQSchemaProvider`
+ *
+ * Fields declared with `@QType(type, { readOnly })` or `{ writeOnly }` are marked as such.
+ *
+ * @example
+ * ```typescript
+ * @Quick({ createdAt: Date })
+ * class User extends QModel<IUser> {
+ *   @Required() @Email() email!: string;
+ *   createdAt!: Date;
+ * }
+ *
+ * new JsonSchemaService().generate(User);
+ * // {
+ * //   $schema: 'https://json-schema.org/draft/2020-12/schema',
+ * //   title: 'User',
+ * //   type: 'object',
+ * //   properties: {
+ * //     email: { type: 'string', format: 'email' },
+ * //     createdAt: { type: 'string', format: 'date-time' }
+ * //   },
+ * //   required: ['email']
+ * // }
+ *
+ * new JsonSchemaService().components([User, Order]);
+ * // { components: { schemas: { User: { ... }, Order: { ... }, Item: { ... } } } }
+ * ```
+ */
+
+import 'reflect-metadata';
+import type {
+  IQJSONSchema,
+  IQOpenAPIComponents,
+  IQSchemaProvider,
+} from '../interfaces/json-schema.interface';
+import type { IQDiscriminator } from '../decorators/qtype.decorator';
+import { QTYPES_METADATA_KEY } from '../decorators/qtype.decorator';
+import { getValidationRules } from '../decorators/validation.decorator';
+import { getQuickConfig, registerQuickProperties } from '../decorators/quick.decorator';
+import { getWireNames, toWireName } from '../helpers/property-naming';
+import {
+  TransformerRegistry,
+  resolveBinaryEncoding,
+  resolveTransformers,
+  transformerRegistry,
+} from './transformer-registry.service';
+import { VERSION_KEY } from './migration.service';
+
+/**
+ * Dialect of the generated schemas.
+ */
+export const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+/**
+ * Definitions collected while generating a document: the names given to model classes
+ * and their schemas, referenced as `${prefix}${name}`.
+ */
+interface IQSchemaDefinitions {
+  /**
+   * Model described by the document itself (referenced as `#`), if any
+   */
+  root?: Function;
+  prefix: string;
+
+  /**
+   * Names of the models, keyed by prototype (shared by a `@Quick()` class and the class it wraps)
+   */
+  names: Map<object, string>;
+  schemas: Record<string, IQJSONSchema>;
+
+  /**
+   * Whether unions carry an OpenAPI `discriminator`
+   */
+  openapi: boolean;
+
+  /**
+   * Tags of OpenAPI union members by schema name, declared in the member schemas once built
+   */
+  tags?: Map<string, Map<string, Set<string>>>;
+}
+
+export class JsonSchemaService {
+  /**
+   * Creates a JSON Schema service.
+   *
+   * @param registry - Transformers to use (defaults to the shared `transformerRegistry`)
+   */
+  constructor(private readonly registry: TransformerRegistry = transformerRegistry) {}
+
+  /**
+   * Generates the schema of the serialized format of a model.
+   *
+   * @param modelClass - The model class
+   * @returns The schema, with nested models in `$defs` (a model nested in itself refers to `#`)
+   */
+  generate(modelClass: Function): IQJSONSchema {
+    const definitions: IQSchemaDefinitions = {
+      root: modelClass,
+      prefix: '#/$defs/',
+      names: new Map(),
+      schemas: {},
+      openapi: false,
+    };
+    const schema: IQJSONSchema = {
+      $schema: JSON_SCHEMA_DIALECT,
+      title: modelClass.name,
+      ...this.modelSchema(modelClass, definitions),
+    };
+
+    if (Object.keys(definitions.schemas).length > 0) {
+      schema.$defs = definitions.schemas;
+    }
+    return schema;
+  }
+
+  /**
+   * Generates the OpenAPI 3.1 `components.schemas` of a set of models.
+   * Nested models are added as well, and models refer to each other with `$ref`.
+   *
+   * @param modelClasses - The model classes to describe
+   * @returns The components document, with a schema per model keyed by class name
+   */
+  components(modelClasses: Function[]): IQOpenAPIComponents {
+    const definitions: IQSchemaDefinitions = {
+      prefix: '#/components/schemas/',
+      names: new Map(),
+      schemas: {},
+      openapi: true,
+      tags: new Map(),
+    };
+    for (const modelClass of modelClasses) {
+      this.reference(modelClass, definitions);
+    }
+
+    // OpenAPI requires members to declare the discriminator property
+    for (const [name, properties] of definitions.tags!) {
+      const schema = definitions.schemas[name]!;
+      for (const [propertyName, tags] of properties) {
+        const { [propertyName]: declared, ...others } = schema.properties ?? {};
+        const values = [...tags];
+        schema.properties = {
+          [propertyName]: { ...declared, type: 'string', ...(values.length === 1 ? { const: values[0] } : { enum: values }) },
+          ...others,
+        };
+        schema.required = [propertyName, ...(schema.required ?? []).filter((key) => key !== propertyName)];
+      }
+    }
+    return { components: { schemas: definitions.schemas } };
+  }
+
+  /**
+   * Builds the object schema of a model class.
+   */
+  private modelSchema(modelClass: Function, definitions: IQSchemaDefinitions): IQJSONSchema {
+    // Fields of @Quick() type maps are registered on first instantiation; register them now
+    registerQuickProperties(modelClass);
+
+    const prototype = modelClass.prototype as object;
+    const { naming, version, transformers, binary } = getQuickConfig(modelClass);
+    const registry = resolveBinaryEncoding(binary, resolveTransformers(transformers, this.registry));
+    const rules = getValidationRules(prototype);
+    const fields = new Set<string>([
+      ...((Reflect.getMetadata(QTYPES_METADATA_KEY, prototype) as string[] | undefined) ?? []),
+      ...Object.keys(getWireNames(prototype)),
+      ...Object.keys(rules),
+    ]);
+
+    const properties: Record<string, IQJSONSchema> = {};
+    const required: string[] = [];
+    if (version !== undefined) {
+      properties[VERSION_KEY] = { const: version };
+    }
+
+    for (const field of fields) {
+      const wireName = toWireName(prototype, field, naming);
+      const fieldRegistry = resolveBinaryEncoding(Reflect.getMetadata('binaryEncoding', prototype, field), registry);
+      const fieldSchema = this.fieldSchema(prototype, field, fieldRegistry, definitions);
+
+      for (const rule of rules[field] ?? []) {
+        if (rule.name === 'required') {
+          required.push(wireName);
+        }
+        if (this.isCollection(prototype, field)) {
+          this.applyItemsKeywords(fieldSchema, this.toItemsKeywords(rule.schema));
+        } else {
+          Object.assign(fieldSchema, rule.schema);
+        }
+      }
+      if (Reflect.getMetadata('readOnly', prototype, field)) {
+        fieldSchema.readOnly = true;
+      }
+      if (Reflect.getMetadata('writeOnly', prototype, field)) {
+        fieldSchema.writeOnly = true;
+      }
+      properties[wireName] = fieldSchema;
+    }
+
+    return required.length > 0
+      ? { type: 'object', properties, required }
+      : { type: 'object', properties };
+  }
+
+  /**
+   * Builds the schema of a field from its type metadata.
+   */
+  private fieldSchema(
+    prototype: object,
+    field: string,
+    registry: TransformerRegistry,
+    definitions: IQSchemaDefinitions
+  ): IQJSONSchema {
+    const designType = Reflect.getMetadata('design:type', prototype, field) as Function | undefined;
+    const isArray = designType === Array;
+    const union = Reflect.getMetadata('discriminator', prototype, field) as IQDiscriminator | undefined;
+    const fieldType = Reflect.getMetadata('fieldType', prototype, field) as string | Function | undefined;
+    const arrayElementClass = Reflect.getMetadata('arrayElementClass', prototype, field) as Function | undefined;
+
+    // Custom transformers produce values of unknown shape
+    if (
+      Reflect.getMetadata('customTransformer', prototype, field) ||
+      Reflect.getMetadata('fieldTransformer', prototype, field)
+    ) {
+      return {};
+    }
+
+    if (union) {
+      const member = definitions.openapi
+        ? this.openAPIUnion(union, definitions)
+        : {
+            oneOf: Object.entries(union.map).map(([tag, modelClass]) => ({
+              $ref: this.reference(modelClass, definitions),
+              properties: { [union.discriminator]: { const: tag } },
+              required: [union.discriminator],
+            })),
+          };
+      return isArray ? { type: 'array', items: member } : member;
+    }
+
+    if (fieldType !== undefined) {
+      if (fieldType === 'string' || fieldType === 'number' || fieldType === 'boolean') {
+        return { type: fieldType };
+      }
+      return this.transformerSchema(registry, fieldType);
+    }
+
+    if (arrayElementClass) {
+      const element = this.typeSchema(arrayElementClass, registry, definitions);
+      return isArray ? { type: 'array', items: element } : element;
+    }
+
+    return designType ? this.typeSchema(designType, registry, definitions) : {};
+  }
+
+  /**
+   * Builds an OpenAPI union: the members by `$ref` and a `discriminator` mapping each tag to its member.
+   */
+  private openAPIUnion(union: IQDiscriminator, definitions: IQSchemaDefinitions): IQJSONSchema {
+    const mapping: Record<string, string> = {};
+    for (const [tag, modelClass] of Object.entries(union.map)) {
+      const $ref = this.reference(modelClass, definitions);
+      mapping[tag] = $ref;
+
+      // Declared in the member schema by components(), once every schema is built
+      const name = $ref.slice(definitions.prefix.length);
+      const properties = definitions.tags?.get(name) ?? new Map<string, Set<string>>();
+      definitions.tags?.set(name, properties);
+      properties.set(union.discriminator, (properties.get(union.discriminator) ?? new Set()).add(tag));
+    }
+    return {
+      oneOf: [...new Set(Object.values(mapping))].map(($ref) => ({ $ref })),
+      discriminator: { propertyName: union.discriminator, mapping },
+    };
+  }
+
+  /**
+   * Builds the schema of a value typed by a constructor (primitive wrapper, model or transformer key).
+   */
+  private typeSchema(type: Function, registry: TransformerRegistry, definitions: IQSchemaDefinitions): IQJSONSchema {
+    if (type === String) return { type: 'string' };
+    if (type === Number) return { type: 'number' };
+    if (type === Boolean) return { type: 'boolean' };
+    if (type === Array) return { type: 'array' };
+    if (typeof (type.prototype as { serialize?: unknown } | undefined)?.serialize === 'function') {
+      return { $ref: this.reference(type, definitions) };
+    }
+    return this.transformerSchema(registry, type);
+  }
+
+  /**
+   * Returns the schema of a transformer's serialized format ({} if it does not describe it).
+   */
+  private transformerSchema(registry: TransformerRegistry, key: string | Function): IQJSONSchema {
+    const transformer = registry.get(key) as Partial<IQSchemaProvider> | undefined;
+    return typeof transformer?.toJSONSchema === 'function' ? transformer.toJSONSchema() : {};
+  }
+
+  /**
+   * Returns the `$ref` of a nested model, adding its schema to `$defs` on first use.
+   */
+  private reference(modelClass: Function, definitions: IQSchemaDefinitions): string {
+    // Fields of a @Quick() class refer to the class it wraps, which has the same prototype
+    const key = modelClass.prototype as object;
+    if (key === definitions.root?.prototype) {
+      return '#';
+    }
+
+    let name = definitions.names.get(key);
+    if (name === undefined) {
+      const base = modelClass.name || 'Model';
+      name = base;
+      for (let i = 2; name in definitions.schemas; i++) {
+        name = `${base}${i}`;
+      }
+
+      // Reserve the name before building the schema, so cycles end in a $ref
+      definitions.names.set(key, name);
+      definitions.schemas[name] = {};
+      Object.assign(definitions.schemas[name]!, { title: modelClass.name, ...this.modelSchema(modelClass, definitions) });
+    }
+    return `${definitions.prefix}${name}`;
+  }
+
+  /**
+   * Checks whether a field is serialized as an array (arrays, Sets and Maps).
+   */
+  private isCollection(prototype: object, field: string): boolean {
+    const fieldType = Reflect.getMetadata('fieldType', prototype, field) as string | Function | undefined;
+    return (
+      Reflect.getMetadata('design:type', prototype, field) === Array ||
+      fieldType === 'set' || fieldType === 'map' || fieldType === Set || fieldType === Map
+    );
+  }
+
+  /**
+   * Adds array keywords to the schema of a collection. Maps and Sets are written as a tagged
+   * object or a bare array, so the keywords go to the array of both forms.
+   */
+  private applyItemsKeywords(schema: IQJSONSchema, keywords: IQJSONSchema | undefined): void {
+    if (!schema.anyOf) {
+      Object.assign(schema, keywords);
+      return;
+    }
+
+    schema.anyOf = schema.anyOf.map((form) => {
+      if (form.type === 'array') {
+        return { ...form, ...keywords };
+      }
+      const [key, items] = Object.entries(form.properties ?? {}).find(([, property]) => property.type === 'array') ?? [];
+      return key === undefined ? form : { ...form, properties: { ...form.properties, [key]: { ...items, ...keywords } } };
+    });
+  }
+
+  /**
+   * Maps the string length keywords of a rule to the array keywords.
+   */
+  private toItemsKeywords(schema: IQJSONSchema | undefined): IQJSONSchema | undefined {
+    if (!schema) {
+      return schema;
+    }
+    const { minLength, maxLength, ...rest } = schema;
+    return {
+      ...rest,
+      ...(minLength !== undefined && { minItems: minLength }),
+      ...(maxLength !== undefined && { maxItems: maxLength }),
+    };
+  }
+}
+
+/**
+ * Generates the OpenAPI 3.1 `components.schemas` of a set of models, with `$ref`s between
+ * nested models, a `discriminator` for polymorphic fields and `readOnly` / `writeOnly` markers.
+ *
+ * @param modelClasses - The model classes to describe (nested models are added as well)
+ * @returns The components document, ready to merge into an OpenAPI description
+ *
+ * @example
+ * ```typescript
+ * const { components } = toOpenAPIComponents([User, Order]);
+ * writeFileSync('openapi.components.json', JSON.stringify({ components }, null, 2));
+ * ```
+ */
+export function toOpenAPIComponents(modelClasses: Function[]): IQOpenAPIComponents {
+  return new JsonSchemaService().components(modelClasses);
+}
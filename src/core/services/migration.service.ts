@@ -0,0 +1,111 @@
+/**
+ * Service for upgrading serialized payloads to the current version of their model.
+ *
+ * Models declare a `version` and the `migrations` between versions with
+ * `@Quick(map, { version, migrations })`. Serialized payloads carry their version
+ * in `__v`; older payloads are upgraded one version at a time before their fields
+ * are deserialized. Payloads without `__v` are taken as current.
+ *
+ * @remarks
+ * This class follows SOLID principles:
+ * - **Single Responsibility**: Only upgrades payloads between versions
+ *
+ * @example
+ * ```typescript
+ * @Quick({}, { version: 2, migrations: { 1: ({ name, ...v1 }) => ({ ...v1, fullName: name }) } })
+ * class User extends QModel<IUser> { fullName!: string; }
+ *
+ * const service = new MigrationService();
+ * service.migrate({ __v: 1, name: 'Ann' }, User);
+ * // { data: { fullName: 'Ann' }, applied: [{ path: '', className: 'User', from: 1, to: 2 }] }
+ * ```
+ */
+
+import { IQAppliedMigration } from '../interfaces/versioning.interface';
+import { DeserializationError } from '../errors/deserialization.error';
+import { appendPointer } from '../helpers/json-pointer';
+import { getQuickConfig } from '../decorators/quick.decorator';
+import { isPlainObject } from '../helpers/structural';
+
+/**
+ * Key of the version stamp in serialized data.
+ */
+export const VERSION_KEY = '__v';
+
+/**
+ * Checks whether a payload, or any object nested in it, carries a version stamp.
+ */
+export const hasVersionStamp = (value: unknown): boolean => {
+  if (Array.isArray(value)) {
+    return value.some(hasVersionStamp);
+  }
+  if (!isPlainObject(value)) {
+    return false;
+  }
+  return VERSION_KEY in value || Object.values(value).some(hasVersionStamp);
+};
+
+export class MigrationService {
+  /**
+   * Upgrades a payload to the current version of its model.
+   *
+   * @param data - Serialized payload (not modified)
+   * @param modelClass - Model class of the payload
+   * @param path - JSON pointer of the payload, used in errors and records
+   * @returns The upgraded payload (without `__v`) and the steps that ran.
+   *   Payloads of unversioned models are returned unchanged.
+   * @throws {DeserializationError} If `__v` is invalid or newer than the model,
+   *   a migration is missing, or a migration fails
+   */
+  migrate(
+    data: Record<string, unknown>,
+    modelClass: Function,
+    path: string = ''
+  ): { data: Record<string, unknown>; applied: IQAppliedMigration[] } {
+    const { version, migrations = {} } = getQuickConfig(modelClass);
+    if (version === undefined) {
+      return { data, applied: [] };
+    }
+
+    const { [VERSION_KEY]: stamp = version, ...payload } = data;
+    const className = modelClass.name;
+    if (typeof stamp !== 'number' || !Number.isInteger(stamp) || stamp < 1) {
+      throw new DeserializationError(
+        `${className}: Invalid version ${JSON.stringify(stamp)}, expected a positive integer`,
+        { className, value: stamp, path: appendPointer(path, VERSION_KEY) }
+      );
+    }
+    if (stamp > version) {
+      throw new DeserializationError(
+        `${className}: Payload version ${stamp} is newer than the model version ${version}`,
+        { className, value: stamp, path: appendPointer(path, VERSION_KEY) }
+      );
+    }
+
+    let current: Record<string, unknown> = payload;
+    const applied: IQAppliedMigration[] = [];
+    for (let from = stamp; from < version; from++) {
+      const migration = migrations[from];
+      if (!migration) {
+        throw new DeserializationError(
+          `${className}: No migration from version ${from} to ${from + 1}`,
+          { className, value: stamp, path: appendPointer(path, VERSION_KEY) }
+        );
+      }
+
+      try {
+        current = migration(current);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new DeserializationError(
+          `${className}: Migration from version ${from} to ${from + 1} failed: ${message}`,
+          { className, path },
+          { cause: error }
+        );
+      }
+      applied.push({ path, className, from, to: from + 1 });
+    }
+
+    return { data: current, applied };
+  }
+}
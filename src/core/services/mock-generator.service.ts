@@ -146,6 +146,11 @@ export class MockGenerator {
       return this.getDefaultValue(type, 'bigint');
     }
 
+    // QDecimal
+    if (typeStr === 'QDecimal' || typeStr === 'decimal') {
+      return this.getDefaultValue(type, 'decimal');
+    }
+
     // Symbol (must go after types that use Symbol() as wrapper)
     if (typeStr === 'Symbol' || typeStr === 'symbol') {
       return this.getDefaultValue(type, 'symbol');
@@ -221,6 +226,7 @@ export class MockGenerator {
       case 'number': return 0;
       case 'boolean': return false;
       case 'bigint': return '0'; // Serialized format for transformers
+      case 'decimal': return '0'; // Serialized format
       case 'symbol': return Symbol();
       case 'date': return new Date(0).toISOString(); // Serialized format
       case 'regexp': return /(?:)/.toString(); // Serialized format
@@ -247,6 +253,7 @@ export class MockGenerator {
       case 'number': return 42;
       case 'boolean': return true;
       case 'bigint': return '123'; // Serialized format for transformers
+      case 'decimal': return '19.99'; // Serialized format
       case 'symbol': return Symbol('sample');
       case 'date': return new Date('2024-01-01').toISOString(); // Serialized format
       case 'regexp': return '/test/gi'; // Serialized format
@@ -273,6 +280,7 @@ export class MockGenerator {
       case 'number': return faker.number.int({ min: 1, max: 1000 });
       case 'boolean': return faker.datatype.boolean();
       case 'bigint': return String(faker.number.int({ min: 1, max: 999999 })); // Serialized format
+      case 'decimal': return faker.commerce.price(); // Serialized format ('123.45')
       case 'symbol': return Symbol(faker.lorem.word());
       case 'date': return faker.date.recent().toISOString(); // Serialized format
       case 'regexp': {
@@ -44,93 +44,36 @@
  */
 
 import 'reflect-metadata';
-import { IQDeserializer } from '../interfaces/serializer.interface';
+import { IQDeserializer, IQDeserializeState } from '../interfaces/serializer.interface';
 import { IQTransformContext, IQTransformer } from '../interfaces/transformer.interface';
-import { QTYPES_METADATA_KEY } from '../decorators/qtype.decorator';
-import { BigIntTransformer } from '@/transformers/bigint.transformer';
-import { DateTransformer } from '@/transformers/date.transformer';
-import { ErrorTransformer } from '@/transformers/error.transformer';
-import { MapTransformer, SetTransformer } from '@/transformers/map-set.transformer';
-import { RegExpTransformer } from '@/transformers/regexp.transformer';
-import { SymbolTransformer } from '@/transformers/symbol.transformer';
-import { ArrayBufferTransformer, DataViewTransformer, SharedArrayBufferTransformer } from '@/transformers/buffer.transformer';
-import { TypedArrayTransformer } from '@/transformers/typed-array.transformer';
-import { URLTransformer, URLSearchParamsTransformer, TextEncoderTransformer, TextDecoderTransformer } from '@/transformers/web-apis.transformer';
+import { IQDiscriminator, QTYPES_METADATA_KEY } from '../decorators/qtype.decorator';
+import { DeserializationError } from '../errors/deserialization.error';
+import { appendPointer } from '../helpers/json-pointer';
+import { toPropertyName } from '../helpers/property-naming';
+import { getQuickConfig } from '../decorators/quick.decorator';
+import {
+  IQTransformScope,
+  TransformerRegistry,
+  resolveBinaryEncoding,
+  resolveTransformers,
+  transformerRegistry,
+} from './transformer-registry.service';
+import { MigrationService } from './migration.service';
 
 export class ModelDeserializer<
   TInterface extends Record<string, unknown> = Record<string, unknown>,
   TModel = any
 > implements IQDeserializer<TInterface, TModel> {
-  private readonly transformers: Map<string, IQTransformer<any, any>>;
+  private readonly registry: TransformerRegistry;
+  private readonly migrations = new MigrationService();
 
   /**
    * Creates a model deserializer.
+   * 
+   * @param registry - Transformers to use (defaults to the shared `transformerRegistry`)
    */
-  constructor() {
-    // Initialize transformers
-    this.transformers = new Map();
-    
-    const dateTransformer = new DateTransformer();
-    const bigintTransformer = new BigIntTransformer();
-    const symbolTransformer = new SymbolTransformer();
-    const regexpTransformer = new RegExpTransformer();
-    const errorTransformer = new ErrorTransformer();
-    const mapTransformer = new MapTransformer();
-    const setTransformer = new SetTransformer();
-    const bufferTransformer = new ArrayBufferTransformer();
-    const dataviewTransformer = new DataViewTransformer();
-    
-    // Register by name
-    this.transformers.set('date', dateTransformer);
-    this.transformers.set('bigint', bigintTransformer);
-    this.transformers.set('symbol', symbolTransformer);
-    this.transformers.set('regexp', regexpTransformer);
-    this.transformers.set('error', errorTransformer);
-    this.transformers.set('map', mapTransformer);
-    this.transformers.set('set', setTransformer);
-    this.transformers.set('buffer', bufferTransformer);
-    this.transformers.set('arraybuffer', bufferTransformer);
-    this.transformers.set('dataview', dataviewTransformer);
-    
-    // Register typed arrays
-    const int8Transformer = new TypedArrayTransformer<Int8Array>(Int8Array);
-    const uint8Transformer = new TypedArrayTransformer<Uint8Array>(Uint8Array);
-    const uint8ClampedTransformer = new TypedArrayTransformer<Uint8ClampedArray>(Uint8ClampedArray);
-    const int16Transformer = new TypedArrayTransformer<Int16Array>(Int16Array);
-    const uint16Transformer = new TypedArrayTransformer<Uint16Array>(Uint16Array);
-    const int32Transformer = new TypedArrayTransformer<Int32Array>(Int32Array);
-    const uint32Transformer = new TypedArrayTransformer<Uint32Array>(Uint32Array);
-    const float32Transformer = new TypedArrayTransformer<Float32Array>(Float32Array);
-    const float64Transformer = new TypedArrayTransformer<Float64Array>(Float64Array);
-    const bigint64Transformer = new TypedArrayTransformer<BigInt64Array>(BigInt64Array);
-    const biguint64Transformer = new TypedArrayTransformer<BigUint64Array>(BigUint64Array);
-    
-    this.transformers.set('int8array', int8Transformer);
-    this.transformers.set('uint8array', uint8Transformer);
-    this.transformers.set('uint8clampedarray', uint8ClampedTransformer);
-    this.transformers.set('int16array', int16Transformer);
-    this.transformers.set('uint16array', uint16Transformer);
-    this.transformers.set('int32array', int32Transformer);
-    this.transformers.set('uint32array', uint32Transformer);
-    this.transformers.set('float32array', float32Transformer);
-    this.transformers.set('float64array', float64Transformer);
-    this.transformers.set('bigint64array', bigint64Transformer);
-    this.transformers.set('biguint64array', biguint64Transformer);
-    
-    // Register SharedArrayBuffer
-    const sharedArrayBufferTransformer = new SharedArrayBufferTransformer();
-    this.transformers.set('sharedarraybuffer', sharedArrayBufferTransformer);
-    
-    // Register Web APIs
-    const urlTransformer = new URLTransformer();
-    const urlSearchParamsTransformer = new URLSearchParamsTransformer();
-    const textEncoderTransformer = new TextEncoderTransformer();
-    const textDecoderTransformer = new TextDecoderTransformer();
-    
-    this.transformers.set('url', urlTransformer);
-    this.transformers.set('urlsearchparams', urlSearchParamsTransformer);
-    this.transformers.set('textencoder', textEncoderTransformer);
-    this.transformers.set('textdecoder', textDecoderTransformer);
+  constructor(registry: TransformerRegistry = transformerRegistry) {
+    this.registry = registry;
   }
 
   /**
@@ -140,31 +83,58 @@ export class ModelDeserializer<
    * @template TResult - The resulting model type
    * @param data - Plain object to deserialize
    * @param modelClass - Model class constructor
+   * @param state - Optional deserialization state (path, error and migration collectors, inherited transformers)
    * @returns Fully-typed model instance
    * 
    * @remarks
    * If data is already an instance of the model class, returns it unchanged.
    * Otherwise, creates a new instance and populates it field by field.
    * 
+   * Fields are transformed with the inherited transformers (`state.transformers`, or the
+   * service registry), overridden by the `transformers` option of the model class.
+   * Nested models inherit the result. Binary values are read in any form; the `binary`
+   * encoding of the field or the model class only decides how hex-only strings are read.
+   * 
+   * When `state.errors` is provided, failing fields are recorded there (with their
+   * JSON pointer) and keep their raw value, so every field is processed.
+   * 
+   * Payloads of versioned models (`@Quick(map, { version, migrations })`) are upgraded
+   * first; the steps that ran are recorded in `state.migrations` when provided.
+   * 
    * This method is independent of the class generics to support nested models
    * with different interface types.
    */
   deserialize<TData extends Record<string, unknown>, TResult = unknown>(
     data: TData, 
-    modelClass: new (data: TData) => TResult
+    modelClass: new (data: TData) => TResult,
+    state: IQDeserializeState = { path: '' }
   ): TResult {
     // Return existing instance as-is
     if (data instanceof modelClass) {
       return data;
     }
 
+    // Upgrade older payloads of versioned models before reading their fields
+    const { data: payload, applied } = this.migrations.migrate(data, modelClass, state.path);
+    state.migrations?.push(...applied);
+
     // Check if class has custom instance creation (from @Quick() decorator)
     const createQuickInstance = (modelClass as any).__createQuickInstance;
     const instance = createQuickInstance 
-      ? createQuickInstance(data)
+      ? createQuickInstance(payload)
       : Object.create(modelClass.prototype);
     
-    this.populateInstance(instance, data, modelClass);
+    const config = getQuickConfig(modelClass);
+    const transformers = resolveBinaryEncoding(
+      config.binary,
+      resolveTransformers(config.transformers, resolveTransformers(state.transformers, this.registry))
+    );
+    this.populateInstance(instance, payload, modelClass, { ...state, transformers });
+
+    // Instances of immutable classes are frozen once populated (see QModel.freeze())
+    if (getQuickConfig(modelClass).immutable) {
+      (instance as { freeze?: () => void }).freeze?.();
+    }
     return instance;
   }
 
@@ -173,12 +143,13 @@ export class ModelDeserializer<
    * 
    * @param json - JSON string to parse and deserialize
    * @param modelClass - Model class constructor
+   * @param scope - Optional transformers for this call (inherited by nested models)
    * @returns Fully-typed model instance
    * @throws {SyntaxError} If JSON parsing fails
    */
-  deserializeFromJson(json: string, modelClass: new (data: any) => TModel): TModel {
+  deserializeFromJson(json: string, modelClass: new (data: any) => TModel, scope?: IQTransformScope): TModel {
     const data = JSON.parse(json);
-    return this.deserialize(data, modelClass);
+    return this.deserialize(data, modelClass, { path: '', transformers: scope?.transformers });
   }
 
   /**
@@ -187,22 +158,29 @@ export class ModelDeserializer<
    * @param instance - The model instance to populate
    * @param data - Plain object containing field values
    * @param modelClass - Model class constructor (for metadata access)
+   * @param state - Deserialization state (path and error collector)
    * 
    * @remarks
-   * Field transformation priority:
-   * 1. Custom transformer (via `fieldType` metadata)
-   * 2. Array of models or nested model (via `arrayElementClass` metadata)
-   * 3. Auto-detection (via `design:type` metadata)
-   * 
+   * Keys are mapped to property names with the `@QAlias()` aliases and the `naming`
+   * strategy of the model class. Error paths use property names.
    * Preserves null/undefined values as-is without transformation.
+   * Properties not decorated with @QType() are copied as-is.
    */
-  private populateInstance<T extends Record<string, unknown>>(instance: Record<string, unknown>, data: T, modelClass: Function): void {
+  private populateInstance<T extends Record<string, unknown>>(
+    instance: Record<string, unknown>,
+    data: T,
+    modelClass: Function,
+    state: IQDeserializeState
+  ): void {
     // Get list of properties decorated with @QType()
     const decoratedFields = Reflect.getMetadata(QTYPES_METADATA_KEY, instance) || 
                             Reflect.getMetadata(QTYPES_METADATA_KEY, Object.getPrototypeOf(instance)) || 
                             [];
+    const naming = getQuickConfig(modelClass).naming;
     
-    for (const [key, value] of Object.entries(data)) {
+    for (const [wireName, value] of Object.entries(data)) {
+      const key = toPropertyName(instance, wireName, naming);
+
       if (value === null || value === undefined) {
         instance[key] = value;
         continue;
@@ -219,110 +197,228 @@ export class ModelDeserializer<
         propertyKey: key,
         className: modelClass.name,
       };
+      const fieldState: IQDeserializeState = { ...state, path: appendPointer(state.path, key) };
+      const binary = Reflect.getMetadata('binaryEncoding', instance, key);
+      if (binary) {
+        // The field's encoding decides how strings made only of hex digits are read
+        fieldState.transformers = resolveBinaryEncoding(binary, this.registryOf(state));
+      }
 
-      // 1. Check for custom transformer function from @Quick()
-      const customTransformer = Reflect.getMetadata('customTransformer', instance, key);
-      if (customTransformer && typeof customTransformer === 'function') {
-        instance[key] = customTransformer(value);
-        continue;
+      instance[key] = this.guard(fieldState, value, () =>
+        this.deserializeField(instance, key, value, context, fieldState)
+      );
+    }
+  }
+
+  /**
+   * Transforms a single decorated field value.
+   * 
+   * @param instance - The model instance (for metadata access)
+   * @param key - The property name
+   * @param value - The raw (non-nullish) value
+   * @param context - Transformation context (property name, class name)
+   * @param state - Deserialization state of the field
+   * @returns The transformed value
+   * 
+   * @remarks
+   * Field transformation priority:
+   * 1. Custom transformer (via `fieldType` metadata)
+   * 2. Discriminated union of models (via `discriminator` metadata)
+   * 3. Array of models or nested model (via `arrayElementClass` metadata)
+   * 4. Auto-detection (via `design:type` metadata)
+   */
+  private deserializeField(
+    instance: Record<string, unknown>,
+    key: string,
+    value: unknown,
+    context: IQTransformContext,
+    state: IQDeserializeState
+  ): unknown {
+    // 1. Check for custom transformer function from @Quick()
+    const customTransformer = Reflect.getMetadata('customTransformer', instance, key);
+    if (customTransformer && typeof customTransformer === 'function') {
+      return customTransformer(value);
+    }
+
+    const registry = this.registryOf(state);
+
+    // 2. Check for custom transformer via fieldType metadata
+    const fieldType = Reflect.getMetadata('fieldType', instance, key);
+    
+    if (fieldType) {
+      const transformer = registry.get(fieldType);
+      if (transformer) {
+        return transformer.deserialize(value, context.propertyKey, context.className);
       }
+    }
+
+    // 3. Check for discriminated union of models (single value or array)
+    const union = Reflect.getMetadata('discriminator', instance, key) as IQDiscriminator | undefined;
+    if (union) {
+      if (!Array.isArray(value)) {
+        return this.deserializeUnionMember(value, union, context, state);
+      }
+      return value.map((item, index) => {
+        if (item === null || item === undefined) return item;
+        const itemState: IQDeserializeState = { ...state, path: appendPointer(state.path, index) };
+        return this.guard(itemState, item, () => this.deserializeUnionMember(item, union, context, itemState));
+      });
+    }
 
-      // 2. Check for custom transformer via fieldType metadata
-      const fieldType = Reflect.getMetadata('fieldType', instance, key);
+    // 4. Check for array of models or nested model
+    const arrayElementClass = Reflect.getMetadata('arrayElementClass', instance, key);
+    if (arrayElementClass) {
+      const designType = Reflect.getMetadata('design:type', instance, key);
       
-      if (fieldType) {
-        const transformer = this.transformers.get(fieldType);
-        if (transformer) {
-          instance[key] = transformer.deserialize(value, context.propertyKey, context.className);
-          continue;
+      // Check if arrayElementClass is actually Set or Map (special collection types)
+      if (arrayElementClass === Set) {
+        const setTransformer = registry.get(Set);
+        if (setTransformer) {
+          return setTransformer.deserialize(value, context.propertyKey, context.className);
         }
       }
-
-      // 3. Check for array of models or nested model
-      const arrayElementClass = Reflect.getMetadata('arrayElementClass', instance, key);
-      if (arrayElementClass) {
-        const designType = Reflect.getMetadata('design:type', instance, key);
-        
-        // Check if arrayElementClass is actually Set or Map (special collection types)
-        if (arrayElementClass === Set) {
-          const setTransformer = this.transformers.get('set');
-          if (setTransformer) {
-            instance[key] = setTransformer.deserialize(value, context.propertyKey, context.className);
-            continue;
-          }
+      
+      if (arrayElementClass === Map) {
+        const mapTransformer = registry.get(Map);
+        if (mapTransformer) {
+          return mapTransformer.deserialize(value, context.propertyKey, context.className);
         }
-        
-        if (arrayElementClass === Map) {
-          const mapTransformer = this.transformers.get('map');
-          if (mapTransformer) {
-            instance[key] = mapTransformer.deserialize(value, context.propertyKey, context.className);
-            continue;
-          }
+      }
+      
+      // If design:type is Array, it's an array of models OR transformable types
+      // (arrays are also accepted when no type was declared, as in `@Quick({ items: Item })`)
+      if (designType === Array || (designType === undefined && Array.isArray(value))) {
+        if (!Array.isArray(value)) {
+          throw new DeserializationError(`${context.className}.${key}: Expected array, got ${typeof value}`);
         }
         
-        // If design:type is Array, it's an array of models OR transformable types
-        if (designType === Array) {
-          if (!Array.isArray(value)) {
-            throw new Error(`${context.className}.${key}: Expected array, got ${typeof value}`);
-          }
-          
-          // Check if arrayElementClass is a primitive/transformable type (Date, BigInt, etc.)
-          const isPrimitiveOrTransformable = [Date, BigInt, Number, String, Boolean].includes(arrayElementClass);
-          
-          if (isPrimitiveOrTransformable) {
-            // Transform each element using transformByDesignType
-            instance[key] = value.map((item) => {
-              if (item === null || item === undefined) return item;
-              return this.transformByDesignType(item, arrayElementClass, context);
-            });
-          } else {
-            // It's an array of complex objects - deserialize recursively
-            const validItems = value.filter((item) => item !== null && item !== undefined);
-            instance[key] = validItems.map((item) => {
-              if (typeof item !== 'object') {
-                throw new Error(`${context.className}.${key}[]: Expected object, got ${typeof item}`);
-              }
-              return this.deserialize(item, arrayElementClass);
-            });
-          }
-          continue;
-        }
+        // Check if arrayElementClass is a primitive/transformable type (Date, BigInt, etc.)
+        const isPrimitiveOrTransformable = [Date, BigInt, Number, String, Boolean].includes(arrayElementClass);
         
-        // If not Array, it's an individual nested model
-        if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
-          instance[key] = this.deserialize(value as Record<string, unknown>, arrayElementClass);
-          continue;
+        if (isPrimitiveOrTransformable) {
+          // Transform each element using transformByDesignType
+          return value.map((item, index) => {
+            if (item === null || item === undefined) return item;
+            const itemState: IQDeserializeState = { ...state, path: appendPointer(state.path, index) };
+            return this.guard(itemState, item, () =>
+              this.transformByDesignType(item, arrayElementClass, context, itemState)
+            );
+          });
         }
-      }
 
-      // 4. Auto-detection via design:type
-      const designType = Reflect.getMetadata('design:type', instance, key);
-      
-      // 5. If property has @QType() decorator but no type metadata (declare without arg),
-      // try to detect type from value
-      const fields = Reflect.getMetadata(QTYPES_METADATA_KEY, instance) || 
-                     Reflect.getMetadata(QTYPES_METADATA_KEY, Object.getPrototypeOf(instance)) || 
-                     [];
-      const isDecoratedWithQType = fields.includes(key);
-      
-      if (isDecoratedWithQType && !designType && !fieldType && value !== null && value !== undefined) {
-        // Smart detection for @QType() without arguments on declare properties
-        
-        // Automatic type detection removed - programmer must explicitly declare transformations
-        // using @Quick({ fieldName: Date }) or @QType() decorators
+        // It's an array of complex objects - deserialize recursively
+        const result: unknown[] = [];
+        value.forEach((item, index) => {
+          if (item === null || item === undefined) return;
+          const itemState: IQDeserializeState = { ...state, path: appendPointer(state.path, index) };
+          result.push(
+            this.guard(itemState, item, () => {
+              if (typeof item !== 'object') {
+                throw new DeserializationError(`${context.className}.${key}[]: Expected object, got ${typeof item}`);
+              }
+              return this.deserialize(item, arrayElementClass, itemState);
+            })
+          );
+        });
+        return result;
       }
       
-      // 5. Fallback: No automatic type detection
-      // Programmer must explicitly declare transformations
-      
-      // Special case: Array without explicit @QType(ModelClass)
-      // Try to infer the model class by analyzing the array elements
-      if (designType === Array && Array.isArray(value) && !arrayElementClass) {
-        instance[key] = this.deserializeArrayWithInference(value, context);
-        continue;
+      // If not Array, it's an individual nested model
+      if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+        return this.deserialize(value as Record<string, unknown>, arrayElementClass, state);
       }
-      
-      instance[key] = this.transformByDesignType(value, designType, context);
+    }
+
+    // 5. Auto-detection via design:type
+    // (no automatic type detection from values: programmer must explicitly declare
+    // transformations using @Quick({ fieldName: Date }) or @QType() decorators)
+    const designType = Reflect.getMetadata('design:type', instance, key);
+    
+    // Special case: Array without explicit @QType(ModelClass)
+    // Try to infer the model class by analyzing the array elements
+    if (designType === Array && Array.isArray(value) && !arrayElementClass) {
+      return this.deserializeArrayWithInference(value, context);
+    }
+    
+    return this.transformByDesignType(value, designType, context, state);
+  }
+
+  /**
+   * Deserializes one value of a discriminated union into the model class of its tag.
+   * 
+   * @param value - The raw value (a model instance of the union is returned as-is)
+   * @param union - The discriminator key and the model class of each tag
+   * @param context - Transformation context (property name, class name)
+   * @param state - Deserialization state of the value
+   * @returns The model instance
+   * @throws {DeserializationError} If the value is not an object or its tag is unknown
+   *   (located at the tag)
+   */
+  private deserializeUnionMember(
+    value: unknown,
+    union: IQDiscriminator,
+    context: IQTransformContext,
+    state: IQDeserializeState
+  ): unknown {
+    if (typeof value !== 'object' || value === null) {
+      throw new DeserializationError(`${context.className}.${context.propertyKey}: Expected object, got ${typeof value}`);
+    }
+
+    const members = Object.values(union.map);
+    if (members.some((member) => value instanceof member)) {
+      return value;
+    }
+
+    const tag = (value as Record<string, unknown>)[union.discriminator];
+    const memberClass = typeof tag === 'string' && Object.hasOwn(union.map, tag) ? union.map[tag] : undefined;
+    if (!memberClass) {
+      throw new DeserializationError(
+        `${context.className}.${context.propertyKey}: Unknown ${union.discriminator} ${JSON.stringify(tag) ?? 'undefined'}, ` +
+        `expected one of: ${Object.keys(union.map).map((key) => JSON.stringify(key)).join(', ')}`,
+        {
+          className: context.className,
+          propertyKey: context.propertyKey,
+          value: tag,
+          path: appendPointer(state.path, union.discriminator),
+        }
+      );
+    }
+
+    return this.deserialize(value as Record<string, unknown>, memberClass, state);
+  }
+
+  /**
+   * Returns the transformers of the model being deserialized.
+   */
+  private registryOf(state: IQDeserializeState): TransformerRegistry {
+    return resolveTransformers(state.transformers, this.registry);
+  }
+
+  /**
+   * Runs a transformation, locating its error at the value's JSON pointer.
+   * 
+   * @param state - Deserialization state of the value
+   * @param rawValue - Value kept when the transformation fails in collect mode
+   * @param transform - The transformation to run
+   * @returns The transformed value, or the raw value if it failed and errors are collected
+   * @throws {DeserializationError} If the transformation fails and errors are not collected
+   */
+  private guard(state: IQDeserializeState, rawValue: unknown, transform: () => unknown): unknown {
+    try {
+      return transform();
+    } catch (error) {
+      const located = DeserializationError.at(error, state.path);
+      if (!state.errors) {
+        throw located;
+      }
+
+      state.errors.push({
+        isValid: false,
+        path: located.path,
+        rule: 'type',
+        error: located.message,
+      });
+      return rawValue;
     }
   }
 
@@ -353,9 +449,10 @@ export class ModelDeserializer<
    * Used when @QType() is called without arguments.
    * 
    * @param value - The value to analyze
+   * @param registry - Transformers of the model being deserialized
    * @returns The detected transformer or undefined
    */
-  private detectTransformerFromValue(value: unknown): IQTransformer<unknown> | undefined {
+  private detectTransformerFromValue(value: unknown, registry: TransformerRegistry): IQTransformer<unknown> | undefined {
     if (value === null || value === undefined) {
       return undefined;
     }
@@ -364,7 +461,7 @@ export class ModelDeserializer<
     if (typeof value === 'string') {
       // ISO 8601 date format - más específico
       if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{3})?Z?$/.test(value)) {
-        return this.transformers.get('date');
+        return registry.get('date');
       }
     }
 
@@ -374,29 +471,29 @@ export class ModelDeserializer<
       // Maneja tanto mayúsculas (Map, Set) como minúsculas (bigint, symbol, regexp)
       const typeValue = obj.__type;
       if (typeValue === 'Map') {
-        return this.transformers.get('map');
+        return registry.get('map');
       }
       if (typeValue === 'Set') {
-        return this.transformers.get('set');
+        return registry.get('set');
       }
       if (typeValue === 'regexp') {
-        return this.transformers.get('regexp');
+        return registry.get('regexp');
       }
       if (typeValue === 'symbol') {
-        return this.transformers.get('symbol');
+        return registry.get('symbol');
       }
       if (typeValue === 'bigint') {
-        return this.transformers.get('bigint');
+        return registry.get('bigint');
       }
       if (typeValue === 'Error') {
-        return this.transformers.get('error');
+        return registry.get('error');
       }
       if (typeValue === 'Buffer') {
-        return this.transformers.get('buffer');
+        return registry.get('buffer');
       }
       // Check for typed arrays
       if (typeValue && typeof typeValue === 'string' && typeValue.endsWith('Array')) {
-        return this.transformers.get(typeValue.toLowerCase());
+        return registry.get(typeValue.toLowerCase());
       }
     }
 
@@ -409,8 +506,9 @@ export class ModelDeserializer<
    * @param value - The value to transform
    * @param designType - The TypeScript design type from metadata
    * @param context - Transformation context (property name, class name)
+   * @param state - Deserialization state (propagated to nested models)
    * @returns Transformed value
-   * @throws {Error} If transformation fails or type is invalid
+   * @throws {DeserializationError} If transformation fails or type is invalid
    * 
    * @remarks
    * Handles automatic type conversions for common types:
@@ -422,10 +520,16 @@ export class ModelDeserializer<
    * - Nested models: recursive deserialization
    * - Primitives: with type validation
    */
-  private transformByDesignType(value: unknown, designType: Function | undefined, context: IQTransformContext): unknown {
+  private transformByDesignType(
+    value: unknown,
+    designType: Function | undefined,
+    context: IQTransformContext,
+    state: IQDeserializeState = { path: '' }
+  ): unknown {
     // Check for __type marker FIRST (highest priority)
     // This allows roundtrip: Model → serialize() → Model
-    const detectedTransformer = this.detectTransformerFromValue(value);
+    const registry = this.registryOf(state);
+    const detectedTransformer = this.detectTransformerFromValue(value, registry);
     if (detectedTransformer) {
       return detectedTransformer.deserialize(value, context.propertyKey, context.className);
     }
@@ -435,187 +539,10 @@ export class ModelDeserializer<
       return value;
     }
 
-    // Date
-    if (designType === Date) {
-      const transformer = this.transformers.get('date');
-      if (transformer) {
-        return transformer.deserialize(value, context.propertyKey, context.className);
-      }
-      if (typeof value === 'string' || typeof value === 'number' || value instanceof Date) {
-        return new Date(value);
-      }
-      throw new Error(`${context.className}.${context.propertyKey}: Invalid Date value`);
-    }
-
-    // BigInt (auto-detected via TypeScript metadata)
-    if (designType === BigInt) {
-      const transformer = this.transformers.get('bigint');
-      if (transformer) {
-        return transformer.deserialize(value, context.propertyKey, context.className);
-      }
-      if (typeof value === 'string' || typeof value === 'number') {
-        return BigInt(value);
-      }
-      if (typeof value === 'bigint') {
-        return value;
-      }
-      throw new Error(`${context.className}.${context.propertyKey}: Invalid BigInt value`);
-    }
-
-    // Symbol (auto-detected via TypeScript metadata)
-    if (designType === Symbol) {
-      const transformer = this.transformers.get('symbol');
-      if (transformer) {
-        return transformer.deserialize(value, context.propertyKey, context.className);
-      }
-      if (typeof value === 'string') {
-        return Symbol.for(value);
-      }
-      if (typeof value === 'symbol') {
-        return value;
-      }
-      throw new Error(`${context.className}.${context.propertyKey}: Invalid Symbol value`);
-    }
-
-    // Map
-    if (designType === Map) {
-      const transformer = this.transformers.get('map');
-      if (transformer) {
-        return transformer.deserialize(value, context.propertyKey, context.className);
-      }
-      if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
-        return new Map(Object.entries(value));
-      }
-      throw new Error(`${context.className}.${context.propertyKey}: Invalid Map value`);
-    }
-
-    // Set
-    if (designType === Set) {
-      const transformer = this.transformers.get('set');
-      if (transformer) {
-        return transformer.deserialize(value, context.propertyKey, context.className);
-      }
-      if (Array.isArray(value)) {
-        return new Set(value);
-      }
-      throw new Error(`${context.className}.${context.propertyKey}: Invalid Set value`);
-    }
-
-    // RegExp (auto-detected via TypeScript metadata)
-    if (designType === RegExp) {
-      const transformer = this.transformers.get('regexp');
-      if (transformer) {
-        return transformer.deserialize(value, context.propertyKey, context.className);
-      }
-      throw new Error(`${context.className}.${context.propertyKey}: RegExp requires transformer`);
-    }
-
-    // Error (auto-detected via TypeScript metadata)
-    if (designType === Error) {
-      const transformer = this.transformers.get('error');
-      if (transformer) {
-        return transformer.deserialize(value, context.propertyKey, context.className);
-      }
-      throw new Error(`${context.className}.${context.propertyKey}: Error requires transformer`);
-    }
-
-    // TypedArrays (auto-detected via TypeScript metadata)
-    if (designType === Uint8Array) {
-      const transformer = this.transformers.get('uint8array');
-      if (transformer) {
-        return transformer.deserialize(value, context.propertyKey, context.className);
-      }
-      throw new Error(`${context.className}.${context.propertyKey}: Uint8Array requires transformer`);
-    }
-    
-    if (designType === Uint16Array) {
-      const transformer = this.transformers.get('uint16array');
-      if (transformer) {
-        return transformer.deserialize(value, context.propertyKey, context.className);
-      }
-      throw new Error(`${context.className}.${context.propertyKey}: Uint16Array requires transformer`);
-    }
-    
-    if (designType === Uint32Array) {
-      const transformer = this.transformers.get('uint32array');
-      if (transformer) {
-        return transformer.deserialize(value, context.propertyKey, context.className);
-      }
-      throw new Error(`${context.className}.${context.propertyKey}: Uint32Array requires transformer`);
-    }
-    
-    if (designType === Int8Array) {
-      const transformer = this.transformers.get('int8array');
-      if (transformer) {
-        return transformer.deserialize(value, context.propertyKey, context.className);
-      }
-      throw new Error(`${context.className}.${context.propertyKey}: Int8Array requires transformer`);
-    }
-    
-    if (designType === Int16Array) {
-      const transformer = this.transformers.get('int16array');
-      if (transformer) {
-        return transformer.deserialize(value, context.propertyKey, context.className);
-      }
-      throw new Error(`${context.className}.${context.propertyKey}: Int16Array requires transformer`);
-    }
-    
-    if (designType === Int32Array) {
-      const transformer = this.transformers.get('int32array');
-      if (transformer) {
-        return transformer.deserialize(value, context.propertyKey, context.className);
-      }
-      throw new Error(`${context.className}.${context.propertyKey}: Int32Array requires transformer`);
-    }
-    
-    if (designType === Float32Array) {
-      const transformer = this.transformers.get('float32array');
-      if (transformer) {
-        return transformer.deserialize(value, context.propertyKey, context.className);
-      }
-      throw new Error(`${context.className}.${context.propertyKey}: Float32Array requires transformer`);
-    }
-    
-    if (designType === Float64Array) {
-      const transformer = this.transformers.get('float64array');
-      if (transformer) {
-        return transformer.deserialize(value, context.propertyKey, context.className);
-      }
-      throw new Error(`${context.className}.${context.propertyKey}: Float64Array requires transformer`);
-    }
-    
-    if (designType === BigInt64Array) {
-      const transformer = this.transformers.get('bigint64array');
-      if (transformer) {
-        return transformer.deserialize(value, context.propertyKey, context.className);
-      }
-      throw new Error(`${context.className}.${context.propertyKey}: BigInt64Array requires transformer`);
-    }
-    
-    if (designType === BigUint64Array) {
-      const transformer = this.transformers.get('biguint64array');
-      if (transformer) {
-        return transformer.deserialize(value, context.propertyKey, context.className);
-      }
-      throw new Error(`${context.className}.${context.propertyKey}: BigUint64Array requires transformer`);
-    }
-
-    // ArrayBuffer (auto-detected via TypeScript metadata)
-    if (designType === ArrayBuffer) {
-      const transformer = this.transformers.get('arraybuffer');
-      if (transformer) {
-        return transformer.deserialize(value, context.propertyKey, context.className);
-      }
-      throw new Error(`${context.className}.${context.propertyKey}: ArrayBuffer requires transformer`);
-    }
-
-    // DataView (auto-detected via TypeScript metadata)
-    if (designType === DataView) {
-      const transformer = this.transformers.get('dataview');
-      if (transformer) {
-        return transformer.deserialize(value, context.propertyKey, context.className);
-      }
-      throw new Error(`${context.className}.${context.propertyKey}: DataView requires transformer`);
+    // Registered types (Date, BigInt, Symbol, Map, Set, RegExp, Error, buffers, typed arrays, custom...)
+    const transformer = registry.get(designType);
+    if (transformer) {
+      return transformer.deserialize(value, context.propertyKey, context.className);
     }
 
     // Nested model
@@ -628,12 +555,12 @@ export class ModelDeserializer<
       typeof designType === 'function'
     ) {
       if (typeof value !== 'object' || Array.isArray(value)) {
-        throw new Error(
+        throw new DeserializationError(
           `${context.className}.${context.propertyKey}: Expected object, got ${typeof value}`,
         );
       }
       type ModelConstructor = new (data: Record<string, unknown>) => unknown;
-      return this.deserialize(value as Record<string, unknown>, designType as ModelConstructor);
+      return this.deserialize(value as Record<string, unknown>, designType as ModelConstructor, state);
     }
 
     // Primitive validation
@@ -649,21 +576,21 @@ export class ModelDeserializer<
    * @param value - The value to validate
    * @param designType - The expected type constructor
    * @param context - Transformation context (for error messages)
-   * @throws {Error} If value doesn't match expected primitive type
+   * @throws {DeserializationError} If value doesn't match expected primitive type
    */
   private validatePrimitive(value: unknown, designType: Function | undefined, context: IQTransformContext): void {
     if (designType === String && typeof value !== 'string' && !(value instanceof String)) {
-      throw new Error(
+      throw new DeserializationError(
         `${context.className}.${context.propertyKey}: Expected string or String wrapper, got ${typeof value}`,
       );
     }
     if (designType === Number && typeof value !== 'number' && !(value instanceof Number)) {
-      throw new Error(
+      throw new DeserializationError(
         `${context.className}.${context.propertyKey}: Expected number or Number wrapper, got ${typeof value}`,
       );
     }
     if (designType === Boolean && typeof value !== 'boolean' && !(value instanceof Boolean)) {
-      throw new Error(
+      throw new DeserializationError(
         `${context.className}.${context.propertyKey}: Expected boolean or Boolean wrapper, got ${typeof value}`,
       );
     }
@@ -0,0 +1,62 @@
+/**
+ * Event emitter of a model instance.
+ *
+ * Listeners are called synchronously, in subscription order. A listener added or removed
+ * while an event is emitted takes effect from the next event.
+ *
+ * @remarks
+ * This class follows SOLID principles:
+ * - **Single Responsibility**: Only keeps and calls listeners; the model decides what to emit
+ *
+ * @example
+ * ```typescript
+ * const events = new ModelEvents<IQModelEvents>();
+ * const off = events.on('change', ({ path }) => console.log(path));
+ * events.emit('change', { path: '/name', oldValue: 'Ann', newValue: 'Bob' }); // logs '/name'
+ * off();
+ * ```
+ */
+
+export class ModelEvents<TEvents extends object> {
+  private readonly listeners = new Map<keyof TEvents, Set<(event: never) => void>>();
+
+  /**
+   * Subscribes to an event.
+   *
+   * @param name - The event name
+   * @param listener - Called with the payload of every emitted event
+   * @returns A function that unsubscribes the listener
+   */
+  on<K extends keyof TEvents>(name: K, listener: (event: TEvents[K]) => void): () => void {
+    let listeners = this.listeners.get(name);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(name, listeners);
+    }
+    listeners.add(listener);
+    return () => this.off(name, listener);
+  }
+
+  /**
+   * Unsubscribes a listener added with {@link on}.
+   */
+  off<K extends keyof TEvents>(name: K, listener: (event: TEvents[K]) => void): void {
+    this.listeners.get(name)?.delete(listener);
+  }
+
+  /**
+   * Calls the listeners of an event.
+   *
+   * @param name - The event name
+   * @param event - The payload
+   */
+  emit<K extends keyof TEvents>(name: K, event: TEvents[K]): void {
+    const listeners = this.listeners.get(name);
+    if (!listeners) {
+      return;
+    }
+    for (const listener of Array.from(listeners) as Array<(event: TEvents[K]) => void>) {
+      listener(event);
+    }
+  }
+}
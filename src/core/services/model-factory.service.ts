@@ -0,0 +1,468 @@
+/**
+ * Service for building model classes at runtime, from a JSON Schema or from a sample payload.
+ *
+ * The classes get the same metadata as decorated classes: `format: date-time` becomes a `Date`
+ * field, a `$ref` (or an inline object) a nested model class, array items set the element
+ * class, `oneOf` with a discriminator a polymorphic field, and schemas equal to the serialized
+ * format of a registered transformer (e.g. the `{ __type: 'Map', entries }` shape) that type.
+ * Constraints (`required`, `minimum`, `pattern`, `format: email`, ...) become validation rules.
+ *
+ * @remarks
+ * This class follows SOLID principles:
+ * - **Single Responsibility**: Only builds model classes from schemas
+ * - **Open/Closed**: Custom transformers are recognized through their `toJSONSchema()`
+ *
+ * @example
+ * ```typescript
+ * const factory = new ModelFactory();
+ * const User = factory.fromJSONSchema({
+ *   title: 'User',
+ *   type: 'object',
+ *   properties: {
+ *     email: { type: 'string', format: 'email' },
+ *     createdAt: { type: 'string', format: 'date-time' },
+ *   },
+ *   required: ['email'],
+ * });
+ *
+ * const user = new User({ email: 'ann@example.com', createdAt: '2024-01-01T00:00:00.000Z' });
+ * user.createdAt; // Date
+ *
+ * const Order = factory.fromSample({ id: 'o-1', items: [{ sku: 'A', qty: 1 }] }, { name: 'Order' });
+ * ```
+ */
+
+import 'reflect-metadata';
+import type {
+  IQJSONSchema,
+  IQOpenAPIComponents,
+  IQSchemaProvider,
+} from '../interfaces/json-schema.interface';
+import { QModel } from '../models/quick.model';
+import { Quick, type IQuickConfig } from '../decorators/quick.decorator';
+import { QType, type IQDiscriminator } from '../decorators/qtype.decorator';
+import { Required, Min, Max, GreaterThan, LessThan, Length, Pattern, Email, Custom } from '../decorators/validation.decorator';
+import { QuickModelError } from '../errors/quickmodel.error';
+import { parsePointer } from '../helpers/json-pointer';
+import { QNamingStrategy, toPropertyName } from '../helpers/property-naming';
+import { TransformerRegistry, transformerRegistry } from './transformer-registry.service';
+import { VERSION_KEY } from './migration.service';
+
+/**
+ * A model class built at runtime (fields typed as `any`).
+ */
+export type QDynamicModel = (new (data?: Record<string, any>) => QModel<Record<string, any>> & Record<string, any>) &
+  Omit<typeof QModel, 'prototype'>;
+
+/**
+ * Options of `modelFromJSONSchema()` and `modelFromSample()`.
+ */
+export interface IQModelFactoryOptions {
+  /**
+   * Name of the root class (defaults to the schema `title`, or `Model`)
+   */
+  name?: string;
+
+  /**
+   * Naming strategy of the keys in serialized data, used to derive property names
+   * (e.g. `'snake_case'` turns `created_at` into a `createdAt` property)
+   */
+  naming?: QNamingStrategy;
+}
+
+/**
+ * Classes built while reading a schema document, keyed by `$ref`.
+ */
+interface IQFactoryContext {
+  document: object;
+  classes: Map<string, QDynamicModel>;
+  naming?: QNamingStrategy;
+}
+
+// Keywords that describe a schema without constraining it
+const ANNOTATIONS = ['title', 'description', 'default', 'examples', 'readOnly', 'writeOnly', '$comment'];
+
+// ISO 8601 date-time, as produced by Date.prototype.toJSON()
+const DATE_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/;
+
+// Element classes the deserializer converts one by one in arrays
+const ARRAY_ELEMENT_TYPES: Function[] = [Date, BigInt];
+
+// Constructors of the primitive JSON Schema types
+const PRIMITIVE_TYPES: Record<string, Function> = { string: String, number: Number, integer: Number, boolean: Boolean };
+
+export class ModelFactory {
+  // Transformer constructors keyed by their canonical serialized schema (unambiguous ones only)
+  private transformerSchemas?: Map<string, Function>;
+
+  /**
+   * Creates a model factory.
+   *
+   * @param registry - Transformers recognized in schemas (defaults to the shared `transformerRegistry`)
+   */
+  constructor(private readonly registry: TransformerRegistry = transformerRegistry) {}
+
+  /**
+   * Builds a model class from a JSON Schema of its serialized format.
+   * `$ref`s are resolved within the schema (`$defs`, `definitions`, `components/schemas`, `#`).
+   *
+   * @param schema - Object schema of the model
+   * @param options - Class name and naming strategy
+   * @returns The model class (nested models are built as separate classes)
+   * @throws {QuickModelError} If the schema does not describe an object or a `$ref` cannot be resolved
+   */
+  fromJSONSchema(schema: IQJSONSchema, options: IQModelFactoryOptions = {}): QDynamicModel {
+    const context: IQFactoryContext = { document: schema, classes: new Map(), naming: options.naming };
+    return this.buildClass(schema, options.name ?? schema.title ?? 'Model', '#', context);
+  }
+
+  /**
+   * Builds a model class per schema in the `components.schemas` of an OpenAPI document.
+   * Schemas that are not objects (enums, aliases of primitives) are skipped.
+   *
+   * @param document - OpenAPI 3.x document (or the output of `toOpenAPIComponents()`)
+   * @param options - Naming strategy (`name` is ignored: classes are named after their schemas)
+   * @returns The model classes keyed by schema name
+   */
+  fromOpenAPI(document: IQOpenAPIComponents, options: IQModelFactoryOptions = {}): Record<string, QDynamicModel> {
+    const context: IQFactoryContext = { document, classes: new Map(), naming: options.naming };
+    const models: Record<string, QDynamicModel> = {};
+    for (const name of Object.keys(document.components.schemas)) {
+      const model = this.toModel({ $ref: `#/components/schemas/${name}` }, name, context);
+      if (model) {
+        models[name] = model;
+      }
+    }
+    return models;
+  }
+
+  /**
+   * Builds a model class from a sample payload: ISO date-time strings become `Date` fields,
+   * nested objects nested models (named after their key), and arrays take the type of their items.
+   *
+   * @param sample - A serialized instance of the model
+   * @param options - Class name and naming strategy
+   * @returns The model class
+   */
+  fromSample(sample: Record<string, unknown>, options: IQModelFactoryOptions = {}): QDynamicModel {
+    return this.fromJSONSchema(this.inferSchema(sample, options.name ?? 'Model'), options);
+  }
+
+  /**
+   * Creates a class for an object schema and defines its fields.
+   */
+  private buildClass(schema: IQJSONSchema, name: string, ref: string | undefined, context: IQFactoryContext): QDynamicModel {
+    const resolved = this.resolve(schema, context);
+    if (resolved.type !== 'object' && resolved.properties === undefined) {
+      throw new QuickModelError(`${name}: Expected an object schema, got ${JSON.stringify(resolved.type)}`, {
+        className: name,
+        value: schema,
+      });
+    }
+
+    const properties = resolved.properties ?? {};
+    const version = properties[VERSION_KEY]?.const;
+    const config: IQuickConfig = {
+      ...(context.naming && { naming: context.naming }),
+      ...(typeof version === 'number' && { version }),
+    };
+
+    // Register the class before its fields, so recursive references resolve to it
+    const Base = { [name]: class extends QModel<Record<string, any>> {} }[name]!;
+    const Model = (Object.keys(config).length > 0 ? Quick(undefined, config)(Base) : Base) as unknown as QDynamicModel;
+    if (ref !== undefined) {
+      context.classes.set(ref, Model);
+    }
+
+    const prototype = Model.prototype as object;
+    const required = new Set(resolved.required ?? []);
+    for (const [wireName, propertySchema] of Object.entries(properties)) {
+      if (wireName === VERSION_KEY) {
+        continue;
+      }
+      const propertyKey = toPropertyName(prototype, wireName, context.naming);
+      this.defineField(prototype, propertyKey, propertySchema, context);
+      this.defineRules(prototype, propertyKey, this.resolve(propertySchema, context), required.has(wireName));
+    }
+    return Model;
+  }
+
+  /**
+   * Defines the type metadata of a field, as `@QType()` and TypeScript's `design:type` would.
+   */
+  private defineField(prototype: object, propertyKey: string, schema: IQJSONSchema, context: IQFactoryContext): void {
+    const union = this.toUnion(schema, context);
+    if (union) {
+      QType(union)(prototype, propertyKey);
+      return;
+    }
+
+    const nested = this.toModel(schema, propertyKey, context);
+    if (nested) {
+      Reflect.defineMetadata('design:type', nested, prototype, propertyKey);
+      QType(nested)(prototype, propertyKey);
+      return;
+    }
+
+    const resolved = this.resolve(schema, context);
+    const transformerType = this.toTransformerType(resolved);
+    if (transformerType) {
+      Reflect.defineMetadata('design:type', transformerType, prototype, propertyKey);
+      QType()(prototype, propertyKey);
+      Reflect.defineMetadata('fieldType', transformerType, prototype, propertyKey);
+      return;
+    }
+
+    if (resolved.type === 'array') {
+      Reflect.defineMetadata('design:type', Array, prototype, propertyKey);
+      const items = resolved.items ?? {};
+      const itemUnion = this.toUnion(items, context);
+      const itemModel = itemUnion ? undefined : this.toModel(items, propertyKey, context);
+      if (itemUnion || itemModel) {
+        QType(itemUnion ?? itemModel)(prototype, propertyKey);
+        return;
+      }
+
+      QType()(prototype, propertyKey);
+      const resolvedItems = this.resolve(items, context);
+      const transformerItem = this.toTransformerType(resolvedItems);
+      const itemType = transformerItem && ARRAY_ELEMENT_TYPES.includes(transformerItem)
+        ? transformerItem
+        : PRIMITIVE_TYPES[String(resolvedItems.type)];
+      if (itemType) {
+        Reflect.defineMetadata('arrayElementClass', itemType, prototype, propertyKey);
+      }
+      return;
+    }
+
+    const designType = PRIMITIVE_TYPES[String(resolved.type)];
+    if (designType) {
+      Reflect.defineMetadata('design:type', designType, prototype, propertyKey);
+    }
+    QType()(prototype, propertyKey);
+  }
+
+  /**
+   * Adds the validation rules expressed by the constraints of a field schema.
+   */
+  private defineRules(prototype: object, propertyKey: string, schema: IQJSONSchema, required: boolean): void {
+    const rules: PropertyDecorator[] = [];
+    if (required) rules.push(Required());
+
+    // Constraints of a transformer's format apply to the serialized value, not to the field
+    if (Reflect.getMetadata('fieldType', prototype, propertyKey) !== undefined) {
+      schema = {};
+    }
+    if (typeof schema.minimum === 'number') rules.push(Min(schema.minimum));
+    if (typeof schema.maximum === 'number') rules.push(Max(schema.maximum));
+    if (typeof schema.exclusiveMinimum === 'number') rules.push(GreaterThan(schema.exclusiveMinimum));
+    if (typeof schema.exclusiveMaximum === 'number') rules.push(LessThan(schema.exclusiveMaximum));
+    if (schema.format === 'email') rules.push(Email());
+    if (typeof schema.pattern === 'string') rules.push(Pattern(new RegExp(schema.pattern)));
+
+    const values = Array.isArray(schema.enum) ? schema.enum : 'const' in schema ? [schema.const] : undefined;
+    if (values) {
+      const className = prototype.constructor.name;
+      const expected = values.map((value) => JSON.stringify(value)).join(', ');
+      rules.push(Custom((value) => values.includes(value), `${className}.${propertyKey}: Expected one of ${expected}`));
+    }
+
+    const min = schema.type === 'array' ? schema.minItems : schema.minLength;
+    const max = schema.type === 'array' ? schema.maxItems : schema.maxLength;
+    if (min !== undefined || max !== undefined) {
+      rules.push(Length(min ?? 0, max));
+    }
+
+    for (const rule of rules) {
+      rule(prototype, propertyKey);
+    }
+  }
+
+  /**
+   * Returns the model class of a `$ref` or inline object schema.
+   */
+  private toModel(schema: IQJSONSchema, propertyKey: string, context: IQFactoryContext): QDynamicModel | undefined {
+    if (schema.$ref !== undefined) {
+      const target = this.resolve(schema, context);
+      if (!this.isObjectSchema(target)) {
+        return undefined;
+      }
+      return (
+        context.classes.get(schema.$ref) ??
+        this.buildClass(target, target.title ?? this.nameOf(schema.$ref), schema.$ref, context)
+      );
+    }
+    if (this.isObjectSchema(schema)) {
+      return this.buildClass(schema, schema.title ?? this.nameOf(propertyKey), undefined, context);
+    }
+    return undefined;
+  }
+
+  /**
+   * Returns the discriminated union of a `oneOf` / `anyOf` of models, if the members are tagged
+   * by an OpenAPI `discriminator` or by a `const` property.
+   */
+  private toUnion(schema: IQJSONSchema, context: IQFactoryContext): IQDiscriminator | undefined {
+    const members = schema.oneOf ?? schema.anyOf;
+    if (!members || members.length === 0 || members.some((member) => member.$ref === undefined)) {
+      return undefined;
+    }
+
+    const map: IQDiscriminator['map'] = {};
+    if (schema.discriminator) {
+      const mapping = schema.discriminator.mapping ?? {};
+      for (const member of members) {
+        const tag = Object.keys(mapping).find((key) => mapping[key] === member.$ref) ?? this.nameOf(member.$ref!);
+        map[tag] = this.toModel(member, tag, context)!;
+      }
+      return { discriminator: schema.discriminator.propertyName, map };
+    }
+
+    let discriminator: string | undefined;
+    for (const member of members) {
+      const tagged = Object.entries(member.properties ?? {}).find(([, property]) => property.const !== undefined);
+      if (!tagged || (discriminator !== undefined && tagged[0] !== discriminator)) {
+        return undefined;
+      }
+      discriminator = tagged[0];
+      map[String(tagged[1].const)] = this.toModel(member, discriminator, context)!;
+    }
+    return { discriminator: discriminator!, map };
+  }
+
+  /**
+   * Returns the transformer constructor whose serialized schema equals a schema.
+   */
+  private toTransformerType(schema: IQJSONSchema): Function | undefined {
+    if (!this.transformerSchemas) {
+      const byCanonical = new Map<string, Function | null>();
+      for (const key of this.registry.keys()) {
+        const transformer = this.registry.get(key) as Partial<IQSchemaProvider> | undefined;
+        if (typeof key !== 'function' || typeof transformer?.toJSONSchema !== 'function') {
+          continue;
+        }
+        const canonical = this.canonical(transformer.toJSONSchema());
+        // Schemas shared by several types (e.g. plain strings) do not identify a type
+        byCanonical.set(canonical, byCanonical.has(canonical) ? null : key);
+      }
+      this.transformerSchemas = new Map(
+        [...byCanonical].filter((entry): entry is [string, Function] => entry[1] !== null)
+      );
+    }
+    return this.transformerSchemas.get(this.canonical(schema));
+  }
+
+  /**
+   * Infers the schema of a sample value.
+   */
+  private inferSchema(value: unknown, title: string): IQJSONSchema {
+    if (typeof value === 'string') {
+      return DATE_TIME_PATTERN.test(value) ? { type: 'string', format: 'date-time' } : { type: 'string' };
+    }
+    if (typeof value === 'number') return { type: 'number' };
+    if (typeof value === 'boolean') return { type: 'boolean' };
+
+    if (Array.isArray(value)) {
+      const items = (value as unknown[]).filter((item) => item !== null && item !== undefined);
+      if (items.length === 0) {
+        return { type: 'array' };
+      }
+      // Objects merge the keys of every item; other items take the type of the first one
+      const sample: unknown = items.every((item) => typeof item === 'object' && !Array.isArray(item))
+        ? (Object.assign({}, ...(items as object[])) as object)
+        : items[0];
+      return { type: 'array', items: this.inferSchema(sample, title) };
+    }
+
+    if (typeof value === 'object' && value !== null) {
+      const properties: Record<string, IQJSONSchema> = {};
+      for (const [key, property] of Object.entries(value)) {
+        properties[key] = this.inferSchema(property, this.nameOf(key));
+      }
+      return { type: 'object', title, properties };
+    }
+    return {};
+  }
+
+  /**
+   * Follows a `$ref` to its target schema (other schemas are returned as they are).
+   */
+  private resolve(schema: IQJSONSchema, context: IQFactoryContext): IQJSONSchema {
+    if (schema.$ref === undefined) {
+      return schema;
+    }
+    if (!schema.$ref.startsWith('#')) {
+      throw new QuickModelError(`Cannot resolve external $ref "${schema.$ref}"`, { value: schema.$ref });
+    }
+
+    let target: unknown = context.document;
+    for (const segment of parsePointer(schema.$ref)) {
+      target = (target as Record<string, unknown> | undefined)?.[segment];
+    }
+    if (typeof target !== 'object' || target === null) {
+      throw new QuickModelError(`Cannot resolve $ref "${schema.$ref}"`, { value: schema.$ref });
+    }
+    return target as IQJSONSchema;
+  }
+
+  private isObjectSchema(schema: IQJSONSchema): boolean {
+    return schema.type === 'object' || (schema.type === undefined && schema.properties !== undefined);
+  }
+
+  /**
+   * Derives a class name from a `$ref` or a property key (`#/$defs/line_item` → `LineItem`).
+   */
+  private nameOf(refOrKey: string): string {
+    const segment = refOrKey.split('/').pop() || 'Model';
+    return segment
+      .split(/[^a-zA-Z0-9]+/)
+      .filter(Boolean)
+      .map((word) => word[0]!.toUpperCase() + word.slice(1))
+      .join('') || 'Model';
+  }
+
+  /**
+   * Serializes a schema with sorted keys and without annotations, for comparisons.
+   */
+  private canonical(schema: unknown): string {
+    return JSON.stringify(schema, (_key, value: unknown) => {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return value;
+      }
+      return Object.fromEntries(
+        Object.keys(value)
+          .filter((name) => !ANNOTATIONS.includes(name))
+          .sort()
+          .map((name) => [name, (value as Record<string, unknown>)[name]])
+      );
+    });
+  }
+}
+
+/**
+ * Builds a model class from a JSON Schema, with the shared transformer registry.
+ *
+ * @param schema - Object schema of the serialized model
+ * @param options - Class name and naming strategy
+ * @returns The model class
+ *
+ * @example
+ * ```typescript
+ * const User = modelFromJSONSchema(await fetchEntitySchema('user'));
+ * const user = User.fromJSON(body);
+ * ```
+ */
+export function modelFromJSONSchema(schema: IQJSONSchema, options?: IQModelFactoryOptions): QDynamicModel {
+  return new ModelFactory().fromJSONSchema(schema, options);
+}
+
+/**
+ * Builds a model class from a sample payload, with the shared transformer registry.
+ *
+ * @param sample - A serialized instance of the model
+ * @param options - Class name and naming strategy
+ * @returns The model class
+ */
+export function modelFromSample(sample: Record<string, unknown>, options?: IQModelFactoryOptions): QDynamicModel {
+  return new ModelFactory().fromSample(sample, options);
+}
@@ -0,0 +1,184 @@
+/**
+ * Undo/redo history of a model instance.
+ *
+ * The history keeps snapshots of the serialized state: every recorded change pushes the
+ * state it replaced onto the undo stack, and undoing restores it (through `patch()`),
+ * moving the current state onto the redo stack. After `checkpoint(label)`, every change
+ * until the next checkpoint, undo or redo is merged into one labelled step.
+ *
+ * @remarks
+ * This class follows SOLID principles:
+ * - **Single Responsibility**: Only keeps the stacks; the model takes and restores the snapshots
+ *
+ * @example
+ * ```typescript
+ * const history = new ModelHistory(() => model.serialize(), (state) => model.patch(state), { limit: 50 });
+ * model.name = 'Ann';
+ * history.record();
+ * history.undo(); // {} (restores the previous name)
+ * ```
+ */
+
+import type { IQHistoryOptions, IQHistoryStep } from '../interfaces/history.interface';
+import { deepEqual } from '../helpers/structural';
+
+/**
+ * Default maximum number of undo steps.
+ */
+export const DEFAULT_HISTORY_LIMIT = 100;
+
+/**
+ * A snapshot on a stack, with the label of the step that replaced it.
+ */
+interface IQHistoryEntry<TState> extends IQHistoryStep {
+  state: TState;
+}
+
+export class ModelHistory<TState> {
+  private readonly past: IQHistoryEntry<TState>[] = [];
+  private readonly future: IQHistoryEntry<TState>[] = [];
+  private readonly limit: number;
+  private current: TState;
+
+  // Label of the open checkpoint; `grouped` once its first change is recorded
+  private checkpointLabel?: string;
+  private grouping = false;
+  private grouped = false;
+
+  // Nesting depth of batches and restores, while changes are not recorded one by one
+  private paused = 0;
+
+  /**
+   * Creates a history starting at the current state.
+   *
+   * @param snapshot - Returns the current state
+   * @param restore - Restores a state returned by `snapshot`
+   * @param options - Maximum number of undo steps
+   */
+  constructor(
+    private readonly snapshot: () => TState,
+    private readonly restore: (state: TState) => void,
+    options: IQHistoryOptions = {}
+  ) {
+    this.limit = Math.max(0, options.limit ?? DEFAULT_HISTORY_LIMIT);
+    this.current = snapshot();
+  }
+
+  /**
+   * Records the change that was just made (ignored inside batches and restores,
+   * and when the state did not change).
+   */
+  record(): void {
+    if (this.paused > 0) {
+      return;
+    }
+
+    const state = this.snapshot();
+    if (deepEqual(state, this.current)) {
+      return;
+    }
+
+    if (!this.grouped) {
+      this.past.push({ label: this.checkpointLabel, state: this.current });
+      if (this.past.length > this.limit) {
+        this.past.shift();
+      }
+      this.grouped = this.grouping;
+    }
+    this.current = state;
+    this.future.length = 0;
+  }
+
+  /**
+   * Runs several changes as one step.
+   *
+   * @param changes - Function making the changes
+   * @returns The result of `changes`
+   */
+  batch<T>(changes: () => T): T {
+    this.paused++;
+    try {
+      return changes();
+    } finally {
+      this.paused--;
+      this.record();
+    }
+  }
+
+  /**
+   * Starts a step: every change until the next checkpoint, undo or redo is undone at once.
+   *
+   * @param label - Name of the step
+   */
+  checkpoint(label?: string): void {
+    this.checkpointLabel = label;
+    this.grouping = true;
+    this.grouped = false;
+  }
+
+  /**
+   * Restores the state before the last step.
+   *
+   * @returns The undone step, or `undefined` if there is nothing to undo
+   */
+  undo(): IQHistoryStep | undefined {
+    return this.move(this.past, this.future);
+  }
+
+  /**
+   * Restores the state of the last undone step.
+   *
+   * @returns The redone step, or `undefined` if there is nothing to redo
+   */
+  redo(): IQHistoryStep | undefined {
+    return this.move(this.future, this.past);
+  }
+
+  /**
+   * Checks whether `undo()` would restore a state (changes made without `record()`
+   * are recorded first, as `undo()` does).
+   */
+  canUndo(): boolean {
+    this.record();
+    return this.past.length > 0;
+  }
+
+  /**
+   * Checks whether `redo()` would restore a state (a change made without `record()`
+   * since the last undo is recorded first, which clears the undone steps).
+   */
+  canRedo(): boolean {
+    this.record();
+    return this.future.length > 0;
+  }
+
+  /**
+   * Restores the top state of one stack, pushing the current state onto the other.
+   */
+  private move(from: IQHistoryEntry<TState>[], to: IQHistoryEntry<TState>[]): IQHistoryStep | undefined {
+    // A change made without record() (e.g. inside a nested model) is kept as a step first
+    this.record();
+    this.endCheckpoint();
+
+    const entry = from.pop();
+    if (!entry) {
+      return undefined;
+    }
+    to.push({ label: entry.label, state: this.current });
+
+    this.paused++;
+    try {
+      this.restore(entry.state);
+    } finally {
+      this.paused--;
+    }
+    this.current = this.snapshot();
+    return entry.label === undefined ? {} : { label: entry.label };
+  }
+
+  private endCheckpoint(): void {
+    this.checkpointLabel = undefined;
+    this.grouping = false;
+    this.grouped = false;
+  }
+}
@@ -0,0 +1,287 @@
+/**
+ * Service for three-way merges of concurrent edits of a model.
+ *
+ * The three versions are compared on their patch documents (see `JsonPatchService`): a value
+ * changed on one side only takes that side's value, a value changed on both sides to the same
+ * value is kept, and other changes are merged according to the field type:
+ * - `Set`: additions of both sides are kept, removals of either side are applied
+ * - `Map`: entries are merged key by key
+ * - nested models: fields are merged one by one
+ * - arrays of nested models: items are matched by an identity field and merged one by one
+ *
+ * What cannot be merged is a conflict, resolved with the value of the chosen side.
+ *
+ * @remarks
+ * This class follows SOLID principles:
+ * - **Single Responsibility**: Only merges documents; the merged model is built by the deserializer
+ *
+ * @example
+ * ```typescript
+ * const { data, conflicts } = new ModelMerger().merge(base, local, remote, { strategy: 'remote' });
+ * const merged = Order.deserialize(data);
+ * ```
+ */
+
+import type { IQMergeConflict, IQMergeOptions } from '../interfaces/merge.interface';
+import { getQuickConfig } from '../decorators/quick.decorator';
+import { appendPointer } from '../helpers/json-pointer';
+import { toPropertyName } from '../helpers/property-naming';
+import { deepEqual, isModelInstance, isPlainObject } from '../helpers/structural';
+import { JsonPatchService } from './json-patch.service';
+
+/**
+ * A version of a value: its document and its live value (which tells its type).
+ */
+interface IQMergeSide {
+  doc: unknown;
+  live: unknown;
+}
+
+/**
+ * Options and conflicts of a running merge.
+ */
+interface IQMergeContext {
+  strategy: 'local' | 'remote';
+  identity: string;
+  conflicts: IQMergeConflict[];
+}
+
+const MISSING: IQMergeSide = { doc: undefined, live: undefined };
+
+export class ModelMerger {
+  /**
+   * Creates a model merger.
+   *
+   * @param patches - Builds the documents of the models
+   */
+  constructor(private readonly patches: JsonPatchService = new JsonPatchService()) {}
+
+  /**
+   * Merges the changes of two versions of a model made from a common base.
+   *
+   * @param base - The version both sides started from
+   * @param local - The local version
+   * @param remote - The remote version
+   * @param options - Conflict strategy and identity field of array items
+   * @returns The merged document (deserializable by the model class) and the conflicts
+   */
+  merge(
+    base: object,
+    local: object,
+    remote: object,
+    options: IQMergeOptions = {}
+  ): { data: Record<string, unknown>; conflicts: IQMergeConflict[] } {
+    const context: IQMergeContext = {
+      strategy: options.strategy ?? 'local',
+      identity: options.identity ?? 'id',
+      conflicts: [],
+    };
+    const data = this.mergeModels(
+      this.side(base),
+      this.side(local),
+      this.side(remote),
+      '',
+      context
+    );
+    return {
+      data: this.patches.restoreKeys(data, base, local, remote),
+      conflicts: context.conflicts,
+    };
+  }
+
+  private side(model: object): IQMergeSide {
+    return { doc: this.patches.document(model), live: model };
+  }
+
+  /**
+   * Merges the fields of a nested model (or of the root), by wire name.
+   */
+  private mergeModels(
+    base: IQMergeSide,
+    local: IQMergeSide,
+    remote: IQMergeSide,
+    path: string,
+    context: IQMergeContext
+  ): Record<string, unknown> {
+    const keys = new Set(
+      [base, local, remote].flatMap((side) =>
+        isPlainObject(side.doc) ? Object.keys(side.doc) : []
+      )
+    );
+    const result: Record<string, unknown> = {};
+    for (const key of keys) {
+      const value = this.mergeValue(
+        this.field(base, key),
+        this.field(local, key),
+        this.field(remote, key),
+        appendPointer(path, key),
+        context
+      );
+      if (value !== undefined) {
+        result[key] = value;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Returns the side of a field of a model side.
+   */
+  private field(side: IQMergeSide, key: string): IQMergeSide {
+    if (!isPlainObject(side.doc)) {
+      return MISSING;
+    }
+    const live = isModelInstance(side.live)
+      ? (side.live as Record<string, unknown>)[
+          toPropertyName(side.live, key, getQuickConfig(side.live.constructor).naming)
+        ]
+      : undefined;
+    return { doc: side.doc[key], live };
+  }
+
+  private mergeValue(
+    base: IQMergeSide,
+    local: IQMergeSide,
+    remote: IQMergeSide,
+    path: string,
+    context: IQMergeContext
+  ): unknown {
+    if (deepEqual(local.doc, remote.doc)) return local.doc;
+    if (deepEqual(local.doc, base.doc)) return remote.doc;
+    if (deepEqual(remote.doc, base.doc)) return local.doc;
+
+    // Changed on both sides: merge by type when both sides still have a value
+    const sample = [local.live, remote.live, base.live].find(
+      (value) => value !== undefined && value !== null
+    );
+    if (local.doc !== undefined && remote.doc !== undefined) {
+      if (sample instanceof Set) {
+        return this.mergeSets(base.doc, local.doc, remote.doc);
+      }
+      if (sample instanceof Map) {
+        return this.mergeModels(
+          { doc: base.doc, live: undefined },
+          { doc: local.doc, live: undefined },
+          { doc: remote.doc, live: undefined },
+          path,
+          context
+        );
+      }
+      if (isModelInstance(sample)) {
+        return this.mergeModels(base, local, remote, path, context);
+      }
+      if (Array.isArray(sample) && sample.some(isModelInstance)) {
+        const merged = this.mergeModelArrays(base, local, remote, path, context);
+        if (merged) {
+          return merged;
+        }
+      }
+    }
+    return this.conflict(path, base.doc, local.doc, remote.doc, context);
+  }
+
+  /**
+   * Merges the members of a `Set`: kept on both sides or added by either side.
+   */
+  private mergeSets(base: unknown, local: unknown, remote: unknown): unknown[] {
+    const baseItems = Array.isArray(base) ? base : [];
+    const localItems = Array.isArray(local) ? local : [];
+    const remoteItems = Array.isArray(remote) ? remote : [];
+    const has = (items: unknown[], item: unknown) => items.some((other) => deepEqual(other, item));
+
+    return [
+      ...localItems.filter((item) => !has(baseItems, item) || has(remoteItems, item)),
+      ...remoteItems.filter((item) => !has(baseItems, item) && !has(localItems, item)),
+    ];
+  }
+
+  /**
+   * Merges arrays of nested models, matching items by identity. Returns `undefined`
+   * (a conflict on the whole array) if some item has no identity.
+   */
+  private mergeModelArrays(
+    base: IQMergeSide,
+    local: IQMergeSide,
+    remote: IQMergeSide,
+    path: string,
+    context: IQMergeContext
+  ): unknown[] | undefined {
+    const baseItems = this.itemsById(base, context.identity);
+    const localItems = this.itemsById(local, context.identity);
+    const remoteItems = this.itemsById(remote, context.identity);
+    if (!baseItems || !localItems || !remoteItems) {
+      return undefined;
+    }
+
+    const result: unknown[] = [];
+    let index = 0;
+    for (const [id, localItem] of localItems) {
+      const itemPath = appendPointer(path, index++);
+      const baseItem = baseItems.get(id);
+      const remoteItem = remoteItems.get(id);
+
+      if (remoteItem) {
+        result.push(
+          this.mergeModels(baseItem ?? MISSING, localItem, remoteItem, itemPath, context)
+        );
+      } else if (!baseItem || deepEqual(localItem.doc, baseItem.doc)) {
+        // Added locally, or removed remotely and not edited locally
+        if (!baseItem) result.push(localItem.doc);
+      } else {
+        // Edited locally, removed remotely
+        const value = this.conflict(itemPath, baseItem.doc, localItem.doc, undefined, context);
+        if (value !== undefined) result.push(value);
+      }
+    }
+
+    for (const [id, remoteItem] of remoteItems) {
+      const baseItem = baseItems.get(id);
+      if (localItems.has(id) || (baseItem && deepEqual(remoteItem.doc, baseItem.doc))) {
+        continue;
+      }
+      if (!baseItem) {
+        // Added remotely
+        result.push(remoteItem.doc);
+      } else {
+        // Removed locally, edited remotely
+        const value = this.conflict(
+          appendPointer(path, index++),
+          baseItem.doc,
+          undefined,
+          remoteItem.doc,
+          context
+        );
+        if (value !== undefined) result.push(value);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Indexes the items of an array side by their identity (`undefined` if some item has none).
+   */
+  private itemsById(side: IQMergeSide, identity: string): Map<string, IQMergeSide> | undefined {
+    const docs = Array.isArray(side.doc) ? side.doc : [];
+    const lives = Array.isArray(side.live) ? (side.live as unknown[]) : [];
+    const items = new Map<string, IQMergeSide>();
+    for (const [index, doc] of docs.entries()) {
+      const id = isPlainObject(doc) ? doc[identity] : undefined;
+      if (id === undefined || id === null) {
+        return undefined;
+      }
+      items.set(JSON.stringify(id), { doc, live: lives[index] });
+    }
+    return items;
+  }
+
+  private conflict(
+    path: string,
+    base: unknown,
+    local: unknown,
+    remote: unknown,
+    context: IQMergeContext
+  ): unknown {
+    context.conflicts.push({ path, base, local, remote });
+    return context.strategy === 'remote' ? remote : local;
+  }
+}
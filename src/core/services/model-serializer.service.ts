@@ -41,74 +41,93 @@
  * ```
  */
 
+import 'reflect-metadata';
 import { IQSerializer } from '../interfaces/serializer.interface';
-import { BigIntTransformer } from '@/transformers/bigint.transformer';
-import { DateTransformer } from '@/transformers/date.transformer';
-import { ErrorTransformer } from '@/transformers/error.transformer';
-import { RegExpTransformer } from '@/transformers/regexp.transformer';
-import { SymbolTransformer } from '@/transformers/symbol.transformer';
-import { TypedArrayTransformer } from '@/transformers/typed-array.transformer';
-import { URLTransformer } from '@/transformers/url.transformer';
-import { URLSearchParamsTransformer } from '@/transformers/url-search-params.transformer';
+import type { IQDiscriminator } from '../decorators/qtype.decorator';
+import { CircularReferenceError, SerializationError } from '../errors/serialization.error';
+import { appendPointer } from '../helpers/json-pointer';
+import { toPropertyName, toWireName } from '../helpers/property-naming';
+import { getQuickConfig } from '../decorators/quick.decorator';
+import {
+  IQTransformScope,
+  TransformerRegistry,
+  resolveBinaryEncoding,
+  resolveTransformers,
+  transformerRegistry,
+} from './transformer-registry.service';
+import { VERSION_KEY } from './migration.service';
 
 export class ModelSerializer<
   TModel extends Record<string, unknown> = Record<string, unknown>,
   TInterface = any
 > implements IQSerializer<TModel, TInterface> {
-  private readonly transformers: Map<string | Function, any>;
+  private readonly registry: TransformerRegistry;
+
+  // Models currently being serialized (ancestors of the current value), to detect cycles
+  private readonly serializing = new WeakSet<object>();
 
   /**
    * Creates a model serializer.
+   * 
+   * @param registry - Transformers to use (defaults to the shared `transformerRegistry`)
    */
-  constructor() {
-    // Initialize transformers
-    this.transformers = new Map();
-    
-    const dateTransformer = new DateTransformer();
-    const bigintTransformer = new BigIntTransformer();
-    const symbolTransformer = new SymbolTransformer();
-    const regexpTransformer = new RegExpTransformer();
-    const errorTransformer = new ErrorTransformer();
-    const urlTransformer = new URLTransformer();
-    const urlSearchParamsTransformer = new URLSearchParamsTransformer();
-    
-    // Register by name and constructor
-    this.transformers.set('date', dateTransformer);
-    this.transformers.set(Date, dateTransformer);
-    this.transformers.set('bigint', bigintTransformer);
-    this.transformers.set('symbol', symbolTransformer);
-    this.transformers.set('regexp', regexpTransformer);
-    this.transformers.set(RegExp, regexpTransformer);
-    this.transformers.set('error', errorTransformer);
-    this.transformers.set(Error, errorTransformer);
-    this.transformers.set(URL, urlTransformer);
-    this.transformers.set(URLSearchParams, urlSearchParamsTransformer);
-    
-    // Register typed arrays
-    this.transformers.set(Int8Array, new TypedArrayTransformer<Int8Array>(Int8Array));
-    this.transformers.set(Uint8Array, new TypedArrayTransformer<Uint8Array>(Uint8Array));
-    this.transformers.set(Int16Array, new TypedArrayTransformer<Int16Array>(Int16Array));
-    this.transformers.set(Uint16Array, new TypedArrayTransformer<Uint16Array>(Uint16Array));
-    this.transformers.set(Int32Array, new TypedArrayTransformer<Int32Array>(Int32Array));
-    this.transformers.set(Uint32Array, new TypedArrayTransformer<Uint32Array>(Uint32Array));
-    this.transformers.set(Float32Array, new TypedArrayTransformer<Float32Array>(Float32Array));
-    this.transformers.set(Float64Array, new TypedArrayTransformer<Float64Array>(Float64Array));
-    this.transformers.set(BigInt64Array, new TypedArrayTransformer<BigInt64Array>(BigInt64Array));
-    this.transformers.set(BigUint64Array, new TypedArrayTransformer<BigUint64Array>(BigUint64Array));
+  constructor(registry: TransformerRegistry = transformerRegistry) {
+    this.registry = registry;
   }
 
   /**
    * Serializes a model instance to plain object using transformers.
    * 
    * @param model - The model instance to serialize
+   * @param scope - Optional transformers for this call (inherited by nested models)
    * @returns Plain object suitable for JSON serialization with transformers applied
    * 
+   * @throws {CircularReferenceError} If the model contains itself, directly or through nested models
+   * @throws {SerializationError} If a value cannot be serialized (with the JSON pointer of the value)
+   * 
    * @remarks
    * Uses transformers to convert special types (BigInt, Date, RegExp, etc.) to JSON-compatible format.
+   * The transformers are the scope's (or the service registry), overridden by the `transformers`
+   * option of the model class. Nested models inherit the result.
+   * Binary values are written in the `binary` encoding of their field (`@QType(type, { binary })`)
+   * or of the model class.
+   * Keys are written with the `@QAlias()` aliases and the `naming` strategy of the model class.
+   * Versioned models (`@Quick(map, { version })`) are stamped with `__v`.
    */
-  serialize(model: TModel): TInterface {
-    const result: Record<string, unknown> = {};
-    const seen = new WeakSet();
+  serialize(model: TModel, scope?: IQTransformScope): TInterface {
+    if (this.serializing.has(model)) {
+      throw new CircularReferenceError(
+        `QuickModel Error => [Circular reference] ${model.constructor.name} contains itself`,
+        { className: model.constructor.name }
+      );
+    }
+
+    this.serializing.add(model);
+    try {
+      return this.serializeFields(model, this.registryOf(model, scope));
+    } finally {
+      this.serializing.delete(model);
+    }
+  }
+
+  /**
+   * Returns the transformers of a model: the scope's (or the service registry)
+   * overridden by the `transformers` and `binary` options of its class.
+   */
+  private registryOf(model: TModel, scope?: IQTransformScope): TransformerRegistry {
+    const { transformers, binary } = getQuickConfig(model.constructor);
+    return resolveBinaryEncoding(
+      binary,
+      resolveTransformers(transformers, resolveTransformers(scope?.transformers, this.registry))
+    );
+  }
+
+  /**
+   * Serializes every public field of a model, locating errors at the failing field.
+   */
+  private serializeFields(model: TModel, registry: TransformerRegistry): TInterface {
+    const { naming, version } = getQuickConfig(model.constructor);
+    const result: Record<string, unknown> = version === undefined ? {} : { [VERSION_KEY]: version };
     
     // Get all property keys
     const keys = new Set<string>();
@@ -134,12 +153,60 @@ export class ModelSerializer<
       }
       
       const value = (model as any)[key];
-      result[key] = this.serializeValue(value);
+      const union = Reflect.getMetadata('discriminator', model, key) as IQDiscriminator | undefined;
+      const fieldRegistry = resolveBinaryEncoding(Reflect.getMetadata('binaryEncoding', model, key), registry);
+      try {
+        result[toWireName(model, key, naming)] = union
+          ? this.serializeUnion(value, union, fieldRegistry)
+          : this.serializeValue(value, fieldRegistry, Reflect.getMetadata('fieldType', model, key));
+      } catch (error) {
+        throw SerializationError.within(error, appendPointer('', key));
+      }
     }
 
     return result as TInterface;
   }
 
+  /**
+   * Serializes the value of a discriminated union field (a model or an array of models),
+   * writing the tag of each model's class under the discriminator key.
+   * 
+   * @throws {SerializationError} If a model's class is not part of the union
+   */
+  private serializeUnion(value: unknown, union: IQDiscriminator, registry: TransformerRegistry): unknown {
+    if (Array.isArray(value)) {
+      return value.map((item, index) => {
+        try {
+          return this.serializeUnion(item, union, registry);
+        } catch (error) {
+          throw SerializationError.within(error, appendPointer('', index));
+        }
+      });
+    }
+
+    const serialized = this.serializeValue(value, registry);
+    if (typeof value !== 'object' || value === null || typeof serialized !== 'object' || serialized === null) {
+      return serialized;
+    }
+
+    const tags = Object.keys(union.map);
+    const tag =
+      tags.find((key) => union.map[key] === value.constructor) ??
+      tags.find((key) => value instanceof union.map[key]!);
+    if (tag === undefined) {
+      throw new SerializationError(
+        `QuickModel Error => ${value.constructor.name} is not part of the "${union.discriminator}" union ` +
+        `(expected one of: ${Object.values(union.map).map((member) => member.name).join(', ')})`,
+        { className: value.constructor.name, value }
+      );
+    }
+
+    // The tag leads the output; the class decides its value even if the model holds a stale one
+    const result: Record<string, unknown> = { [union.discriminator]: tag, ...serialized };
+    result[union.discriminator] = tag;
+    return result;
+  }
+
   /**
    * Converts model to interface format, preserving original input types.
    * 
@@ -150,12 +217,15 @@ export class ModelSerializer<
    * Preserves the exact format that was provided in the constructor.
    * If a Date was provided as ISO string, returns ISO string.
    * If a BigInt was provided as string, returns string.
+   * Keys are written with the `@QAlias()` aliases and the `naming` strategy of the model class.
    */
   toInterface(model: TModel): TInterface {
     const result: Record<string, unknown> = {};
     const seen = new WeakSet(); // Track circular references
     const initData = (model as any).__initData || {};
     const isProduction = process.env.NODE_ENV === 'production';
+    const registry = this.registryOf(model);
+    const naming = getQuickConfig(model.constructor).naming;
 
     // Get all property keys, including those with getters/setters
     const keys = new Set<string>();
@@ -184,11 +254,19 @@ export class ModelSerializer<
         continue;
       }
       
+      const wireName = toWireName(model, key, naming);
       const currentValue = (model as any)[key];
-      const originalValue = initData[key];
+      const originalValue = initData[wireName];
       
       // Convert to interface format, preserving original type
-      result[key] = this.convertToInterfaceFormat(currentValue, originalValue, seen, isProduction, key);
+      result[wireName] = this.convertToInterfaceFormat(
+        currentValue,
+        originalValue,
+        seen,
+        isProduction,
+        registry,
+        appendPointer('', key)
+      );
     }
 
     return result as TInterface;
@@ -196,13 +274,17 @@ export class ModelSerializer<
 
   /**
    * Converts a value to interface format, preserving the original type from __initData
+   * 
+   * @param registry - Transformers of the model
+   * @param path - JSON pointer of the value, used in errors
    */
   private convertToInterfaceFormat(
     currentValue: any,
     originalValue: any,
     seen: WeakSet<object>,
     isProduction: boolean,
-    propertyKey: string = ''
+    registry: TransformerRegistry,
+    path: string = ''
   ): any {
     // Handle null and undefined first
     if (currentValue === null) return null;
@@ -212,10 +294,10 @@ export class ModelSerializer<
     if (typeof currentValue === 'object' && currentValue !== null) {
       if (seen.has(currentValue)) {
         const returnValue = { __circular: true };
-        const errorMsg = `QuickModel Error => [Circular reference] at property '${propertyKey}'`;
+        const errorMsg = `QuickModel Error => [Circular reference] at '${path}'`;
         
         if (!isProduction) {
-          throw new Error(errorMsg);
+          throw new CircularReferenceError(errorMsg, { path });
         } else {
           console.error(errorMsg, returnValue);
           return returnValue;
@@ -231,7 +313,7 @@ export class ModelSerializer<
         return currentValue;
       }
       // For objects, use default serialization
-      return this.serializeValue(currentValue);
+      return this.serializeValue(currentValue, registry);
     }
 
     // DATE: Check BEFORE generic string handling
@@ -301,7 +383,7 @@ export class ModelSerializer<
         return [];
       }
       return currentValue.map((item: any, index: number) => 
-        this.convertToInterfaceFormat(item, originalValue[index], seen, isProduction, `${propertyKey}[${index}]`)
+        this.convertToInterfaceFormat(item, originalValue[index], seen, isProduction, registry, appendPointer(path, index))
       );
     }
 
@@ -352,7 +434,8 @@ export class ModelSerializer<
             originalValue[key],
             seen,
             isProduction,
-            `${propertyKey}.${key}`
+            registry,
+            appendPointer(path, key)
           );
         }
         return resultNoProto;
@@ -363,22 +446,28 @@ export class ModelSerializer<
         // Ensure currentValue is also an object
         if (typeof currentValue !== 'object' || currentValue === null) {
           if (!isProduction) {
-            throw new Error(
-              `Cannot convert property "${propertyKey}": original was object but current is ${typeof currentValue}`
+            throw new SerializationError(
+              `Cannot convert property "${path}": original was object but current is ${typeof currentValue}`,
+              { path, value: currentValue }
             );
           }
-          console.error(`Cannot convert property "${propertyKey}": type mismatch`);
+          console.error(`Cannot convert property "${path}": type mismatch`);
           return currentValue;
         }
         
+        // Nested models hold the original keys under their property names
+        const naming =
+          typeof currentValue.constructor === 'function' ? getQuickConfig(currentValue.constructor).naming : undefined;
         for (const key in originalValue) {
-          if (key in currentValue) {
+          const propertyKey = toPropertyName(currentValue, key, naming);
+          if (propertyKey in currentValue) {
             result[key] = this.convertToInterfaceFormat(
-              currentValue[key],
+              currentValue[propertyKey],
               originalValue[key],
               seen,
               isProduction,
-              `${propertyKey}.${key}`
+              registry,
+              appendPointer(path, key)
             );
           }
         }
@@ -388,7 +477,11 @@ export class ModelSerializer<
       // Objects with custom constructor: try to serialize back
       // For QModel instances, serialize them
       if (typeof currentValue?.serialize === 'function') {
-        return currentValue.serialize();
+        try {
+          return currentValue.serialize();
+        } catch (error) {
+          throw SerializationError.within(error, path);
+        }
       }
       
       // For other objects, create plain object
@@ -399,7 +492,8 @@ export class ModelSerializer<
             originalValue[key],
             seen,
             isProduction,
-            `${propertyKey}.${key}`
+            registry,
+            appendPointer(path, key)
           );
         }
       }
@@ -407,175 +501,67 @@ export class ModelSerializer<
     }
 
     // Fallback: use default serialization
-    return this.serializeValue(currentValue);
+    return this.serializeValue(currentValue, registry);
   }
 
   /**
    * Serializes a model instance to JSON string.
    * 
    * @param model - The model instance to serialize
+   * @param scope - Optional transformers for this call (inherited by nested models)
    * @returns JSON string representation
    */
-  serializeToJson(model: TModel): string {
-    return JSON.stringify(this.serialize(model));
+  serializeToJson(model: TModel, scope?: IQTransformScope): string {
+    return JSON.stringify(this.serialize(model, scope));
   }
 
   /**
    * Serializes a single value based on its type.
    * 
    * @param value - The value to serialize
+   * @param registry - Transformers of the model holding the value
+   * @param fieldType - The `fieldType` metadata of the field holding the value, if any
    * @returns Serialized value suitable for JSON
    * 
    * @remarks
-   * Handles special types in priority order:
-   * 1. Date → ISO string
-   * 2. URL → href string
-   * 3. URLSearchParams → query string
-   * 4. BigInt → string
-   * 5. Symbol → string (via Symbol.keyFor)
-   * 6. RegExp → object with source/flags
-   * 7. Error → object with message/stack/name
-   * 8. TypedArrays → number/string arrays
-   * 9. ArrayBuffer/DataView → byte arrays
-   * 10. Nested models → recursive serialization
-   * 11. Arrays → element-wise serialization
-   * 12. Map → object
-   * 13. Set → array
-   * 14. Primitives → as-is
+   * Handles values in priority order:
+   * 1. Registered types, by runtime class (Date, BigInt, Symbol, RegExp, Error, Map, Set,
+   *    buffers, typed arrays, URL, custom...)
+   * 2. Objects whose class is only registered by alias, via the field's `fieldType`
+   * 3. Nested models → recursive serialization (inheriting the transformers)
+   * 4. Arrays → element-wise serialization
+   * 5. Primitives → as-is
    */
-  private serializeValue(value: unknown): unknown {
-    // Date
-    if (value instanceof Date) {
-      const transformer = this.transformers.get('date') || this.transformers.get(Date);
-      return transformer ? transformer.serialize(value) : value.toISOString();
-    }
-
-    // URL
-    if (value instanceof URL) {
-      const transformer = this.transformers.get(URL) || this.transformers.get(Symbol('URL').toString());
-      return transformer ? transformer.serialize(value) : value.href;
-    }
-
-    // URLSearchParams
-    if (value instanceof URLSearchParams) {
-      const transformer = this.transformers.get(URLSearchParams) || this.transformers.get(Symbol('URLSearchParams').toString());
-      return transformer ? transformer.serialize(value) : value.toString();
-    }
-
-    // BigInt
-    if (typeof value === 'bigint') {
-      const transformer = this.transformers.get('bigint');
-      if (transformer) {
-        return transformer.serialize(value);
-      }
-      return value.toString();
-    }
-
-    // Symbol
-    if (typeof value === 'symbol') {
-      const transformer = this.transformers.get('symbol');
-      return transformer
-        ? transformer.serialize(value)
-        : Symbol.keyFor(value) || value.toString();
-    }
-
-    // RegExp
-    if (value instanceof RegExp) {
-      const transformer = this.transformers.get(RegExp) || this.transformers.get(Symbol('RegExp').toString());
-      return transformer
-        ? transformer.serialize(value)
-        : { source: value.source, flags: value.flags };
-    }
-
-    // Error
-    if (value instanceof Error) {
-      const transformer = this.transformers.get(Error) || this.transformers.get(Symbol('Error').toString());
-      return transformer
-        ? transformer.serialize(value)
-        : { message: value.message, stack: value.stack, name: value.name };
-    }
-
-    // TypedArrays
-    if (ArrayBuffer.isView(value) && !(value instanceof DataView)) {
-      // Determinar qué constructor usar para buscar el transformer
-      let transformer;
-      if (value instanceof Int8Array) transformer = this.transformers.get(Int8Array);
-      else if (value instanceof Uint8Array) transformer = this.transformers.get(Uint8Array);
-      else if (value instanceof Int16Array) transformer = this.transformers.get(Int16Array);
-      else if (value instanceof Uint16Array) transformer = this.transformers.get(Uint16Array);
-      else if (value instanceof Int32Array) transformer = this.transformers.get(Int32Array);
-      else if (value instanceof Uint32Array) transformer = this.transformers.get(Uint32Array);
-      else if (value instanceof Float32Array) transformer = this.transformers.get(Float32Array);
-      else if (value instanceof Float64Array) transformer = this.transformers.get(Float64Array);
-      else if (value instanceof BigInt64Array) transformer = this.transformers.get(BigInt64Array);
-      else if (value instanceof BigUint64Array) transformer = this.transformers.get(BigUint64Array);
-
-      if (transformer) {
-        return transformer.serialize(value);
-      }
-
-      // Fallback: convertir a array
-      // Para BigInt64Array y BigUint64Array, convertir bigints a strings
-      if (value instanceof BigInt64Array || value instanceof BigUint64Array) {
-        return Array.from(value, (v: bigint) => v.toString());
-      }
-      // TypedArrays tienen iterator pero TypeScript necesita type assertion
-      if (value instanceof Int8Array) return Array.from(value);
-      if (value instanceof Uint8Array) return Array.from(value);
-      if (value instanceof Int16Array) return Array.from(value);
-      if (value instanceof Uint16Array) return Array.from(value);
-      if (value instanceof Int32Array) return Array.from(value);
-      if (value instanceof Uint32Array) return Array.from(value);
-      if (value instanceof Float32Array) return Array.from(value);
-      if (value instanceof Float64Array) return Array.from(value);
-      if (value instanceof Uint8ClampedArray) return Array.from(value);
-      // Should never reach here
-      return [];
-    }
-
-    // ArrayBuffer
-    if (value instanceof ArrayBuffer) {
-      const transformer = this.transformers.get(ArrayBuffer) || this.transformers.get(Symbol('ArrayBuffer').toString());
-      return transformer ? transformer.serialize(value) : Array.from(new Uint8Array(value));
-    }
-
-    // DataView
-    if (value instanceof DataView) {
-      const transformer = this.transformers.get(DataView) || this.transformers.get(Symbol('DataView').toString());
-      return transformer ? transformer.serialize(value) : Array.from(new Uint8Array(value.buffer));
+  private serializeValue(value: unknown, registry: TransformerRegistry, fieldType?: unknown): unknown {
+    // Registered types
+    const transformer =
+      registry.find(value) ??
+      (typeof value === 'object' && value !== null && (typeof fieldType === 'string' || typeof fieldType === 'function')
+        ? registry.get(fieldType)
+        : undefined);
+    if (transformer) {
+      return transformer.serialize(value);
     }
 
     // Nested model
     if (typeof value === 'object' && value !== null && 'serialize' in value && typeof value.serialize === 'function') {
-      return value.serialize();
+      return value.serialize({ transformers: registry });
     }
 
     // Array
     if (Array.isArray(value)) {
       if (value.length > 0 && value[0]?.serialize) {
-        return value.map((item) => item.serialize());
+        return value.map((item, index) => {
+          try {
+            return item.serialize({ transformers: registry });
+          } catch (error) {
+            throw SerializationError.within(error, appendPointer('', index));
+          }
+        });
       }
       return value;
     }
 
-    // Map
-    if (value instanceof Map) {
-      const transformer = this.transformers.get('map') || this.transformers.get(Map);
-      if (transformer) {
-        return transformer.serialize(value);
-      }
-      return Object.fromEntries(value);
-    }
-
-    // Set
-    if (value instanceof Set) {
-      const transformer = this.transformers.get('set') || this.transformers.get(Set);
-      if (transformer) {
-        return transformer.serialize(value);
-      }
-      return Array.from(value);
-    }
-
     // Primitive
     return value;
   }
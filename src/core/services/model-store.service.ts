@@ -0,0 +1,152 @@
+/**
+ * Subscription store of a model instance, the base of the reactivity bridges.
+ *
+ * The store turns the `change` events of a model into per-field versions: every change
+ * bumps the version of its top-level field (changes of nested models count for the field
+ * that holds them). Consumers subscribe to the fields they read and compare versions, so
+ * that only the consumers of the changed fields are notified. This is the shape expected
+ * by `useSyncExternalStore` (React), Svelte stores and similar subscription APIs.
+ *
+ * @remarks
+ * This class follows SOLID principles:
+ * - **Single Responsibility**: Only tracks versions and listeners; framework adapters render
+ *
+ * @example
+ * ```typescript
+ * const store = new ModelStore(user);
+ * const unsubscribe = store.subscribe(() => render(), ['email']);
+ * user.name = 'Ann';              // not notified
+ * user.email = 'ann@example.com'; // notified
+ * store.getVersion(['email']);    // 1
+ * ```
+ */
+
+import type { QModel } from '../models/quick.model';
+import type {
+  IQSignalApi,
+  IQSignalState,
+  QModelField,
+  QModelSignals,
+} from '../interfaces/reactivity.interface';
+import { parsePointer } from '../helpers/json-pointer';
+
+/**
+ * A subscriber and the fields it listens to (all of them if `undefined`).
+ */
+interface IQStoreListener {
+  listener: (field: string) => void;
+  fields?: ReadonlySet<string>;
+}
+
+export class ModelStore<M extends QModel<any>> {
+  private readonly versions = new Map<string, number>();
+  private readonly listeners = new Set<IQStoreListener>();
+  private version = 0;
+
+  // Subscription to the model, held while the store has listeners
+  private unsubscribe?: () => void;
+
+  /**
+   * Creates a store over a model instance.
+   *
+   * @param model - The model whose changes are tracked
+   */
+  constructor(readonly model: M) {}
+
+  /**
+   * Subscribes to the changes of some fields of the model.
+   *
+   * @param listener - Called with the changed field
+   * @param fields - Property names to listen to (every field if omitted)
+   * @returns A function that unsubscribes the listener
+   */
+  subscribe(listener: (field: string) => void, fields?: readonly QModelField<M>[]): () => void {
+    const entry: IQStoreListener = { listener, fields: fields && new Set(fields) };
+    this.listeners.add(entry);
+    this.unsubscribe ??= this.model.on('change', ({ path }) =>
+      this.changed(parsePointer(path)[0] ?? '')
+    );
+
+    return () => {
+      this.listeners.delete(entry);
+      if (this.listeners.size === 0) {
+        this.unsubscribe?.();
+        this.unsubscribe = undefined;
+      }
+    };
+  }
+
+  /**
+   * Returns a number that changes whenever one of the fields changes.
+   *
+   * @param fields - Property names (every field if omitted)
+   */
+  getVersion(fields?: readonly QModelField<M>[]): number {
+    if (!fields) {
+      return this.version;
+    }
+    return fields.reduce((sum, field) => sum + (this.versions.get(field) ?? 0), 0);
+  }
+
+  private changed(field: string): void {
+    this.versions.set(field, (this.versions.get(field) ?? 0) + 1);
+    this.version++;
+    for (const { listener, fields } of Array.from(this.listeners)) {
+      if (!fields || fields.has(field)) {
+        listener(field);
+      }
+    }
+  }
+}
+
+// Signals already created for a model, shared by every toSignal() call
+const modelSignals = new WeakMap<object, QModelSignals<object>>();
+
+/**
+ * Exposes the fields of a model as signals (TC39 signals style).
+ *
+ * Each field gets a `Signal.State` on first access, updated when the field (or a nested
+ * model inside it) changes, so computed signals and effects only re-run for the fields
+ * they read. The signals are read-only views: write to the model itself.
+ *
+ * @param model - The model instance
+ * @param Signal - The signal primitives (e.g. `import { Signal } from 'signal-polyfill'`)
+ * @returns The field signals, by property name
+ *
+ * @example
+ * ```typescript
+ * const signals = toSignal(user, Signal);
+ * const label = new Signal.Computed(() => `${signals.name.get()} <${signals.email.get()}>`);
+ * user.email = 'ann@example.com'; // label is recomputed on next read
+ * ```
+ */
+export function toSignal<M extends QModel<any>>(model: M, Signal: IQSignalApi): QModelSignals<M> {
+  const cached = modelSignals.get(model);
+  if (cached) {
+    return cached as QModelSignals<M>;
+  }
+
+  const states = new Map<string, IQSignalState<unknown>>();
+  // Nested changes keep the same value: always notify
+  const options = { equals: () => false };
+
+  new ModelStore(model).subscribe((field) => {
+    states.get(field)?.set(model[field as keyof M]);
+  });
+
+  const signals = new Proxy({} as QModelSignals<M>, {
+    get(_target, field) {
+      if (typeof field !== 'string') {
+        return undefined;
+      }
+      let state = states.get(field);
+      if (!state) {
+        state = new Signal.State<unknown>(model[field as keyof M], options);
+        states.set(field, state);
+      }
+      return state;
+    },
+  });
+  modelSignals.set(model, signals);
+  return signals;
+}
@@ -0,0 +1,595 @@
+/**
+ * Service for MessagePack (https://msgpack.org), the binary wire format of
+ * `model.toMsgPack()` / `Model.fromMsgPack()`.
+ *
+ * Models are still serialized by `ModelSerializer` / `ModelDeserializer`, with the
+ * transformers of `MSGPACK_TRANSFORMERS` in scope: they keep dates, bigints and binary
+ * values native, so that the codec writes them with the MessagePack types made for them:
+ * - `Date` → timestamp extension (type -1)
+ * - `bigint` → int64 / uint64, or bignum extension (type 1) beyond 64 bits: a sign byte
+ *   (0 positive, 1 negative) then the big-endian bytes of the magnitude
+ * - `ArrayBuffer`, `SharedArrayBuffer`, `DataView` and typed arrays → bin (their bytes,
+ *   in platform byte order, i.e. little-endian on every mainstream platform)
+ *
+ * Other values take their usual serialized form. When decoding, 64-bit integers within
+ * the safe integer range become numbers (bigint fields accept them), bignums become
+ * bigints, bins become `Uint8Array`s and maps with string keys become plain objects.
+ *
+ * @remarks
+ * This class follows SOLID principles:
+ * - **Single Responsibility**: Only encodes and decodes values; models are (de)serialized by the model services
+ *
+ * @example
+ * ```typescript
+ * const codec = new MsgPackService();
+ * const bytes = codec.encode({ id: 1n, at: new Date(0), data: new Uint8Array([1, 2]) });
+ * codec.decode(bytes); // { id: 1, at: Date(0), data: Uint8Array [1, 2] }
+ * ```
+ */
+
+import type { QTransformerOverrides } from './transformer-registry.service';
+import { DeserializationError } from '../errors/deserialization.error';
+import { SerializationError } from '../errors/serialization.error';
+import { binaryTransformers } from '../helpers/native-transformers';
+
+// Extension type of timestamps (reserved by the MessagePack spec)
+const TIMESTAMP_TYPE = -1;
+
+// Application extension type of integers beyond 64 bits
+const BIGNUM_TYPE = 1;
+
+// Nesting limit of arrays and maps, so that deep input cannot overflow the call stack
+const MAX_DEPTH = 512;
+
+const INT64_MIN = -(2n ** 63n);
+const UINT64_MAX = 2n ** 64n - 1n;
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+/**
+ * Growable byte buffer the encoder writes to.
+ */
+class MsgPackWriter {
+  private bytes = new Uint8Array(256);
+  private view = new DataView(this.bytes.buffer);
+  private length = 0;
+
+  result(): Uint8Array {
+    return this.bytes.slice(0, this.length);
+  }
+
+  u8(value: number): void {
+    this.reserve(1);
+    this.view.setUint8(this.length++, value);
+  }
+
+  u16(value: number): void {
+    this.reserve(2);
+    this.view.setUint16(this.length, value);
+    this.length += 2;
+  }
+
+  u32(value: number): void {
+    this.reserve(4);
+    this.view.setUint32(this.length, value);
+    this.length += 4;
+  }
+
+  i8(value: number): void {
+    this.reserve(1);
+    this.view.setInt8(this.length++, value);
+  }
+
+  i16(value: number): void {
+    this.reserve(2);
+    this.view.setInt16(this.length, value);
+    this.length += 2;
+  }
+
+  i32(value: number): void {
+    this.reserve(4);
+    this.view.setInt32(this.length, value);
+    this.length += 4;
+  }
+
+  i64(value: bigint): void {
+    this.reserve(8);
+    this.view.setBigInt64(this.length, value);
+    this.length += 8;
+  }
+
+  u64(value: bigint): void {
+    this.reserve(8);
+    this.view.setBigUint64(this.length, value);
+    this.length += 8;
+  }
+
+  f64(value: number): void {
+    this.reserve(8);
+    this.view.setFloat64(this.length, value);
+    this.length += 8;
+  }
+
+  raw(bytes: Uint8Array): void {
+    this.reserve(bytes.byteLength);
+    this.bytes.set(bytes, this.length);
+    this.length += bytes.byteLength;
+  }
+
+  private reserve(size: number): void {
+    if (this.length + size <= this.bytes.byteLength) {
+      return;
+    }
+    const grown = new Uint8Array(Math.max(this.bytes.byteLength * 2, this.length + size));
+    grown.set(this.bytes.subarray(0, this.length));
+    this.bytes = grown;
+    this.view = new DataView(grown.buffer);
+  }
+}
+
+/**
+ * Cursor over the bytes the decoder reads.
+ */
+class MsgPackReader {
+  private readonly bytes: Uint8Array;
+  private readonly view: DataView;
+  private depth = 0;
+  offset = 0;
+
+  constructor(bytes: Uint8Array) {
+    // A plain Uint8Array, whose slices are copies (those of a Node.js Buffer are views)
+    this.bytes = new Uint8Array(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  get done(): boolean {
+    return this.offset >= this.bytes.byteLength;
+  }
+
+  u8(): number {
+    return this.view.getUint8(this.take(1));
+  }
+
+  u16(): number {
+    return this.view.getUint16(this.take(2));
+  }
+
+  u32(): number {
+    return this.view.getUint32(this.take(4));
+  }
+
+  i8(): number {
+    return this.view.getInt8(this.take(1));
+  }
+
+  i16(): number {
+    return this.view.getInt16(this.take(2));
+  }
+
+  i32(): number {
+    return this.view.getInt32(this.take(4));
+  }
+
+  i64(): bigint {
+    return this.view.getBigInt64(this.take(8));
+  }
+
+  u64(): bigint {
+    return this.view.getBigUint64(this.take(8));
+  }
+
+  f32(): number {
+    return this.view.getFloat32(this.take(4));
+  }
+
+  f64(): number {
+    return this.view.getFloat64(this.take(8));
+  }
+
+  raw(length: number): Uint8Array {
+    const start = this.take(length);
+    return this.bytes.slice(start, start + length);
+  }
+
+  /**
+   * Enters an array or a map, checking the nesting depth.
+   */
+  enter(): void {
+    if (++this.depth > MAX_DEPTH) {
+      throw new DeserializationError(
+        `MessagePack: Nesting deeper than ${MAX_DEPTH} levels at byte ${this.offset}`
+      );
+    }
+  }
+
+  leave(): void {
+    this.depth--;
+  }
+
+  private take(size: number): number {
+    if (this.offset + size > this.bytes.byteLength) {
+      throw new DeserializationError(`MessagePack: Unexpected end of data at byte ${this.offset}`);
+    }
+    const start = this.offset;
+    this.offset += size;
+    return start;
+  }
+}
+
+export class MsgPackService {
+  /**
+   * Encodes a value (typically a serialized model) as MessagePack.
+   *
+   * @param value - Plain data: primitives, bigints, dates, binary values, arrays, `Map`s and objects
+   * @returns The encoded bytes
+   * @throws {SerializationError} If a value cannot be encoded (functions, symbols)
+   */
+  encode(value: unknown): Uint8Array {
+    const writer = new MsgPackWriter();
+    this.write(writer, value, '');
+    return writer.result();
+  }
+
+  /**
+   * Decodes MessagePack bytes.
+   *
+   * @param bytes - The encoded value
+   * @returns The decoded value
+   * @throws {DeserializationError} If the bytes are not valid MessagePack (or use unknown extensions),
+   * or nest arrays and maps deeper than 512 levels
+   */
+  decode(bytes: Uint8Array | ArrayBuffer): unknown {
+    const reader = new MsgPackReader(bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes));
+    const value = this.read(reader);
+    if (!reader.done) {
+      throw new DeserializationError(
+        `MessagePack: Unexpected data after the value at byte ${reader.offset}`
+      );
+    }
+    return value;
+  }
+
+  private write(writer: MsgPackWriter, value: unknown, path: string): void {
+    if (value === null || value === undefined) {
+      writer.u8(0xc0);
+    } else if (typeof value === 'boolean') {
+      writer.u8(value ? 0xc3 : 0xc2);
+    } else if (typeof value === 'number') {
+      this.writeNumber(writer, value);
+    } else if (typeof value === 'bigint') {
+      this.writeBigInt(writer, value);
+    } else if (typeof value === 'string') {
+      const bytes = textEncoder.encode(value);
+      this.writeHeader(writer, bytes.byteLength, [0xa0, 31], 0xd9, 0xda, 0xdb);
+      writer.raw(bytes);
+    } else if (value instanceof Date) {
+      this.writeTimestamp(writer, value, path);
+    } else if (
+      value instanceof ArrayBuffer ||
+      value instanceof SharedArrayBuffer ||
+      ArrayBuffer.isView(value)
+    ) {
+      const bytes = ArrayBuffer.isView(value)
+        ? new Uint8Array(value.buffer, value.byteOffset, value.byteLength)
+        : new Uint8Array(value);
+      this.writeHeader(writer, bytes.byteLength, undefined, 0xc4, 0xc5, 0xc6);
+      writer.raw(bytes);
+    } else if (Array.isArray(value)) {
+      this.writeHeader(writer, value.length, [0x90, 15], undefined, 0xdc, 0xdd);
+      value.forEach((item: unknown, index) => this.write(writer, item, `${path}/${index}`));
+    } else if (value instanceof Map) {
+      this.writeHeader(writer, value.size, [0x80, 15], undefined, 0xde, 0xdf);
+      for (const [key, item] of value as Map<unknown, unknown>) {
+        this.write(writer, key, path);
+        this.write(writer, item, `${path}/${String(key)}`);
+      }
+    } else if (typeof value === 'object') {
+      // Keys with undefined values are left out, as in JSON
+      const entries = Object.entries(value).filter(([, item]) => item !== undefined);
+      this.writeHeader(writer, entries.length, [0x80, 15], undefined, 0xde, 0xdf);
+      for (const [key, item] of entries) {
+        this.write(writer, key, path);
+        this.write(writer, item, `${path}/${key}`);
+      }
+    } else {
+      throw new SerializationError(`MessagePack: Cannot encode a value of type ${typeof value}`, {
+        path,
+        value,
+      });
+    }
+  }
+
+  /**
+   * Writes the header of a string, bin, array or map: its fix format when the length fits,
+   * then the 8, 16 or 32-bit length format.
+   */
+  private writeHeader(
+    writer: MsgPackWriter,
+    length: number,
+    fix: [prefix: number, max: number] | undefined,
+    format8: number | undefined,
+    format16: number,
+    format32: number
+  ): void {
+    if (fix && length <= fix[1]) {
+      writer.u8(fix[0] | length);
+    } else if (format8 !== undefined && length <= 0xff) {
+      writer.u8(format8);
+      writer.u8(length);
+    } else if (length <= 0xffff) {
+      writer.u8(format16);
+      writer.u16(length);
+    } else {
+      writer.u8(format32);
+      writer.u32(length);
+    }
+  }
+
+  private writeNumber(writer: MsgPackWriter, value: number): void {
+    // Integers beyond 32 bits are written as float64 (exact up to 2^53): int64 is kept for bigints
+    if (
+      !Number.isInteger(value) ||
+      value < -0x80000000 ||
+      value > 0xffffffff ||
+      Object.is(value, -0)
+    ) {
+      writer.u8(0xcb);
+      writer.f64(value);
+    } else if (value >= 0) {
+      if (value <= 0x7f) {
+        writer.u8(value);
+      } else if (value <= 0xff) {
+        writer.u8(0xcc);
+        writer.u8(value);
+      } else if (value <= 0xffff) {
+        writer.u8(0xcd);
+        writer.u16(value);
+      } else {
+        writer.u8(0xce);
+        writer.u32(value);
+      }
+    } else if (value >= -32) {
+      writer.i8(value);
+    } else if (value >= -0x80) {
+      writer.u8(0xd0);
+      writer.i8(value);
+    } else if (value >= -0x8000) {
+      writer.u8(0xd1);
+      writer.i16(value);
+    } else {
+      writer.u8(0xd2);
+      writer.i32(value);
+    }
+  }
+
+  /**
+   * Writes a bigint as int64 / uint64, or as a bignum extension beyond 64 bits.
+   */
+  private writeBigInt(writer: MsgPackWriter, value: bigint): void {
+    if (value < INT64_MIN || value > UINT64_MAX) {
+      const magnitude = (value < 0n ? -value : value).toString(16);
+      const bytes = new Uint8Array(Math.ceil(magnitude.length / 2) + 1);
+      const padded = magnitude.padStart((bytes.length - 1) * 2, '0');
+      bytes[0] = value < 0n ? 1 : 0;
+      for (let index = 1; index < bytes.length; index++) {
+        bytes[index] = parseInt(padded.slice(index * 2 - 2, index * 2), 16);
+      }
+      this.writeHeader(writer, bytes.byteLength, undefined, 0xc7, 0xc8, 0xc9);
+      writer.i8(BIGNUM_TYPE);
+      writer.raw(bytes);
+      return;
+    }
+    if (value < 0n || value <= 2n ** 63n - 1n) {
+      writer.u8(0xd3);
+      writer.i64(value);
+    } else {
+      writer.u8(0xcf);
+      writer.u64(value);
+    }
+  }
+
+  /**
+   * Writes a date as a timestamp extension: timestamp 32 (whole seconds), 64 (34-bit
+   * seconds and nanoseconds) or 96 (any date).
+   */
+  private writeTimestamp(writer: MsgPackWriter, value: Date, path: string): void {
+    const time = value.getTime();
+    if (Number.isNaN(time)) {
+      throw new SerializationError('MessagePack: Cannot encode an invalid Date', { path, value });
+    }
+    const seconds = Math.floor(time / 1000);
+    const nanoseconds = (time - seconds * 1000) * 1e6;
+
+    if (nanoseconds === 0 && seconds >= 0 && seconds <= 0xffffffff) {
+      writer.u8(0xd6);
+      writer.i8(TIMESTAMP_TYPE);
+      writer.u32(seconds);
+    } else if (seconds >= 0 && seconds < 2 ** 34) {
+      writer.u8(0xd7);
+      writer.i8(TIMESTAMP_TYPE);
+      writer.u32(nanoseconds * 4 + Math.floor(seconds / 2 ** 32));
+      writer.u32(seconds % 2 ** 32);
+    } else {
+      writer.u8(0xc7);
+      writer.u8(12);
+      writer.i8(TIMESTAMP_TYPE);
+      writer.u32(nanoseconds);
+      writer.i64(BigInt(seconds));
+    }
+  }
+
+  private read(reader: MsgPackReader): unknown {
+    const format = reader.u8();
+
+    if (format <= 0x7f) return format;
+    if (format >= 0xe0) return format - 0x100;
+    if (format >= 0x80 && format <= 0x8f) return this.readMap(reader, format & 0x0f);
+    if (format >= 0x90 && format <= 0x9f) return this.readArray(reader, format & 0x0f);
+    if (format >= 0xa0 && format <= 0xbf) return textDecoder.decode(reader.raw(format & 0x1f));
+
+    switch (format) {
+      case 0xc0:
+        return null;
+      case 0xc2:
+        return false;
+      case 0xc3:
+        return true;
+      case 0xc4:
+        return reader.raw(reader.u8());
+      case 0xc5:
+        return reader.raw(reader.u16());
+      case 0xc6:
+        return reader.raw(reader.u32());
+      case 0xc7:
+        return this.readExtension(reader, reader.u8());
+      case 0xc8:
+        return this.readExtension(reader, reader.u16());
+      case 0xc9:
+        return this.readExtension(reader, reader.u32());
+      case 0xca:
+        return reader.f32();
+      case 0xcb:
+        return reader.f64();
+      case 0xcc:
+        return reader.u8();
+      case 0xcd:
+        return reader.u16();
+      case 0xce:
+        return reader.u32();
+      case 0xcf:
+        return this.toNumberIfSafe(reader.u64());
+      case 0xd0:
+        return reader.i8();
+      case 0xd1:
+        return reader.i16();
+      case 0xd2:
+        return reader.i32();
+      case 0xd3:
+        return this.toNumberIfSafe(reader.i64());
+      case 0xd4:
+        return this.readExtension(reader, 1);
+      case 0xd5:
+        return this.readExtension(reader, 2);
+      case 0xd6:
+        return this.readExtension(reader, 4);
+      case 0xd7:
+        return this.readExtension(reader, 8);
+      case 0xd8:
+        return this.readExtension(reader, 16);
+      case 0xd9:
+        return textDecoder.decode(reader.raw(reader.u8()));
+      case 0xda:
+        return textDecoder.decode(reader.raw(reader.u16()));
+      case 0xdb:
+        return textDecoder.decode(reader.raw(reader.u32()));
+      case 0xdc:
+        return this.readArray(reader, reader.u16());
+      case 0xdd:
+        return this.readArray(reader, reader.u32());
+      case 0xde:
+        return this.readMap(reader, reader.u16());
+      case 0xdf:
+        return this.readMap(reader, reader.u32());
+      default:
+        throw new DeserializationError(
+          `MessagePack: Unknown format 0x${format.toString(16)} at byte ${reader.offset - 1}`
+        );
+    }
+  }
+
+  private readArray(reader: MsgPackReader, length: number): unknown[] {
+    reader.enter();
+    const items: unknown[] = [];
+    for (let index = 0; index < length; index++) {
+      items.push(this.read(reader));
+    }
+    reader.leave();
+    return items;
+  }
+
+  /**
+   * Reads a map: a plain object when every key is a string, a `Map` otherwise.
+   */
+  private readMap(
+    reader: MsgPackReader,
+    length: number
+  ): Record<string, unknown> | Map<unknown, unknown> {
+    reader.enter();
+    const entries: Array<[unknown, unknown]> = [];
+    for (let index = 0; index < length; index++) {
+      entries.push([this.read(reader), this.read(reader)]);
+    }
+    reader.leave();
+    if (!entries.every(([key]) => typeof key === 'string')) {
+      return new Map(entries);
+    }
+
+    const object: Record<string, unknown> = {};
+    for (const [key, value] of entries) {
+      // defineProperty, so that a "__proto__" key stays a plain key
+      Object.defineProperty(object, key as string, {
+        value,
+        enumerable: true,
+        writable: true,
+        configurable: true,
+      });
+    }
+    return object;
+  }
+
+  private readExtension(reader: MsgPackReader, length: number): Date | bigint {
+    const type = reader.i8();
+    const start = reader.offset;
+    if (type === BIGNUM_TYPE) {
+      return this.readBignum(reader, length, start);
+    }
+    if (type !== TIMESTAMP_TYPE) {
+      throw new DeserializationError(
+        `MessagePack: Unsupported extension type ${type} at byte ${start}`
+      );
+    }
+
+    switch (length) {
+      case 4:
+        return new Date(reader.u32() * 1000);
+      case 8: {
+        const high = reader.u32();
+        const low = reader.u32();
+        const seconds = (high & 0x3) * 2 ** 32 + low;
+        return new Date(seconds * 1000 + Math.floor(high / 4) / 1e6);
+      }
+      case 12: {
+        const nanoseconds = reader.u32();
+        return new Date(Number(reader.i64()) * 1000 + nanoseconds / 1e6);
+      }
+      default:
+        throw new DeserializationError(
+          `MessagePack: Invalid timestamp length ${length} at byte ${start}`
+        );
+    }
+  }
+
+  private readBignum(reader: MsgPackReader, length: number, start: number): bigint {
+    const bytes = reader.raw(length);
+    if (length < 2 || bytes[0]! > 1) {
+      throw new DeserializationError(`MessagePack: Invalid bignum at byte ${start}`);
+    }
+    let magnitude = 0n;
+    for (const byte of bytes.subarray(1)) {
+      magnitude = (magnitude << 8n) | BigInt(byte);
+    }
+    return bytes[0] === 1 ? -magnitude : magnitude;
+  }
+
+  private toNumberIfSafe(value: bigint): number | bigint {
+    return value >= BigInt(Number.MIN_SAFE_INTEGER) && value <= BigInt(Number.MAX_SAFE_INTEGER)
+      ? Number(value)
+      : value;
+  }
+}
+
+/**
+ * Transformers in scope when models are converted to / from MessagePack.
+ */
+export const MSGPACK_TRANSFORMERS: QTransformerOverrides = binaryTransformers('MessagePack');
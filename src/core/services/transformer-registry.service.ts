@@ -0,0 +1,357 @@
+/**
+ * Registry of the transformers used to convert field values in both directions.
+ *
+ * Transformers are looked up by string alias (`@QType('date')`) or by constructor
+ * (`@QType(Date)`, `@Quick({ createdAt: Date })`, or the runtime class of a value
+ * being serialized). Aliases are case-insensitive.
+ *
+ * `ModelDeserializer`, `ModelSerializer`, `ValidationService` and `QModel.getMetadata()`
+ * all consult the same registry, so a transformer registered once works everywhere.
+ *
+ * @remarks
+ * This class follows SOLID principles:
+ * - **Single Responsibility**: Only stores and resolves transformers
+ * - **Open/Closed**: New types are supported by registering transformers, not by modifying services
+ *
+ * @example
+ * ```typescript
+ * class MoneyTransformer extends BaseTransformer<string, Money> {
+ *   deserialize(value: string): Money { return new Money(value); }
+ *   serialize(value: Money): string { return value.toString(); }
+ * }
+ *
+ * const money = new MoneyTransformer();
+ * transformerRegistry.register('money', money).register(Money, money);
+ *
+ * class Invoice extends QModel<IInvoice> {
+ *   @QType('money') total!: Money; // or @QType(Money)
+ * }
+ *
+ * transformerRegistry.override(Date, new EpochDateTransformer());
+ * transformerRegistry.unregister('money');
+ *
+ * // Scoped registry: falls back to the shared one for everything else
+ * const epochScope = transformerRegistry.extend({ date: new EpochDateTransformer() });
+ * ```
+ */
+
+import { IQTransformer, IQValidator } from '../interfaces/transformer.interface';
+import type { IQBinaryTransformer, QBinaryEncoding } from '../interfaces/binary-encoding.interface';
+import { QDecimal } from '../models/decimal.model';
+import { BigIntTransformer } from '@/transformers/bigint.transformer';
+import { DateTransformer } from '@/transformers/date.transformer';
+import { DecimalTransformer } from '@/transformers/decimal.transformer';
+import { ErrorTransformer } from '@/transformers/error.transformer';
+import { MapTransformer, SetTransformer } from '@/transformers/map-set.transformer';
+import { RegExpTransformer } from '@/transformers/regexp.transformer';
+import { SymbolTransformer } from '@/transformers/symbol.transformer';
+import { ArrayBufferTransformer, DataViewTransformer, SharedArrayBufferTransformer } from '@/transformers/buffer.transformer';
+import { TypedArrayTransformer } from '@/transformers/typed-array.transformer';
+import { URLTransformer } from '@/transformers/url.transformer';
+import { URLSearchParamsTransformer } from '@/transformers/url-search-params.transformer';
+import { TextEncoderTransformer, TextDecoderTransformer } from '@/transformers/web-apis.transformer';
+
+/**
+ * Key of a registered transformer: a string alias or a constructor.
+ */
+export type QTransformerKey = string | Function;
+
+/**
+ * Transformers keyed by alias, used to override a registry for a model or a scope.
+ * Overriding a built-in alias (e.g. `date`) also overrides its constructor key (`Date`).
+ */
+export type QTransformerOverrides = Record<string, IQTransformer>;
+
+/**
+ * Transformers of a model or scope: a complete registry, or overrides of the inherited one.
+ */
+export type QTransformerSource = TransformerRegistry | QTransformerOverrides;
+
+/**
+ * Scope passed to `serialize(scope)`, `toJSON(scope)`, `deserialize(data, scope)` and
+ * `fromJSON(json, scope)`. Nested models inherit it unless their class overrides a transformer.
+ */
+export interface IQTransformScope {
+  transformers: QTransformerSource;
+}
+
+export class TransformerRegistry {
+  private readonly transformers = new Map<QTransformerKey, IQTransformer>();
+
+  /**
+   * Creates a registry.
+   *
+   * @param parent - Registry consulted for keys not registered here
+   */
+  constructor(private readonly parent?: TransformerRegistry) {}
+
+  /**
+   * Registers a transformer.
+   *
+   * @param key - String alias or constructor
+   * @param transformer - The transformer to use for the key
+   * @returns The registry (for chaining)
+   * @throws {Error} If the key is already registered in this registry (use `override()` to replace it)
+   */
+  register(key: QTransformerKey, transformer: IQTransformer): this {
+    if (this.transformers.has(this.normalize(key))) {
+      throw new Error(
+        `TransformerRegistry: a transformer is already registered for "${this.describe(key)}". ` +
+        `Use override() to replace it.`
+      );
+    }
+    this.transformers.set(this.normalize(key), transformer);
+    return this;
+  }
+
+  /**
+   * Registers a transformer, replacing any transformer already registered for the key.
+   *
+   * @param key - String alias or constructor
+   * @param transformer - The transformer to use for the key
+   * @returns The registry (for chaining)
+   */
+  override(key: QTransformerKey, transformer: IQTransformer): this {
+    this.transformers.set(this.normalize(key), transformer);
+    return this;
+  }
+
+  /**
+   * Removes the transformer registered for a key.
+   * Transformers of the parent registry are not affected.
+   *
+   * @param key - String alias or constructor
+   * @returns True if a transformer was removed
+   */
+  unregister(key: QTransformerKey): boolean {
+    return this.transformers.delete(this.normalize(key));
+  }
+
+  /**
+   * Checks whether a transformer is registered for a key.
+   */
+  has(key: QTransformerKey): boolean {
+    return this.transformers.has(this.normalize(key)) || (this.parent?.has(key) ?? false);
+  }
+
+  /**
+   * Returns the transformer registered for a key.
+   *
+   * @param key - String alias or constructor
+   * @returns The transformer (own or inherited), or undefined if none is registered
+   */
+  get(key: QTransformerKey): IQTransformer | undefined {
+    return this.transformers.get(this.normalize(key)) ?? this.parent?.get(key);
+  }
+
+  /**
+   * Returns the transformer for a runtime value.
+   *
+   * bigint and symbol primitives resolve via their aliases. Objects resolve via their
+   * constructor, walking up the prototype chain (a `TypeError` uses the `Error` transformer).
+   *
+   * @param value - The value to find a transformer for
+   * @returns The transformer, or undefined for plain values
+   */
+  find(value: unknown): IQTransformer | undefined {
+    if (typeof value === 'bigint' || typeof value === 'symbol') {
+      return this.get(typeof value);
+    }
+    if (typeof value !== 'object' || value === null) {
+      return undefined;
+    }
+
+    let proto = Object.getPrototypeOf(value) as { constructor: Function } | null;
+    while (proto && proto !== Object.prototype) {
+      const transformer = this.get(proto.constructor);
+      if (transformer) {
+        return transformer;
+      }
+      proto = Object.getPrototypeOf(proto) as { constructor: Function } | null;
+    }
+    return undefined;
+  }
+
+  /**
+   * Returns the type validator registered for a key (transformers implementing `IQValidator`).
+   */
+  getValidator(key: QTransformerKey): IQValidator | undefined {
+    const transformer = this.get(key) as (IQTransformer & Partial<IQValidator>) | undefined;
+    return typeof transformer?.validate === 'function' ? (transformer as IQValidator) : undefined;
+  }
+
+  /**
+   * Creates a child registry that overrides some transformers and inherits the rest.
+   *
+   * @param overrides - Transformers keyed by alias
+   * @returns The child registry
+   *
+   * @example
+   * ```typescript
+   * const scope = transformerRegistry.extend({ date: new EpochDateTransformer() });
+   * scope.get(Date); // EpochDateTransformer (constructor key follows the alias)
+   * ```
+   */
+  extend(overrides: QTransformerOverrides = {}): TransformerRegistry {
+    const child = new TransformerRegistry(this);
+    for (const [alias, transformer] of Object.entries(overrides)) {
+      const replaced = this.get(alias);
+      child.override(alias, transformer);
+
+      // Keep the other keys of the replaced transformer in sync ({ date } also covers Date)
+      if (replaced) {
+        for (const key of this.keys()) {
+          if (this.get(key) === replaced) {
+            child.override(key, transformer);
+          }
+        }
+      }
+    }
+    return child;
+  }
+
+  /**
+   * Returns every key registered here or in a parent registry.
+   */
+  keys(): QTransformerKey[] {
+    return [...new Set([...(this.parent?.keys() ?? []), ...this.transformers.keys()])];
+  }
+
+  /**
+   * Creates a registry with the built-in transformers
+   * (Date, BigInt, QDecimal, Symbol, RegExp, Error, Map, Set, buffers, typed arrays and web APIs).
+   */
+  static withDefaults(): TransformerRegistry {
+    const registry = new TransformerRegistry();
+    const add = (transformer: IQTransformer, ...keys: QTransformerKey[]): void => {
+      for (const key of keys) {
+        registry.register(key, transformer);
+      }
+    };
+
+    add(new DateTransformer(), 'date', Date);
+    add(new BigIntTransformer(), 'bigint', BigInt);
+    add(new DecimalTransformer(), 'decimal', QDecimal);
+    add(new SymbolTransformer(), 'symbol', Symbol);
+    add(new RegExpTransformer(), 'regexp', RegExp);
+    add(new ErrorTransformer(), 'error', Error);
+    add(new MapTransformer(), 'map', Map);
+    add(new SetTransformer(), 'set', Set);
+    add(new ArrayBufferTransformer(), 'arraybuffer', 'buffer', ArrayBuffer);
+    add(new DataViewTransformer(), 'dataview', DataView);
+    add(new SharedArrayBufferTransformer(), 'sharedarraybuffer', SharedArrayBuffer);
+    add(new URLTransformer(), 'url', URL);
+    add(new URLSearchParamsTransformer(), 'urlsearchparams', URLSearchParams);
+    add(new TextEncoderTransformer(), 'textencoder', TextEncoder);
+    add(new TextDecoderTransformer(), 'textdecoder', TextDecoder);
+
+    // Typed arrays
+    const typedArrays = [
+      Int8Array, Uint8Array, Uint8ClampedArray, Int16Array, Uint16Array,
+      Int32Array, Uint32Array, Float32Array, Float64Array, BigInt64Array, BigUint64Array,
+    ];
+    for (const ctor of typedArrays) {
+      add(new TypedArrayTransformer(ctor as ConstructorParameters<typeof TypedArrayTransformer>[0]), ctor.name, ctor);
+    }
+
+    return registry;
+  }
+
+  private normalize(key: QTransformerKey): QTransformerKey {
+    return typeof key === 'string' ? key.toLowerCase() : key;
+  }
+
+  private describe(key: QTransformerKey): string {
+    return typeof key === 'string' ? key : key.name;
+  }
+}
+
+/**
+ * The default registry, shared by every model.
+ * Register custom transformers here to use them in all models.
+ */
+export const transformerRegistry = TransformerRegistry.withDefaults();
+
+// Child registries of overrides objects, cached per parent
+const overridesCache = new WeakMap<QTransformerOverrides, WeakMap<TransformerRegistry, TransformerRegistry>>();
+
+/**
+ * Resolves the registry of a model or scope.
+ *
+ * @param source - Registry or overrides of the model/scope (undefined to inherit)
+ * @param parent - Inherited registry
+ * @returns `source` if it is a registry, `parent` extended with `source` if it holds overrides,
+ *   or `parent` when there is nothing to override
+ *
+ * @internal
+ */
+export function resolveTransformers(
+  source: QTransformerSource | undefined,
+  parent: TransformerRegistry
+): TransformerRegistry {
+  if (!source) {
+    return parent;
+  }
+  if (source instanceof TransformerRegistry) {
+    return source;
+  }
+
+  let byParent = overridesCache.get(source);
+  if (!byParent) {
+    byParent = new WeakMap();
+    overridesCache.set(source, byParent);
+  }
+  let registry = byParent.get(parent);
+  if (!registry) {
+    registry = parent.extend(source);
+    byParent.set(parent, registry);
+  }
+  return registry;
+}
+
+// Child registries writing binary values in an encoding, cached per parent
+const encodingCache = new WeakMap<TransformerRegistry, Map<QBinaryEncoding, TransformerRegistry>>();
+
+/**
+ * Resolves the registry of a model, scope or field with a binary encoding.
+ *
+ * @param encoding - Binary encoding of the model/scope/field (undefined to inherit)
+ * @param parent - Inherited registry
+ * @returns `parent` with its binary transformers (`IQBinaryTransformer`: buffers and typed arrays)
+ *   switched to `encoding`, or `parent` when there is nothing to switch
+ *
+ * @internal
+ */
+export function resolveBinaryEncoding(
+  encoding: QBinaryEncoding | undefined,
+  parent: TransformerRegistry
+): TransformerRegistry {
+  if (!encoding) {
+    return parent;
+  }
+
+  let byEncoding = encodingCache.get(parent);
+  if (!byEncoding) {
+    byEncoding = new Map();
+    encodingCache.set(parent, byEncoding);
+  }
+  let registry = byEncoding.get(encoding);
+  if (!registry) {
+    registry = new TransformerRegistry(parent);
+    // One transformer per replaced one, so that its alias and constructor keys stay in sync
+    const encoded = new Map<IQTransformer, IQTransformer>();
+    for (const key of parent.keys()) {
+      const transformer = parent.get(key) as Partial<IQBinaryTransformer> | undefined;
+      if (typeof transformer?.withEncoding !== 'function') {
+        continue;
+      }
+      const binary = transformer as IQBinaryTransformer;
+      if (!encoded.has(binary)) {
+        encoded.set(binary, binary.withEncoding(encoding));
+      }
+      registry.override(key, encoded.get(binary)!);
+    }
+    byEncoding.set(encoding, registry);
+  }
+  return registry;
+}
@@ -0,0 +1,383 @@
+/**
+ * Service for typed JSON, the self-describing JSON of `toJSON({ json: 'typed' })`.
+ *
+ * Every value JSON has no type for is written as an envelope `{ "$type": <type>, "value": <payload> }`,
+ * so that it is read back as the same value whether or not its field is declared: bigints,
+ * decimals, dates, regular expressions, URLs, symbols, errors, `Map`s, `Set`s, binary values (base64),
+ * `undefined` array items and the numbers JSON cannot hold (`NaN`, `±Infinity`, `-0`).
+ * Plain objects that have a `$type` key themselves are escaped as `object` envelopes.
+ *
+ * The format is specified in docs/TYPED-JSON.md.
+ *
+ * @remarks
+ * This class follows SOLID principles:
+ * - **Single Responsibility**: Only encodes and decodes values; models are (de)serialized by the model services
+ *
+ * @example
+ * ```typescript
+ * const codec = new TypedJsonService();
+ * codec.encode({ id: 1n, tags: new Set(['a']) });
+ * // { id: { $type: 'bigint', value: '1' }, tags: { $type: 'set', value: ['a'] } }
+ * codec.decode(JSON.parse(json)); // { id: 1n, tags: Set { 'a' } }
+ * ```
+ */
+
+import type { QTransformerOverrides } from './transformer-registry.service';
+import { DeserializationError } from '../errors/deserialization.error';
+import { SerializationError } from '../errors/serialization.error';
+import { appendPointer } from '../helpers/json-pointer';
+import { binaryTransformers, nativeTransformer } from '../helpers/native-transformers';
+import { fromBase64, toBase64 } from '../helpers/base64';
+import { fromLittleEndian, littleEndianBytes } from '../helpers/binary-encoding';
+import { QDecimal } from '../models/decimal.model';
+
+/**
+ * Key of the type of an envelope.
+ */
+export const TYPED_JSON_KEY = '$type';
+
+type QTypedArrayConstructor = (new (buffer: ArrayBuffer) => ArrayBufferView) & {
+  BYTES_PER_ELEMENT: number;
+};
+
+/**
+ * Typed arrays, keyed by their envelope type.
+ */
+const TYPED_ARRAYS: Record<string, QTypedArrayConstructor> = Object.fromEntries(
+  [
+    Int8Array,
+    Uint8Array,
+    Uint8ClampedArray,
+    Int16Array,
+    Uint16Array,
+    Int32Array,
+    Uint32Array,
+    Float32Array,
+    Float64Array,
+    BigInt64Array,
+    BigUint64Array,
+  ].map((TypedArray) => [TypedArray.name.toLowerCase(), TypedArray])
+);
+
+/**
+ * Built-in error classes, restored by name.
+ */
+const ERROR_CLASSES: Record<string, ErrorConstructor> = {
+  Error,
+  EvalError,
+  RangeError,
+  ReferenceError,
+  SyntaxError,
+  TypeError,
+  URIError,
+};
+
+const SPECIAL_NUMBERS: Record<string, number> = {
+  NaN: NaN,
+  Infinity: Infinity,
+  '-Infinity': -Infinity,
+  '-0': -0,
+};
+
+export class TypedJsonService {
+  /**
+   * Encodes a value (typically a serialized model) as typed JSON.
+   *
+   * @param value - The value
+   * @returns A JSON-safe value, for `JSON.stringify()`
+   * @throws {SerializationError} If a value cannot be encoded (functions)
+   */
+  encode(value: unknown): unknown {
+    return this.write(value, '');
+  }
+
+  /**
+   * Decodes typed JSON.
+   *
+   * @param value - A parsed JSON value
+   * @returns The value, with its envelopes replaced by the values they hold
+   * @throws {DeserializationError} If an envelope has an unknown type or an invalid value
+   */
+  decode(value: unknown): unknown {
+    return this.read(value, '');
+  }
+
+  private write(value: unknown, path: string): unknown {
+    if (value === null || typeof value === 'string' || typeof value === 'boolean') {
+      return value;
+    }
+    if (value === undefined) {
+      return this.envelope('undefined');
+    }
+    if (typeof value === 'number') {
+      return Number.isFinite(value) && !Object.is(value, -0)
+        ? value
+        : this.envelope('number', Object.is(value, -0) ? '-0' : String(value));
+    }
+    if (typeof value === 'bigint') {
+      return this.envelope('bigint', value.toString());
+    }
+    if (typeof value === 'symbol') {
+      return this.envelope('symbol', Symbol.keyFor(value) ?? value.description ?? '');
+    }
+    if (typeof value !== 'object') {
+      throw new SerializationError(`Typed JSON: Cannot encode a value of type ${typeof value}`, {
+        path,
+        value,
+      });
+    }
+
+    if (Array.isArray(value)) {
+      return value.map((item: unknown, index) => this.write(item, appendPointer(path, index)));
+    }
+    if (value instanceof QDecimal) {
+      return this.envelope('decimal', value.toString());
+    }
+    if (value instanceof Date) {
+      return this.envelope('date', Number.isNaN(value.getTime()) ? null : value.toISOString());
+    }
+    if (value instanceof RegExp) {
+      return this.envelope('regexp', { source: value.source, flags: value.flags });
+    }
+    if (value instanceof URL) {
+      return this.envelope('url', value.href);
+    }
+    if (value instanceof URLSearchParams) {
+      return this.envelope('urlsearchparams', value.toString());
+    }
+    if (value instanceof Error) {
+      return this.envelope('error', {
+        name: value.name,
+        message: value.message,
+        ...(value.stack !== undefined && { stack: value.stack }),
+        ...(value.cause !== undefined && { cause: this.write(value.cause, path) }),
+      });
+    }
+    if (value instanceof Map) {
+      return this.envelope(
+        'map',
+        [...(value as Map<unknown, unknown>)].map(([key, item]) => [
+          this.write(key, path),
+          this.write(item, appendPointer(path, String(key))),
+        ])
+      );
+    }
+    if (value instanceof Set) {
+      return this.envelope(
+        'set',
+        [...(value as Set<unknown>)].map((item, index) =>
+          this.write(item, appendPointer(path, index))
+        )
+      );
+    }
+    if (value instanceof ArrayBuffer) {
+      return this.envelope('arraybuffer', toBase64(new Uint8Array(value)));
+    }
+    if (value instanceof SharedArrayBuffer) {
+      return this.envelope('sharedarraybuffer', toBase64(new Uint8Array(value)));
+    }
+    if (value instanceof DataView) {
+      return this.envelope(
+        'dataview',
+        toBase64(new Uint8Array(value.buffer, value.byteOffset, value.byteLength))
+      );
+    }
+    if (ArrayBuffer.isView(value)) {
+      const type = Object.keys(TYPED_ARRAYS).find((name) => value instanceof TYPED_ARRAYS[name]!);
+      if (!type) {
+        throw new SerializationError(`Typed JSON: Cannot encode a ${value.constructor.name}`, {
+          path,
+          value,
+        });
+      }
+      return this.envelope(type, toBase64(littleEndianBytes(value)));
+    }
+
+    // Keys with undefined values are left out, as in JSON
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      if (item !== undefined) {
+        result[key] = this.write(item, appendPointer(path, key));
+      }
+    }
+    return Object.hasOwn(result, TYPED_JSON_KEY) ? this.envelope('object', result) : result;
+  }
+
+  private envelope(type: string, ...value: [unknown?]): Record<string, unknown> {
+    return value.length === 0
+      ? { [TYPED_JSON_KEY]: type }
+      : { [TYPED_JSON_KEY]: type, value: value[0] };
+  }
+
+  private read(value: unknown, path: string): unknown {
+    if (Array.isArray(value)) {
+      return value.map((item: unknown, index) => this.read(item, appendPointer(path, index)));
+    }
+    if (typeof value !== 'object' || value === null) {
+      return value;
+    }
+
+    const object = value as Record<string, unknown>;
+    if (!Object.hasOwn(object, TYPED_JSON_KEY)) {
+      return this.readObject(object, path);
+    }
+    const type = object[TYPED_JSON_KEY];
+    const payload = object.value;
+    const invalid = (): never => {
+      throw new DeserializationError(
+        `Typed JSON: Invalid value for ${JSON.stringify(type)} at '${path}'`,
+        { path, value }
+      );
+    };
+
+    switch (type) {
+      case 'object':
+        return typeof payload === 'object' && payload !== null && !Array.isArray(payload)
+          ? this.readObject(payload as Record<string, unknown>, path)
+          : invalid();
+      case 'undefined':
+        return undefined;
+      case 'number':
+        return typeof payload === 'string' && Object.hasOwn(SPECIAL_NUMBERS, payload)
+          ? SPECIAL_NUMBERS[payload]
+          : invalid();
+      case 'bigint':
+        return typeof payload === 'string' && /^-?\d+$/.test(payload) ? BigInt(payload) : invalid();
+      case 'decimal':
+        return typeof payload === 'string' && /^-?\d+(\.\d+)?$/.test(payload)
+          ? QDecimal.from(payload)
+          : invalid();
+      case 'symbol':
+        return typeof payload === 'string' ? Symbol.for(payload) : invalid();
+      case 'date': {
+        if (payload === null) return new Date(NaN);
+        const date = typeof payload === 'string' ? new Date(payload) : invalid();
+        return Number.isNaN(date.getTime()) ? invalid() : date;
+      }
+      case 'regexp': {
+        const { source, flags } = (payload ?? {}) as Record<string, unknown>;
+        if (typeof source !== 'string' || typeof flags !== 'string') return invalid();
+        try {
+          return new RegExp(source, flags);
+        } catch {
+          return invalid();
+        }
+      }
+      case 'url':
+        if (typeof payload !== 'string') return invalid();
+        try {
+          return new URL(payload);
+        } catch {
+          return invalid();
+        }
+      case 'urlsearchparams':
+        return typeof payload === 'string' ? new URLSearchParams(payload) : invalid();
+      case 'error':
+        return this.readError(payload, path, invalid);
+      case 'map':
+        if (!Array.isArray(payload)) return invalid();
+        return new Map(
+          payload.map((entry: unknown) =>
+            Array.isArray(entry) && entry.length === 2
+              ? [
+                  this.read(entry[0], path),
+                  this.read(entry[1], appendPointer(path, String(entry[0]))),
+                ]
+              : invalid()
+          )
+        );
+      case 'set':
+        if (!Array.isArray(payload)) return invalid();
+        return new Set(
+          payload.map((item: unknown, index) => this.read(item, appendPointer(path, index)))
+        );
+      default:
+        return this.readBinary(type, payload, path, invalid);
+    }
+  }
+
+  private readObject(object: Record<string, unknown>, path: string): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(object)) {
+      // defineProperty, so that a "__proto__" key stays a plain key
+      Object.defineProperty(result, key, {
+        value: this.read(item, appendPointer(path, key)),
+        enumerable: true,
+        writable: true,
+        configurable: true,
+      });
+    }
+    return result;
+  }
+
+  private readError(payload: unknown, path: string, invalid: () => never): Error {
+    const { name, message, stack, cause } = (payload ?? {}) as Record<string, unknown>;
+    if (typeof name !== 'string' || typeof message !== 'string') return invalid();
+
+    const ErrorClass = Object.hasOwn(ERROR_CLASSES, name) ? ERROR_CLASSES[name]! : Error;
+    const error =
+      cause === undefined
+        ? new ErrorClass(message)
+        : new ErrorClass(message, { cause: this.read(cause, path) });
+    error.name = name;
+    if (typeof stack === 'string') {
+      error.stack = stack;
+    }
+    return error;
+  }
+
+  private readBinary(type: unknown, payload: unknown, path: string, invalid: () => never): unknown {
+    const known =
+      type === 'arraybuffer' ||
+      type === 'sharedarraybuffer' ||
+      type === 'dataview' ||
+      (typeof type === 'string' && Object.hasOwn(TYPED_ARRAYS, type));
+    if (!known) {
+      throw new DeserializationError(
+        `Typed JSON: Unknown type ${JSON.stringify(type)} at '${path}'`,
+        {
+          path,
+          value: type,
+        }
+      );
+    }
+    const bytes = typeof payload === 'string' ? fromBase64(payload) : undefined;
+    if (!bytes) return invalid();
+
+    switch (type) {
+      case 'arraybuffer':
+        return bytes.buffer;
+      case 'sharedarraybuffer': {
+        const shared = new SharedArrayBuffer(bytes.byteLength);
+        new Uint8Array(shared).set(bytes);
+        return shared;
+      }
+      case 'dataview':
+        return new DataView(bytes.buffer);
+      default: {
+        const TypedArray = TYPED_ARRAYS[type]!;
+        const size = TypedArray.BYTES_PER_ELEMENT;
+        if (bytes.byteLength % size !== 0) return invalid();
+        fromLittleEndian(bytes, size);
+        return new TypedArray(bytes.buffer);
+      }
+    }
+  }
+}
+
+/**
+ * Transformers in scope when models are converted to / from typed JSON.
+ */
+export const TYPED_JSON_TRANSFORMERS: QTransformerOverrides = {
+  ...binaryTransformers('Typed JSON'),
+  ...Object.fromEntries([
+    nativeTransformer('decimal'),
+    nativeTransformer('symbol'),
+    nativeTransformer('regexp'),
+    nativeTransformer('error'),
+    nativeTransformer('map'),
+    nativeTransformer('set'),
+    nativeTransformer('url'),
+    nativeTransformer('urlsearchparams'),
+  ]),
+};
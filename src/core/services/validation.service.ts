@@ -1,28 +1,33 @@
 /**
  * Service for validating model instances.
- * 
- * NOTE: Validation is currently disabled after removing the validator registry system.
- * This service is kept for future implementation of inline validation.
- * 
+ *
+ * Runs two kinds of checks for every field:
+ * 1. **Type checks**: fields with a `fieldType` are checked with the `validate()` method
+ *    of the matching transformer (DateTransformer, MapTransformer, SetTransformer, ...)
+ * 2. **Rules**: declarative rules registered with @Required(), @Min(), @Max(), @Length(),
+ *    @Pattern(), @Email() and @Custom()
+ *
+ * Nested models (declared via `@QType(Model)` / `@Quick({ field: Model })`) are validated
+ * recursively, and every result carries the JSON pointer of the failing value.
+ *
  * @remarks
  * This class follows SOLID principles:
  * - **Single Responsibility**: Only handles model validation
- * 
+ * - **Open/Closed**: New rules are added via decorators, not by modifying the service
+ *
  * @example
  * ```typescript
  * const service = new ValidationService();
- * 
- * class User extends QuickModel<IUser> {
+ *
+ * class User extends QModel<IUser> {
  *   @QType('date') birthDate!: Date;
+ *   @Required() @Email() email!: string;
  * }
- * 
- * const user = new User({ birthDate: "invalid" });
+ *
+ * const user = new User({ birthDate: '2000-01-01', email: 'invalid' });
  * const results = service.validate(user, User);
- * 
- * if (results.length > 0) {
- *   console.error('Validation errors:', results);
- * }
- * 
+ * // [{ isValid: false, path: '/email', rule: 'email', error: 'User.email: Expected a valid email address, got "invalid"' }]
+ *
  * // Or use convenience method
  * if (!service.isValid(user, User)) {
  *   console.error('User is invalid');
@@ -31,48 +36,97 @@
  */
 
 import 'reflect-metadata';
-import { IQValidationContext, IQValidationResult } from '../interfaces/transformer.interface';
+import {
+  IQValidationContext,
+  IQValidationResult,
+  IQValidationRule,
+} from '../interfaces/transformer.interface';
+import { IQDiscriminator, QTYPES_METADATA_KEY } from '../decorators/qtype.decorator';
+import { getValidationRules } from '../decorators/validation.decorator';
+import { appendPointer } from '../helpers/json-pointer';
+import { getQuickConfig } from '../decorators/quick.decorator';
+import { TransformerRegistry, resolveTransformers, transformerRegistry } from './transformer-registry.service';
 
 export class ValidationService {
+  private readonly registry: TransformerRegistry;
+
   /**
    * Creates a validation service.
-   * Validation is currently disabled as the validator registry was removed.
+   * Type validators are the registered transformers that implement `IQValidator`.
+   * 
+   * @param registry - Transformers to use (defaults to the shared `transformerRegistry`)
    */
-  constructor() {}
+  constructor(registry: TransformerRegistry = transformerRegistry) {
+    this.registry = registry;
+  }
 
   /**
    * Validates all fields in a model instance.
-   * 
+   *
    * @param instance - The model instance to validate
    * @param modelClass - The model class constructor (for metadata access)
+   * @param basePath - JSON pointer prefix for nested models (internal use)
+   * @param transformers - Transformers inherited from the parent model (internal use)
    * @returns Array of validation results for failed validations (empty if all valid)
-   * 
+   *
    * @remarks
-   * Only validates fields that have:
-   * 1. A `fieldType` metadata entry
-   * 2. A corresponding validator in the registry
+   * Validates fields that have:
+   * 1. A `fieldType` metadata entry with a matching type validator
+   * 2. Declarative rules (@Required(), @Min(), ...), skipped when the type check fails
+   * 3. A nested model class (`arrayElementClass` or `discriminator` metadata), recursively
    */
-  validate(instance: Record<string, unknown>, modelClass: Function): IQValidationResult[] {
+  validate(
+    instance: Record<string, unknown>,
+    modelClass: Function,
+    basePath: string = '',
+    transformers: TransformerRegistry = this.registry
+  ): IQValidationResult[] {
     const results: IQValidationResult[] = [];
+    const registry = resolveTransformers(getQuickConfig(modelClass).transformers, transformers);
+    const rules = getValidationRules(instance);
+    const decoratedFields = (Reflect.getMetadata(QTYPES_METADATA_KEY, instance) as Array<string | symbol>) || [];
+
+    const keys = new Set<string>([
+      ...decoratedFields.filter((key): key is string => typeof key === 'string'),
+      ...Object.keys(rules),
+    ]);
 
-    for (const [key, value] of Object.entries(instance)) {
+    for (const key of keys) {
+      const value = instance[key];
+      const path = appendPointer(basePath, key);
       const context: IQValidationContext = {
         propertyKey: key,
         className: modelClass.name,
         value,
+        instance,
       };
 
+      // 1. Type check via transformer validators
       const fieldType = Reflect.getMetadata('fieldType', instance, key);
-      if (fieldType) {
-        // Validator registry was removed - validation is currently disabled
-        // TODO: Implement inline validation or restore validator system
-        // const validator = this.qValidatorRegistry.get(fieldType);
-        // if (validator) {
-        //   const result = validator.validate(value, context);
-        //   if (!result.isValid) {
-        //     results.push(result);
-        //   }
-        // }
+      const validator = fieldType ? registry.getValidator(fieldType) : undefined;
+      if (validator && value !== null && value !== undefined) {
+        const result = validator.validate(value, context);
+        if (!result.isValid) {
+          // Rules assume the right type, so skip them for this field
+          results.push({ ...result, path, rule: 'type' });
+          continue;
+        }
+      }
+
+      // 2. Declarative rules
+      for (const rule of rules[key] || []) {
+        const result = this.runRule(rule, value, context);
+        if (!result.isValid) {
+          results.push({ ...result, path, rule: rule.name });
+        }
+      }
+
+      // 3. Nested models (a discriminated union validates each model against its own class)
+      const union = Reflect.getMetadata('discriminator', instance, key) as IQDiscriminator | undefined;
+      const nestedClass = Reflect.getMetadata('arrayElementClass', instance, key);
+      const nestedClasses: Function[] = union ? Object.values(union.map) : nestedClass ? [nestedClass] : [];
+      if (nestedClasses.length > 0 && value !== null && value !== undefined) {
+        results.push(...this.validateNested(value, nestedClasses, path, registry));
       }
     }
 
@@ -81,7 +135,7 @@ export class ValidationService {
 
   /**
    * Checks if a model instance is valid.
-   * 
+   *
    * @param instance - The model instance to check
    * @param modelClass - The model class constructor
    * @returns True if all validations pass, false if any fail
@@ -89,4 +143,42 @@ export class ValidationService {
   isValid(instance: Record<string, unknown>, modelClass: Function): boolean {
     return this.validate(instance, modelClass).length === 0;
   }
+
+  /**
+   * Runs a rule, reporting an exception thrown by it as a failed result.
+   */
+  private runRule(rule: IQValidationRule, value: unknown, context: IQValidationContext): IQValidationResult {
+    try {
+      return rule.validate(value, context);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { isValid: false, error: `${context.className}.${context.propertyKey}: ${message}` };
+    }
+  }
+
+  /**
+   * Validates a nested model or an array of nested models.
+   * Values that are not instances of a nested class are skipped.
+   */
+  private validateNested(
+    value: unknown,
+    nestedClasses: Function[],
+    path: string,
+    registry: TransformerRegistry
+  ): IQValidationResult[] {
+    if (Array.isArray(value)) {
+      return value.flatMap((item, index) =>
+        this.validateNested(item, nestedClasses, appendPointer(path, index), registry)
+      );
+    }
+
+    if (typeof value !== 'object' || value === null) {
+      return [];
+    }
+
+    const nestedClass =
+      nestedClasses.find((cls) => value.constructor === cls) ??
+      nestedClasses.find((cls) => value instanceof cls);
+    return nestedClass ? this.validate(value as Record<string, unknown>, nestedClass, path, registry) : [];
+  }
 }
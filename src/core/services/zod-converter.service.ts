@@ -0,0 +1,335 @@
+/**
+ * Service for reading Zod (v4) schemas as JSON Schemas of the serialized format of models,
+ * so that `fromZod()` can build model classes with the same metadata as a Zod definition.
+ *
+ * Zod is not a dependency: schemas are read through their definition (`schema._zod.def`),
+ * which is shared by `zod` and `zod/mini`. Types without a JSON form are described by the
+ * serialized format of their transformer (`z.date()` is a `date-time` string, `z.bigint()`
+ * an integer string, `z.map()` / `z.set()` their `{ __type, ... }` objects), so the model
+ * gets `Date`, `bigint`, `Map` and `Set` fields. Objects are added to `$defs` (named after
+ * their `.meta({ title })`, or their key or discriminator tag), which keeps recursive
+ * schemas (`z.lazy()`, getters) finite.
+ *
+ * @remarks
+ * This class follows SOLID principles:
+ * - **Single Responsibility**: Only translates Zod definitions; classes are built by `ModelFactory`
+ *
+ * @example
+ * ```typescript
+ * const UserSchema = z.object({
+ *   email: z.email(),
+ *   createdAt: z.date(),
+ *   tags: z.array(z.string()).max(5).optional(),
+ * });
+ *
+ * new ZodConverter().toJSONSchema(UserSchema, 'User');
+ * // { title: 'User', type: 'object', properties: { email: { type: 'string', format: 'email' },
+ * //   createdAt: { type: 'string', format: 'date-time' }, tags: { ... } }, required: ['email', 'createdAt'] }
+ * ```
+ */
+
+import type { IQJSONSchema, IQSchemaProvider } from '../interfaces/json-schema.interface';
+import { QuickModelError } from '../errors/quickmodel.error';
+import { ModelFactory, type IQModelFactoryOptions, type QDynamicModel } from './model-factory.service';
+import { TransformerRegistry, transformerRegistry } from './transformer-registry.service';
+
+/**
+ * Definition of a Zod schema (`schema._zod.def`), with the keys read by the converter.
+ */
+interface IQZodDef {
+  type: string;
+  [key: string]: unknown;
+}
+
+/**
+ * A Zod 4 schema (from `zod` or `zod/mini`).
+ */
+export interface IQZodSchema {
+  readonly _zod: { readonly def: { readonly type: string } };
+
+  /**
+   * Metadata registered with `.meta()` (its `title` names the model class)
+   */
+  meta?: () => Record<string, unknown> | undefined;
+}
+
+/**
+ * Object schemas collected while converting a Zod schema, added to `$defs`.
+ */
+interface IQZodDefinitions {
+  root: IQZodSchema;
+  names: Map<IQZodSchema, string>;
+  schemas: Record<string, IQJSONSchema>;
+}
+
+// Wrappers that do not change the serialized format, unwrapped through `innerType`
+const WRAPPER_TYPES = ['optional', 'nullable', 'default', 'prefault', 'catch', 'readonly', 'nonoptional'];
+
+// Wrappers that make an object key optional
+const OPTIONAL_TYPES = ['optional', 'default', 'prefault', 'catch'];
+
+// Zod string formats and their JSON Schema name
+const STRING_FORMATS: Record<string, string> = {
+  email: 'email',
+  datetime: 'date-time',
+  date: 'date',
+  time: 'time',
+  uuid: 'uuid',
+  url: 'uri',
+};
+
+// Zod types described by the serialized format of a transformer
+const TRANSFORMER_TYPES: Record<string, Function> = { date: Date, bigint: BigInt, map: Map, set: Set };
+
+export class ZodConverter {
+  /**
+   * Creates a Zod converter.
+   *
+   * @param registry - Transformers describing dates, bigints, maps and sets (defaults to the shared `transformerRegistry`)
+   */
+  constructor(private readonly registry: TransformerRegistry = transformerRegistry) {}
+
+  /**
+   * Converts a Zod object schema to the JSON Schema of the serialized model.
+   *
+   * @param schema - A `z.object()` schema
+   * @param title - Title of the root schema (defaults to its `.meta({ title })`)
+   * @returns The object schema, with nested objects in `$defs` (the root itself is `#`)
+   * @throws {QuickModelError} If the value is not a Zod 4 schema or does not describe an object
+   */
+  toJSONSchema(schema: IQZodSchema, title?: string): IQJSONSchema {
+    const def = this.definitionOf(schema);
+    if (def.type !== 'object') {
+      throw new QuickModelError(`Expected a Zod object schema, got "${def.type}"`, { value: def.type });
+    }
+
+    const definitions: IQZodDefinitions = { root: schema, names: new Map(), schemas: {} };
+    const rootTitle = title ?? this.titleOf(schema);
+    const root: IQJSONSchema = {
+      ...(rootTitle !== undefined && { title: rootTitle }),
+      ...this.objectSchema(def, definitions),
+    };
+    if (Object.keys(definitions.schemas).length > 0) {
+      root.$defs = definitions.schemas;
+    }
+    return root;
+  }
+
+  /**
+   * Converts any Zod schema to the schema of its serialized value.
+   */
+  private convert(schema: IQZodSchema, key: string, definitions: IQZodDefinitions): IQJSONSchema {
+    const def = this.definitionOf(schema);
+
+    if (WRAPPER_TYPES.includes(def.type)) {
+      return this.convert(def.innerType as IQZodSchema, key, definitions);
+    }
+
+    const transformerType = TRANSFORMER_TYPES[def.type];
+    if (transformerType) {
+      const transformer = this.registry.get(transformerType) as Partial<IQSchemaProvider> | undefined;
+      return typeof transformer?.toJSONSchema === 'function' ? transformer.toJSONSchema() : {};
+    }
+
+    switch (def.type) {
+      case 'string':
+        return this.withChecks({ type: 'string' }, def);
+      case 'number':
+        return this.withChecks({ type: 'number' }, def);
+      case 'boolean':
+        return { type: 'boolean' };
+      case 'literal': {
+        const values = def.values as unknown[];
+        return values.length === 1 ? { const: values[0] } : { enum: values };
+      }
+      case 'enum':
+        return { type: 'string', enum: Object.values(def.entries as Record<string, unknown>) };
+      case 'array':
+        return this.withChecks({ type: 'array', items: this.convert(def.element as IQZodSchema, key, definitions) }, def);
+      case 'tuple':
+        return {
+          type: 'array',
+          prefixItems: (def.items as IQZodSchema[]).map((item) => this.convert(item, key, definitions)),
+        };
+      case 'object':
+        return { $ref: this.reference(schema, this.titleOf(schema) ?? key, definitions) };
+      case 'union':
+        return this.unionSchema(def, key, definitions);
+      case 'pipe':
+        return this.convert(def.in as IQZodSchema, key, definitions);
+      case 'lazy':
+        return this.convert((def.getter as () => IQZodSchema)(), key, definitions);
+      default:
+        // Records, any, unknown, custom types, ...: values are kept as they are
+        return {};
+    }
+  }
+
+  /**
+   * Builds the properties of an object schema; keys are required unless optional or defaulted.
+   */
+  private objectSchema(def: IQZodDef, definitions: IQZodDefinitions): IQJSONSchema {
+    const properties: Record<string, IQJSONSchema> = {};
+    const required: string[] = [];
+    for (const [key, property] of Object.entries(def.shape as Record<string, IQZodSchema>)) {
+      properties[key] = this.convert(property, key, definitions);
+      if (!OPTIONAL_TYPES.includes(this.definitionOf(property).type)) {
+        required.push(key);
+      }
+    }
+    return required.length > 0
+      ? { type: 'object', properties, required }
+      : { type: 'object', properties };
+  }
+
+  /**
+   * Converts a union: a discriminated union of objects becomes a `oneOf` with an OpenAPI
+   * `discriminator` (a polymorphic field), a union of literals and enums an `enum`, other
+   * unions an `anyOf` of their options.
+   */
+  private unionSchema(def: IQZodDef, key: string, definitions: IQZodDefinitions): IQJSONSchema {
+    const options = def.options as IQZodSchema[];
+    const discriminator = def.discriminator as string | undefined;
+    const tagged = discriminator !== undefined && options.every((option) => this.definitionOf(option).type === 'object');
+    if (!tagged) {
+      const schemas = options.map((option) => this.convert(option, key, definitions));
+      if (schemas.every((option) => 'const' in option || Array.isArray(option.enum))) {
+        return { enum: [...new Set(schemas.flatMap((option) => ('const' in option ? [option.const] : option.enum!)))] };
+      }
+      return { anyOf: schemas };
+    }
+
+    const mapping: Record<string, string> = {};
+    for (const option of options) {
+      const shape = this.definitionOf(option).shape as Record<string, IQZodSchema>;
+      const tagDef = this.definitionOf(shape[discriminator]!);
+      for (const tag of (tagDef.values as unknown[] | undefined) ?? []) {
+        mapping[String(tag)] = this.reference(option, this.titleOf(option) ?? String(tag), definitions);
+      }
+    }
+    return {
+      oneOf: [...new Set(Object.values(mapping))].map(($ref) => ({ $ref })),
+      discriminator: { propertyName: discriminator, mapping },
+    };
+  }
+
+  /**
+   * Returns the `$ref` of an object schema, adding it to `$defs` on first use.
+   */
+  private reference(schema: IQZodSchema, name: string, definitions: IQZodDefinitions): string {
+    if (schema === definitions.root) {
+      return '#';
+    }
+
+    let defName = definitions.names.get(schema);
+    if (defName === undefined) {
+      const base = this.pascalCase(name);
+      defName = base;
+      for (let i = 2; defName in definitions.schemas; i++) {
+        defName = `${base}${i}`;
+      }
+
+      // Reserve the name before converting the properties, so cycles end in a $ref
+      definitions.names.set(schema, defName);
+      definitions.schemas[defName] = {};
+      Object.assign(definitions.schemas[defName]!, {
+        title: defName,
+        ...this.objectSchema(this.definitionOf(schema), definitions),
+      });
+    }
+    return `#/$defs/${defName}`;
+  }
+
+  /**
+   * Adds the constraints of Zod checks (length, bounds, formats) to a schema.
+   */
+  private withChecks(schema: IQJSONSchema, def: IQZodDef): IQJSONSchema {
+    const isArray = schema.type === 'array';
+    // Formats of `z.email()`, `z.int()`, ... are on the definition itself
+    const checks = [def, ...((def.checks as { _zod: { def: Record<string, unknown> } }[] | undefined) ?? []).map(
+      (check) => check._zod.def
+    )];
+
+    for (const check of checks) {
+      const format = check.format as string | undefined;
+      if (format === 'safeint' || format === 'int32' || format === 'uint32') {
+        schema.type = 'integer';
+      } else if (format === 'regex' && check.pattern instanceof RegExp) {
+        schema.pattern = check.pattern.source;
+      } else if (format !== undefined && STRING_FORMATS[format]) {
+        schema.format = STRING_FORMATS[format];
+      }
+
+      switch (check.check) {
+        case 'min_length':
+          schema[isArray ? 'minItems' : 'minLength'] = check.minimum as number;
+          break;
+        case 'max_length':
+          schema[isArray ? 'maxItems' : 'maxLength'] = check.maximum as number;
+          break;
+        case 'length_equals':
+          schema[isArray ? 'minItems' : 'minLength'] = check.length as number;
+          schema[isArray ? 'maxItems' : 'maxLength'] = check.length as number;
+          break;
+        case 'greater_than':
+          // Exclusive bounds of integers are written as the next integer
+          if (check.inclusive) schema.minimum = check.value as number;
+          else if (schema.type === 'integer') schema.minimum = (check.value as number) + 1;
+          else schema.exclusiveMinimum = check.value as number;
+          break;
+        case 'less_than':
+          if (check.inclusive) schema.maximum = check.value as number;
+          else if (schema.type === 'integer') schema.maximum = (check.value as number) - 1;
+          else schema.exclusiveMaximum = check.value as number;
+          break;
+      }
+    }
+    return schema;
+  }
+
+  private definitionOf(schema: IQZodSchema): IQZodDef {
+    const def = (schema as Partial<IQZodSchema> | undefined)?._zod?.def as IQZodDef | undefined;
+    if (!def || typeof def.type !== 'string') {
+      throw new QuickModelError('Expected a Zod 4 schema (zod >= 4 or zod/mini)', { value: schema });
+    }
+    return def;
+  }
+
+  private titleOf(schema: IQZodSchema): string | undefined {
+    const title = typeof schema.meta === 'function' ? schema.meta()?.title : undefined;
+    return typeof title === 'string' ? title : undefined;
+  }
+
+  /**
+   * Derives a class name from a key or tag (`line_item` → `LineItem`).
+   */
+  private pascalCase(name: string): string {
+    return name
+      .split(/[^a-zA-Z0-9]+/)
+      .filter(Boolean)
+      .map((word) => word[0]!.toUpperCase() + word.slice(1))
+      .join('') || 'Model';
+  }
+}
+
+/**
+ * Builds a model class from a Zod object schema, with the shared transformer registry.
+ * Fields get the types of the schema (`z.date()` a `Date` field, nested objects nested models,
+ * discriminated unions polymorphic fields) and its checks become validation rules
+ * (required keys, `.min()` / `.max()`, `.length()`, `.regex()`, `z.email()`).
+ *
+ * @param schema - A `z.object()` schema
+ * @param options - Class name (defaults to `.meta({ title })`, or `Model`) and naming strategy
+ * @returns The model class
+ *
+ * @example
+ * ```typescript
+ * const User = fromZod(UserSchema, { name: 'User' });
+ * const user = new User(body);
+ * user.validate(); // same rules as UserSchema
+ * ```
+ */
+export function fromZod(schema: IQZodSchema, options: IQModelFactoryOptions = {}): QDynamicModel {
+  const jsonSchema = new ZodConverter().toJSONSchema(schema, options.name);
+  return new ModelFactory().fromJSONSchema(jsonSchema, options);
+}
@@ -28,3 +28,165 @@ export { Quick } from './core/decorators/quick.decorator';
  * Property decorator for explicit field type specification (optional)
  */
 export { QType } from './core/decorators/qtype.decorator';
+export type { IQTypeOptions, IQDiscriminator } from './core/decorators/qtype.decorator';
+
+/**
+ * Property name mapping between models and serialized data
+ */
+export { QAlias } from './core/decorators/qalias.decorator';
+export type { QNamingStrategy } from './core/helpers/property-naming';
+
+/**
+ * Transformer registry shared by serialization, deserialization and validation
+ */
+export {
+  TransformerRegistry,
+  transformerRegistry,
+} from './core/services/transformer-registry.service';
+export type {
+  QTransformerKey,
+  QTransformerOverrides,
+  QTransformerSource,
+  IQTransformScope,
+} from './core/services/transformer-registry.service';
+export { BaseTransformer } from './core/bases/base-transformer';
+export type { IQTransformer } from './core/interfaces/transformer.interface';
+
+/**
+ * Declarative validation decorators
+ */
+export {
+  Required,
+  Min,
+  Max,
+  GreaterThan,
+  LessThan,
+  Length,
+  Pattern,
+  Email,
+  Custom,
+} from './core/decorators/validation.decorator';
+export type { QValidationFn } from './core/decorators/validation.decorator';
+export type {
+  IQValidationResult,
+  IQValidationRule,
+} from './core/interfaces/transformer.interface';
+export type {
+  QValidateMode,
+  IQSafeParseResult,
+} from './core/interfaces/validation.interface';
+export type { IQuickConfig } from './core/decorators/quick.decorator';
+
+/**
+ * Schema versioning and migrations
+ */
+export type {
+  QMigration,
+  QMigrations,
+  IQAppliedMigration,
+} from './core/interfaces/versioning.interface';
+
+/**
+ * JSON Schema and OpenAPI generation from model metadata
+ */
+export { toOpenAPIComponents } from './core/services/json-schema.service';
+export type {
+  IQJSONSchema,
+  IQSchemaProvider,
+  QJSONSchemaType,
+  IQOpenAPIComponents,
+  IQOpenAPIDiscriminator,
+} from './core/interfaces/json-schema.interface';
+
+/**
+ * Model classes built at runtime from a JSON Schema or a sample payload,
+ * and their TypeScript source (used by `quickmodel generate`)
+ */
+export {
+  ModelFactory,
+  modelFromJSONSchema,
+  modelFromSample,
+} from './core/services/model-factory.service';
+export type {
+  QDynamicModel,
+  IQModelFactoryOptions,
+} from './core/services/model-factory.service';
+export { CodeGenerator } from './core/services/code-generator.service';
+export type { IQCodeGeneratorOptions } from './core/services/code-generator.service';
+
+/**
+ * Interop with Zod and other Standard Schema validators
+ */
+export { ZodConverter, fromZod } from './core/services/zod-converter.service';
+export type { IQZodSchema } from './core/services/zod-converter.service';
+export type {
+  IQStandardSchema,
+  IQStandardSchemaProps,
+  IQStandardResult,
+  IQStandardIssue,
+} from './core/interfaces/standard-schema.interface';
+
+/**
+ * JSON Patch (RFC 6902) operations of `model.getPatch()` / `model.applyPatch()`
+ */
+export type { QPatchOperation } from './core/interfaces/json-patch.interface';
+
+/**
+ * Undo/redo history of `model.enableHistory()`
+ */
+export type { IQHistoryOptions, IQHistoryStep } from './core/interfaces/history.interface';
+
+/**
+ * Change-tracking baseline (`model.markClean()` / `model.rebase()`)
+ */
+export type { IQRebaseOptions, IQRebaseConflict } from './core/interfaces/change-tracking.interface';
+
+/**
+ * Change events (`model.on()` / `model.watch()`)
+ */
+export type { IQChangeEvent, QChangeListener } from './core/interfaces/events.interface';
+
+/**
+ * Reactivity bridges (React and Vue adapters: `@cartago-git/quickmodel/react` and `/vue`)
+ */
+export { ModelStore, toSignal } from './core/services/model-store.service';
+export type {
+  QModelField,
+  QModelSignals,
+  IQSignal,
+  IQSignalState,
+  IQSignalApi,
+} from './core/interfaces/reactivity.interface';
+
+/**
+ * Three-way merge of concurrent edits (`QModel.merge()`)
+ */
+export type { IQMergeOptions, IQMergeConflict, IQMergeResult } from './core/interfaces/merge.interface';
+
+/**
+ * JSON modes of `toJSON()` / `fromJSON()` (typed JSON envelopes)
+ */
+export type { QJsonMode, IQJsonOptions } from './core/interfaces/typed-json.interface';
+
+/**
+ * Forms of binary fields in serialized data (`binary` option of `@QType()`, `@Quick()` and `QModel.configure()`)
+ */
+export type { QBinaryEncoding, IQBinaryTransformer } from './core/interfaces/binary-encoding.interface';
+
+/**
+ * Exact decimals for money fields (`'decimal'` QType alias, serialized as strings)
+ */
+export { QDecimal } from './core/models/decimal.model';
+export { DecimalTransformer } from './transformers/decimal.transformer';
+export type { QRoundingMode, IQDecimalOptions, QDecimalInput } from './core/interfaces/decimal.interface';
+
+/**
+ * Errors raised by QuickModel (each carries the JSON pointer of the failing value in `path`)
+ */
+export { QuickModelError } from './core/errors/quickmodel.error';
+export type { IQuickModelErrorContext } from './core/errors/quickmodel.error';
+export { DeserializationError } from './core/errors/deserialization.error';
+export { SerializationError, CircularReferenceError } from './core/errors/serialization.error';
+export { ValidationError } from './core/errors/validation.error';
+export { PatchError } from './core/errors/patch.error';
+export { ImmutableModelError } from './core/errors/immutable.error';
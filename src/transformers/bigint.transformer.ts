@@ -1,5 +1,7 @@
 import { BaseTransformer } from '../core/bases/base-transformer';
 import { IQValidationContext, IQValidationResult, IQValidator } from '../core/interfaces/transformer.interface';
+import { DeserializationError } from '../core/errors/deserialization.error';
+import { IQJSONSchema, IQSchemaProvider } from '../core/interfaces/json-schema.interface';
 
 /**
  * Transformer for BigInt type: converts between string/number and bigint.
@@ -26,7 +28,7 @@ import { IQValidationContext, IQValidationResult, IQValidator } from '../core/in
  */
 export class BigIntTransformer
   extends BaseTransformer<string | number | { __type: 'bigint'; value: string }, bigint>
-  implements IQValidator
+  implements IQValidator, IQSchemaProvider
 {
   /**
    * Converts a string, number, or object with __type to bigint.
@@ -35,7 +37,7 @@ export class BigIntTransformer
    * @param propertyKey - The property name (for error messages)
    * @param className - The class name (for error messages)
    * @returns The bigint value
-   * @throws {Error} If the value cannot be converted to bigint
+   * @throws {DeserializationError} If the value cannot be converted to bigint
    */
   deserialize(value: string | number | bigint | { __type: 'bigint'; value: string }, propertyKey: string, className: string): bigint {
     if (typeof value === 'bigint') {
@@ -48,7 +50,7 @@ export class BigIntTransformer
     }
 
     if (typeof value !== 'string' && typeof value !== 'number') {
-      throw new Error(
+      throw new DeserializationError(
         `${className}.${propertyKey}: Expected string/number for BigInt, got ${typeof value}`,
       );
     }
@@ -57,7 +59,7 @@ export class BigIntTransformer
       return BigInt(value);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
-      throw new Error(
+      throw new DeserializationError(
         `${className}.${propertyKey}: Invalid BigInt value "${value}": ${errorMessage}`,
       );
     }
@@ -73,6 +75,19 @@ export class BigIntTransformer
     return { __type: 'bigint', value: value.toString() };
   }
 
+  /**
+   * Returns the JSON Schema of the serialized format.
+   */
+  toJSONSchema(): IQJSONSchema {
+    const integer: IQJSONSchema = { type: 'string', pattern: '^-?\\d+$' };
+    return {
+      anyOf: [
+        { type: 'object', properties: { __type: { const: 'bigint' }, value: integer }, required: ['__type', 'value'] },
+        integer,
+      ],
+    };
+  }
+
   /**
    * Validates if a value can be converted to bigint.
    * 
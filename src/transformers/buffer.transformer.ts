@@ -1,15 +1,66 @@
 import { BaseTransformer } from '../core/bases/base-transformer';
 import { IQValidationContext, IQValidationResult, IQValidator } from '../core/interfaces/transformer.interface';
+import { DeserializationError } from '../core/errors/deserialization.error';
+import { IQJSONSchema, IQSchemaProvider } from '../core/interfaces/json-schema.interface';
+import { IQBinaryTransformer, QBinaryEncoding } from '../core/interfaces/binary-encoding.interface';
+import { binaryStringSchema, decodeBytes, encodeBytes } from '../core/helpers/binary-encoding';
 
 /**
- * Transformer for ArrayBuffer: converts between byte array and ArrayBuffer.
+ * Returns the JSON Schema of bytes written in an encoding.
+ */
+function bytesSchema(encoding: QBinaryEncoding): IQJSONSchema {
+  return encoding === 'array'
+    ? { type: 'array', items: { type: 'integer', minimum: 0, maximum: 255 } }
+    : binaryStringSchema(encoding);
+}
+
+/**
+ * Writes bytes in an encoding (a byte array or a string).
+ */
+function writeBytes(bytes: Uint8Array, encoding: QBinaryEncoding): number[] | string {
+  return encoding === 'array' ? Array.from(bytes) : encodeBytes(bytes, encoding);
+}
+
+/**
+ * Reads a byte array or a string in any of the string forms.
+ *
+ * @throws {DeserializationError} If the value is neither
+ */
+function readBytes(
+  value: unknown,
+  encoding: QBinaryEncoding,
+  typeName: string,
+  propertyKey: string,
+  className: string,
+): Uint8Array<ArrayBuffer> {
+  if (Array.isArray(value)) {
+    return Uint8Array.from(value);
+  }
+  if (typeof value !== 'string') {
+    throw new DeserializationError(
+      `${className}.${propertyKey}: Expected array or string for ${typeName}, got ${typeof value}`,
+    );
+  }
+
+  const bytes = decodeBytes(value, encoding);
+  if (!bytes) {
+    throw new DeserializationError(
+      `${className}.${propertyKey}: Expected base64, base64url or hex string for ${typeName}`,
+    );
+  }
+  return bytes;
+}
+
+/**
+ * Transformer for ArrayBuffer: converts between byte array (or string) and ArrayBuffer.
  * 
- * **Serialization**: `ArrayBuffer` → `number[]` (byte array)
- * **Deserialization**: `number[]` → `ArrayBuffer`
+ * **Serialization**: `ArrayBuffer` → `number[]` (byte array), or a base64, base64url or hex string
+ * **Deserialization**: `number[]` | `string` → `ArrayBuffer`
  * 
  * @remarks
  * Each number in the array represents a single byte (0-255).
  * Values outside this range will be clamped.
+ * The form written is the `encoding` of the transformer; every form is read.
  * 
  * @example
  * ```typescript
@@ -25,23 +76,36 @@ import { IQValidationContext, IQValidationResult, IQValidator } from '../core/in
  * 
  * const json = file.serialize();
  * console.log(json.data); // [72, 101, 108, 108, 111]
+ *
+ * new ArrayBufferTransformer('base64').serialize(file.data); // 'SGVsbG8='
  * ```
  */
 export class ArrayBufferTransformer
-  extends BaseTransformer<number[], ArrayBuffer>
-  implements IQValidator
+  extends BaseTransformer<number[] | string, ArrayBuffer>
+  implements IQValidator, IQSchemaProvider, IQBinaryTransformer<number[] | string, ArrayBuffer>
 {
   /**
-   * Converts a byte array to ArrayBuffer.
+   * @param encoding - Form written by `serialize()` (default `'array'`)
+   */
+  constructor(readonly encoding: QBinaryEncoding = 'array') {
+    super();
+  }
+
+  withEncoding(encoding: QBinaryEncoding): ArrayBufferTransformer {
+    return new ArrayBufferTransformer(encoding);
+  }
+
+  /**
+   * Converts a byte array or string to ArrayBuffer.
    * 
-   * @param value - The value to convert (number array or ArrayBuffer)
+   * @param value - The value to convert (number array, base64/base64url/hex string or ArrayBuffer)
    * @param propertyKey - The property name (for error messages)
    * @param className - The class name (for error messages)
    * @returns An ArrayBuffer instance
-   * @throws {Error} If the value is not an array or ArrayBuffer
+   * @throws {DeserializationError} If the value is not an array, string or ArrayBuffer
    */
   deserialize(
-    value: number[] | ArrayBuffer,
+    value: number[] | string | ArrayBuffer,
     propertyKey: string,
     className: string,
   ): ArrayBuffer {
@@ -49,56 +113,55 @@ export class ArrayBufferTransformer
       return value;
     }
 
-    if (!Array.isArray(value)) {
-      throw new Error(
-        `${className}.${propertyKey}: Expected array for ArrayBuffer, got ${typeof value}`,
-      );
-    }
-
-    const buffer = new ArrayBuffer(value.length);
-    const view = new Uint8Array(buffer);
-    view.set(value);
-    return buffer;
+    return readBytes(value, this.encoding, 'ArrayBuffer', propertyKey, className).buffer;
   }
 
   /**
-   * Converts an ArrayBuffer to byte array.
+   * Converts an ArrayBuffer to byte array or string.
    * 
    * @param value - The ArrayBuffer to serialize
-   * @returns Array of bytes (0-255)
+   * @returns Array of bytes (0-255), or a string in the transformer's encoding
    */
-  serialize(value: ArrayBuffer): number[] {
-    return Array.from(new Uint8Array(value));
+  serialize(value: ArrayBuffer): number[] | string {
+    return writeBytes(new Uint8Array(value), this.encoding);
   }
 
   /**
-   * Validates if a value is an ArrayBuffer or number array.
+   * Returns the JSON Schema of the serialized format.
+   */
+  toJSONSchema(): IQJSONSchema {
+    return bytesSchema(this.encoding);
+  }
+
+  /**
+   * Validates if a value is an ArrayBuffer, number array or string.
    * 
    * @param value - The value to validate
    * @param context - Validation context with property and class information
    * @returns Validation result
    */
   validate(value: unknown, context: IQValidationContext): IQValidationResult {
-    if (value instanceof ArrayBuffer || Array.isArray(value)) {
+    if (value instanceof ArrayBuffer || Array.isArray(value) || typeof value === 'string') {
       return { isValid: true };
     }
 
     return {
       isValid: false,
-      error: `${context.className}.${context.propertyKey}: Expected ArrayBuffer or number[], got ${typeof value}`,
+      error: `${context.className}.${context.propertyKey}: Expected ArrayBuffer, number[] or string, got ${typeof value}`,
     };
   }
 }
 
 /**
- * Transformer for DataView: converts between byte array and DataView.
+ * Transformer for DataView: converts between byte array (or string) and DataView.
  * 
- * **Serialization**: `DataView` → `number[]` (byte array)
- * **Deserialization**: `number[]` | `ArrayBuffer` → `DataView`
+ * **Serialization**: `DataView` → `number[]` (byte array), or a base64, base64url or hex string
+ * **Deserialization**: `number[]` | `string` | `ArrayBuffer` → `DataView`
  * 
  * @remarks
  * DataView provides a low-level interface for reading/writing multiple number types.
- * The underlying buffer is serialized as a byte array.
+ * Only the viewed bytes (`byteOffset` to `byteOffset + byteLength`) are serialized,
+ * and they are read back as a view over a buffer of their own.
  * 
  * @example
  * ```typescript
@@ -116,18 +179,32 @@ export class ArrayBufferTransformer
  * console.log(json.view); // [0, 255, 128]
  * ```
  */
-export class DataViewTransformer extends BaseTransformer<number[], DataView> implements IQValidator {
+export class DataViewTransformer
+  extends BaseTransformer<number[] | string, DataView>
+  implements IQValidator, IQSchemaProvider, IQBinaryTransformer<number[] | string, DataView>
+{
+  /**
+   * @param encoding - Form written by `serialize()` (default `'array'`)
+   */
+  constructor(readonly encoding: QBinaryEncoding = 'array') {
+    super();
+  }
+
+  withEncoding(encoding: QBinaryEncoding): DataViewTransformer {
+    return new DataViewTransformer(encoding);
+  }
+
   /**
-   * Converts a byte array or ArrayBuffer to DataView.
+   * Converts a byte array, string or ArrayBuffer to DataView.
    * 
-   * @param value - The value to convert (number array, DataView, or ArrayBuffer)
+   * @param value - The value to convert (number array, base64/base64url/hex string, DataView, or ArrayBuffer)
    * @param propertyKey - The property name (for error messages)
    * @param className - The class name (for error messages)
    * @returns A DataView instance
-   * @throws {Error} If the value is not an array, DataView, or ArrayBuffer
+   * @throws {DeserializationError} If the value is not an array, string, DataView, or ArrayBuffer
    */
   deserialize(
-    value: number[] | DataView | ArrayBuffer,
+    value: number[] | string | DataView | ArrayBuffer,
     propertyKey: string,
     className: string,
   ): DataView {
@@ -139,88 +216,100 @@ export class DataViewTransformer extends BaseTransformer<number[], DataView> imp
       return new DataView(value);
     }
 
-    if (!Array.isArray(value)) {
-      throw new Error(
-        `${className}.${propertyKey}: Expected array for DataView, got ${typeof value}`,
-      );
-    }
-
-    const buffer = new ArrayBuffer(value.length);
-    const view = new Uint8Array(buffer);
-    view.set(value);
-    return new DataView(buffer);
+    return new DataView(readBytes(value, this.encoding, 'DataView', propertyKey, className).buffer);
   }
 
   /**
-   * Converts a DataView to byte array.
+   * Converts a DataView to byte array or string.
    * 
    * @param value - The DataView to serialize
-   * @returns Array of bytes from the underlying buffer
+   * @returns Array of the viewed bytes, or a string in the transformer's encoding
+   */
+  serialize(value: DataView): number[] | string {
+    return writeBytes(new Uint8Array(value.buffer, value.byteOffset, value.byteLength), this.encoding);
+  }
+
+  /**
+   * Returns the JSON Schema of the serialized format.
    */
-  serialize(value: DataView): number[] {
-    return Array.from(new Uint8Array(value.buffer));
+  toJSONSchema(): IQJSONSchema {
+    return bytesSchema(this.encoding);
   }
 
   /**
-   * Validates if a value is a DataView, ArrayBuffer, or number array.
+   * Validates if a value is a DataView, ArrayBuffer, number array or string.
    * 
    * @param value - The value to validate
    * @param context - Validation context with property and class information
    * @returns Validation result
    */
   validate(value: unknown, context: IQValidationContext): IQValidationResult {
-    if (value instanceof DataView || value instanceof ArrayBuffer || Array.isArray(value)) {
+    if (value instanceof DataView || value instanceof ArrayBuffer || Array.isArray(value) || typeof value === 'string') {
       return { isValid: true };
     }
 
     return {
       isValid: false,
-      error: `${context.className}.${context.propertyKey}: Expected DataView, ArrayBuffer or number[], got ${typeof value}`,
+      error: `${context.className}.${context.propertyKey}: Expected DataView, ArrayBuffer, number[] or string, got ${typeof value}`,
     };
   }
 }
 
 /**
- * Transformer for SharedArrayBuffer: converts between byte array and SharedArrayBuffer.
+ * Transformer for SharedArrayBuffer: converts between byte array (or string) and SharedArrayBuffer.
  * 
- * **Serialization**: `SharedArrayBuffer` → `number[]` (byte array)
- * **Deserialization**: `number[]` → `SharedArrayBuffer`
+ * **Serialization**: `SharedArrayBuffer` → `number[]` (byte array), or a base64, base64url or hex string
+ * **Deserialization**: `number[]` | `string` → `SharedArrayBuffer`
  * 
  * @remarks
  * SharedArrayBuffer allows sharing memory between different execution contexts.
- * Serialized as a byte array for JSON compatibility.
+ * Serialized as a byte array for JSON compatibility, or as a string in the transformer's encoding.
  */
-export class SharedArrayBufferTransformer extends BaseTransformer<number[], SharedArrayBuffer> implements IQValidator {
-  deserialize(value: number[] | SharedArrayBuffer, propertyKey: string, className: string): SharedArrayBuffer {
+export class SharedArrayBufferTransformer
+  extends BaseTransformer<number[] | string, SharedArrayBuffer>
+  implements IQValidator, IQSchemaProvider, IQBinaryTransformer<number[] | string, SharedArrayBuffer>
+{
+  /**
+   * @param encoding - Form written by `serialize()` (default `'array'`)
+   */
+  constructor(readonly encoding: QBinaryEncoding = 'array') {
+    super();
+  }
+
+  withEncoding(encoding: QBinaryEncoding): SharedArrayBufferTransformer {
+    return new SharedArrayBufferTransformer(encoding);
+  }
+
+  deserialize(value: number[] | string | SharedArrayBuffer, propertyKey: string, className: string): SharedArrayBuffer {
     if (value instanceof SharedArrayBuffer) {
       return value;
     }
 
-    if (!Array.isArray(value)) {
-      throw new Error(
-        `${className}.${propertyKey}: SharedArrayBuffer transformer accepts number array or SharedArrayBuffer instance. ` +
-        `Got ${typeof value}`
-      );
-    }
-
-    const buffer = new SharedArrayBuffer(value.length);
-    const view = new Uint8Array(buffer);
-    view.set(value);
+    const bytes = readBytes(value, this.encoding, 'SharedArrayBuffer', propertyKey, className);
+    const buffer = new SharedArrayBuffer(bytes.byteLength);
+    new Uint8Array(buffer).set(bytes);
     return buffer;
   }
 
-  serialize(value: SharedArrayBuffer): number[] {
-    return Array.from(new Uint8Array(value));
+  serialize(value: SharedArrayBuffer): number[] | string {
+    return writeBytes(new Uint8Array(value), this.encoding);
+  }
+
+  /**
+   * Returns the JSON Schema of the serialized format.
+   */
+  toJSONSchema(): IQJSONSchema {
+    return bytesSchema(this.encoding);
   }
 
   validate(value: unknown, context: IQValidationContext): IQValidationResult {
-    if (value instanceof SharedArrayBuffer || Array.isArray(value)) {
+    if (value instanceof SharedArrayBuffer || Array.isArray(value) || typeof value === 'string') {
       return { isValid: true };
     }
 
     return {
       isValid: false,
-      error: `${context.className}.${context.propertyKey}: Expected SharedArrayBuffer or number[], got ${typeof value}`,
+      error: `${context.className}.${context.propertyKey}: Expected SharedArrayBuffer, number[] or string, got ${typeof value}`,
     };
   }
 }
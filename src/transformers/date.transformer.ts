@@ -1,5 +1,7 @@
 import { BaseTransformer } from '../core/bases/base-transformer';
 import { IQValidationContext, IQValidationResult, IQValidator } from '../core/interfaces/transformer.interface';
+import { DeserializationError } from '../core/errors/deserialization.error';
+import { IQJSONSchema, IQSchemaProvider } from '../core/interfaces/json-schema.interface';
 
 /**
  * Transformer for Date type: converts between ISO string and Date object.
@@ -26,7 +28,7 @@ import { IQValidationContext, IQValidationResult, IQValidator } from '../core/in
  * console.log(data.createdAt); // "2024-01-01T00:00:00.000Z"
  * ```
  */
-export class DateTransformer extends BaseTransformer<string, Date> implements IQValidator {
+export class DateTransformer extends BaseTransformer<string, Date> implements IQValidator, IQSchemaProvider {
   /**
    * Converts a string, number (Unix timestamp), or Date to Date object.
    * 
@@ -34,7 +36,7 @@ export class DateTransformer extends BaseTransformer<string, Date> implements IQ
    * @param propertyKey - The property name (for error messages)
    * @param className - The class name (for error messages)
    * @returns The Date object
-   * @throws {Error} If the value is not a valid date
+   * @throws {DeserializationError} If the value is not a valid date
    */
   deserialize(value: string | number | Date, propertyKey: string, className: string): Date {
     // Already a Date instance - return as-is
@@ -44,7 +46,7 @@ export class DateTransformer extends BaseTransformer<string, Date> implements IQ
 
     // Must be string or number, nothing else
     if (typeof value !== 'string' && typeof value !== 'number') {
-      throw new Error(
+      throw new DeserializationError(
         `${className}.${propertyKey}: Date transformer ONLY accepts:\n` +
         `  - string (ISO 8601 format, e.g., "2024-01-08T10:30:00Z")\n` +
         `  - number (Unix timestamp in milliseconds, e.g., 1704710400000)\n` +
@@ -55,7 +57,7 @@ export class DateTransformer extends BaseTransformer<string, Date> implements IQ
 
     const date = new Date(value);
     if (isNaN(date.getTime())) {
-      throw new Error(
+      throw new DeserializationError(
         `${className}.${propertyKey}: Invalid date value. Cannot convert "${value}" to Date.\n` +
         `Expected:\n` +
         `  - ISO 8601 string: "2024-01-08T10:30:00.000Z"\n` +
@@ -77,6 +79,13 @@ export class DateTransformer extends BaseTransformer<string, Date> implements IQ
     return value.toISOString();
   }
 
+  /**
+   * Returns the JSON Schema of the serialized format.
+   */
+  toJSONSchema(): IQJSONSchema {
+    return { type: 'string', format: 'date-time' };
+  }
+
   /**
    * Validates if a value is a valid Date or date string.
    * 
@@ -0,0 +1,128 @@
+import { BaseTransformer } from '../core/bases/base-transformer';
+import {
+  IQValidationContext,
+  IQValidationResult,
+  IQValidator,
+} from '../core/interfaces/transformer.interface';
+import { DeserializationError } from '../core/errors/deserialization.error';
+import { IQJSONSchema, IQSchemaProvider } from '../core/interfaces/json-schema.interface';
+import type { IQDecimalOptions } from '../core/interfaces/decimal.interface';
+import { QDecimal } from '../core/models/decimal.model';
+
+/**
+ * Transformer for QDecimal: converts between decimal strings and exact decimals.
+ *
+ * **Serialization**: `QDecimal` → `string` (`'19.90'`)
+ * **Deserialization**: `string | number | bigint` → `QDecimal`
+ *
+ * @remarks
+ * Decimals are written as strings so that no JSON parser reads them as floats.
+ * Numbers are accepted on read by their shortest representation (`0.1` is `'0.1'`).
+ * With a `scale`, values are rounded to it on read and on write.
+ *
+ * @example
+ * ```typescript
+ * @Quick({ price: QDecimal }) // or 'decimal'
+ * class Product extends QModel<IProduct> {
+ *   price!: QDecimal;
+ * }
+ *
+ * const product = new Product({ price: '19.90' });
+ * product.price.times(3).toString(); // '59.70'
+ * product.serialize().price;          // '19.90'
+ *
+ * // Always 2 digits, rounding half to even
+ * const cents = new DecimalTransformer({ scale: 2, rounding: 'half-even' });
+ * @Quick({ amount: QDecimal }, { transformers: { decimal: cents } })
+ * class Payment extends QModel<IPayment> { amount!: QDecimal; }
+ * ```
+ */
+export class DecimalTransformer
+  extends BaseTransformer<string | number | bigint, QDecimal>
+  implements IQValidator, IQSchemaProvider
+{
+  /**
+   * Creates a decimal transformer.
+   *
+   * @param options - Scale that values are rounded to (none by default: every digit is kept),
+   * and its rounding (defaults to `QDecimal.configure()`)
+   */
+  constructor(private readonly options: Partial<IQDecimalOptions> = {}) {
+    super();
+  }
+
+  /**
+   * Converts a decimal string, number or bigint to a QDecimal.
+   *
+   * @param value - The value to convert
+   * @param propertyKey - The property name (for error messages)
+   * @param className - The class name (for error messages)
+   * @returns The decimal (rounded to the configured scale)
+   * @throws {DeserializationError} If the value is not a decimal
+   */
+  deserialize(
+    value: string | number | bigint | QDecimal,
+    propertyKey: string,
+    className: string
+  ): QDecimal {
+    const invalid = () => {
+      const received =
+        typeof value === 'number' || typeof value === 'string' ? `"${value}"` : typeof value;
+      return new DeserializationError(
+        `${className}.${propertyKey}: Invalid decimal value ${received}`
+      );
+    };
+    if (typeof value !== 'string' && !QDecimal.isDecimal(value)) {
+      throw invalid();
+    }
+
+    // Strings are parsed once, by QDecimal.from()
+    let decimal: QDecimal;
+    try {
+      decimal = QDecimal.from(value);
+    } catch {
+      throw invalid();
+    }
+    return this.rounded(decimal);
+  }
+
+  /**
+   * Converts a QDecimal to its decimal string.
+   *
+   * @param value - The decimal to serialize
+   * @returns Decimal string with every digit of its scale
+   */
+  serialize(value: QDecimal): string {
+    return this.rounded(QDecimal.from(value)).toString();
+  }
+
+  /**
+   * Returns the JSON Schema of the serialized format.
+   */
+  toJSONSchema(): IQJSONSchema {
+    return { type: 'string', pattern: '^-?\\d+(\\.\\d+)?$' };
+  }
+
+  /**
+   * Validates if a value can be converted to a decimal.
+   *
+   * @param value - The value to validate
+   * @param context - Validation context with property and class information
+   * @returns Validation result indicating success or failure
+   */
+  validate(value: unknown, context: IQValidationContext): IQValidationResult {
+    if (QDecimal.isDecimal(value)) {
+      return { isValid: true };
+    }
+    return {
+      isValid: false,
+      error: `${context.className}.${context.propertyKey}: Expected decimal string/number, got ${typeof value}`,
+    };
+  }
+
+  private rounded(value: QDecimal): QDecimal {
+    return this.options.scale === undefined
+      ? value
+      : value.round(this.options.scale, this.options.rounding);
+  }
+}
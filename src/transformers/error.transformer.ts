@@ -1,5 +1,7 @@
 import { BaseTransformer } from '../core/bases/base-transformer';
 import { IQValidationContext, IQValidationResult, IQValidator } from '../core/interfaces/transformer.interface';
+import { DeserializationError } from '../core/errors/deserialization.error';
+import { IQJSONSchema, IQSchemaProvider } from '../core/interfaces/json-schema.interface';
 
 /**
  * Serialized representation of an Error object.
@@ -44,7 +46,7 @@ interface IErrorData {
  * console.log(data.lastError); // "TypeError: Invalid input"
  * ```
  */
-export class ErrorTransformer extends BaseTransformer<string | IErrorData, Error> implements IQValidator {
+export class ErrorTransformer extends BaseTransformer<string | IErrorData, Error> implements IQValidator, IQSchemaProvider {
   /**
    * Converts a string or object to Error.
    * 
@@ -52,7 +54,7 @@ export class ErrorTransformer extends BaseTransformer<string | IErrorData, Error
    * @param propertyKey - The property name (for error messages)
    * @param className - The class name (for error messages)
    * @returns An Error object
-   * @throws {Error} If the value cannot be converted to Error
+   * @throws {DeserializationError} If the value cannot be converted to Error
    */
   deserialize(value: string | IErrorData | Error, propertyKey: string, className: string): Error {
     if (value instanceof Error) {
@@ -72,7 +74,7 @@ export class ErrorTransformer extends BaseTransformer<string | IErrorData, Error
 
     // Object format: must have 'message' property
     if (typeof value !== 'object' || value === null || !('message' in value)) {
-      throw new Error(
+      throw new DeserializationError(
         `${className}.${propertyKey}: Error transformer ONLY accepts:\\n` +
         `  - string (e.g., "TypeError: Invalid input" or "Error message")\\n` +
         `  - object ({ message: string, name?: string, stack?: string })\\n` +
@@ -82,7 +84,7 @@ export class ErrorTransformer extends BaseTransformer<string | IErrorData, Error
     }
 
     if (typeof value.message !== 'string') {
-      throw new Error(
+      throw new DeserializationError(
         `${className}.${propertyKey}: Error object must have 'message' as string.\\n` +
         `Received: message type = ${typeof value.message}`
       );
@@ -104,6 +106,13 @@ export class ErrorTransformer extends BaseTransformer<string | IErrorData, Error
     return `${value.name}: ${value.message}`;
   }
 
+  /**
+   * Returns the JSON Schema of the serialized format.
+   */
+  toJSONSchema(): IQJSONSchema {
+    return { type: 'string' };
+  }
+
   /**
    * Validates if a value can be converted to Error.
    * 
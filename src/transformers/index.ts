@@ -5,6 +5,7 @@
 export * from './bigint.transformer';
 export * from './buffer.transformer';
 export * from './date.transformer';
+export * from './decimal.transformer';
 export * from './error.transformer';
 export * from './map-set.transformer';
 export * from './primitive.transformer';
@@ -1,5 +1,7 @@
 import { BaseTransformer } from '../core/bases/base-transformer';
 import { IQValidationContext, IQValidationResult, IQValidator } from '../core/interfaces/transformer.interface';
+import { DeserializationError } from '../core/errors/deserialization.error';
+import { IQJSONSchema, IQSchemaProvider } from '../core/interfaces/json-schema.interface';
 
 /**
  * Transformer for Map type: converts between plain object and Map.
@@ -31,7 +33,7 @@ import { IQValidationContext, IQValidationResult, IQValidator } from '../core/in
  */
 export class MapTransformer<K = string, V = unknown>
   extends BaseTransformer<Record<string, V> | { __type: 'Map'; entries: [K, V][] }, Map<K, V>>
-  implements IQValidator
+  implements IQValidator, IQSchemaProvider
 {
   /**
    * Converts a plain object or __type format to Map.
@@ -40,7 +42,7 @@ export class MapTransformer<K = string, V = unknown>
    * @param propertyKey - The property name (for error messages)
    * @param className - The class name (for error messages)
    * @returns A Map instance
-   * @throws {Error} If the value is not an object or Map
+   * @throws {DeserializationError} If the value is not an object or Map
    */
   deserialize(
     value: Record<string, V> | { __type: 'Map'; entries: [K, V][] } | Map<K, V> | [K, V][],
@@ -63,7 +65,7 @@ export class MapTransformer<K = string, V = unknown>
 
     // Handle legacy plain object format
     if (typeof value !== 'object' || value === null) {
-      throw new Error(`${className}.${propertyKey}: Expected object or array for Map, got ${typeof value}`);
+      throw new DeserializationError(`${className}.${propertyKey}: Expected object or array for Map, got ${typeof value}`);
     }
 
     return new Map(Object.entries(value) as Iterable<[K, V]>);
@@ -79,6 +81,22 @@ export class MapTransformer<K = string, V = unknown>
     return { __type: 'Map', entries: Array.from(value.entries()) };
   }
 
+  /**
+   * Returns the JSON Schema of the serialized format.
+   */
+  toJSONSchema(): IQJSONSchema {
+    const entries: IQJSONSchema = {
+      type: 'array',
+      items: { type: 'array', prefixItems: [{}, {}], minItems: 2, maxItems: 2 },
+    };
+    return {
+      anyOf: [
+        { type: 'object', properties: { __type: { const: 'Map' }, entries }, required: ['__type', 'entries'] },
+        entries,
+      ],
+    };
+  }
+
   /**
    * Validates if a value is a Map or plain object.
    * 
@@ -131,7 +149,7 @@ export class MapTransformer<K = string, V = unknown>
  */
 export class SetTransformer<V = unknown>
   extends BaseTransformer<V[] | { __type: 'Set'; values: V[] }, Set<V>>
-  implements IQValidator
+  implements IQValidator, IQSchemaProvider
 {
   /**
    * Converts an array or __type format to Set.
@@ -140,7 +158,7 @@ export class SetTransformer<V = unknown>
    * @param propertyKey - The property name (for error messages)
    * @param className - The class name (for error messages)
    * @returns A Set instance
-   * @throws {Error} If the value is not an array or Set
+   * @throws {DeserializationError} If the value is not an array or Set
    */
   deserialize(value: V[] | { __type: 'Set'; values: V[] } | Set<V>, propertyKey: string, className: string): Set<V> {
     if (value instanceof Set) {
@@ -154,7 +172,7 @@ export class SetTransformer<V = unknown>
 
     // Handle legacy plain array format
     if (!Array.isArray(value)) {
-      throw new Error(`${className}.${propertyKey}: Expected array for Set, got ${typeof value}`);
+      throw new DeserializationError(`${className}.${propertyKey}: Expected array for Set, got ${typeof value}`);
     }
 
     return new Set(value);
@@ -170,6 +188,19 @@ export class SetTransformer<V = unknown>
     return { __type: 'Set', values: Array.from(value) };
   }
 
+  /**
+   * Returns the JSON Schema of the serialized format.
+   */
+  toJSONSchema(): IQJSONSchema {
+    const values: IQJSONSchema = { type: 'array' };
+    return {
+      anyOf: [
+        { type: 'object', properties: { __type: { const: 'Set' }, values }, required: ['__type', 'values'] },
+        values,
+      ],
+    };
+  }
+
   /**
    * Validates if a value is a Set or array.
    * 
@@ -1,5 +1,7 @@
 import { BaseTransformer } from '../core/bases/base-transformer';
 import { IQValidationContext, IQValidationResult, IQValidator } from '../core/interfaces/transformer.interface';
+import { DeserializationError } from '../core/errors/deserialization.error';
+import { IQJSONSchema, IQSchemaProvider } from '../core/interfaces/json-schema.interface';
 
 type PrimitiveType = 'string' | 'number' | 'boolean';
 
@@ -46,7 +48,7 @@ type PrimitiveTypeMap = {
  */
 export class PrimitiveTransformer<T extends PrimitiveType>
   extends BaseTransformer<PrimitiveTypeMap[T], PrimitiveTypeMap[T]>
-  implements IQValidator
+  implements IQValidator, IQSchemaProvider
 {
   /**
    * Creates a transformer for a specific primitive type.
@@ -64,7 +66,7 @@ export class PrimitiveTransformer<T extends PrimitiveType>
    * @param propertyKey - The property name (for error messages)
    * @param className - The class name (for error messages)
    * @returns The same value if validation passes
-   * @throws {Error} If the value type doesn't match the expected primitive type
+   * @throws {DeserializationError} If the value type doesn't match the expected primitive type
    */
   deserialize(value: unknown, propertyKey: string, className: string): PrimitiveTypeMap[T] {
     const validationResult = this.validate(value, {
@@ -74,7 +76,7 @@ export class PrimitiveTransformer<T extends PrimitiveType>
     });
 
     if (!validationResult.isValid) {
-      throw new Error(validationResult.error);
+      throw new DeserializationError(validationResult.error ?? `${className}.${propertyKey}: Invalid value`);
     }
 
     return value as PrimitiveTypeMap[T];
@@ -90,6 +92,13 @@ export class PrimitiveTransformer<T extends PrimitiveType>
     return value;
   }
 
+  /**
+   * Returns the JSON Schema of the serialized format.
+   */
+  toJSONSchema(): IQJSONSchema {
+    return { type: this.expectedType };
+  }
+
   /**
    * Validates if a value matches the expected primitive type.
    * 
@@ -1,5 +1,7 @@
 import { BaseTransformer } from '../core/bases/base-transformer';
 import { IQValidationContext, IQValidationResult, IQValidator } from '../core/interfaces/transformer.interface';
+import { DeserializationError } from '../core/errors/deserialization.error';
+import { IQJSONSchema, IQSchemaProvider } from '../core/interfaces/json-schema.interface';
 
 /**
  * Serialized representation of a RegExp.
@@ -40,7 +42,7 @@ interface IRegExpData {
  */
 export class RegExpTransformer
   extends BaseTransformer<string | { __type: 'regexp'; source: string; flags: string } | IRegExpData, RegExp>
-  implements IQValidator
+  implements IQValidator, IQSchemaProvider
 {
   /**
    * Converts a string or object to RegExp.
@@ -49,7 +51,7 @@ export class RegExpTransformer
    * @param propertyKey - The property name (for error messages)
    * @param className - The class name (for error messages)
    * @returns The RegExp object
-   * @throws {Error} If the value cannot be converted to RegExp
+   * @throws {DeserializationError} If the value cannot be converted to RegExp
    */
   deserialize(
     value: IRegExpData | string | RegExp,
@@ -64,7 +66,7 @@ export class RegExpTransformer
     // Format: {__type, source, flags} or {source, flags}
     if (typeof value === 'object' && value !== null && 'source' in value) {
       if (typeof value.source !== 'string') {
-        throw new Error(
+        throw new DeserializationError(
           `${className}.${propertyKey}: RegExp object must have 'source' as string.\\n` +
           `Received: source type = ${typeof value.source}`
         );
@@ -73,7 +75,7 @@ export class RegExpTransformer
         return new RegExp(value.source, value.flags || '');
       } catch (error) {
         const errorMsg = error instanceof Error ? error.message : String(error);
-        throw new Error(
+        throw new DeserializationError(
           `${className}.${propertyKey}: Invalid RegExp pattern.\\n` +
           `source: "${value.source}"\\n` +
           `flags: "${value.flags || ''}"\\n` +
@@ -90,7 +92,7 @@ export class RegExpTransformer
           return new RegExp(match[1], match[2] || '');
         } catch (error) {
           const errorMsg = error instanceof Error ? error.message : String(error);
-          throw new Error(
+          throw new DeserializationError(
             `${className}.${propertyKey}: Invalid RegExp string with slashes.\\n` +
             `Input: "${value}"\\n` +
             `Pattern: "${match[1]}"\\n` +
@@ -104,7 +106,7 @@ export class RegExpTransformer
         return new RegExp(value);
       } catch (error) {
         const errorMsg = error instanceof Error ? error.message : String(error);
-        throw new Error(
+        throw new DeserializationError(
           `${className}.${propertyKey}: Invalid RegExp pattern.\\n` +
           `Pattern: "${value}"\\n` +
           `Error: ${errorMsg}`
@@ -112,7 +114,7 @@ export class RegExpTransformer
       }
     }
 
-    throw new Error(
+    throw new DeserializationError(
       `${className}.${propertyKey}: RegExp transformer ONLY accepts:\\n` +
       `  - string with slashes (e.g., "/[a-z]+/gi")\\n` +
       `  - plain pattern string (e.g., "[a-z]+")\\n` +
@@ -132,6 +134,22 @@ export class RegExpTransformer
     return { __type: 'regexp', source: value.source, flags: value.flags };
   }
 
+  /**
+   * Returns the JSON Schema of the serialized format.
+   */
+  toJSONSchema(): IQJSONSchema {
+    return {
+      anyOf: [
+        {
+          type: 'object',
+          properties: { __type: { const: 'regexp' }, source: { type: 'string' }, flags: { type: 'string' } },
+          required: ['__type', 'source', 'flags'],
+        },
+        { type: 'string' },
+      ],
+    };
+  }
+
   /**
    * Validates if a value can be converted to RegExp.
    * 
@@ -1,5 +1,7 @@
 import { BaseTransformer } from '../core/bases/base-transformer';
 import { IQValidationContext, IQValidationResult, IQValidator } from '../core/interfaces/transformer.interface';
+import { DeserializationError } from '../core/errors/deserialization.error';
+import { IQJSONSchema, IQSchemaProvider } from '../core/interfaces/json-schema.interface';
 
 /**
  * Transformer for Symbol type: converts between string and symbol.
@@ -27,7 +29,7 @@ import { IQValidationContext, IQValidationResult, IQValidator } from '../core/in
  * console.log(data.id); // "unique-id"
  * ```
  */
-export class SymbolTransformer extends BaseTransformer<string | { __type: 'symbol'; description: string }, symbol> implements IQValidator {
+export class SymbolTransformer extends BaseTransformer<string | { __type: 'symbol'; description: string }, symbol> implements IQValidator, IQSchemaProvider {
   /**
    * Converts a string or object with __type to a global symbol using Symbol.for().
    * 
@@ -35,7 +37,7 @@ export class SymbolTransformer extends BaseTransformer<string | { __type: 'symbo
    * @param propertyKey - The property name (for error messages)
    * @param className - The class name (for error messages)
    * @returns A global symbol
-   * @throws {Error} If the value is not a string or symbol
+   * @throws {DeserializationError} If the value is not a string or symbol
    */
   deserialize(value: string | symbol | { __type: 'symbol'; description: string }, propertyKey: string, className: string): symbol {
     // Already a symbol - return as-is
@@ -46,7 +48,7 @@ export class SymbolTransformer extends BaseTransformer<string | { __type: 'symbo
     // Handle format with __type marker
     if (typeof value === 'object' && value !== null && '__type' in value && value.__type === 'symbol') {
       if (typeof value.description !== 'string') {
-        throw new Error(
+        throw new DeserializationError(
           `${className}.${propertyKey}: Symbol object must have 'description' as string.\\n` +
           `Received: description type = ${typeof value.description}`
         );
@@ -56,7 +58,7 @@ export class SymbolTransformer extends BaseTransformer<string | { __type: 'symbo
 
     // Must be string for simple description format
     if (typeof value !== 'string') {
-      throw new Error(
+      throw new DeserializationError(
         `${className}.${propertyKey}: Symbol transformer ONLY accepts:\\n` +
         `  - string (symbol description, e.g., \"mySymbol\")\\n` +
         `  - object ({ __type: \"symbol\", description: \"mySymbol\" })\\n` +
@@ -82,6 +84,22 @@ export class SymbolTransformer extends BaseTransformer<string | { __type: 'symbo
     return { __type: 'symbol', description };
   }
 
+  /**
+   * Returns the JSON Schema of the serialized format.
+   */
+  toJSONSchema(): IQJSONSchema {
+    return {
+      anyOf: [
+        {
+          type: 'object',
+          properties: { __type: { const: 'symbol' }, description: { type: 'string' } },
+          required: ['__type', 'description'],
+        },
+        { type: 'string' },
+      ],
+    };
+  }
+
   /**
    * Validates if a value is a string or symbol.
    * 
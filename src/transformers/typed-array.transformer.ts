@@ -1,5 +1,15 @@
 import { BaseTransformer } from '../core/bases/base-transformer';
 import { IQValidationContext, IQValidationResult, IQValidator } from '../core/interfaces/transformer.interface';
+import { IQJSONSchema, IQSchemaProvider } from '../core/interfaces/json-schema.interface';
+import { IQBinaryTransformer, QBinaryEncoding } from '../core/interfaces/binary-encoding.interface';
+import { DeserializationError } from '../core/errors/deserialization.error';
+import {
+  binaryStringSchema,
+  decodeBytes,
+  encodeBytes,
+  fromLittleEndian,
+  littleEndianBytes,
+} from '../core/helpers/binary-encoding';
 
 type TypedArrayConstructor =
   | Int8ArrayConstructor
@@ -28,8 +38,9 @@ type TypedArray =
 /**
  * Generic transformer for TypedArray types: converts between number/string array and TypedArray.
  * 
- * **Serialization**: `TypedArray` → `number[]` (or `string[]` for BigInt variants)
- * **Deserialization**: `number[]` | `string[]` → `TypedArray`
+ * **Serialization**: `TypedArray` → `number[]` (or `string[]` for BigInt variants),
+ * or a base64, base64url or hex string of the elements' bytes (little-endian)
+ * **Deserialization**: `number[]` | `string[]` | `string` → `TypedArray`
  * 
  * @template T - The specific TypedArray type (Int8Array, Float32Array, etc.)
  * 
@@ -41,6 +52,8 @@ type TypedArray =
  * 
  * BigInt variants serialize to string arrays because JSON doesn't support BigInt.
  * Invalid BigInt values default to 0n.
+ *
+ * The form written is the `encoding` of the transformer; every form is read.
  * 
  * @example
  * ```typescript
@@ -59,39 +72,49 @@ type TypedArray =
  * const json = audio.serialize();
  * console.log(json.samples); // [0.5, -0.3, 0.8]
  * console.log(json.largeNumbers); // ["9007199254740991", "123456789012345"]
+ *
+ * new TypedArrayTransformer(Float32Array, false, 'base64').serialize(audio.samples);
+ * // 'AAAAP5qZmb7NzEw/'
  * ```
  */
 export class TypedArrayTransformer<T extends TypedArray>
-  extends BaseTransformer<number[] | string[], T>
-  implements IQValidator
+  extends BaseTransformer<number[] | string[] | string, T>
+  implements IQValidator, IQSchemaProvider, IQBinaryTransformer<number[] | string[] | string, T>
 {
   /**
    * Creates a transformer for a specific TypedArray type.
    * 
    * @param ArrayConstructor - The TypedArray constructor (Int8Array, Float32Array, etc.)
    * @param isBigInt - Whether this is a BigInt variant (BigInt64Array/BigUint64Array)
+   * @param encoding - Form written by `serialize()` (default `'array'`)
    */
   constructor(
     private ArrayConstructor: TypedArrayConstructor,
     private isBigInt: boolean = false,
+    readonly encoding: QBinaryEncoding = 'array',
   ) {
     super();
   }
 
+  withEncoding(encoding: QBinaryEncoding): TypedArrayTransformer<T> {
+    return new TypedArrayTransformer<T>(this.ArrayConstructor, this.isBigInt, encoding);
+  }
+
   /**
    * Converts a number/string array to TypedArray.
    * 
-   * @param value - The value to convert (array, object, or TypedArray)
+   * @param value - The value to convert (array, object, base64/base64url/hex string, or TypedArray)
    * @param propertyKey - The property name (for error messages)
    * @param className - The class name (for error messages)
    * @returns A TypedArray instance
+   * @throws {DeserializationError} If a string is not the bytes of whole elements in one of the string forms
    * 
    * @remarks
    * Accepts arrays or array-like objects (e.g., `{0: 1, 1: 2, 2: 3}`).
    * For BigInt variants, strings are converted to BigInt. Invalid values default to 0n.
    */
   deserialize(
-    value: number[] | string[] | T | Record<number, number>,
+    value: number[] | string[] | string | T | Record<number, number>,
     propertyKey: string,
     className: string,
   ): T {
@@ -99,6 +122,18 @@ export class TypedArrayTransformer<T extends TypedArray>
       return value as T;
     }
 
+    if (typeof value === 'string') {
+      const size = this.ArrayConstructor.BYTES_PER_ELEMENT;
+      const bytes = decodeBytes(value, this.encoding);
+      if (!bytes || bytes.byteLength % size !== 0) {
+        throw new DeserializationError(
+          `${className}.${propertyKey}: Expected base64, base64url or hex string of ${this.ArrayConstructor.name} elements`,
+        );
+      }
+      fromLittleEndian(bytes, size);
+      return new (this.ArrayConstructor as unknown as new (buffer: ArrayBuffer) => T)(bytes.buffer);
+    }
+
     const arrayData = Array.isArray(value) ? value : Object.values(value);
 
     if (this.isBigInt) {
@@ -129,18 +164,36 @@ export class TypedArrayTransformer<T extends TypedArray>
    * Converts a TypedArray to number or string array.
    * 
    * @param value - The TypedArray to serialize
-   * @returns Number array for standard types, string array for BigInt variants
+   * @returns Number array for standard types, string array for BigInt variants,
+   * or a string in the transformer's encoding
    * 
    * @remarks
    * BigInt variants are serialized as string arrays because JSON doesn't support BigInt.
    */
-  serialize(value: T): number[] | string[] {
+  serialize(value: T): number[] | string[] | string {
+    if (this.encoding !== 'array') {
+      return encodeBytes(littleEndianBytes(value), this.encoding);
+    }
     if (this.isBigInt) {
       return Array.from(value as Iterable<bigint>, (v) => v.toString());
     }
     return Array.from(value as Iterable<number>);
   }
 
+  /**
+   * Returns the JSON Schema of the serialized format.
+   */
+  toJSONSchema(): IQJSONSchema {
+    if (this.encoding !== 'array') {
+      return binaryStringSchema(this.encoding);
+    }
+    const name = this.ArrayConstructor.name;
+    if (this.isBigInt || name.startsWith('Big')) {
+      return { type: 'array', items: { type: 'string', pattern: '^-?\\d+$' } };
+    }
+    return { type: 'array', items: { type: name.startsWith('Float') ? 'number' : 'integer' } };
+  }
+
   /**
    * Validates if a value can be converted to a TypedArray.
    * 
@@ -153,7 +206,7 @@ export class TypedArrayTransformer<T extends TypedArray>
       return { isValid: true };
     }
 
-    if (Array.isArray(value)) {
+    if (Array.isArray(value) || typeof value === 'string') {
       return { isValid: true };
     }
 
@@ -163,7 +216,7 @@ export class TypedArrayTransformer<T extends TypedArray>
 
     return {
       isValid: false,
-      error: `${context.className}.${context.propertyKey}: Expected ${this.ArrayConstructor.name}, array or object, got ${typeof value}`,
+      error: `${context.className}.${context.propertyKey}: Expected ${this.ArrayConstructor.name}, array, string or object, got ${typeof value}`,
     };
   }
 }
@@ -1,5 +1,7 @@
 import { BaseTransformer } from '../core/bases/base-transformer';
 import { IQValidationContext, IQValidationResult, IQValidator } from '../core/interfaces/transformer.interface';
+import { DeserializationError } from '../core/errors/deserialization.error';
+import { IQJSONSchema, IQSchemaProvider } from '../core/interfaces/json-schema.interface';
 
 /**
  * Transformer for URLSearchParams: converts between query string and URLSearchParams object.
@@ -39,7 +41,7 @@ import { IQValidationContext, IQValidationResult, IQValidator } from '../core/in
  */
 export class URLSearchParamsTransformer
   extends BaseTransformer<string, URLSearchParams>
-  implements IQValidator
+  implements IQValidator, IQSchemaProvider
 {
   /**
    * Converts a query string or object to URLSearchParams.
@@ -48,7 +50,7 @@ export class URLSearchParamsTransformer
    * @param propertyKey - The property name (for error messages)
    * @param className - The class name (for error messages)
    * @returns A URLSearchParams instance
-   * @throws {Error} If the value cannot be converted to URLSearchParams
+   * @throws {DeserializationError} If the value cannot be converted to URLSearchParams
    */
   deserialize(
     value: string | URLSearchParams | Record<string, string>,
@@ -64,7 +66,7 @@ export class URLSearchParamsTransformer
         return new URLSearchParams(value);
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : String(error);
-        throw new Error(
+        throw new DeserializationError(
           `${className}.${propertyKey}: Invalid URLSearchParams string "${value}": ${errorMessage}`,
         );
       }
@@ -75,13 +77,13 @@ export class URLSearchParamsTransformer
         return new URLSearchParams(value);
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : String(error);
-        throw new Error(
+        throw new DeserializationError(
           `${className}.${propertyKey}: Invalid URLSearchParams object: ${errorMessage}`,
         );
       }
     }
 
-    throw new Error(
+    throw new DeserializationError(
       `${className}.${propertyKey}: Expected string/object for URLSearchParams, got ${typeof value}`,
     );
   }
@@ -96,6 +98,13 @@ export class URLSearchParamsTransformer
     return value.toString();
   }
 
+  /**
+   * Returns the JSON Schema of the serialized format.
+   */
+  toJSONSchema(): IQJSONSchema {
+    return { type: 'string' };
+  }
+
   /**
    * Validates if a value can be converted to URLSearchParams.
    * 
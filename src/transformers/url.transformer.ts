@@ -1,5 +1,7 @@
 import { BaseTransformer } from '../core/bases/base-transformer';
 import { IQValidationContext, IQValidationResult, IQValidator } from '../core/interfaces/transformer.interface';
+import { DeserializationError } from '../core/errors/deserialization.error';
+import { IQJSONSchema, IQSchemaProvider } from '../core/interfaces/json-schema.interface';
 
 /**
  * Transformer for URL: converts between string and URL object.
@@ -30,7 +32,7 @@ import { IQValidationContext, IQValidationResult, IQValidator } from '../core/in
  * new WebPage({ url: "not-a-valid-url" }); // Error: Invalid URL
  * ```
  */
-export class URLTransformer extends BaseTransformer<string, URL> implements IQValidator {
+export class URLTransformer extends BaseTransformer<string, URL> implements IQValidator, IQSchemaProvider {
   /**
    * Converts a string to URL object.
    * 
@@ -38,7 +40,7 @@ export class URLTransformer extends BaseTransformer<string, URL> implements IQVa
    * @param propertyKey - The property name (for error messages)
    * @param className - The class name (for error messages)
    * @returns A URL instance
-   * @throws {Error} If the value is not a string or URL, or if the URL format is invalid
+   * @throws {DeserializationError} If the value is not a string or URL, or if the URL format is invalid
    */
   deserialize(value: string | URL, propertyKey: string, className: string): URL {
     if (value instanceof URL) {
@@ -46,14 +48,14 @@ export class URLTransformer extends BaseTransformer<string, URL> implements IQVa
     }
 
     if (typeof value !== 'string') {
-      throw new Error(`${className}.${propertyKey}: Expected string for URL, got ${typeof value}`);
+      throw new DeserializationError(`${className}.${propertyKey}: Expected string for URL, got ${typeof value}`);
     }
 
     try {
       return new URL(value);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
-      throw new Error(
+      throw new DeserializationError(
         `${className}.${propertyKey}: Invalid URL value "${value}": ${errorMessage}`,
       );
     }
@@ -69,6 +71,13 @@ export class URLTransformer extends BaseTransformer<string, URL> implements IQVa
     return value.href;
   }
 
+  /**
+   * Returns the JSON Schema of the serialized format.
+   */
+  toJSONSchema(): IQJSONSchema {
+    return { type: 'string', format: 'uri' };
+  }
+
   /**
    * Validates if a value is a URL or valid URL string.
    * 
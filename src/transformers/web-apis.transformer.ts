@@ -1,4 +1,6 @@
 import { BaseTransformer } from '../core/bases/base-transformer';
+import { DeserializationError } from '../core/errors/deserialization.error';
+import { IQJSONSchema, IQSchemaProvider } from '../core/interfaces/json-schema.interface';
 
 /**
  * Transformer for URL type: converts between string and URL object.
@@ -15,7 +17,7 @@ export class URLTransformer extends BaseTransformer<string, URL> {
 
     // Must be string, nothing else
     if (typeof value !== 'string') {
-      throw new Error(
+      throw new DeserializationError(
         `${className}.${propertyKey}: URL transformer ONLY accepts:\n` +
         `  - string (valid URL, e.g., "https://example.com/path?query=1")\n` +
         `  - URL instance\n` +
@@ -27,7 +29,7 @@ export class URLTransformer extends BaseTransformer<string, URL> {
       return new URL(value);
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
-      throw new Error(
+      throw new DeserializationError(
         `${className}.${propertyKey}: Invalid URL string "${value}".\n` +
         `Error: ${errorMsg}\n` +
         `Expected: Valid URL with protocol (e.g., "https://example.com/path")`
@@ -63,7 +65,7 @@ export class URLSearchParamsTransformer extends BaseTransformer<string | Record<
       return new URLSearchParams(value as Record<string, string>);
     }
 
-    throw new Error(
+    throw new DeserializationError(
       `${className}.${propertyKey}: URLSearchParams transformer ONLY accepts:\n` +
       `  - string (query format, e.g., "key=value&foo=bar")\n` +
       `  - object (key-value pairs, e.g., { key: "value", foo: "bar" })\n` +
@@ -82,7 +84,7 @@ export class URLSearchParamsTransformer extends BaseTransformer<string | Record<
  * 
  * **Note**: TextEncoder has no state, so serialization returns empty object.
  */
-export class TextEncoderTransformer extends BaseTransformer<Record<string, never>, TextEncoder> {
+export class TextEncoderTransformer extends BaseTransformer<Record<string, never>, TextEncoder> implements IQSchemaProvider {
   deserialize(value: any, propertyKey: string, className: string): TextEncoder {
     // Already a TextEncoder instance - return as-is
     if (value instanceof TextEncoder) {
@@ -94,7 +96,7 @@ export class TextEncoderTransformer extends BaseTransformer<Record<string, never
       return new TextEncoder();
     }
 
-    throw new Error(
+    throw new DeserializationError(
       `${className}.${propertyKey}: TextEncoder transformer ONLY accepts:\n` +
       `  - null\n` +
       `  - undefined\n` +
@@ -108,6 +110,13 @@ export class TextEncoderTransformer extends BaseTransformer<Record<string, never
   serialize(value: TextEncoder): Record<string, never> {
     return {}; // TextEncoder has no serializable state
   }
+
+  /**
+   * Returns the JSON Schema of the serialized format.
+   */
+  toJSONSchema(): IQJSONSchema {
+    return { type: 'object', maxProperties: 0 };
+  }
 }
 
 /**
@@ -116,7 +125,7 @@ export class TextEncoderTransformer extends BaseTransformer<Record<string, never
  * **Serialization**: `TextDecoder` → `{ encoding: string }`
  * **Deserialization**: `string | { encoding: string }` → `TextDecoder`
  */
-export class TextDecoderTransformer extends BaseTransformer<string | { encoding: string }, TextDecoder> {
+export class TextDecoderTransformer extends BaseTransformer<string | { encoding: string }, TextDecoder> implements IQSchemaProvider {
   deserialize(value: string | { encoding?: string } | TextDecoder, propertyKey: string, className: string): TextDecoder {
     if (value instanceof TextDecoder) {
       return value;
@@ -126,7 +135,7 @@ export class TextDecoderTransformer extends BaseTransformer<string | { encoding:
       try {
         return new (TextDecoder as any)(value);
       } catch (error) {
-        throw new Error(
+        throw new DeserializationError(
           `${className}.${propertyKey}: Invalid encoding "${value}". ` +
           `Valid encodings include: utf-8, utf-16, iso-8859-1, etc.`
         );
@@ -138,7 +147,7 @@ export class TextDecoderTransformer extends BaseTransformer<string | { encoding:
       try {
         return new (TextDecoder as any)(encoding);
       } catch (error) {
-        throw new Error(
+        throw new DeserializationError(
           `${className}.${propertyKey}: Invalid encoding "${encoding}". ` +
           `Valid encodings include: utf-8, utf-16, iso-8859-1, etc.`
         );
@@ -149,7 +158,7 @@ export class TextDecoderTransformer extends BaseTransformer<string | { encoding:
       return new TextDecoder();
     }
 
-    throw new Error(
+    throw new DeserializationError(
       `${className}.${propertyKey}: TextDecoder transformer accepts string (encoding name like "utf-8"), ` +
       `object with encoding property, or TextDecoder instance. Got ${typeof value}`
     );
@@ -158,4 +167,11 @@ export class TextDecoderTransformer extends BaseTransformer<string | { encoding:
   serialize(value: TextDecoder): { encoding: string } {
     return { encoding: value.encoding };
   }
+
+  /**
+   * Returns the JSON Schema of the serialized format.
+   */
+  toJSONSchema(): IQJSONSchema {
+    return { type: 'object', properties: { encoding: { type: 'string' } }, required: ['encoding'] };
+  }
 }
@@ -0,0 +1,153 @@
+/**
+ * Unit Test: Reactivity bridges
+ *
+ * Tests ModelStore per-field subscriptions, the React useModel() hook (rendered with
+ * react-test-renderer), toSignal() with the TC39 signals polyfill and the Vue toReactive() view
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { act, createElement } from 'react';
+import { create, type ReactTestRenderer } from 'react-test-renderer';
+import { Signal } from 'signal-polyfill';
+import { computed, effectScope, watchEffect } from 'vue';
+import { QModel, Quick, QType, ModelStore, toSignal } from '../../../src';
+import { useModel } from '../../../src/adapters/react';
+import { toReactive } from '../../../src/adapters/vue';
+
+// Lets act() flush renders and effects outside a browser
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+describe('Unit: Reactivity bridges', () => {
+	interface IAddress {
+		city: string;
+	}
+
+	class Address extends QModel<IAddress> {
+		@QType() city!: string;
+	}
+
+	interface IUser {
+		name: string;
+		email: string;
+		birthDate: string;
+		address: IAddress;
+	}
+
+	@Quick({ birthDate: Date })
+	class User extends QModel<IUser> {
+		@QType() name!: string;
+		@QType() email!: string;
+		birthDate!: Date;
+		@QType(Address) address!: Address;
+	}
+
+	const data = (): IUser => ({
+		name: 'Ann',
+		email: 'ann@example.com',
+		birthDate: '1990-05-01T00:00:00.000Z',
+		address: { city: 'Lima' },
+	});
+
+	test('Should notify store subscribers of their fields only', () => {
+		const user = new User(data());
+		const store = new ModelStore(user);
+		const changed: string[] = [];
+		const unsubscribe = store.subscribe((field) => changed.push(field), ['email', 'address']);
+
+		user.name = 'Bob';
+		user.email = 'bob@example.com';
+		user.address.city = 'Cusco';
+
+		expect(changed).toEqual(['email', 'address']);
+		expect(store.getVersion(['name'])).toBe(1);
+		expect(store.getVersion(['email', 'address'])).toBe(2);
+		expect(store.getVersion()).toBe(3);
+
+		unsubscribe();
+		user.email = 'eve@example.com';
+		expect(changed).toHaveLength(2);
+	});
+
+	test('Should re-render useModel() components on changes of their fields only', () => {
+		const user = new User(data());
+		const renders: string[] = [];
+		const Email = () => {
+			const model = useModel(user, ['email', 'address']);
+			renders.push(`${model.email} ${model.address.city}`);
+			return createElement('span', null, model.email);
+		};
+
+		let renderer!: ReactTestRenderer;
+		act(() => {
+			renderer = create(createElement(Email));
+		});
+		act(() => {
+			user.name = 'Bob';
+		});
+		act(() => {
+			user.email = 'bob@example.com';
+		});
+		act(() => {
+			user.address.city = 'Cusco';
+		});
+
+		expect(renders).toEqual(['ann@example.com Lima', 'bob@example.com Lima', 'bob@example.com Cusco']);
+		expect(renderer.toJSON()).toMatchObject({ type: 'span', children: ['bob@example.com'] });
+
+		act(() => renderer.unmount());
+		user.email = 'eve@example.com';
+		expect(renders).toHaveLength(3);
+	});
+
+	test('Should expose fields as signals that recompute only their consumers', () => {
+		const user = new User(data());
+		const signals = toSignal(user, Signal);
+		let runs = 0;
+		const label = new Signal.Computed(() => {
+			runs++;
+			return `${signals.name.get()} (${signals.birthDate.get().getUTCFullYear()})`;
+		});
+
+		expect(label.get()).toBe('Ann (1990)');
+		user.email = 'bob@example.com';
+		expect(label.get()).toBe('Ann (1990)');
+		expect(runs).toBe(1);
+
+		user.birthDate = new Date('1985-01-01T00:00:00.000Z');
+		expect(label.get()).toBe('Ann (1985)');
+		expect(runs).toBe(2);
+		expect(toSignal(user, Signal)).toBe(signals);
+	});
+
+	test('Should update signals of fields holding changed nested models', () => {
+		const user = new User(data());
+		const city = new Signal.Computed(() => toSignal(user, Signal).address.get().city);
+
+		expect(city.get()).toBe('Lima');
+		user.address.city = 'Cusco';
+		expect(city.get()).toBe('Cusco');
+	});
+
+	test('Should track each field of the Vue view on its own', () => {
+		const scope = effectScope();
+		const user = new User(data());
+		const renders: string[] = [];
+
+		scope.run(() => {
+			const view = toReactive(user);
+			const year = computed(() => view.birthDate.getUTCFullYear());
+			watchEffect(() => renders.push(`${view.name} ${year.value}`), { flush: 'sync' });
+
+			view.name = 'Bob';
+			user.email = 'bob@example.com';
+			user.birthDate = new Date('1985-01-01T00:00:00.000Z');
+			expect(view.serialize().name).toBe('Bob');
+		});
+
+		expect(renders).toEqual(['Ann 1990', 'Bob 1990', 'Bob 1985']);
+
+		scope.stop();
+		user.name = 'Eve';
+		expect(renders).toHaveLength(3);
+	});
+});
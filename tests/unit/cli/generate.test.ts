@@ -0,0 +1,103 @@
+/**
+ * Unit Test: Code generation (`quickmodel generate`)
+ *
+ * Tests the TypeScript source printed for models and the CLI writing it
+ * from JSON Schema, OpenAPI and sample files
+ */
+
+import { describe, test, expect, afterAll } from 'bun:test';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { QModel, Quick, QType, Required, Min, CodeGenerator, toOpenAPIComponents } from '../../../src';
+import { runCli } from '../../../src/cli/generate';
+
+describe('Unit: Code generation', () => {
+	// Inside the repository, so generated files compile with its decorator settings
+	const dir = mkdtempSync(join(import.meta.dir, '.generated-'));
+	const src = join(import.meta.dir, '../../../src/index');
+	const silent = { log: () => {}, error: () => {} };
+
+	afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+	class Tag extends QModel<{ label: string }> {
+		@QType() label!: string;
+	}
+
+	@Quick({ createdAt: Date, balance: BigInt, tags: [Tag] }, { version: 2, migrations: { 1: (v1) => v1 } })
+	class Account extends QModel<any> {
+		@QType() @Required() @Min(0) age!: number;
+		createdAt!: Date;
+		balance!: bigint;
+		tags!: Tag[];
+		@QType(Tag) mainTag!: Tag;
+	}
+
+	test('Should print interfaces, @Quick maps and QInterface transforms that match', () => {
+		const source = new CodeGenerator().generate([Account]);
+
+		expect(source).toContain("import { QModel, Quick, QType, Required, Min, type QInterface } from '@cartago-git/quickmodel';");
+		expect(source).toContain('export interface ITag {\n  label?: string;\n}');
+		expect(source.indexOf('export class Tag')).toBeLessThan(source.indexOf('export class Account'));
+		expect(source).toContain(
+			'@Quick({\n  mainTag: Tag,\n  createdAt: Date,\n  balance: BigInt,\n  tags: [Tag],\n}, { version: 2 })\n' +
+				'export class Account extends QModel<IAccount> implements QInterface<IAccount, ' +
+				'{ mainTag?: Tag; createdAt?: Date; balance?: bigint; tags?: Tag[] }> {'
+		);
+		expect(source).toContain('  @QType() @Required() @Min(0) age!: number;');
+		expect(source).toContain('  declare createdAt?: Date;');
+		expect(source).toContain('  declare mainTag?: Tag;');
+		expect(source).toContain("  balance?: { __type: 'bigint'; value: string } | string;");
+	});
+
+	test('Should generate working models from a JSON Schema file', async () => {
+		const input = join(dir, 'user.schema.json');
+		writeFileSync(
+			input,
+			JSON.stringify({
+				title: 'User',
+				type: 'object',
+				properties: {
+					email: { type: 'string', format: 'email' },
+					createdAt: { type: 'string', format: 'date-time' },
+					address: { $ref: '#/$defs/Address' },
+				},
+				required: ['email'],
+				$defs: { Address: { type: 'object', properties: { city: { type: 'string' } } } },
+			})
+		);
+
+		expect(runCli(['generate', input, '--import', src], silent)).toBe(0);
+
+		const { User } = await import(join(dir, 'user.schema.ts'));
+		const user = new User({ email: 'nope', createdAt: '2024-01-01T00:00:00.000Z', address: { city: 'Lima' } });
+		expect(user.createdAt).toBeInstanceOf(Date);
+		expect(user.address.constructor.name).toBe('Address');
+		expect(user.validate().map((result: { rule: string }) => result.rule)).toEqual(['email']);
+	});
+
+	test('Should generate every component of an OpenAPI document and name models from samples', () => {
+		const openapi = join(dir, 'api.json');
+		const sample = join(dir, 'order-line.json');
+		writeFileSync(openapi, JSON.stringify({ openapi: '3.1.0', ...toOpenAPIComponents([Account]) }));
+		writeFileSync(sample, JSON.stringify([{ sku: 'A', qty: 1 }, { sku: 'B', shippedAt: '2024-01-01T00:00:00Z' }]));
+		const out = join(dir, 'out');
+
+		expect(runCli(['generate', openapi, sample, '--out', out], silent)).toBe(0);
+		expect(readFileSync(join(out, 'api.ts'), 'utf8')).toContain('export class Account extends QModel<IAccount>');
+		expect(readFileSync(join(out, 'order-line.ts'), 'utf8')).toContain(
+			'@Quick({\n  shippedAt: Date,\n})\nexport class OrderLine'
+		);
+	});
+
+	test('Should report usage and input errors with a failing exit code', () => {
+		const errors: string[] = [];
+		const output = { log: () => {}, error: (message: string) => errors.push(message) };
+
+		expect(runCli(['generate'], output)).toBe(1);
+		expect(runCli(['generate', join(dir, 'missing.json')], output)).toBe(1);
+		expect(runCli(['build'], output)).toBe(1);
+		expect(errors[0]).toStartWith('No input files');
+		expect(errors[1]).toContain('missing.json');
+		expect(errors[2]).toStartWith('Unknown command "build"');
+	});
+});
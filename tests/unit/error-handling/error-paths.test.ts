@@ -0,0 +1,148 @@
+/**
+ * Unit Test: Structured errors
+ *
+ * Tests the error hierarchy and the JSON pointer of failing values
+ * through nested models and arrays
+ */
+
+import { describe, test, expect } from 'bun:test';
+import {
+	QModel,
+	Quick,
+	QType,
+	Min,
+	QuickModelError,
+	DeserializationError,
+	SerializationError,
+	CircularReferenceError,
+	ValidationError,
+} from '../../../src';
+
+describe('Unit: Error paths', () => {
+	interface IItem {
+		price: number;
+		addedAt: string;
+	}
+
+	@Quick({ addedAt: Date })
+	class Item extends QModel<IItem> {
+		@Min(0) price!: number;
+		addedAt!: Date;
+	}
+
+	interface IOrder {
+		total: string;
+		items: IItem[];
+	}
+
+	@Quick({ total: BigInt, items: Item })
+	class Order extends QModel<IOrder> {
+		total!: bigint;
+		items!: Item[];
+	}
+
+	interface ICustomer {
+		orders: IOrder[];
+	}
+
+	@Quick({ orders: Order })
+	class Customer extends QModel<ICustomer> {
+		orders!: Order[];
+	}
+
+	const item = { price: 1, addedAt: '2024-01-01T00:00:00.000Z' };
+	const order = { total: '10', items: [item] };
+
+	const catchError = (fn: () => unknown): unknown => {
+		try {
+			fn();
+		} catch (error) {
+			return error;
+		}
+		throw new Error('Expected function to throw');
+	};
+
+	test('Should locate transformer errors inside nested arrays', () => {
+		const error = catchError(
+			() =>
+				new Customer({
+					orders: [order, order, order, { total: '1', items: [{ ...item, addedAt: 'never' }] }],
+				})
+		);
+
+		expect(error).toBeInstanceOf(DeserializationError);
+		expect(error).toBeInstanceOf(QuickModelError);
+		expect((error as DeserializationError).path).toBe('/orders/3/items/0/addedAt');
+		expect((error as DeserializationError).name).toBe('DeserializationError');
+	});
+
+	test('Should locate errors of a single nested model field', () => {
+		const error = catchError(() => new Customer({ orders: [{ ...order, total: 'abc' }] }));
+
+		expect((error as DeserializationError).path).toBe('/orders/0/total');
+	});
+
+	test('Should escape special characters in property names', () => {
+		interface IDoc {
+			'a/b': string;
+		}
+
+		@Quick({ 'a/b': Date })
+		class Doc extends QModel<IDoc> {}
+
+		const error = catchError(() => new Doc({ 'a/b': 'never' }));
+
+		expect((error as DeserializationError).path).toBe('/a~1b');
+	});
+
+	test('Should throw CircularReferenceError with the path that closes the cycle', () => {
+		interface INode {
+			name: string;
+			children?: INode[];
+		}
+
+		class Node extends QModel<INode> {
+			@QType() name!: string;
+			@QType(Node) children?: Node[];
+		}
+
+		const root = new Node({ name: 'root', children: [{ name: 'child' }] });
+		root.children![0]!.children = [root];
+
+		const error = catchError(() => root.serialize());
+
+		expect(error).toBeInstanceOf(CircularReferenceError);
+		expect(error).toBeInstanceOf(SerializationError);
+		expect((error as CircularReferenceError).path).toBe('/children/0/children/0');
+	});
+
+	test('Should locate serialization errors of nested models', () => {
+		const customer = new Customer({ orders: [order, order] });
+		(customer.orders[1] as any).serialize = () => {
+			throw new Error('boom');
+		};
+
+		const error = catchError(() => customer.serialize());
+
+		expect(error).toBeInstanceOf(SerializationError);
+		expect((error as SerializationError).path).toBe('/orders/1');
+	});
+
+	test('Should expose every failing path on ValidationError', () => {
+		@Quick({ items: Item }, { validate: 'throw' })
+		class StrictOrder extends QModel<IOrder> {
+			items!: Item[];
+		}
+
+		const error = catchError(
+			() => new StrictOrder({ total: '1', items: [item, { price: -1, addedAt: 'never' }, { ...item, price: -2 }] })
+		);
+
+		expect(error).toBeInstanceOf(ValidationError);
+		expect((error as ValidationError).errors.map((e) => e.path)).toEqual([
+			'/items/1/addedAt',
+			'/items/1/price',
+			'/items/2/price',
+		]);
+	});
+});
@@ -0,0 +1,108 @@
+/**
+ * Unit Test: Change-tracking baseline
+ *
+ * Tests markClean()/commit() and rebase() with field-by-field conflicts
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { QModel, Quick, QType } from '../../../src';
+
+describe('Unit: Change-tracking baseline', () => {
+	interface ITask {
+		title: string;
+		status: string;
+		owner: string;
+		dueAt: string;
+	}
+
+	@Quick({ dueAt: Date })
+	class Task extends QModel<ITask> {
+		@QType() title!: string;
+		@QType() status!: string;
+		@QType() owner!: string;
+		dueAt!: Date;
+	}
+
+	const saved: ITask = { title: 'Write docs', status: 'open', owner: 'ann', dueAt: '2024-06-01T00:00:00.000Z' };
+
+	test('Should move the baseline to the current state on markClean()', () => {
+		const task = new Task(saved);
+		task.status = 'done';
+		expect(task.hasChanges()).toBe(true);
+
+		task.markClean();
+		expect(task.hasChanges()).toBe(false);
+		expect(task.getChanges()).toEqual({});
+		expect(task.getPatch()).toEqual([]);
+
+		task.title = 'Other';
+		task.reset();
+		expect(task.title).toBe('Write docs');
+		expect(task.status).toBe('done');
+	});
+
+	test('Should treat commit() as markClean()', () => {
+		const task = new Task(saved);
+		task.dueAt = new Date('2024-07-01T00:00:00.000Z');
+		task.commit();
+
+		expect(task.hasChanges()).toBe(false);
+		expect(task.getInitInterface().dueAt).toBe('2024-07-01T00:00:00.000Z');
+	});
+
+	test('Should take the server data as baseline and keep local edits that do not conflict', () => {
+		const task = new Task(saved);
+		task.title = 'Write the docs';
+
+		const conflicts = task.rebase({ ...saved, owner: 'bob' });
+
+		expect(conflicts).toEqual([]);
+		expect(task.owner).toBe('bob');
+		expect(task.title).toBe('Write the docs');
+		expect(task.getChanges()).toEqual({ title: 'Write the docs' });
+	});
+
+	test('Should report fields changed on both sides and resolve them with the server value', () => {
+		const task = new Task(saved);
+		task.status = 'blocked';
+		task.owner = 'carol';
+		task.dueAt = new Date('2024-08-01T00:00:00.000Z');
+
+		const conflicts = task.rebase({ ...saved, status: 'done', owner: 'carol', dueAt: '2024-09-01T00:00:00.000Z' });
+
+		expect(conflicts).toEqual([
+			{ field: 'status', base: 'open', local: 'blocked', server: 'done' },
+			{
+				field: 'dueAt',
+				base: '2024-06-01T00:00:00.000Z',
+				local: '2024-08-01T00:00:00.000Z',
+				server: '2024-09-01T00:00:00.000Z',
+			},
+		]);
+		expect(task.status).toBe('done');
+		expect(task.owner).toBe('carol');
+		expect(task.dueAt).toEqual(new Date('2024-09-01T00:00:00.000Z'));
+		expect(task.hasChanges()).toBe(false);
+	});
+
+	test('Should keep the local value of conflicts with prefer: local', () => {
+		const task = new Task(saved);
+		task.status = 'blocked';
+
+		const conflicts = task.rebase({ ...saved, status: 'done' }, { prefer: 'local' });
+
+		expect(conflicts.map((conflict) => conflict.field)).toEqual(['status']);
+		expect(task.status).toBe('blocked');
+		expect(task.getChanges()).toEqual({ status: 'blocked' });
+	});
+
+	test('Should take the server data in its serialized form as baseline', () => {
+		const task = new Task(saved);
+
+		task.rebase({ ...saved, dueAt: '2024-06-01T00:00:00Z' });
+
+		expect(task.getInitInterface().dueAt).toBe('2024-06-01T00:00:00.000Z');
+		expect(task.hasChanges()).toBe(false);
+		expect(task.getChanges()).toEqual({});
+	});
+});
@@ -0,0 +1,135 @@
+/**
+ * Unit Test: Change events
+ *
+ * Tests on('change') and watch() for QType and @Quick() fields, bubbling from
+ * nested models, and events of patch()/undo()
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { QModel, Quick, QType, type IQChangeEvent } from '../../../src';
+
+describe('Unit: Change events', () => {
+	interface IItem {
+		sku: string;
+		qty: number;
+	}
+
+	class Item extends QModel<IItem> {
+		@QType() sku!: string;
+		@QType() qty!: number;
+	}
+
+	interface IAddress {
+		city: string;
+	}
+
+	class Address extends QModel<IAddress> {
+		@QType() city!: string;
+	}
+
+	interface IOrder {
+		email: string;
+		placedAt: string;
+		address: IAddress;
+		items: IItem[];
+	}
+
+	@Quick({ placedAt: Date, items: Item })
+	class Order extends QModel<IOrder> {
+		@QType() email!: string;
+		placedAt!: Date;
+		@QType(Address) address!: Address;
+		items!: Item[];
+	}
+
+	const data = (): IOrder => ({
+		email: 'ann@example.com',
+		placedAt: '2024-01-01T00:00:00.000Z',
+		address: { city: 'Lima' },
+		items: [
+			{ sku: 'A-1', qty: 1 },
+			{ sku: 'B-1', qty: 1 },
+		],
+	});
+
+	const listen = (order: Order): IQChangeEvent[] => {
+		const events: IQChangeEvent[] = [];
+		order.on('change', (event) => events.push(event));
+		return events;
+	};
+
+	test('Should emit changes of QType and @Quick() fields', () => {
+		const order = new Order(data());
+		const events = listen(order);
+		const placedAt = new Date('2024-02-01T00:00:00.000Z');
+
+		order.email = 'bob@example.com';
+		order.placedAt = placedAt;
+
+		expect(events).toEqual([
+			{ path: '/email', oldValue: 'ann@example.com', newValue: 'bob@example.com' },
+			{ path: '/placedAt', oldValue: new Date('2024-01-01T00:00:00.000Z'), newValue: placedAt },
+		]);
+	});
+
+	test('Should not emit when a field is set to the same value', () => {
+		const order = new Order(data());
+		const events = listen(order);
+
+		order.email = 'ann@example.com';
+
+		expect(events).toEqual([]);
+	});
+
+	test('Should bubble changes of nested models up with their full path', () => {
+		const order = new Order(data());
+		const events = listen(order);
+
+		order.address.city = 'Cusco';
+		order.items[1]!.qty = 3;
+
+		expect(events.map((event) => [event.path, event.newValue])).toEqual([
+			['/address/city', 'Cusco'],
+			['/items/1/qty', 3],
+		]);
+	});
+
+	test('Should stop bubbling from models removed from the field', () => {
+		const order = new Order(data());
+		const events = listen(order);
+		const address = order.address;
+
+		order.address = new Address({ city: 'Quito' });
+		address.city = 'Cusco';
+		order.address.city = 'Bogotá';
+
+		expect(events.map((event) => event.path)).toEqual(['/address', '/address/city']);
+		expect(order.address.city).toBe('Bogotá');
+	});
+
+	test('Should call watch() listeners for their field only, and unsubscribe', () => {
+		const order = new Order(data());
+		const emails: unknown[] = [];
+		const off = order.watch('email', ({ newValue }) => emails.push(newValue));
+
+		order.address.city = 'Cusco';
+		order.email = 'bob@example.com';
+		off();
+		order.email = 'eve@example.com';
+
+		expect(emails).toEqual(['bob@example.com']);
+	});
+
+	test('Should emit the fields changed by patch() and undo()', () => {
+		const order = new Order(data()).enableHistory();
+		order.email = 'bob@example.com';
+		const events = listen(order);
+
+		order.patch({ address: { city: 'Cusco' } });
+		order.undo();
+
+		expect(events.map((event) => event.path)).toEqual(['/address', '/address']);
+		expect(events[1]!.newValue).toBe(order.address);
+		expect(order.address.city).toBe('Lima');
+	});
+});
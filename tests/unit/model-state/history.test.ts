@@ -0,0 +1,114 @@
+/**
+ * Unit Test: Undo/redo history
+ *
+ * Tests enableHistory(), undo()/redo(), checkpoints and the history limit
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { QModel, Quick, QType } from '../../../src';
+
+describe('Unit: Undo/redo history', () => {
+	interface IProfile {
+		firstName: string;
+		lastName: string;
+		birthday: string;
+		tags: string[];
+	}
+
+	@Quick({ birthday: Date, tags: Set })
+	class Profile extends QModel<IProfile> {
+		@QType() firstName!: string;
+		@QType() lastName!: string;
+		birthday!: Date;
+		tags!: Set<string>;
+	}
+
+	const create = () =>
+		new Profile({ firstName: 'Ann', lastName: 'Lee', birthday: '1990-05-01T00:00:00.000Z', tags: ['a'] });
+
+	test('Should not record anything until the history is enabled', () => {
+		const profile = create();
+		profile.firstName = 'Jane';
+
+		expect(profile.canUndo()).toBe(false);
+		expect(profile.undo()).toBeUndefined();
+		expect(profile.firstName).toBe('Jane');
+	});
+
+	test('Should undo and redo each field set', () => {
+		const profile = create().enableHistory();
+		profile.firstName = 'Jane';
+		profile.birthday = new Date('1991-01-01T00:00:00.000Z');
+
+		expect(profile.undo()).toEqual({});
+		expect(profile.birthday).toEqual(new Date('1990-05-01T00:00:00.000Z'));
+		expect(profile.undo()).toEqual({});
+		expect(profile.firstName).toBe('Ann');
+		expect(profile.canUndo()).toBe(false);
+
+		expect(profile.redo()).toEqual({});
+		expect(profile.firstName).toBe('Jane');
+		expect(profile.canRedo()).toBe(true);
+
+		// A new change drops the redo stack
+		profile.lastName = 'Doe';
+		expect(profile.canRedo()).toBe(false);
+	});
+
+	test('Should group the sets after a checkpoint into one labelled step', () => {
+		const profile = create().enableHistory();
+		profile.checkpoint('Rename');
+		profile.firstName = 'Jane';
+		profile.lastName = 'Doe';
+		profile.checkpoint('Birthday');
+		profile.birthday = new Date('1991-01-01T00:00:00.000Z');
+
+		expect(profile.undo()).toEqual({ label: 'Birthday' });
+		expect(profile.undo()).toEqual({ label: 'Rename' });
+		expect([profile.firstName, profile.lastName]).toEqual(['Ann', 'Lee']);
+		expect(profile.redo()).toEqual({ label: 'Rename' });
+		expect([profile.firstName, profile.lastName]).toEqual(['Jane', 'Doe']);
+	});
+
+	test('Should record patch(), reset() and changes inside values as one step each', () => {
+		const profile = create().enableHistory();
+		profile.patch({ firstName: 'Jane', lastName: 'Doe' });
+		profile.tags.add('b');
+
+		expect(profile.undo()).toEqual({});
+		expect([...profile.tags]).toEqual(['a']);
+		expect(profile.undo()).toEqual({});
+		expect(profile.firstName).toBe('Ann');
+
+		profile.redo();
+		profile.reset();
+		expect(profile.firstName).toBe('Ann');
+		profile.undo();
+		expect(profile.firstName).toBe('Jane');
+	});
+
+	test('Should see changes inside values in canUndo() and canRedo()', () => {
+		const profile = create().enableHistory();
+		profile.tags.add('b');
+		expect(profile.canUndo()).toBe(true);
+
+		profile.undo();
+		expect(profile.canRedo()).toBe(true);
+		profile.tags.add('c');
+		expect(profile.canRedo()).toBe(false);
+		expect(profile.redo()).toBeUndefined();
+		expect([...profile.tags]).toEqual(['a', 'c']);
+	});
+
+	test('Should keep at most limit steps', () => {
+		const profile = create().enableHistory({ limit: 2 });
+		for (const name of ['B', 'C', 'D']) {
+			profile.firstName = name;
+		}
+
+		profile.undo();
+		profile.undo();
+		expect(profile.firstName).toBe('B');
+		expect(profile.undo()).toBeUndefined();
+	});
+});
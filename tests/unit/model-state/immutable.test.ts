@@ -0,0 +1,169 @@
+/**
+ * Unit Test: Immutable models
+ *
+ * Tests freeze() and { immutable: true } (setters, updates and read-only views
+ * of Map / Set / typed-array fields) and with() sharing unchanged nested models
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { QModel, Quick, QType, ImmutableModelError } from '../../../src';
+
+describe('Unit: Immutable models', () => {
+	interface IAddress {
+		city: string;
+	}
+
+	class Address extends QModel<IAddress> {
+		@QType() city!: string;
+	}
+
+	interface IUser {
+		name: string;
+		roles: string[];
+		prefs: Record<string, unknown>;
+		avatar: number[];
+		address: IAddress;
+	}
+
+	@Quick({ roles: Set, prefs: Map, avatar: Uint8Array })
+	class User extends QModel<IUser> {
+		@QType() name!: string;
+		roles!: Set<string>;
+		prefs!: Map<string, unknown>;
+		avatar!: Uint8Array;
+		@QType(Address) address!: Address;
+	}
+
+	@Quick({ roles: Set, prefs: Map, avatar: Uint8Array }, { immutable: true })
+	class FrozenUser extends QModel<IUser> {
+		@QType() name!: string;
+		roles!: Set<string>;
+		prefs!: Map<string, unknown>;
+		avatar!: Uint8Array;
+		@QType(Address) address!: Address;
+	}
+
+	const data = (): IUser => ({
+		name: 'Ann',
+		roles: ['editor'],
+		prefs: { theme: 'dark' },
+		avatar: [1, 2, 3],
+		address: { city: 'Lima' },
+	});
+
+	test('Should make setters and updates throw once frozen', () => {
+		const user = new User(data()).freeze();
+
+		expect(user.isFrozen()).toBe(true);
+		expect(() => (user.name = 'Bob')).toThrow(ImmutableModelError);
+		expect(() => (user.address.city = 'Cusco')).toThrow(ImmutableModelError);
+		expect(() => user.patch({ name: 'Bob' })).toThrow(ImmutableModelError);
+		expect(() => user.reset()).toThrow(ImmutableModelError);
+		expect(user.name).toBe('Ann');
+		expect(user.address.city).toBe('Lima');
+	});
+
+	test('Should wrap Map, Set and typed-array fields in read-only views', () => {
+		const user = new User(data()).freeze();
+
+		expect(user.roles).toBeInstanceOf(Set);
+		expect(user.roles.has('editor')).toBe(true);
+		expect(user.prefs.get('theme')).toBe('dark');
+		expect(Array.from(user.avatar)).toEqual([1, 2, 3]);
+		expect(user.serialize()).toEqual(new User(data()).serialize());
+
+		expect(() => user.roles.add('admin')).toThrow('User.roles: add() is not allowed on a frozen model');
+		expect(() => user.prefs.clear()).toThrow(ImmutableModelError);
+		expect(() => user.avatar.fill(0)).toThrow(ImmutableModelError);
+		expect(() => (user.avatar[0] = 9)).toThrow(ImmutableModelError);
+		expect(user.roles.size).toBe(1);
+	});
+
+	test('Should freeze instances of immutable classes on construction', () => {
+		const user = new FrozenUser(data());
+		const deserialized = FrozenUser.deserialize(data());
+
+		expect(user.isFrozen()).toBe(true);
+		expect(deserialized.isFrozen()).toBe(true);
+		expect(() => (user.name = 'Bob')).toThrow(ImmutableModelError);
+
+		let error: unknown;
+		try {
+			deserialized.roles.delete('editor');
+		} catch (caught) {
+			error = caught;
+		}
+		expect(error).toBeInstanceOf(ImmutableModelError);
+		expect((error as ImmutableModelError).path).toBe('/roles');
+	});
+
+	test('Should construct immutable classes with array and plain-object fields', () => {
+		@Quick({ tags: [String] }, { immutable: true })
+		class Note extends QModel<{ tags: string[]; extra: Record<string, unknown> }> {
+			tags!: string[];
+			@QType() extra!: Record<string, unknown>;
+		}
+
+		const note = new Note({ tags: ['x'], extra: { pinned: true } });
+
+		expect(note.tags).toEqual(['x']);
+		expect(Object.isFrozen(note.tags)).toBe(true);
+		expect(Object.isFrozen(note.extra)).toBe(true);
+		expect(() => (note.tags as string[]).push('y')).toThrow(TypeError);
+		expect(note.with({ tags: ['y'] }).tags).toEqual(['y']);
+	});
+
+	test('Should return updated copies from with(), sharing unchanged nested models', () => {
+		const user = new FrozenUser(data());
+		const renamed = user.with({ name: 'Bob' });
+
+		expect(renamed).toBeInstanceOf(FrozenUser);
+		expect(renamed).not.toBe(user);
+		expect(renamed.name).toBe('Bob');
+		expect(user.name).toBe('Ann');
+		expect(renamed.address).toBe(user.address);
+		expect(renamed.roles).toBe(user.roles);
+		expect(renamed.isFrozen()).toBe(true);
+
+		const moved = renamed.with({ address: { city: 'Cusco' } });
+		expect(moved.address).not.toBe(renamed.address);
+		expect(moved.address.city).toBe('Cusco');
+		expect(moved.name).toBe('Bob');
+	});
+
+	test('Should keep mutable models mutable in with() copies', () => {
+		const user = new User(data());
+		const copy = user.with({ name: 'Bob' });
+
+		copy.name = 'Eve';
+		expect(copy.isFrozen()).toBe(false);
+		expect(user.name).toBe('Ann');
+	});
+
+	test('Should not share nested models of mutable models in with() copies', () => {
+		const user = new User(data());
+		const events: string[] = [];
+		user.on('change', ({ path }) => events.push(path));
+
+		const copy = user.with({ name: 'Bob' });
+		copy.address.city = 'Cusco';
+		copy.roles.add('admin');
+
+		expect(copy.address).not.toBe(user.address);
+		expect(user.address.city).toBe('Lima');
+		expect([...user.roles]).toEqual(['editor']);
+		expect(events).toEqual([]);
+	});
+
+	test('Should not link shared nested models to every with() copy', () => {
+		let user = new FrozenUser(data());
+		const address = user.address as unknown as { __owners?: unknown[] };
+		const owners = address.__owners?.length ?? 0;
+
+		for (let index = 0; index < 100; index++) {
+			user = user.with({ name: `User ${index}` });
+		}
+		expect(user.address).toBe(address as unknown as Address);
+		expect(address.__owners?.length ?? 0).toBe(owners);
+	});
+});
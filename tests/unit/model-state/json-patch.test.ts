@@ -0,0 +1,175 @@
+/**
+ * Unit Test: JSON Patch
+ *
+ * Tests getPatch() paths into nested models, arrays, Maps and Sets,
+ * and applyPatch() through the deserializer
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { QModel, Quick, QType, Min, PatchError, ValidationError } from '../../../src';
+
+describe('Unit: JSON Patch', () => {
+	interface IItem {
+		sku: string;
+		qty: number;
+	}
+
+	class Item extends QModel<IItem> {
+		@QType() sku!: string;
+		@QType() @Min(1) qty!: number;
+	}
+
+	interface IOrder {
+		placed_at: string;
+		items: IItem[];
+	}
+
+	@Quick({ placedAt: Date, items: Item }, { naming: 'snake_case' })
+	class Order extends QModel<IOrder> {
+		placedAt!: Date;
+		items!: Item[];
+	}
+
+	interface ICustomer {
+		name: string;
+		note?: string;
+		orders: IOrder[];
+		meta: Record<string, unknown>;
+		tags: string[];
+	}
+
+	@Quick({ orders: Order, meta: Map, tags: Set }, { validate: 'throw' })
+	class Customer extends QModel<ICustomer> {
+		@QType() name!: string;
+		@QType() note?: string;
+		orders!: Order[];
+		meta!: Map<string, unknown>;
+		tags!: Set<string>;
+	}
+
+	const data = (): ICustomer => ({
+		name: 'Ann',
+		note: 'first order',
+		orders: [{ placed_at: '2024-01-01T00:00:00.000Z', items: [{ sku: 'A', qty: 1 }] }],
+		meta: { color: 'red', size: 2 },
+		tags: ['new'],
+	});
+
+	test('Should return no operations for an unchanged model', () => {
+		expect(new Customer(data()).getPatch()).toEqual([]);
+	});
+
+	test('Should point at the innermost change of nested models, arrays, Maps and Sets', () => {
+		const customer = new Customer(data());
+		customer.orders[0]!.items[0]!.qty = 3;
+		customer.orders[0]!.items.push(new Item({ sku: 'B', qty: 1 }));
+		customer.orders[0]!.placedAt = new Date('2024-02-01T00:00:00.000Z');
+		customer.meta.set('color', 'blue');
+		customer.meta.delete('size');
+		customer.tags.add('vip');
+		customer.note = undefined;
+
+		expect(customer.getPatch()).toEqual([
+			{ op: 'remove', path: '/note' },
+			{ op: 'replace', path: '/orders/0/placed_at', value: '2024-02-01T00:00:00.000Z' },
+			{ op: 'replace', path: '/orders/0/items/0/qty', value: 3 },
+			{ op: 'add', path: '/orders/0/items/1', value: { sku: 'B', qty: 1 } },
+			{ op: 'remove', path: '/meta/size' },
+			{ op: 'replace', path: '/meta/color', value: 'blue' },
+			{ op: 'add', path: '/tags/1', value: 'vip' },
+		]);
+	});
+
+	test('Should replay a patch on another instance of the same state', () => {
+		const original = new Customer(data());
+		original.orders[0]!.items.splice(0, 1, new Item({ sku: 'C', qty: 5 }));
+		original.meta.set('gift', true);
+		original.tags.delete('new');
+		original.note = undefined;
+
+		const replica = new Customer(data());
+		replica.applyPatch(original.getPatch());
+
+		expect(replica.serialize()).toEqual(original.serialize());
+		expect(replica.note).toBeUndefined();
+		expect(replica.orders[0]!.items[0]).toBeInstanceOf(Item);
+		expect(replica.meta).toEqual(new Map<string, unknown>([['color', 'red'], ['size', 2], ['gift', true]]));
+		expect(replica.tags).toEqual(new Set());
+	});
+
+	test('Should support every RFC 6902 operation', () => {
+		const customer = new Customer(data());
+		customer.applyPatch([
+			{ op: 'test', path: '/name', value: 'Ann' },
+			{ op: 'copy', from: '/orders/0', path: '/orders/-' },
+			{ op: 'move', from: '/meta/color', path: '/meta/colour' },
+			{ op: 'add', path: '/orders/1/placed_at', value: '2024-03-01T00:00:00.000Z' },
+			{ op: 'add', path: '/tags/0', value: 'vip' },
+		]);
+
+		expect(customer.orders).toHaveLength(2);
+		expect(customer.orders[1]!.placedAt).toEqual(new Date('2024-03-01T00:00:00.000Z'));
+		expect(customer.orders[0]!.placedAt).toEqual(new Date('2024-01-01T00:00:00.000Z'));
+		expect([...customer.meta.keys()]).toEqual(['size', 'colour']);
+		expect([...customer.tags]).toEqual(['vip', 'new']);
+	});
+
+	test('Should leave the model unchanged when an operation or the result is invalid', () => {
+		const customer = new Customer(data());
+		const before = customer.serialize();
+
+		expect(() => customer.applyPatch([
+			{ op: 'replace', path: '/name', value: 'Bob' },
+			{ op: 'test', path: '/tags/0', value: 'vip' },
+		])).toThrow(PatchError);
+		expect(() => customer.applyPatch([{ op: 'remove', path: '/orders/3' }])).toThrow('Path "/orders/3" does not exist');
+
+		// Values are converted and validated again ({ validate: 'throw' })
+		for (const value of ['many', 0]) {
+			try {
+				customer.applyPatch([{ op: 'replace', path: '/orders/0/items/0/qty', value }]);
+				throw new Error('Expected a ValidationError');
+			} catch (error) {
+				expect(error).toBeInstanceOf(ValidationError);
+				expect((error as ValidationError).errors[0]!.path).toBe('/orders/0/items/0/qty');
+			}
+		}
+		expect(customer.serialize()).toEqual(before);
+	});
+
+	test('Should reject paths that reach object prototypes', () => {
+		const customer = new Customer(data());
+
+		for (const path of ['/__proto__/polluted', '/meta/constructor/prototype/polluted', '/orders/0/__proto__']) {
+			expect(() => customer.applyPatch([{ op: 'add', path, value: 1 }])).toThrow(PatchError);
+		}
+		expect(() => customer.applyPatch([{ op: 'replace', path: '/meta/toString', value: 1 }])).toThrow(
+			'Path "/meta/toString" does not exist'
+		);
+		expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+		expect(customer.serialize()).toEqual(new Customer(data()).serialize());
+	});
+
+	test('Should keep the type of Map keys', () => {
+		@Quick({ stock: Map, limits: Map })
+		class Warehouse extends QModel<{ stock: [number, number][]; limits: [bigint, string][] }> {
+			stock!: Map<number, number>;
+			limits!: Map<bigint, string>;
+		}
+
+		const warehouse = new Warehouse({ stock: [[1, 10], [2, 20]], limits: [[5n, 'low']] });
+		warehouse.applyPatch([
+			{ op: 'replace', path: '/stock/1', value: 11 },
+			{ op: 'add', path: '/stock/3', value: 30 },
+			{ op: 'add', path: '/limits/10', value: 'high' },
+		]);
+
+		expect(warehouse.stock).toEqual(new Map([[1, 11], [2, 20], [3, 30]]));
+		expect(warehouse.limits).toEqual(new Map([[5n, 'low'], [10n, 'high']]));
+
+		const base = new Warehouse({ stock: [[1, 10]], limits: [] });
+		const local = new Warehouse({ stock: [[1, 10], [2, 5]], limits: [] });
+		const { model } = Warehouse.merge(base, local, base);
+		expect(model.stock).toEqual(new Map([[1, 10], [2, 5]]));
+	});
+});
@@ -0,0 +1,135 @@
+/**
+ * Unit Test: Three-way merge
+ *
+ * Tests QModel.merge() with scalar conflicts and strategies, Set union,
+ * per-key Map merges and arrays of nested models matched by identity
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { QModel, Quick, QType } from '../../../src';
+
+describe('Unit: Three-way merge', () => {
+	interface ILine {
+		id: string;
+		sku: string;
+		qty: number;
+	}
+
+	class Line extends QModel<ILine> {
+		@QType() id!: string;
+		@QType() sku!: string;
+		@QType() qty!: number;
+	}
+
+	interface IOrder {
+		status: string;
+		note: string;
+		tags: string[];
+		meta: Record<string, unknown>;
+		lines: ILine[];
+	}
+
+	@Quick({ tags: Set, meta: Map, lines: Line })
+	class Order extends QModel<IOrder> {
+		@QType() status!: string;
+		@QType() note!: string;
+		tags!: Set<string>;
+		meta!: Map<string, unknown>;
+		lines!: Line[];
+	}
+
+	const base = (): IOrder => ({
+		status: 'open',
+		note: 'Leave at the door',
+		tags: ['gift', 'fragile'],
+		meta: { color: 'red', size: 'M' },
+		lines: [
+			{ id: 'a', sku: 'A-1', qty: 1 },
+			{ id: 'b', sku: 'B-1', qty: 1 },
+		],
+	});
+
+	test('Should take the changes of each side and report conflicts', () => {
+		const local = new Order(base());
+		local.note = 'Ring twice';
+		local.status = 'paid';
+		const remote = { ...base(), status: 'cancelled' };
+
+		const { model, conflicts } = Order.merge(base(), local, remote);
+
+		expect(model).toBeInstanceOf(Order);
+		expect(model.note).toBe('Ring twice');
+		expect(model.status).toBe('paid');
+		expect(conflicts).toEqual([{ path: '/status', base: 'open', local: 'paid', remote: 'cancelled' }]);
+	});
+
+	test('Should resolve conflicts with the remote side when asked', () => {
+		const { model, conflicts } = Order.merge(
+			base(),
+			{ ...base(), status: 'paid' },
+			{ ...base(), status: 'cancelled' },
+			{ strategy: 'remote' }
+		);
+
+		expect(model.status).toBe('cancelled');
+		expect(conflicts).toHaveLength(1);
+	});
+
+	test('Should merge Sets by union of the additions and apply removals', () => {
+		const { model, conflicts } = Order.merge(
+			base(),
+			{ ...base(), tags: ['gift', 'express'] },
+			{ ...base(), tags: ['gift', 'fragile', 'priority'] }
+		);
+
+		expect([...model.tags]).toEqual(['gift', 'express', 'priority']);
+		expect(conflicts).toEqual([]);
+	});
+
+	test('Should merge Maps key by key', () => {
+		const { model, conflicts } = Order.merge(
+			base(),
+			{ ...base(), meta: { color: 'blue', size: 'M' } },
+			{ ...base(), meta: { color: 'green', size: 'L', gift: true } }
+		);
+
+		expect(Object.fromEntries(model.meta)).toEqual({ color: 'blue', size: 'L', gift: true });
+		expect(conflicts).toEqual([{ path: '/meta/color', base: 'red', local: 'blue', remote: 'green' }]);
+	});
+
+	test('Should merge arrays of nested models by identity', () => {
+		const local = new Order(base());
+		local.lines[0]!.qty = 2;
+		local.lines.push(new Line({ id: 'c', sku: 'C-1', qty: 1 }));
+
+		const remote = base();
+		remote.lines = [
+			{ id: 'd', sku: 'D-1', qty: 5 },
+			{ id: 'a', sku: 'A-2', qty: 1 },
+		];
+
+		const { model, conflicts } = Order.merge(base(), local, remote);
+
+		expect(model.lines.every((line) => line instanceof Line)).toBe(true);
+		expect(model.lines.map((line) => line.toInterface())).toEqual([
+			{ id: 'a', sku: 'A-2', qty: 2 },
+			{ id: 'c', sku: 'C-1', qty: 1 },
+			{ id: 'd', sku: 'D-1', qty: 5 },
+		]);
+		expect(conflicts).toEqual([]);
+	});
+
+	test('Should report an item edited on one side and removed on the other', () => {
+		const { model, conflicts } = Order.merge(
+			base(),
+			{ ...base(), lines: [{ id: 'a', sku: 'A-1', qty: 3 }, { id: 'b', sku: 'B-1', qty: 1 }] },
+			{ ...base(), lines: [{ id: 'b', sku: 'B-1', qty: 1 }] },
+			{ strategy: 'remote' }
+		);
+
+		expect(model.lines.map((line) => line.id)).toEqual(['b']);
+		expect(conflicts).toEqual([
+			{ path: '/lines/0', base: { id: 'a', sku: 'A-1', qty: 1 }, local: { id: 'a', sku: 'A-1', qty: 3 }, remote: undefined },
+		]);
+	});
+});
@@ -0,0 +1,161 @@
+/**
+ * Unit Test: QDecimal
+ *
+ * Tests exact decimal arithmetic, scale and rounding modes, the 'decimal' QType alias
+ * (serialized as strings), mock generation and the money helpers
+ */
+
+import { describe, test, expect, afterEach } from 'bun:test';
+import { QModel, Quick, QType, QDecimal, DecimalTransformer, DeserializationError } from '../../../src';
+import type { Serialized } from '../../../src/core/interfaces/serialization-types.interface';
+import { tax, discount, vat, formatCurrency } from '../../../src/core/helpers/transform-helpers';
+
+describe('Unit: QDecimal', () => {
+	interface ICartLine {
+		sku: string;
+		price: string;
+		quantity: number;
+		discount: string;
+	}
+
+	@Quick({ price: QDecimal })
+	class CartLine extends QModel<ICartLine> {
+		sku!: string;
+		price!: QDecimal;
+		quantity!: number;
+		@QType('decimal') discount!: QDecimal;
+
+		total(): QDecimal {
+			return this.price.times(this.quantity).minus(this.discount);
+		}
+	}
+
+	afterEach(() => {
+		QDecimal.configure({ scale: 2, rounding: 'half-up' });
+	});
+
+	test('Should add, subtract and multiply without drift', () => {
+		expect(QDecimal.from(0.1).plus(0.2).toString()).toBe('0.3');
+		expect(QDecimal.from('1.10').minus('0.20').toString()).toBe('0.90');
+		expect(QDecimal.from('19.99').times(3).toString()).toBe('59.97');
+		expect(QDecimal.sum('0.10', '0.10', '0.10').equals('0.3')).toBe(true);
+		expect(QDecimal.from('1e-3').toString()).toBe('0.001');
+		expect(QDecimal.from('-2.5E2').toString()).toBe('-250');
+		expect(new QDecimal(1999n, 2).plus(new QDecimal('0.01')).toString()).toBe('20.00');
+		expect(QDecimal.from(123456789012345678901234567890n).times('0.5').toString()).toBe(
+			'61728394506172839450617283945.0'
+		);
+	});
+
+	test('Should compare by value', () => {
+		expect(QDecimal.from('1.50').equals('1.5')).toBe(true);
+		expect(QDecimal.from('-0.01').compare(0)).toBe(-1);
+		expect(QDecimal.from('10').compare('9.99')).toBe(1);
+		expect(QDecimal.from('-3.2').abs().toString()).toBe('3.2');
+		expect(QDecimal.from('0.00').isZero()).toBe(true);
+	});
+
+	test('Should round with each rounding mode', () => {
+		const round = (value: string, rounding: Parameters<QDecimal['round']>[1]) =>
+			QDecimal.from(value).round(2, rounding).toString();
+
+		expect(['2.345', '-2.345', '2.355'].map((v) => round(v, 'half-up'))).toEqual(['2.35', '-2.35', '2.36']);
+		expect(['2.345', '-2.345', '2.346'].map((v) => round(v, 'half-down'))).toEqual(['2.34', '-2.34', '2.35']);
+		expect(['2.345', '2.355', '-2.345'].map((v) => round(v, 'half-even'))).toEqual(['2.34', '2.36', '-2.34']);
+		expect(['2.341', '-2.341'].map((v) => round(v, 'up'))).toEqual(['2.35', '-2.35']);
+		expect(['2.349', '-2.349'].map((v) => round(v, 'down'))).toEqual(['2.34', '-2.34']);
+		expect(['2.341', '-2.349'].map((v) => round(v, 'ceil'))).toEqual(['2.35', '-2.34']);
+		expect(['2.349', '-2.341'].map((v) => round(v, 'floor'))).toEqual(['2.34', '-2.35']);
+		expect(QDecimal.from('7').round(2).toString()).toBe('7.00');
+	});
+
+	test('Should divide to the configured scale and rounding', () => {
+		expect(QDecimal.from(10).dividedBy(3).toString()).toBe('3.33');
+		expect(QDecimal.from(2).dividedBy(3).toString()).toBe('0.67');
+		expect(QDecimal.from('1').dividedBy('0.3', 4, 'down').toString()).toBe('3.3333');
+
+		QDecimal.configure({ scale: 4, rounding: 'floor' });
+		expect(QDecimal.from(2).dividedBy(3).toString()).toBe('0.6666');
+		expect(QDecimal.from('-1.23456').toFixed()).toBe('-1.2346');
+
+		expect(() => QDecimal.from(1).dividedBy('0.00')).toThrow(RangeError);
+	});
+
+	test('Should reject invalid decimals', () => {
+		expect(() => QDecimal.from('12.3.4')).toThrow(SyntaxError);
+		expect(() => QDecimal.from('.')).toThrow(SyntaxError);
+		expect(() => QDecimal.from(Number.NaN)).toThrow(RangeError);
+		expect(QDecimal.isDecimal('.5')).toBe(true);
+		expect(QDecimal.isDecimal('abc')).toBe(false);
+	});
+
+	test('Should reject strings beyond 1000 digits or an exponent of ±1000', () => {
+		expect(() => QDecimal.from('1e400000000')).toThrow(SyntaxError);
+		expect(() => QDecimal.from('1e-400000000')).toThrow(SyntaxError);
+		expect(() => QDecimal.from('9'.repeat(1001))).toThrow(SyntaxError);
+		expect(QDecimal.isDecimal('1e1001')).toBe(false);
+		expect(QDecimal.from('1e1000').toString()).toBe(`1${'0'.repeat(1000)}`);
+		expect(QDecimal.from(`0.${'1'.repeat(999)}`).scale).toBe(999);
+		expect(() => new CartLine({ sku: 'A-1', price: '1e400000000', quantity: 1, discount: '0' })).toThrow(
+			DeserializationError
+		);
+	});
+
+	test('Should read decimals and write them back as strings', () => {
+		const line = new CartLine({ sku: 'A-1', price: '19.90', quantity: 3, discount: '0.10' });
+
+		expect(line.price).toBeInstanceOf(QDecimal);
+		expect(line.discount).toBeInstanceOf(QDecimal);
+		expect(line.total().toString()).toBe('59.60');
+		expect(line.serialize()).toEqual({ sku: 'A-1', price: '19.90', quantity: 3, discount: '0.10' });
+		expect(CartLine.fromJSON(line.toJSON()).price.toString()).toBe('19.90');
+		expect(new CartLine({ ...line.serialize(), price: 0.3 as any }).price.toString()).toBe('0.3');
+
+		const serialized: Serialized<QDecimal> = line.serialize().price;
+		expect(typeof serialized).toBe('string');
+	});
+
+	test('Should round fields to the scale of a configured transformer', () => {
+		const cents = new DecimalTransformer({ scale: 2, rounding: 'half-even' });
+
+		@Quick({ amount: QDecimal }, { transformers: { decimal: cents } })
+		class Payment extends QModel<{ amount: string }> {
+			amount!: QDecimal;
+		}
+
+		const payment = new Payment({ amount: '10.125' });
+		expect(payment.amount.toString()).toBe('10.12');
+
+		payment.amount = QDecimal.from('3.5');
+		expect(payment.serialize().amount).toBe('3.50');
+	});
+
+	test('Should throw DeserializationError for invalid decimal data', () => {
+		expect(() => new CartLine({ sku: 'A-1', price: 'free', quantity: 1, discount: '0' })).toThrow(
+			DeserializationError
+		);
+		expect(() => new CartLine({ sku: 'A-1', price: '1', quantity: 1, discount: {} as any })).toThrow(
+			'Invalid decimal value object'
+		);
+	});
+
+	test('Should describe decimal fields in the JSON schema', () => {
+		expect(CartLine.toJSONSchema().properties?.price).toEqual({ type: 'string', pattern: '^-?\\d+(\\.\\d+)?$' });
+	});
+
+	test('Should generate decimal mocks', () => {
+		expect(CartLine.mock().sample().price.toString()).toBe('19.99');
+		expect(CartLine.mock().empty().discount.isZero()).toBe(true);
+		expect(CartLine.mock().random().price).toBeInstanceOf(QDecimal);
+	});
+
+	test('Should compute money helpers exactly', () => {
+		expect(tax(0.1)(0.2)).toBe(0.02);
+		expect(vat(19.99)).toBe(4.1979);
+		expect(discount(0.15)(19.9)).toBe(16.915);
+		expect(discount('0.15')('19.90').toFixed()).toBe('16.92');
+		expect(vat(QDecimal.from('100')).toString()).toBe('21.00');
+		expect(formatCurrency('€')(QDecimal.from('1.005'))).toBe('€1.01');
+		expect(formatCurrency()(1.005)).toBe('$1.01');
+	});
+});
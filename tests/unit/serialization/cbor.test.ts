@@ -0,0 +1,232 @@
+/**
+ * Unit Test: CBOR
+ *
+ * Tests toCBOR()/fromCBOR() round trips of every supported field type, the
+ * standard tags of dates, bignums, URLs, regular expressions, Sets and typed
+ * arrays, and decoding of indefinite lengths, half floats and errors
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { QModel, QType, DeserializationError } from '../../../src';
+import { CborService } from '../../../src/core/services/cbor.service';
+
+describe('Unit: CBOR', () => {
+	enum Role {
+		Admin = 'ADMIN',
+		User = 'USER',
+	}
+
+	enum Priority {
+		Low = 1,
+		High = 3,
+	}
+
+	interface INested {
+		name: string;
+		value: number;
+	}
+
+	class Nested extends QModel<INested> {
+		@QType() name!: string;
+		@QType() value!: number;
+	}
+
+	interface IDevice {
+		id: string;
+		count: number;
+		active: boolean;
+		nothing: null;
+		optional?: string;
+		amount: string;
+		key: string;
+		pattern: { source: string; flags: string };
+		errorData: { message: string; name: string; stack?: string };
+		createdAt: string;
+		homepage: string;
+		queryParams: string;
+		int8Data: number[];
+		uint8Data: number[];
+		float32Data: number[];
+		bigInt64Data: string[];
+		buffer: number[];
+		view: number[];
+		tags: string[];
+		settings: Record<string, string>;
+		items: string[];
+		role: string;
+		priority: number;
+		metadata: { author: string; version: string };
+		nested?: INested | null;
+	}
+
+	class Device extends QModel<IDevice> {
+		@QType() id!: string;
+		@QType() count!: number;
+		@QType() active!: boolean;
+		@QType() nothing!: null;
+		@QType() optional?: string;
+		@QType(BigInt) amount!: bigint;
+		@QType(Symbol) key!: symbol;
+		@QType(RegExp) pattern!: RegExp;
+		@QType(Error) errorData!: Error;
+		@QType() createdAt!: Date;
+		@QType(URL) homepage!: URL;
+		@QType(URLSearchParams) queryParams!: URLSearchParams;
+		@QType(Int8Array) int8Data!: Int8Array;
+		@QType(Uint8Array) uint8Data!: Uint8Array;
+		@QType(Float32Array) float32Data!: Float32Array;
+		@QType(BigInt64Array) bigInt64Data!: BigInt64Array;
+		@QType(ArrayBuffer) buffer!: ArrayBuffer;
+		@QType(DataView) view!: DataView;
+		@QType() tags!: string[];
+		@QType() settings!: Map<string, string>;
+		@QType() items!: Set<string>;
+		@QType() role!: Role;
+		@QType() priority!: Priority;
+		@QType() metadata!: { author: string; version: string };
+		@QType(Nested) nested?: Nested | null;
+	}
+
+	const data = (): IDevice => ({
+		id: 'test-123',
+		count: 42,
+		active: true,
+		nothing: null,
+		optional: 'present',
+		amount: '9007199254740991',
+		key: 'testKey',
+		pattern: { source: '^test', flags: 'gi' },
+		errorData: { message: 'Test error', name: 'TestError', stack: 'at test()' },
+		createdAt: '2024-01-01T00:00:00.000Z',
+		homepage: 'https://example.com/path?query=value',
+		queryParams: 'foo=bar&baz=qux',
+		int8Data: [-128, 0, 127],
+		uint8Data: [0, 128, 255],
+		float32Data: [1.5, 2.7, 3.9],
+		bigInt64Data: ['9007199254740991', '-9007199254740991'],
+		buffer: [1, 2, 3, 4],
+		view: [10, 20, 30],
+		tags: ['typescript', 'solid', 'testing'],
+		settings: { theme: 'dark', lang: 'es' },
+		items: ['item1', 'item2', 'item3'],
+		role: Role.Admin,
+		priority: Priority.High,
+		metadata: { author: 'Cartago', version: '1.0.0' },
+		nested: { name: 'Nested Item', value: 999 },
+	});
+
+	const hex = (bytes: Uint8Array): string => Buffer.from(bytes).toString('hex');
+
+	test('Should round-trip every supported field type', () => {
+		const device = new Device(data());
+		const copy = Device.fromCBOR(device.toCBOR());
+
+		expect(copy).toBeInstanceOf(Device);
+		expect(copy.amount).toBe(9007199254740991n);
+		expect(Symbol.keyFor(copy.key)).toBe('testKey');
+		expect(copy.pattern).toEqual(/^test/gi);
+		expect(copy.errorData).toBeInstanceOf(Error);
+		expect(copy.errorData.message).toBe('Test error');
+		expect(copy.createdAt.toISOString()).toBe('2024-01-01T00:00:00.000Z');
+		expect(copy.homepage.href).toBe('https://example.com/path?query=value');
+		expect(copy.queryParams.get('foo')).toBe('bar');
+		expect(copy.int8Data).toEqual(new Int8Array([-128, 0, 127]));
+		expect(copy.uint8Data).toEqual(new Uint8Array([0, 128, 255]));
+		expect(copy.float32Data).toEqual(new Float32Array([1.5, 2.7, 3.9]));
+		expect(copy.bigInt64Data).toEqual(new BigInt64Array([9007199254740991n, -9007199254740991n]));
+		expect(new Uint8Array(copy.buffer)).toEqual(new Uint8Array([1, 2, 3, 4]));
+		expect(copy.view).toBeInstanceOf(DataView);
+		expect(copy.view.getUint8(2)).toBe(30);
+		expect(copy.settings).toEqual(new Map([['theme', 'dark'], ['lang', 'es']]));
+		expect(copy.items).toEqual(new Set(['item1', 'item2', 'item3']));
+		expect(copy.role).toBe(Role.Admin);
+		expect(copy.priority).toBe(Priority.High);
+		expect(copy.nested).toBeInstanceOf(Nested);
+		expect(copy.serialize()).toEqual(device.serialize());
+	});
+
+	test('Should write dates, URLs, regular expressions, Sets and Maps with their CBOR types', () => {
+		const bytes = hex(new Device(data()).toCBOR());
+
+		// tag 1 with the epoch seconds of createdAt
+		expect(bytes).toContain(`c11a${(1704067200).toString(16)}`);
+		// tag 32 with the URL text
+		expect(bytes).toContain(`d820${hex(new TextEncoder().encode('\x78\x24https://example.com/'))}`);
+		// tag 21066 with [source, flags], since the pattern has flags
+		expect(bytes).toContain('d9524a82');
+		// tag 258 with the 3 items
+		expect(bytes).toContain('d9010283');
+		// settings as a map of 2 entries, not {__type: 'Map', entries}
+		expect(bytes).toContain(`a2${hex(new TextEncoder().encode('\x65theme'))}`);
+		expect(bytes).not.toContain(hex(new TextEncoder().encode('entries')));
+	});
+
+	test('Should write typed arrays with RFC 8746 tags and big bigints as bignums', () => {
+		const device = new Device(data());
+		device.amount = 2n ** 64n;
+		const bytes = hex(device.toCBOR());
+
+		// Int8Array (tag 72) and Uint8Array (tag 64)
+		expect(bytes).toContain('d8484380007f');
+		expect(bytes).toContain('d840430080ff');
+		// Float32Array, little-endian (tag 85); BigInt64Array, little-endian (tag 79)
+		expect(bytes).toContain('d8554c');
+		expect(bytes).toContain('d84f50');
+		// tag 2 with the 9 bytes of 2^64
+		expect(bytes).toContain('c249010000000000000000');
+		expect(Device.fromCBOR(device.toCBOR()).amount).toBe(2n ** 64n);
+	});
+
+	test('Should read what other encoders send: tag 0 dates, big-endian arrays, indefinite lengths and half floats', () => {
+		class Reading extends QModel<{ at: string; samples: number[]; level: number; tags: string[] }> {
+			@QType() at!: Date;
+			@QType(Uint16Array) samples!: Uint16Array;
+			@QType() level!: number;
+			@QType() tags!: string[];
+		}
+
+		const bytes = Buffer.from(
+			[
+				'bf', // indefinite map
+				'62', '6174', // "at"
+				'c0', '74', Buffer.from('2024-05-01T12:00:00Z').toString('hex'), // tag 0
+				'67', Buffer.from('samples').toString('hex'),
+				'd841', '44', '0001', '0100', // tag 65 (uint16, big-endian): [1, 256]
+				'65', Buffer.from('level').toString('hex'),
+				'f9', '3e00', // half float 1.5
+				'64', Buffer.from('tags').toString('hex'),
+				'9f', '7f', '61', '61', '61', '62', 'ff', 'ff', // ["ab"] with chunked text
+				'ff',
+			].join(''),
+			'hex'
+		);
+		const reading = Reading.fromCBOR(bytes);
+
+		expect(reading.at.toISOString()).toBe('2024-05-01T12:00:00.000Z');
+		expect(reading.samples).toEqual(new Uint16Array([1, 256]));
+		expect(reading.level).toBe(1.5);
+		expect(reading.tags).toEqual(['ab']);
+	});
+
+	test('Should reject bytes that are not a valid CBOR map', () => {
+		expect(() => Device.fromCBOR(new Uint8Array([0x83, 1, 2, 3]))).toThrow(DeserializationError);
+		expect(() => Device.fromCBOR(new Uint8Array([0xa1, 0x61]))).toThrow('Unexpected end of data');
+		expect(() => Device.fromCBOR(new Uint8Array([0xa1, 0x61, 0x61, 0xd9, 0x01, 0x00, 0x00]))).toThrow(
+			'Unsupported tag 256'
+		);
+		expect(() => Device.fromCBOR(new Uint8Array([0xa1, 0x61, 0x61, 0xd8, 0x46, 0x43, 1, 2, 3]))).toThrow(
+			'not a whole number of Uint32Array elements'
+		);
+	});
+
+	test('Should reject arrays, maps and tags nested deeper than 512 levels', () => {
+		const codec = new CborService();
+		const nested = (depth: number, head: number[]) =>
+			new Uint8Array([...Array.from({ length: depth }, () => head).flat(), 0xf6]);
+
+		expect(() => codec.decode(nested(200_000, [0x81]))).toThrow(DeserializationError);
+		expect(() => codec.decode(nested(200_000, [0xd9, 0xd9, 0xf7]))).toThrow('Nesting deeper than 512 levels');
+		expect(() => codec.decode(nested(513, [0xa1, 0x61, 0x61]))).toThrow('Nesting deeper than 512 levels');
+		expect(() => codec.decode(nested(512, [0x81]))).not.toThrow();
+	});
+});
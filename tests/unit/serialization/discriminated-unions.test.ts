@@ -0,0 +1,111 @@
+/**
+ * Unit Test: Discriminated unions
+ *
+ * Tests polymorphic nested models selected by a tag in the data,
+ * in both directions
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { QModel, Quick, QType, Min, DeserializationError, SerializationError } from '../../../src';
+
+describe('Unit: Discriminated unions', () => {
+	interface ICardPayment {
+		kind: 'card';
+		amount: number;
+		last4: string;
+	}
+
+	interface IBankTransfer {
+		kind: 'bank';
+		amount: number;
+		iban: string;
+		sentAt: string;
+	}
+
+	type IPayment = ICardPayment | IBankTransfer;
+
+	class CardPayment extends QModel<ICardPayment> {
+		@QType() kind!: 'card';
+		@Min(0) @QType() amount!: number;
+		@QType() last4!: string;
+	}
+
+	@Quick({ sentAt: Date })
+	class BankTransfer extends QModel<IBankTransfer> {
+		kind!: 'bank';
+		amount!: number;
+		iban!: string;
+		sentAt!: Date;
+	}
+
+	const payments = { discriminator: 'kind', map: { card: CardPayment, bank: BankTransfer } };
+
+	interface IOrder {
+		payments: IPayment[];
+		primary?: IPayment;
+	}
+
+	class Order extends QModel<IOrder> {
+		@QType(payments) payments!: (CardPayment | BankTransfer)[];
+		@QType(payments) primary?: CardPayment | BankTransfer;
+	}
+
+	const card: ICardPayment = { kind: 'card', amount: 10, last4: '4242' };
+	const bank: IBankTransfer = { kind: 'bank', amount: 25, iban: 'ES00', sentAt: '2024-01-01T00:00:00.000Z' };
+
+	test('Should rebuild each value into the class of its tag', () => {
+		const order = new Order({ payments: [card, bank], primary: bank });
+
+		expect(order.payments[0]).toBeInstanceOf(CardPayment);
+		expect(order.payments[1]).toBeInstanceOf(BankTransfer);
+		expect((order.payments[1] as BankTransfer).sentAt).toBeInstanceOf(Date);
+		expect(order.primary).toBeInstanceOf(BankTransfer);
+	});
+
+	test('Should preserve the tags when serializing', () => {
+		const order = new Order({ payments: [card, bank], primary: card });
+
+		expect(order.serialize()).toEqual({ payments: [card, bank], primary: card });
+		expect(new Order(order.serialize()).payments[1]).toBeInstanceOf(BankTransfer);
+	});
+
+	test('Should write the tag of models created without it', () => {
+		const order = new Order({ payments: [] });
+		order.payments = [new CardPayment({ amount: 5, last4: '0000' } as ICardPayment)];
+
+		const serialized = order.serialize() as { payments: Record<string, unknown>[] };
+
+		expect(serialized.payments[0]).toEqual({ kind: 'card', amount: 5, last4: '0000' });
+	});
+
+	test('Should reject unknown tags at the path of the tag', () => {
+		let error: unknown;
+		try {
+			new Order({ payments: [card, { ...card, kind: 'cash' } as unknown as IPayment] });
+		} catch (e) {
+			error = e;
+		}
+
+		expect(error).toBeInstanceOf(DeserializationError);
+		expect((error as DeserializationError).path).toBe('/payments/1/kind');
+		expect((error as DeserializationError).message).toContain('"cash"');
+		expect((error as DeserializationError).message).toContain('"card", "bank"');
+	});
+
+	test('Should reject models outside the union when serializing', () => {
+		class Other extends QModel<{ id: string }> {
+			@QType() id!: string;
+		}
+
+		const order = new Order({ payments: [card] });
+		order.payments.push(new Other({ id: 'x' }) as unknown as CardPayment);
+
+		expect(() => order.serialize()).toThrow(SerializationError);
+	});
+
+	test('Should validate each value against its own class', () => {
+		const order = new Order({ payments: [bank, { ...card, amount: -1 }] });
+
+		expect(order.validate().map((result) => result.path)).toEqual(['/payments/1/amount']);
+	});
+});
@@ -0,0 +1,137 @@
+/**
+ * Unit Test: JSON Schema generation
+ *
+ * Tests the draft 2020-12 schema built from model metadata: serialized
+ * formats of transformers, validation constraints, wire names and $defs
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { QModel, Quick, QType, Required, Min, Max, Length, Email, Pattern } from '../../../src';
+
+describe('Unit: JSON Schema generation', () => {
+	interface ITag {
+		label: string;
+	}
+
+	class Tag extends QModel<ITag> {
+		@QType() @Length(1, 20) label!: string;
+	}
+
+	interface IUser {
+		email: string;
+		age: number;
+		createdAt: string;
+		balance: string;
+		meta: { __type: 'Map'; entries: [string, string][] };
+		tags: ITag[];
+		mainTag: ITag;
+	}
+
+	@Quick({ createdAt: Date, balance: BigInt, meta: Map })
+	class User extends QModel<IUser> {
+		@QType() @Required() @Email() email!: string;
+		@QType() @Min(0) @Max(150) age!: number;
+		createdAt!: Date;
+		balance!: bigint;
+		meta!: Map<string, string>;
+		@QType(Tag) @Length(0, 5) tags!: Tag[];
+		@QType(Tag) mainTag!: Tag;
+	}
+
+	test('Should describe the serialized format of each field', () => {
+		const schema = User.toJSONSchema();
+
+		expect(schema.$schema).toBe('https://json-schema.org/draft/2020-12/schema');
+		expect(schema.title).toBe('User');
+		expect(schema.type).toBe('object');
+		expect(schema.properties!.createdAt).toEqual({ type: 'string', format: 'date-time' });
+		expect(schema.properties!.balance!.anyOf).toContainEqual({ type: 'string', pattern: '^-?\\d+$' });
+		expect(schema.properties!.meta!.anyOf![0]!.properties!.__type).toEqual({ const: 'Map' });
+	});
+
+	test('Should add the constraints of validation decorators', () => {
+		const schema = User.toJSONSchema();
+
+		expect(schema.required).toEqual(['email']);
+		expect(schema.properties!.email).toEqual({ type: 'string', format: 'email' });
+		expect(schema.properties!.age).toEqual({ type: 'number', minimum: 0, maximum: 150 });
+		expect(schema.properties!.tags).toMatchObject({ type: 'array', minItems: 0, maxItems: 5 });
+	});
+
+	test('Should reference nested models from $defs', () => {
+		const schema = User.toJSONSchema();
+
+		expect(schema.properties!.tags!.items).toEqual({ $ref: '#/$defs/Tag' });
+		expect(schema.properties!.mainTag).toEqual({ $ref: '#/$defs/Tag' });
+		expect(schema.$defs!.Tag).toEqual({
+			title: 'Tag',
+			type: 'object',
+			properties: { label: { type: 'string', minLength: 1, maxLength: 20 } },
+		});
+	});
+
+	test('Should refer to the root model in recursive models', () => {
+		class Category extends QModel<{ name: string; children: unknown[] }> {
+			@QType() name!: string;
+			@QType(Category) children!: Category[];
+		}
+
+		const schema = Category.toJSONSchema();
+
+		expect(schema.properties!.children).toEqual({ type: 'array', items: { $ref: '#' } });
+		expect(schema.$defs).toBeUndefined();
+
+		@Quick({ createdAt: Date })
+		class Folder extends QModel<{ createdAt: string; parent?: unknown }> {
+			createdAt!: Date;
+			@QType(Folder) parent?: Folder;
+		}
+
+		expect(Folder.toJSONSchema().properties!.parent).toEqual({ $ref: '#' });
+		expect(Folder.toJSONSchema().$defs).toBeUndefined();
+	});
+
+	test('Should bound the entries of both forms of Maps and Sets', () => {
+		@Quick({ headers: Map, labels: Set })
+		class Request extends QModel<{ headers: [string, string][]; labels: string[] }> {
+			@Length(1, 3) headers!: Map<string, string>;
+			@Length(0, 2) labels!: Set<string>;
+		}
+
+		const { headers, labels } = Request.toJSONSchema().properties!;
+
+		expect(headers!.anyOf![0]!.properties!.entries).toMatchObject({ type: 'array', minItems: 1, maxItems: 3 });
+		expect(headers!.anyOf![1]).toMatchObject({ type: 'array', minItems: 1, maxItems: 3 });
+		expect(headers!.minItems).toBeUndefined();
+		expect(labels!.anyOf![0]!.properties!.values).toMatchObject({ type: 'array', minItems: 0, maxItems: 2 });
+		expect(labels!.anyOf![1]).toMatchObject({ type: 'array', maxItems: 2 });
+	});
+
+	test('Should use wire names, version stamps and discriminated unions', () => {
+		class Card extends QModel<{ kind: 'card'; last4: string }> {
+			@QType() @Pattern(/^\d{4}$/) last4!: string;
+		}
+		class Bank extends QModel<{ kind: 'bank'; iban: string }> {
+			@QType() iban!: string;
+		}
+
+		@Quick(
+			{ paidAt: Date, method: { discriminator: 'kind', map: { card: Card, bank: Bank } } },
+			{ naming: 'snake_case', version: 2, migrations: { 1: (v1) => v1 } }
+		)
+		class Payment extends QModel<{ paid_at: string; method: unknown }> {
+			paidAt!: Date;
+			method!: Card | Bank;
+		}
+
+		const schema = Payment.toJSONSchema();
+
+		expect(Object.keys(schema.properties!)).toEqual(['__v', 'paid_at', 'method']);
+		expect(schema.properties!.__v).toEqual({ const: 2 });
+		expect(schema.properties!.method!.oneOf).toEqual([
+			{ $ref: '#/$defs/Card', properties: { kind: { const: 'card' } }, required: ['kind'] },
+			{ $ref: '#/$defs/Bank', properties: { kind: { const: 'bank' } }, required: ['kind'] },
+		]);
+		expect(schema.$defs!.Card!.properties!.last4).toEqual({ type: 'string', pattern: '^\\d{4}$' });
+	});
+});
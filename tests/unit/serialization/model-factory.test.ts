@@ -0,0 +1,150 @@
+/**
+ * Unit Test: Model factory
+ *
+ * Tests model classes built at runtime from a JSON Schema or a sample payload:
+ * transformer types, nested models, arrays, unions and validation rules
+ */
+
+import { describe, test, expect } from 'bun:test';
+import {
+	QModel,
+	QType,
+	Quick,
+	Required,
+	Min,
+	modelFromJSONSchema,
+	modelFromSample,
+	QuickModelError,
+} from '../../../src';
+import type { IQJSONSchema } from '../../../src';
+
+describe('Unit: Model factory', () => {
+	const schema: IQJSONSchema = {
+		title: 'User',
+		type: 'object',
+		properties: {
+			email: { type: 'string', format: 'email' },
+			age: { type: 'integer', minimum: 0 },
+			createdAt: { type: 'string', format: 'date-time' },
+			address: { $ref: '#/$defs/Address' },
+			tags: { type: 'array', items: { $ref: '#/$defs/Tag' }, maxItems: 3 },
+			loginDates: { type: 'array', items: { type: 'string', format: 'date-time' } },
+		},
+		required: ['email'],
+		$defs: {
+			Address: { type: 'object', properties: { city: { type: 'string' } } },
+			Tag: { type: 'object', properties: { label: { type: 'string' } } },
+		},
+	};
+
+	const data = {
+		email: 'ann@example.com',
+		age: 30,
+		createdAt: '2024-01-01T00:00:00.000Z',
+		address: { city: 'Lima' },
+		tags: [{ label: 'admin' }],
+		loginDates: ['2024-02-01T00:00:00.000Z'],
+	};
+
+	test('Should build a model with transformer types and nested models', () => {
+		const User = modelFromJSONSchema(schema);
+		const user = new User(data);
+
+		expect(User.name).toBe('User');
+		expect(user).toBeInstanceOf(QModel);
+		expect(user.createdAt).toBeInstanceOf(Date);
+		expect(user.address.constructor.name).toBe('Address');
+		expect(user.address.city).toBe('Lima');
+		expect(user.tags[0].constructor.name).toBe('Tag');
+		expect(user.loginDates[0]).toBeInstanceOf(Date);
+		expect(JSON.parse(user.toJSON())).toEqual(data);
+	});
+
+	test('Should turn schema constraints into validation rules', () => {
+		const User = modelFromJSONSchema(schema);
+		const user = new User({ ...data, email: 'nope', age: -1, tags: [{}, {}, {}, {}] });
+
+		expect(user.validate().map((result) => result.rule)).toEqual(['email', 'min', 'length']);
+		expect(new User({ ...data, email: undefined }).isValid()).toBe(false);
+	});
+
+	test('Should round-trip the schema of a decorated model', () => {
+		class Card extends QModel<{ kind: 'card'; last4: string }> {
+			@QType() last4!: string;
+		}
+		class Bank extends QModel<{ kind: 'bank'; iban: string }> {
+			@QType() iban!: string;
+		}
+
+		@Quick({ meta: Map, balance: BigInt }, { naming: 'snake_case', version: 2, migrations: { 1: (v1) => v1 } })
+		class Account extends QModel<any> {
+			@QType() @Required() @Min(1) ownerId!: number;
+			meta!: Map<string, string>;
+			balance!: bigint;
+			@QType({ discriminator: 'kind', map: { card: Card, bank: Bank } }) method!: Card | Bank;
+		}
+
+		const Dynamic = modelFromJSONSchema(Account.toJSONSchema(), { naming: 'snake_case' });
+		expect(Dynamic.toJSONSchema()).toEqual(Account.toJSONSchema());
+
+		const payload = {
+			__v: 2,
+			owner_id: 7,
+			meta: { __type: 'Map', entries: [['a', 'b']] },
+			balance: { __type: 'bigint', value: '10' },
+			method: { kind: 'bank', iban: 'PE01' },
+		};
+		const account = Dynamic.deserialize(payload);
+
+		expect(account.ownerId).toBe(7);
+		expect(account.meta).toBeInstanceOf(Map);
+		expect(account.balance).toBe(10n);
+		expect(account.method.constructor.name).toBe('Bank');
+		expect(account.serialize()).toEqual(payload);
+	});
+
+	test('Should build recursive models from $ref to the root', () => {
+		const Category = modelFromJSONSchema({
+			title: 'Category',
+			type: 'object',
+			properties: {
+				name: { type: 'string' },
+				children: { type: 'array', items: { $ref: '#' } },
+			},
+		});
+		const tree = new Category({ name: 'root', children: [{ name: 'leaf', children: [] }] });
+
+		expect(tree.children[0]).toBeInstanceOf(Category);
+	});
+
+	test('Should infer a model from a sample payload', () => {
+		const Order = modelFromSample(
+			{
+				id: 'o-1',
+				placedAt: '2024-01-01T10:00:00.000Z',
+				customer: { name: 'Ann' },
+				lines: [{ sku: 'A', qty: 1 }, { sku: 'B', qty: 2, note: 'gift' }],
+			},
+			{ name: 'Order' }
+		);
+		const order = new Order({
+			id: 'o-2',
+			placedAt: '2024-03-01T10:00:00.000Z',
+			customer: { name: 'Bo' },
+			lines: [{ sku: 'C', qty: 3, note: 'x' }],
+		});
+
+		expect(Order.name).toBe('Order');
+		expect(order.placedAt).toBeInstanceOf(Date);
+		expect(order.customer.constructor.name).toBe('Customer');
+		expect(order.lines[0].constructor.name).toBe('Lines');
+		expect(Object.keys(Order.toJSONSchema().$defs!.Lines!.properties!)).toEqual(['sku', 'qty', 'note']);
+	});
+
+	test('Should reject non-object schemas and unresolved references', () => {
+		expect(() => modelFromJSONSchema({ type: 'string' })).toThrow(QuickModelError);
+		expect(() =>
+			modelFromJSONSchema({ type: 'object', properties: { a: { $ref: '#/$defs/Missing' } } })
+		).toThrow(/Cannot resolve \$ref "#\/\$defs\/Missing"/);
+	});
+});
@@ -0,0 +1,151 @@
+/**
+ * Unit Test: MessagePack
+ *
+ * Tests toMsgPack()/fromMsgPack() round trips of nested models, the native
+ * MessagePack types of dates, bigints and binary fields, and decoding errors
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { QModel, Quick, QType, DeserializationError, SerializationError } from '../../../src';
+import { MsgPackService } from '../../../src/core/services/msgpack.service';
+
+describe('Unit: MessagePack', () => {
+	interface IReading {
+		at: string;
+		value: number;
+	}
+
+	@Quick({ at: Date })
+	class Reading extends QModel<IReading> {
+		at!: Date;
+		@QType() value!: number;
+	}
+
+	interface ISensor {
+		name: string;
+		serial: string;
+		counters: string[];
+		firmware: number[];
+		samples: number[];
+		tags: string[];
+		readings: IReading[];
+		note?: string;
+	}
+
+	@Quick(
+		{
+			serial: BigInt,
+			counters: BigInt64Array,
+			firmware: ArrayBuffer,
+			samples: Float32Array,
+			tags: Set,
+			readings: Reading,
+		},
+		{ naming: 'snake_case' }
+	)
+	class Sensor extends QModel<ISensor> {
+		@QType() name!: string;
+		serial!: bigint;
+		counters!: BigInt64Array;
+		firmware!: ArrayBuffer;
+		samples!: Float32Array;
+		tags!: Set<string>;
+		readings!: Reading[];
+		@QType() note?: string;
+	}
+
+	const data = (): ISensor => ({
+		name: 'Probe α',
+		serial: '9007199254740993',
+		counters: ['-5', '9223372036854775807'],
+		firmware: [0xde, 0xad, 0xbe, 0xef],
+		samples: [0.5, -1.25],
+		tags: ['outdoor'],
+		readings: [
+			{ at: '2024-03-01T10:00:00.000Z', value: 21 },
+			{ at: '2024-03-01T10:00:00.250Z', value: -3.5 },
+		],
+	});
+
+	test('Should round-trip a model through MessagePack', () => {
+		const sensor = new Sensor(data());
+		const copy = Sensor.fromMsgPack(sensor.toMsgPack());
+
+		expect(copy).toBeInstanceOf(Sensor);
+		expect(copy.serial).toBe(9007199254740993n);
+		expect(Array.from(copy.counters)).toEqual([-5n, 9223372036854775807n]);
+		expect(new Uint8Array(copy.firmware)).toEqual(new Uint8Array([0xde, 0xad, 0xbe, 0xef]));
+		expect(copy.samples).toBeInstanceOf(Float32Array);
+		expect(Array.from(copy.samples)).toEqual([0.5, -1.25]);
+		expect(copy.readings[1]).toBeInstanceOf(Reading);
+		expect(copy.readings[1]!.at.toISOString()).toBe('2024-03-01T10:00:00.250Z');
+		expect(copy.serialize()).toEqual(sensor.serialize());
+	});
+
+	test('Should write binary fields as bin, bigints as int64 and dates as timestamps', () => {
+		const bytes = new Sensor({ ...data(), readings: [] }).toMsgPack();
+		const hex = Buffer.from(bytes).toString('hex');
+
+		// bin 8 with the 4 firmware bytes
+		expect(hex).toContain('c404deadbeef');
+		// int64 of the serial
+		expect(hex).toContain('d30020000000000001');
+		// bin 8 with the 16 bytes of the counters (not a string array)
+		expect(hex).toContain('c410');
+
+		const withReading = new Sensor(data()).toMsgPack();
+		// timestamp 32 (whole seconds) and timestamp 64 (with nanoseconds)
+		expect(Buffer.from(withReading).toString('hex')).toContain(`d6ff${(1709287200).toString(16)}`);
+		expect(Buffer.from(withReading).toString('hex')).toContain('d7ff');
+	});
+
+	test('Should use wire names and leave undefined fields out', () => {
+		class Plain extends QModel<{ sensor_name: string }> {
+			@QType() sensor_name!: string;
+		}
+
+		const bytes = new Sensor(data()).toMsgPack();
+		const text = new TextDecoder().decode(bytes);
+
+		expect(text).toContain('readings');
+		expect(text).not.toContain('note');
+		expect(Plain.fromMsgPack(new Plain({ sensor_name: 'x' }).toMsgPack()).sensor_name).toBe('x');
+	});
+
+	test('Should reject bytes that are not a MessagePack map', () => {
+		expect(() => Sensor.fromMsgPack(new Uint8Array([0x93, 1, 2, 3]))).toThrow(DeserializationError);
+		expect(() => Sensor.fromMsgPack(new Uint8Array([0x81, 0xa1]))).toThrow('Unexpected end of data');
+		expect(() => Sensor.fromMsgPack(new Uint8Array([0xc1]))).toThrow('Unknown format 0xc1');
+	});
+
+	test('Should reject arrays and maps nested deeper than 512 levels', () => {
+		const codec = new MsgPackService();
+		const nested = (depth: number, format: number[]) =>
+			new Uint8Array([...Array.from({ length: depth }, () => format).flat(), 0xc0]);
+
+		expect(() => codec.decode(nested(200_000, [0x91]))).toThrow(DeserializationError);
+		expect(() => codec.decode(nested(513, [0x81, 0xa1, 0x61]))).toThrow('Nesting deeper than 512 levels');
+		expect(() => codec.decode(nested(512, [0x91]))).not.toThrow();
+	});
+
+	test('Should write bigints beyond 64 bits as bignum extensions', () => {
+		const sensor = new Sensor(data());
+		sensor.serial = 2n ** 64n;
+
+		const bytes = sensor.toMsgPack();
+		// ext 8 of 10 bytes, type 1: sign byte then 2^64 in big-endian
+		expect(Buffer.from(bytes).toString('hex')).toContain('c70a0100010000000000000000');
+		expect(Sensor.fromMsgPack(bytes).serial).toBe(2n ** 64n);
+
+		sensor.serial = -(2n ** 100n) - 7n;
+		expect(Sensor.fromMsgPack(sensor.toMsgPack()).serial).toBe(-(2n ** 100n) - 7n);
+		expect(() => Sensor.fromMsgPack(new Uint8Array([0xd4, 0x01, 0x00]))).toThrow('Invalid bignum');
+	});
+
+	test('Should refuse values that have no MessagePack form', () => {
+		const sensor = new Sensor(data());
+		sensor.readings[0]!.at = new Date(Number.NaN);
+
+		expect(() => sensor.toMsgPack()).toThrow(SerializationError);
+	});
+});
@@ -0,0 +1,103 @@
+/**
+ * Unit Test: OpenAPI components
+ *
+ * Tests the components.schemas document generated for a set of models:
+ * references between models, discriminators and read/write-only markers
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { QModel, QType, Required, toOpenAPIComponents } from '../../../src';
+
+describe('Unit: OpenAPI components', () => {
+	class Card extends QModel<{ kind: 'card'; last4: string }> {
+		@QType() last4!: string;
+	}
+
+	class Bank extends QModel<{ kind: 'bank'; iban: string }> {
+		@QType() iban!: string;
+	}
+
+	class Address extends QModel<{ city: string }> {
+		@QType() city!: string;
+	}
+
+	interface IUser {
+		id: string;
+		password: string;
+		createdAt: string;
+		address: { city: string };
+	}
+
+	class User extends QModel<IUser> {
+		@QType(String, { readOnly: true }) id!: string;
+		@QType(String, { writeOnly: true }) @Required() password!: string;
+		@QType(Date, { readOnly: true }) createdAt!: Date;
+		@QType(Address) address!: Address;
+	}
+
+	class Order extends QModel<{ buyer: IUser; payments: unknown[] }> {
+		@QType(User) buyer!: User;
+		@QType({ discriminator: 'kind', map: { card: Card, bank: Bank } }) payments!: (Card | Bank)[];
+	}
+
+	test('Should add a schema per model and per nested model', () => {
+		const { components } = toOpenAPIComponents([User, Order]);
+
+		expect(Object.keys(components.schemas)).toEqual(['User', 'Address', 'Order', 'Card', 'Bank']);
+		expect(components.schemas.Order!.properties!.buyer).toEqual({ $ref: '#/components/schemas/User' });
+		expect(components.schemas.Address).toEqual({
+			title: 'Address',
+			type: 'object',
+			properties: { city: { type: 'string' } },
+		});
+	});
+
+	test('Should mark read-only and write-only fields', () => {
+		const { components } = toOpenAPIComponents([User]);
+		const user = components.schemas.User!;
+
+		expect(user.properties!.id).toEqual({ type: 'string', readOnly: true });
+		expect(user.properties!.createdAt).toEqual({ type: 'string', format: 'date-time', readOnly: true });
+		expect(user.properties!.password).toEqual({ type: 'string', writeOnly: true });
+		expect(user.required).toEqual(['password']);
+	});
+
+	test('Should describe polymorphic fields with a discriminator', () => {
+		const { components } = toOpenAPIComponents([Order]);
+
+		expect(components.schemas.Order!.properties!.payments).toEqual({
+			type: 'array',
+			items: {
+				oneOf: [{ $ref: '#/components/schemas/Card' }, { $ref: '#/components/schemas/Bank' }],
+				discriminator: {
+					propertyName: 'kind',
+					mapping: { card: '#/components/schemas/Card', bank: '#/components/schemas/Bank' },
+				},
+			},
+		});
+		expect(components.schemas.Card!.properties!.kind).toEqual({ type: 'string', const: 'card' });
+		expect(components.schemas.Card!.required).toEqual(['kind']);
+		expect(components.schemas.Bank!.properties).toEqual({
+			kind: { type: 'string', const: 'bank' },
+			iban: { type: 'string' },
+		});
+	});
+
+	test('Should list every tag of a member mapped from several tags', () => {
+		class Checkout extends QModel<{ method: unknown }> {
+			@QType({ discriminator: 'kind', map: { card: Card, debit: Card, bank: Bank } }) method!: Card | Bank;
+		}
+
+		const { components } = toOpenAPIComponents([Checkout]);
+
+		expect(components.schemas.Card!.properties!.kind).toEqual({ type: 'string', enum: ['card', 'debit'] });
+		expect(Card.toJSONSchema().properties!.kind).toBeUndefined();
+	});
+
+	test('Should keep the markers in the JSON Schema of a model', () => {
+		const schema = User.toJSONSchema();
+
+		expect(schema.properties!.id!.readOnly).toBe(true);
+		expect(schema.properties!.address).toEqual({ $ref: '#/$defs/Address' });
+	});
+});
@@ -0,0 +1,139 @@
+/**
+ * Unit Test: Property naming
+ *
+ * Tests naming strategies and aliases mapping property names
+ * to the keys of serialized data in both directions
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { QModel, Quick, QType, QAlias, DeserializationError } from '../../../src';
+
+describe('Unit: Property naming', () => {
+	interface IItemWire {
+		item_id: string;
+		added_at: string;
+	}
+
+	@Quick({ addedAt: Date }, { naming: 'snake_case' })
+	class Item extends QModel<IItemWire> {
+		itemId!: string;
+		addedAt!: Date;
+	}
+
+	interface IOrderWire {
+		order_id: string;
+		created_at: string;
+		line_items: IItemWire[];
+		main_item: IItemWire;
+	}
+
+	@Quick({ createdAt: Date, lineItems: Item }, { naming: 'snake_case' })
+	class Order extends QModel<IOrderWire> {
+		orderId!: string;
+		createdAt!: Date;
+		lineItems!: Item[];
+		@QType(Item) mainItem!: Item;
+	}
+
+	const item = { item_id: 'i1', added_at: '2024-01-01T00:00:00.000Z' };
+	const order = {
+		order_id: 'o1',
+		created_at: '2024-02-01T00:00:00.000Z',
+		line_items: [item, { ...item, item_id: 'i2' }],
+		main_item: item,
+	};
+
+	test('Should read snake_case keys into camelCase properties', () => {
+		const result = new Order(order);
+
+		expect(result.orderId).toBe('o1');
+		expect(result.createdAt).toBeInstanceOf(Date);
+		expect(result.lineItems[1]).toBeInstanceOf(Item);
+		expect(result.lineItems[1]!.itemId).toBe('i2');
+		expect(result.mainItem.addedAt).toBeInstanceOf(Date);
+	});
+
+	test('Should write snake_case keys in serialize(), toJSON() and toInterface()', () => {
+		const result = new Order(order);
+
+		expect(result.serialize()).toEqual(order);
+		expect(JSON.parse(result.toJSON())).toEqual(order);
+		expect(result.toInterface()).toEqual(order);
+		expect(new Order(result.serialize()).serialize()).toEqual(order);
+	});
+
+	test('Should map keys with @QAlias() and @QType(type, { name })', () => {
+		interface IUserWire {
+			uid: string;
+			'created-on': string;
+			displayName: string;
+		}
+
+		class User extends QModel<IUserWire> {
+			@QAlias('uid') @QType() id!: string;
+			@QType(Date, { name: 'created-on' }) createdOn!: Date;
+			@QType() displayName!: string;
+		}
+
+		const user = new User({ uid: 'u1', 'created-on': '2024-01-01T00:00:00.000Z', displayName: 'Ann' });
+
+		expect(user.id).toBe('u1');
+		expect(user.createdOn).toBeInstanceOf(Date);
+		expect(user.serialize()).toEqual({
+			uid: 'u1',
+			'created-on': '2024-01-01T00:00:00.000Z',
+			displayName: 'Ann',
+		});
+	});
+
+	test('Should give aliases precedence over the naming strategy', () => {
+		interface IAccountWire {
+			account_owner: string;
+			ID: string;
+		}
+
+		@Quick({}, { naming: 'snake_case' })
+		class Account extends QModel<IAccountWire> {
+			accountOwner!: string;
+			@QAlias('ID') id!: string;
+		}
+
+		const account = new Account({ account_owner: 'Ann', ID: 'a1' });
+
+		expect(account.accountOwner).toBe('Ann');
+		expect(account.id).toBe('a1');
+		expect(account.serialize()).toEqual({ account_owner: 'Ann', ID: 'a1' });
+	});
+
+	test('Should support kebab-case and PascalCase strategies', () => {
+		interface IWire {
+			[key: string]: string;
+		}
+
+		@Quick({}, { naming: 'kebab-case' })
+		class Kebab extends QModel<IWire> {
+			firstName!: string;
+		}
+
+		@Quick({}, { naming: 'PascalCase' })
+		class Pascal extends QModel<IWire> {
+			firstName!: string;
+		}
+
+		expect(new Kebab({ 'first-name': 'Ann' }).serialize()).toEqual({ 'first-name': 'Ann' });
+		expect(new Pascal({ FirstName: 'Ann' }).firstName).toBe('Ann');
+		expect(new Pascal({ FirstName: 'Ann' }).serialize()).toEqual({ FirstName: 'Ann' });
+	});
+
+	test('Should report deserialization errors at the property path', () => {
+		let error: unknown;
+		try {
+			new Order({ ...order, line_items: [{ ...item, added_at: 'never' }] });
+		} catch (e) {
+			error = e;
+		}
+
+		expect(error).toBeInstanceOf(DeserializationError);
+		expect((error as DeserializationError).path).toBe('/lineItems/0/addedAt');
+	});
+});
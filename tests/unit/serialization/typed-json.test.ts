@@ -0,0 +1,148 @@
+/**
+ * Unit Test: Typed JSON
+ *
+ * Tests toJSON()/fromJSON() in typed mode: the uniform envelopes, lossless round
+ * trips of declared and undeclared fields, escaping of "$type" keys, the class
+ * option and invalid envelopes
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { QModel, Quick, QType, QDecimal, DeserializationError } from '../../../src';
+
+describe('Unit: Typed JSON', () => {
+	interface IEvent {
+		id: string;
+		at: string;
+		amount: string;
+		tags: string[];
+		price?: string;
+		payload?: unknown;
+	}
+
+	@Quick({ at: Date, amount: BigInt, tags: Set, price: QDecimal })
+	class Event extends QModel<IEvent> {
+		@QType() id!: string;
+		at!: Date;
+		amount!: bigint;
+		tags!: Set<string>;
+		price?: QDecimal;
+		payload?: unknown;
+	}
+
+	const data = (): IEvent => ({
+		id: 'evt-1',
+		at: '2024-01-01T00:00:00.000Z',
+		amount: '12345678901234567890',
+		tags: ['a', 'b'],
+	});
+
+	test('Should write every non-JSON value as a { $type, value } envelope', () => {
+		const json = JSON.parse(new Event(data()).toJSON({ json: 'typed' }));
+
+		expect(json).toEqual({
+			id: 'evt-1',
+			at: { $type: 'date', value: '2024-01-01T00:00:00.000Z' },
+			amount: { $type: 'bigint', value: '12345678901234567890' },
+			tags: { $type: 'set', value: ['a', 'b'] },
+		});
+	});
+
+	test('Should round-trip undeclared fields losslessly', () => {
+		const event = new Event(data());
+		event.payload = {
+			seen: new Date('2024-02-03T04:05:06.789Z'),
+			counts: new Map<unknown, unknown>([
+				[1, 10n],
+				['x', new Set([NaN, Infinity])],
+			]),
+			pattern: /^a+$/giu,
+			link: new URL('https://example.com/a?b=c'),
+			query: new URLSearchParams('q=1&q=2'),
+			key: Symbol.for('app.key'),
+			failure: new RangeError('Out of range', { cause: new Error('root') }),
+			bytes: new Uint16Array([1, 0xffff]),
+			buffer: new Uint8Array([1, 2, 3]).buffer,
+			holes: [1, undefined, -0],
+			total: QDecimal.from('19.90'),
+		};
+		event.price = QDecimal.from('-0.50');
+
+		const copy = Event.fromJSON(event.toJSON({ json: 'typed' }), { json: 'typed' });
+		const payload = copy.payload as Record<string, any>;
+
+		expect(copy.at).toEqual(new Date('2024-01-01T00:00:00.000Z'));
+		expect(copy.amount).toBe(12345678901234567890n);
+		expect(copy.price).toEqual(QDecimal.from('-0.50'));
+		expect(payload.seen).toEqual(new Date('2024-02-03T04:05:06.789Z'));
+		expect(payload.counts.get(1)).toBe(10n);
+		expect([...payload.counts.get('x')]).toEqual([NaN, Infinity]);
+		expect(payload.pattern).toEqual(/^a+$/giu);
+		expect(payload.link).toEqual(new URL('https://example.com/a?b=c'));
+		expect(payload.query.getAll('q')).toEqual(['1', '2']);
+		expect(payload.key).toBe(Symbol.for('app.key'));
+		expect(payload.failure).toBeInstanceOf(RangeError);
+		expect(payload.failure.message).toBe('Out of range');
+		expect(payload.failure.stack).toBe((event.payload as any).failure.stack);
+		expect(payload.failure.cause.message).toBe('root');
+		expect(payload.bytes).toEqual(new Uint16Array([1, 0xffff]));
+		expect(new Uint8Array(payload.buffer)).toEqual(new Uint8Array([1, 2, 3]));
+		expect(payload.holes).toEqual([1, undefined, -0]);
+		expect(1 in payload.holes).toBe(true);
+		expect(Object.is(payload.holes[2], -0)).toBe(true);
+		expect(payload.total).toBeInstanceOf(QDecimal);
+		expect(payload.total.toString()).toBe('19.90');
+		expect(JSON.parse(event.toJSON({ json: 'typed' })).payload.total).toEqual({ $type: 'decimal', value: '19.90' });
+	});
+
+	test('Should escape plain objects that have a $type key', () => {
+		const event = new Event(data());
+		event.payload = { $type: 'date', value: 'not a date' };
+
+		const json = event.toJSON({ json: 'typed' });
+		expect(JSON.parse(json).payload).toEqual({
+			$type: 'object',
+			value: { $type: 'date', value: 'not a date' },
+		});
+		expect(Event.fromJSON(json, { json: 'typed' }).payload).toEqual({ $type: 'date', value: 'not a date' });
+	});
+
+	test('Should use the json option of the class by default', () => {
+		@Quick({ at: Date }, { json: 'typed' })
+		class Audit extends QModel<{ at: string; extra?: unknown }> {
+			at!: Date;
+			extra?: unknown;
+		}
+
+		const audit = new Audit({ at: '2024-01-01T00:00:00.000Z' });
+		expect(JSON.parse(audit.toJSON({ json: 'plain' })).at).toBe('2024-01-01T00:00:00.000Z');
+
+		audit.extra = new Map([['n', 1n]]);
+		const json = audit.toJSON();
+
+		expect(JSON.parse(json).at).toEqual({ $type: 'date', value: '2024-01-01T00:00:00.000Z' });
+		expect((Audit.fromJSON(json).extra as Map<string, bigint>).get('n')).toBe(1n);
+	});
+
+	test('Should leave plain JSON unchanged', () => {
+		const json = new Event(data()).toJSON();
+
+		expect(json).not.toContain('$type');
+		expect(Event.fromJSON(json).amount).toBe(12345678901234567890n);
+	});
+
+	test('Should reject unknown types and invalid envelope values', () => {
+		const typed = { json: 'typed' } as const;
+		const base = { id: 'evt-1', at: '2024-01-01T00:00:00.000Z', amount: '1', tags: [] };
+
+		expect(() =>
+			Event.fromJSON(JSON.stringify({ ...base, payload: { $type: 'money', value: '1' } }), typed)
+		).toThrow(DeserializationError);
+		expect(() =>
+			Event.fromJSON(JSON.stringify({ ...base, payload: { $type: 'bigint', value: '1.5' } }), typed)
+		).toThrow(`Invalid value for "bigint" at '/payload'`);
+		expect(() =>
+			Event.fromJSON(JSON.stringify({ ...base, payload: { $type: 'decimal', value: '1e5' } }), typed)
+		).toThrow(`Invalid value for "decimal" at '/payload'`);
+		expect(() => Event.fromJSON('[1, 2]', typed)).toThrow('Expected a JSON object');
+	});
+});
@@ -0,0 +1,126 @@
+/**
+ * Unit Test: Versioning and migrations
+ *
+ * Tests the `__v` stamp written by serialize() and the step-by-step
+ * upgrade of older payloads on deserialization
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { QModel, Quick, QType, DeserializationError } from '../../../src';
+
+describe('Unit: Versioning and migrations', () => {
+	interface IUser {
+		fullName: string;
+		tags: string[];
+		createdAt: string;
+	}
+
+	@Quick(
+		{ createdAt: Date },
+		{
+			version: 3,
+			migrations: {
+				1: ({ name, ...v1 }) => ({ ...v1, fullName: name }),
+				2: (v2) => ({ ...v2, tags: v2.tags ?? [] }),
+			},
+		}
+	)
+	class User extends QModel<IUser> {
+		fullName!: string;
+		tags!: string[];
+		createdAt!: Date;
+	}
+
+	const current = { fullName: 'Ann Lee', tags: ['admin'], createdAt: '2024-01-01T00:00:00.000Z' };
+
+	test('Should stamp __v when serializing', () => {
+		const user = new User(current);
+
+		expect(user.serialize() as unknown).toEqual({ __v: 3, ...current });
+		expect(JSON.parse(user.toJSON()).__v).toBe(3);
+	});
+
+	test('Should upgrade older payloads step by step and report the steps', () => {
+		const user = User.fromJSON('{"__v":1,"name":"Ann Lee","createdAt":"2024-01-01T00:00:00.000Z"}');
+
+		expect(user.fullName).toBe('Ann Lee');
+		expect(user.tags).toEqual([]);
+		expect(user.createdAt).toBeInstanceOf(Date);
+		expect(user.getMigrations()).toEqual([
+			{ path: '', className: 'User', from: 1, to: 2 },
+			{ path: '', className: 'User', from: 2, to: 3 },
+		]);
+		expect(user.serialize() as unknown).toEqual({ __v: 3, ...current, tags: [] });
+	});
+
+	test('Should track changes from the upgraded payload', () => {
+		const migrated = new User({ __v: 1, name: 'Ann Lee', createdAt: current.createdAt } as unknown as IUser);
+		const stamped = new User({ __v: 3, ...current } as IUser);
+
+		expect(migrated.hasChanges()).toBe(false);
+		expect(migrated.getChanges()).toEqual({});
+		expect(stamped.hasChanges()).toBe(false);
+
+		migrated.fullName = 'Ann';
+		expect(migrated.getChanges()).toEqual({ fullName: 'Ann' });
+
+		migrated.rebase({ __v: 2, fullName: 'Ann Lee', tags: ['admin'], createdAt: current.createdAt } as unknown as IUser);
+		expect(migrated.tags).toEqual(['admin']);
+		expect(migrated.getChanges()).toEqual({ fullName: 'Ann' });
+	});
+
+	test('Should take current and unstamped payloads as they are', () => {
+		const stamped = User.deserialize({ __v: 3, ...current });
+		const unstamped = new User(current);
+
+		expect(stamped.fullName).toBe('Ann Lee');
+		expect(stamped.getMigrations()).toEqual([]);
+		expect(unstamped.getMigrations()).toEqual([]);
+		expect(Object.keys(stamped.serialize())).not.toContain('name');
+	});
+
+	test('Should migrate nested models and record their paths', () => {
+		interface ITeam {
+			members: IUser[];
+		}
+
+		class Team extends QModel<ITeam> {
+			@QType(User) members!: User[];
+		}
+
+		const team = new Team({
+			members: [current, { __v: 2, fullName: 'Bo', createdAt: current.createdAt }] as unknown as IUser[],
+		});
+
+		expect(team.members[1]!.tags).toEqual([]);
+		expect(team.getMigrations()).toEqual([{ path: '/members/1', className: 'User', from: 2, to: 3 }]);
+	});
+
+	test('Should reject payloads newer than the model or with an invalid version', () => {
+		const newer = () => User.deserialize({ __v: 4, ...current });
+		const invalid = () => User.deserialize({ __v: 'x', ...current });
+
+		expect(newer).toThrow(DeserializationError);
+		expect(newer).toThrow(/newer than the model version 3/);
+		expect(invalid).toThrow(DeserializationError);
+	});
+
+	test('Should report missing and failing migrations', () => {
+		@Quick({}, { version: 3, migrations: { 2: () => { throw new Error('boom'); } } })
+		class Broken extends QModel<{ id: string }> {
+			id!: string;
+		}
+
+		let error: unknown;
+		try {
+			Broken.deserialize({ __v: 2, id: 'x' });
+		} catch (e) {
+			error = e;
+		}
+
+		expect(() => Broken.deserialize({ __v: 1, id: 'x' })).toThrow(/No migration from version 1 to 2/);
+		expect(error).toBeInstanceOf(DeserializationError);
+		expect((error as DeserializationError).message).toContain('failed: boom');
+		expect((error as DeserializationError).cause).toBeInstanceOf(Error);
+	});
+});
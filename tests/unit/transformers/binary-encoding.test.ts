@@ -0,0 +1,146 @@
+/**
+ * Unit Test: Binary encodings
+ *
+ * Tests the binary option of fields, classes and QModel.configure() (array, base64,
+ * base64url, hex), automatic detection of the form on read, and DataView offsets
+ */
+
+import { describe, test, expect, afterEach } from 'bun:test';
+import { QModel, Quick, QType, DeserializationError } from '../../../src';
+
+describe('Unit: Binary encodings', () => {
+	interface IUpload {
+		raw: number[] | string;
+		content: string;
+		token: string;
+		digest: string;
+		samples: string;
+	}
+
+	@Quick({ raw: ArrayBuffer })
+	class Upload extends QModel<IUpload> {
+		raw!: ArrayBuffer;
+		@QType(Uint8Array, { binary: 'base64' }) content!: Uint8Array;
+		@QType(Uint8Array, { binary: 'base64url' }) token!: Uint8Array;
+		@QType(ArrayBuffer, { binary: 'hex' }) digest!: ArrayBuffer;
+		@QType(Float32Array, { binary: 'base64' }) samples!: Float32Array;
+	}
+
+	const bytes = new Uint8Array([251, 255, 0, 16]);
+	const upload = () =>
+		new Upload({
+			raw: [1, 2, 3],
+			content: '+/8AEA==',
+			token: '-_8AEA',
+			digest: 'fbff0010',
+			samples: 'AADAPw==',
+		});
+
+	afterEach(() => {
+		QModel.configure({ binary: 'array' });
+	});
+
+	test('Should write each field in its encoding', () => {
+		expect(upload().serialize()).toEqual({
+			raw: [1, 2, 3],
+			content: '+/8AEA==',
+			token: '-_8AEA',
+			digest: 'fbff0010',
+			samples: 'AADAPw==',
+		});
+	});
+
+	test('Should read every form whatever the encoding of the field', () => {
+		const model = upload();
+		expect(model.content).toEqual(bytes);
+		expect(model.token).toEqual(bytes);
+		expect(new Uint8Array(model.digest)).toEqual(bytes);
+		expect(model.samples).toEqual(new Float32Array([1.5]));
+
+		const mixed = new Upload({
+			raw: '010203',
+			content: '-_8AEA',
+			token: [251, 255, 0, 16] as any,
+			digest: '+/8AEA==',
+			samples: 'AADAPw',
+		});
+		expect(new Uint8Array(mixed.raw)).toEqual(new Uint8Array([1, 2, 3]));
+		expect(mixed.content).toEqual(bytes);
+		expect(mixed.token).toEqual(bytes);
+		expect(new Uint8Array(mixed.digest)).toEqual(bytes);
+		expect(mixed.samples).toEqual(new Float32Array([1.5]));
+	});
+
+	test('Should read hex-only strings in the base64 forms of their field', () => {
+		// 'abcd' is valid hex and valid base64
+		const model = new Upload({ ...upload().serialize(), raw: 'abcd', content: 'abcd' });
+
+		expect(new Uint8Array(model.raw)).toEqual(new Uint8Array([0xab, 0xcd]));
+		expect(model.content).toEqual(new Uint8Array([0x69, 0xb7, 0x1d]));
+	});
+
+	test('Should use the binary option of the class, overridden by fields', () => {
+		@Quick({ blob: ArrayBuffer, view: DataView }, { binary: 'hex' })
+		class Packet extends QModel<{ blob: string; view: string; body: string }> {
+			blob!: ArrayBuffer;
+			view!: DataView;
+			@QType(Uint8Array, { binary: 'base64' }) body!: Uint8Array;
+		}
+
+		const packet = new Packet({ blob: '0102', view: 'ff', body: 'AQI=' });
+
+		expect(packet.serialize()).toEqual({ blob: '0102', view: 'ff', body: 'AQI=' });
+		expect(Packet.toJSONSchema().properties?.blob).toEqual({ type: 'string', contentEncoding: 'base16' });
+		expect(Packet.toJSONSchema().properties?.body).toEqual({ type: 'string', contentEncoding: 'base64' });
+	});
+
+	test('Should use the global binary option', () => {
+		@Quick({ blob: ArrayBuffer, values: Int16Array })
+		class Sample extends QModel<{ blob: number[] | string; values: number[] | string }> {
+			blob!: ArrayBuffer;
+			values!: Int16Array;
+		}
+
+		const sample = new Sample({ blob: [1, 2], values: [1, -1] });
+		QModel.configure({ binary: 'base64url' });
+
+		expect(sample.serialize()).toEqual({ blob: 'AQI', values: 'AQD__w' });
+		expect(Sample.fromJSON(sample.toJSON()).values).toEqual(new Int16Array([1, -1]));
+
+		QModel.configure({ binary: 'array' });
+		expect(sample.serialize()).toEqual({ blob: [1, 2], values: [1, -1] });
+	});
+
+	test('Should serialize only the bytes a DataView covers', () => {
+		@Quick({ view: DataView })
+		class Frame extends QModel<{ view: number[] | string }> {
+			view!: DataView;
+		}
+
+		const buffer = new Uint8Array([0, 1, 2, 3, 4, 5]).buffer;
+		const frame = new Frame({ view: [] });
+		frame.view = new DataView(buffer, 2, 3);
+
+		expect(frame.serialize().view).toEqual([2, 3, 4]);
+
+		const copy = Frame.fromJSON(frame.toJSON());
+		expect(copy.view.byteOffset).toBe(0);
+		expect(copy.view.byteLength).toBe(3);
+		expect(copy.view.getUint8(0)).toBe(2);
+	});
+
+	test('Should reject strings in none of the forms', () => {
+		expect(() => new Upload({ ...upload().serialize(), content: 'not base64!' })).toThrow(
+			DeserializationError
+		);
+		expect(() => new Upload({ ...upload().serialize(), samples: 'AQID' })).toThrow(
+			'Expected base64, base64url or hex string of Float32Array elements'
+		);
+		// Not hex, odd hex digits, unused bits set, bad padding, whitespace, mixed alphabets
+		for (const digest of ['zz', 'abc', 'AQ=', 'AQ==\n', '+/8AEA__']) {
+			expect(() => new Upload({ ...upload().serialize(), digest })).toThrow(
+				'Expected base64, base64url or hex string for ArrayBuffer'
+			);
+		}
+	});
+});
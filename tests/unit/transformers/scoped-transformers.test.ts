@@ -0,0 +1,104 @@
+/**
+ * Unit Test: Scoped transformers
+ *
+ * Tests per-model transformers (@Quick config) and per-call scopes,
+ * and their inheritance by nested models
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { QModel, Quick, BaseTransformer, TransformerRegistry, transformerRegistry } from '../../../src';
+
+describe('Unit: Scoped transformers', () => {
+	class EpochDateTransformer extends BaseTransformer<number, Date> {
+		deserialize(value: number | Date): Date {
+			return value instanceof Date ? value : new Date(value);
+		}
+
+		serialize(value: Date): number {
+			return value.getTime();
+		}
+	}
+
+	const epoch = new EpochDateTransformer();
+	const iso = '2024-01-01T00:00:00.000Z';
+	const ms = Date.parse(iso);
+
+	interface IEvent {
+		at: string | number;
+	}
+
+	@Quick({ at: Date })
+	class Event extends QModel<IEvent> {
+		at!: Date;
+	}
+
+	@Quick({ at: Date }, { transformers: { date: epoch } })
+	class EpochEvent extends QModel<IEvent> {
+		at!: Date;
+	}
+
+	interface ICalendar {
+		at: string | number;
+		events: IEvent[];
+	}
+
+	@Quick({ at: Date, events: Event }, { transformers: { date: epoch } })
+	class EpochCalendar extends QModel<ICalendar> {
+		at!: Date;
+		events!: Event[];
+	}
+
+	@Quick({ at: Date, events: EpochEvent })
+	class Calendar extends QModel<ICalendar> {
+		at!: Date;
+		events!: EpochEvent[];
+	}
+
+	test('Should use the transformers of the model class', () => {
+		const event = new EpochEvent({ at: ms });
+
+		expect(event.at.toISOString()).toBe(iso);
+		expect(event.serialize()).toEqual({ at: ms });
+		expect(new Event({ at: iso }).serialize()).toEqual({ at: iso });
+	});
+
+	test('Should let nested models inherit the transformers of their parent', () => {
+		const calendar = new EpochCalendar({ at: ms, events: [{ at: ms }] });
+
+		expect(calendar.events[0]?.at.toISOString()).toBe(iso);
+		expect(calendar.serialize()).toEqual({ at: ms, events: [{ at: ms }] });
+	});
+
+	test('Should let nested models override the transformers of their parent', () => {
+		const calendar = new Calendar({ at: iso, events: [{ at: ms }] });
+
+		expect(calendar.events[0]?.at.toISOString()).toBe(iso);
+		expect(calendar.serialize()).toEqual({ at: iso, events: [{ at: ms }] });
+	});
+
+	test('Should apply a scope passed to serialize() and deserialize()', () => {
+		const scope = { transformers: { date: epoch } };
+		const calendar = Calendar.deserialize({ at: ms, events: [{ at: ms }] }, scope);
+
+		expect(calendar.at.toISOString()).toBe(iso);
+		expect(calendar.serialize(scope)).toEqual({ at: ms, events: [{ at: ms }] });
+		expect(JSON.parse(calendar.toJSON(scope))).toEqual({ at: ms, events: [{ at: ms }] });
+		expect(calendar.serialize()).toEqual({ at: iso, events: [{ at: ms }] });
+	});
+
+	test('Should keep the shared registry untouched', () => {
+		const scoped = transformerRegistry.extend({ date: epoch });
+
+		expect(scoped.get('date')).toBe(epoch);
+		expect(scoped.get(Date)).toBe(epoch);
+		expect(scoped.get(Map)).toBe(transformerRegistry.get(Map));
+		expect(transformerRegistry.get(Date)).not.toBe(epoch);
+	});
+
+	test('Should accept a complete registry as scope', () => {
+		const registry = TransformerRegistry.withDefaults().override(Date, epoch).override('date', epoch);
+		const event = Event.fromJSON(JSON.stringify({ at: ms }), { transformers: registry });
+
+		expect(event.at.toISOString()).toBe(iso);
+	});
+});
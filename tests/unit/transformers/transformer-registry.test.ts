@@ -0,0 +1,140 @@
+/**
+ * Unit Test: Transformer registry
+ *
+ * Tests custom transformers registered once and used for
+ * serialization, deserialization, validation and metadata
+ */
+
+import { describe, test, expect, afterEach } from 'bun:test';
+import {
+	QModel,
+	Quick,
+	QType,
+	BaseTransformer,
+	TransformerRegistry,
+	transformerRegistry,
+} from '../../../src';
+
+describe('Unit: Transformer registry', () => {
+	class Money {
+		constructor(public readonly cents: bigint) {}
+	}
+
+	class MoneyTransformer extends BaseTransformer<string, Money> {
+		deserialize(value: string | Money): Money {
+			return value instanceof Money ? value : new Money(BigInt(Math.round(Number(value) * 100)));
+		}
+
+		serialize(value: Money): string {
+			return (Number(value.cents) / 100).toFixed(2);
+		}
+	}
+
+	class EpochDateTransformer extends BaseTransformer<number, Date> {
+		deserialize(value: number | Date): Date {
+			return value instanceof Date ? value : new Date(value);
+		}
+
+		serialize(value: Date): number {
+			return value.getTime();
+		}
+	}
+
+	const defaultDate = transformerRegistry.get(Date)!;
+
+	afterEach(() => {
+		transformerRegistry.unregister('money');
+		transformerRegistry.unregister(Money);
+		transformerRegistry.override('date', defaultDate).override(Date, defaultDate);
+	});
+
+	test('Should use a transformer registered by alias in both directions', () => {
+		transformerRegistry.register('money', new MoneyTransformer());
+
+		interface IInvoice {
+			total: string;
+		}
+		class Invoice extends QModel<IInvoice> {
+			@QType('money') total!: Money;
+		}
+
+		const invoice = new Invoice({ total: '12.50' });
+
+		expect(invoice.total).toBeInstanceOf(Money);
+		expect(invoice.total.cents).toBe(1250n);
+		expect(invoice.serialize()).toEqual({ total: '12.50' });
+	});
+
+	test('Should use a transformer registered by constructor with @Quick()', () => {
+		transformerRegistry.register(Money, new MoneyTransformer());
+
+		interface IInvoice {
+			total: string;
+		}
+		@Quick({ total: Money })
+		class Invoice extends QModel<IInvoice> {
+			total!: Money;
+		}
+
+		const invoice = new Invoice({ total: '3.00' });
+
+		expect(invoice.total.cents).toBe(300n);
+		expect(JSON.parse(invoice.toJSON())).toEqual({ total: '3.00' });
+		expect(Invoice.getMetadata().get('total')?.transformer).toBeInstanceOf(MoneyTransformer);
+	});
+
+	test('Should replace built-in transformers with override()', () => {
+		const epoch = new EpochDateTransformer();
+		transformerRegistry.override('date', epoch).override(Date, epoch);
+
+		interface IEvent {
+			at: number;
+		}
+		@Quick({ at: Date })
+		class Event extends QModel<IEvent> {
+			at!: Date;
+		}
+
+		const event = new Event({ at: 0 });
+
+		expect(event.at).toBeInstanceOf(Date);
+		expect(event.serialize()).toEqual({ at: 0 });
+	});
+
+	test('Should refuse duplicate registrations and report unregistered keys', () => {
+		const registry = new TransformerRegistry();
+		registry.register('money', new MoneyTransformer());
+
+		expect(() => registry.register('MONEY', new MoneyTransformer())).toThrow(/override\(\)/);
+		expect(registry.unregister('money')).toBe(true);
+		expect(registry.unregister('money')).toBe(false);
+		expect(registry.get('money')).toBeUndefined();
+	});
+
+	test('Should find transformers through the prototype chain of a value', () => {
+		const registry = TransformerRegistry.withDefaults();
+
+		expect(registry.find(new TypeError('x'))).toBe(registry.get(Error));
+		expect(registry.find(10n)).toBe(registry.get('bigint'));
+		expect(registry.find({})).toBeUndefined();
+		expect(registry.find('text')).toBeUndefined();
+	});
+
+	test('Should serialize Map and Set with the same transformers used to deserialize them', () => {
+		interface ITagged {
+			tags: string[];
+			meta: Record<string, string>;
+		}
+		@Quick({ tags: Set, meta: Map })
+		class Tagged extends QModel<ITagged> {
+			tags!: Set<string>;
+			meta!: Map<string, string>;
+		}
+
+		const tagged = new Tagged({ tags: ['a', 'b'], meta: { k: 'v' } });
+		const copy = new Tagged(tagged.serialize() as unknown as ITagged);
+
+		expect(copy.tags).toEqual(new Set(['a', 'b']));
+		expect(copy.meta.get('k')).toBe('v');
+	});
+});
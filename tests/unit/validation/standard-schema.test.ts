@@ -0,0 +1,161 @@
+/**
+ * Unit Test: Standard Schema and Zod interop
+ *
+ * Tests toStandardSchema() validators and model classes built from Zod schemas
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { z } from 'zod';
+import { QModel, Quick, QType, Required, Min, Email, QuickModelError, fromZod, ZodConverter } from '../../../src';
+
+describe('Unit: Standard Schema and Zod interop', () => {
+	interface ILine {
+		sku: string;
+		qty: number;
+	}
+
+	class Line extends QModel<ILine> {
+		@QType() @Required() sku!: string;
+		@QType() @Min(1) qty!: number;
+	}
+
+	interface IOrder {
+		email: string;
+		placedAt: string;
+		lines: ILine[];
+	}
+
+	@Quick({ placedAt: Date, lines: Line })
+	class Order extends QModel<IOrder> {
+		@QType() @Required() @Email() email!: string;
+		placedAt!: Date;
+		lines!: Line[];
+	}
+
+	test('Should return model instances from ~standard.validate', async () => {
+		const schema = Order.toStandardSchema();
+		const result = await schema['~standard'].validate({
+			email: 'ann@example.com',
+			placedAt: '2024-01-01T00:00:00.000Z',
+			lines: [{ sku: 'A', qty: 2 }],
+		});
+
+		expect(schema['~standard'].version).toBe(1);
+		expect(schema['~standard'].vendor).toBe('quickmodel');
+		expect(result.issues).toBeUndefined();
+		const order = (result as { value: Order }).value;
+		expect(order).toBeInstanceOf(Order);
+		expect(order.placedAt).toBeInstanceOf(Date);
+		expect(order.lines[0]).toBeInstanceOf(Line);
+	});
+
+	test('Should report every failing rule as an issue with its path', async () => {
+		const schema = Order.toStandardSchema();
+		const result = await schema['~standard'].validate({ email: 'nope', lines: [{ sku: 'A', qty: 0 }] });
+
+		expect(result.issues?.map((issue) => issue.path)).toEqual([['email'], ['lines', 0, 'qty']]);
+		expect(result.issues?.[0]?.message).toContain('email');
+		expect(await schema['~standard'].validate('nope')).toEqual({ issues: [{ message: 'Order: Expected an object' }] });
+	});
+
+	const Card = z.object({ kind: z.literal('card'), last4: z.string().length(4) });
+	const Bank = z.object({ kind: z.literal('bank'), iban: z.string() }).meta({ title: 'BankAccount' });
+
+	const UserSchema = z.object({
+		email: z.email(),
+		age: z.int().min(0).max(150),
+		createdAt: z.date(),
+		balance: z.bigint().optional(),
+		tags: z.array(z.string()).max(3).default([]),
+		address: z.object({ city: z.string().min(1) }),
+		payment: z.discriminatedUnion('kind', [Card, Bank]).optional(),
+	});
+
+	test('Should convert Zod schemas to the JSON Schema of the serialized model', () => {
+		const schema = new ZodConverter().toJSONSchema(UserSchema, 'User');
+
+		expect(schema.required).toEqual(['email', 'age', 'createdAt', 'address']);
+		expect(schema.properties!.email).toEqual({ type: 'string', format: 'email' });
+		expect(schema.properties!.age).toEqual({ type: 'integer', minimum: 0, maximum: 150 });
+		expect(schema.properties!.createdAt).toEqual({ type: 'string', format: 'date-time' });
+		expect(schema.properties!.tags).toEqual({ type: 'array', items: { type: 'string' }, maxItems: 3 });
+		expect(schema.properties!.payment!.discriminator).toEqual({
+			propertyName: 'kind',
+			mapping: { card: '#/$defs/Card', bank: '#/$defs/BankAccount' },
+		});
+		expect(Object.keys(schema.$defs!)).toEqual(['Address', 'Card', 'BankAccount']);
+	});
+
+	test('Should build a model class with the types and rules of a Zod schema', () => {
+		const User = fromZod(UserSchema, { name: 'User' });
+		const user = new User({
+			email: 'nope',
+			age: 200,
+			createdAt: '2024-01-01T00:00:00.000Z',
+			balance: '12345678901234567890',
+			address: { city: 'Lima' },
+			payment: { kind: 'bank', iban: 'ES00' },
+		});
+
+		expect(User.name).toBe('User');
+		expect(user.createdAt).toBeInstanceOf(Date);
+		expect(user.balance).toBe(12345678901234567890n);
+		expect(user.address.constructor.name).toBe('Address');
+		expect(user.payment.constructor.name).toBe('BankAccount');
+		expect(user.validate().map((result) => result.path)).toEqual(['/email', '/age']);
+	});
+
+	test('Should keep exclusive bounds of non-integer numbers', () => {
+		const LineSchema = z.object({ price: z.number().positive(), discount: z.number().lt(1) });
+		const Line = fromZod(LineSchema, { name: 'Line' });
+
+		expect(new ZodConverter().toJSONSchema(LineSchema).properties).toEqual({
+			price: { type: 'number', exclusiveMinimum: 0 },
+			discount: { type: 'number', exclusiveMaximum: 1 },
+		});
+		expect(new Line({ price: 0.01, discount: 0.99 }).validate()).toEqual([]);
+		expect(new Line({ price: 0, discount: 1 }).validate().map((result) => result.path)).toEqual([
+			'/price',
+			'/discount',
+		]);
+		expect(new Line({ price: -5, discount: 0 }).validate().map((result) => result.path)).toEqual(['/price']);
+		expect(Line.toJSONSchema().properties?.price).toEqual({ type: 'number', exclusiveMinimum: 0 });
+	});
+
+	test('Should check the values of enums and literal unions', () => {
+		const TicketSchema = z.object({
+			status: z.enum(['open', 'closed']),
+			priority: z.union([z.literal(1), z.literal(2), z.literal(3)]),
+			kind: z.literal('ticket'),
+		});
+		const Ticket = fromZod(TicketSchema, { name: 'Ticket' });
+
+		expect(new ZodConverter().toJSONSchema(TicketSchema).properties?.priority).toEqual({ enum: [1, 2, 3] });
+		expect(new Ticket({ status: 'open', priority: 2, kind: 'ticket' }).validate()).toEqual([]);
+
+		const results = new Ticket({ status: 'pending', priority: 4, kind: 'bug' }).validate();
+		expect(results.map((result) => result.path)).toEqual(['/status', '/priority', '/kind']);
+		expect(results[0]?.error).toBe('Ticket.status: Expected one of "open", "closed"');
+	});
+
+	test('Should share one Zod definition between Zod and Standard Schema consumers', async () => {
+		const Category: z.ZodType<unknown> = z.object({
+			name: z.string(),
+			get children() {
+				return z.array(Category).optional();
+			},
+		});
+		const Model = fromZod(Category, { name: 'Category' });
+		const data = { name: 'root', children: [{ name: 'leaf' }] };
+
+		const result = await Model.toStandardSchema()['~standard'].validate(data);
+		const category = (result as { value: InstanceType<typeof Model> }).value;
+		expect(category.children[0]).toBeInstanceOf(Model);
+		expect(category.toInterface()).toEqual(Category.parse(data) as object);
+	});
+
+	test('Should reject values that are not Zod object schemas', () => {
+		expect(() => fromZod(z.string())).toThrow(QuickModelError);
+		expect(() => fromZod({} as never)).toThrow('Expected a Zod 4 schema');
+	});
+});
@@ -0,0 +1,191 @@
+/**
+ * Unit Test: Validate-on-construct mode
+ *
+ * Tests @Quick(map, { validate }) modes, QModel.configure() and safeParse()
+ */
+
+import { describe, test, expect, afterEach } from 'bun:test';
+import { QModel, Quick, QType, QuickModelError, Required, Email, Min } from '../../../src';
+
+describe('Unit: Validate on construct', () => {
+	interface IItem {
+		price: number;
+		addedAt: string;
+	}
+
+	@Quick({ addedAt: Date })
+	class Item extends QModel<IItem> {
+		@Min(0) price!: number;
+		addedAt!: Date;
+	}
+
+	interface IOrder {
+		email: string;
+		createdAt: string;
+		total: string;
+		items: IItem[];
+	}
+
+	@Quick({ createdAt: Date, total: BigInt, items: Item }, { validate: 'throw' })
+	class StrictOrder extends QModel<IOrder> {
+		@Required() @Email() email!: string;
+		createdAt!: Date;
+		total!: bigint;
+		items!: Item[];
+	}
+
+	@Quick({ createdAt: Date, total: BigInt, items: Item }, { validate: 'collect' })
+	class LenientOrder extends QModel<IOrder> {
+		@Required() @Email() email!: string;
+		createdAt!: Date;
+		total!: bigint;
+		items!: Item[];
+	}
+
+	const invalid = {
+		email: 'nope',
+		createdAt: 'not a date',
+		total: 'abc',
+		items: [
+			{ price: 10, addedAt: '2024-01-01T00:00:00.000Z' },
+			{ price: -1, addedAt: 'yesterday' },
+		],
+	};
+
+	const valid = {
+		email: 'john@example.com',
+		createdAt: '2024-01-01T00:00:00.000Z',
+		total: '100',
+		items: [{ price: 10, addedAt: '2024-01-01T00:00:00.000Z' }],
+	};
+
+	afterEach(() => {
+		QModel.configure({ validate: undefined });
+	});
+
+	test("Should throw one error listing every failing path in 'throw' mode", () => {
+		let caught: unknown;
+		try {
+			new StrictOrder(invalid);
+		} catch (error) {
+			caught = error;
+		}
+
+		expect(caught).toBeInstanceOf(QuickModelError);
+		const paths = (caught as QuickModelError).context?.errors?.map((e) => e.path);
+		expect(paths).toEqual([
+			'/createdAt',
+			'/total',
+			'/items/1/addedAt',
+			'/email',
+			'/items/1/price',
+		]);
+		expect((caught as Error).message).toContain('/items/1/addedAt');
+	});
+
+	test("Should build valid models normally in 'throw' mode", () => {
+		const order = new StrictOrder(valid);
+
+		expect(order.createdAt).toBeInstanceOf(Date);
+		expect(order.total).toBe(100n);
+		expect(order.items[0]).toBeInstanceOf(Item);
+	});
+
+	test("Should keep raw values and expose errors in 'collect' mode", () => {
+		const order = new LenientOrder(invalid);
+
+		expect(order.createdAt as unknown).toBe('not a date');
+		expect(order.getErrors().map((e) => e.path)).toEqual([
+			'/createdAt',
+			'/total',
+			'/items/1/addedAt',
+			'/email',
+			'/items/1/price',
+		]);
+		expect(new LenientOrder(valid).getErrors()).toEqual([]);
+	});
+
+	test('Should apply the global mode to models without class config', () => {
+		interface IUser {
+			age: number;
+		}
+		class User extends QModel<IUser> {
+			@Min(18) age!: number;
+		}
+
+		expect(() => new User({ age: 1 })).not.toThrow();
+
+		QModel.configure({ validate: 'throw' });
+
+		expect(() => new User({ age: 1 })).toThrow(QuickModelError);
+	});
+
+	test('Should read a single nested model and arrays of models from the type map', () => {
+		@Quick()
+		class Profile extends QModel<{ bio: string }> {
+			bio!: string;
+		}
+
+		@Quick({ profile: Profile, history: [Profile], items: Item }, { validate: 'throw' })
+		class Member extends QModel<{ profile: { bio: string }; history: { bio: string }[]; items: IItem[] }> {
+			profile!: Profile;
+			history!: Profile[];
+			items!: Item[];
+		}
+
+		const member = new Member({
+			profile: { bio: 'b' },
+			history: [{ bio: 'a' }],
+			items: [{ price: 1, addedAt: '2024-01-01T00:00:00.000Z' }],
+		});
+
+		expect(member.profile).toBeInstanceOf(Profile);
+		expect(member.history[0]).toBeInstanceOf(Profile);
+		expect(member.items[0]!.addedAt).toBeInstanceOf(Date);
+		expect(() => new Member({ profile: { bio: 'b' }, history: { bio: 'a' } as never, items: [] })).toThrow(
+			'Expected array, got object'
+		);
+		expect(Member.toJSONSchema().properties?.history).toMatchObject({ type: 'array' });
+	});
+
+	test('safeParse() should report every error without throwing', () => {
+		const result = StrictOrder.safeParse(invalid);
+
+		expect(result.success).toBe(false);
+		expect(result.data).toBeUndefined();
+		expect(result.errors).toHaveLength(5);
+	});
+
+	test('safeParse() should return the instance when data is valid', () => {
+		const result = LenientOrder.safeParse(valid);
+
+		expect(result.success).toBe(true);
+		expect(result.data).toBeInstanceOf(LenientOrder);
+		expect(result.errors).toEqual([]);
+	});
+
+	test('safeParse() should also catch errors of models without validation config', () => {
+		interface IEvent {
+			at: string;
+		}
+		class Event extends QModel<IEvent> {
+			@QType(Date) at!: Date;
+		}
+
+		const result = Event.safeParse({ at: 'never' });
+
+		expect(result.success).toBe(false);
+		expect(result.errors[0]?.path).toBe('/at');
+		expect(() => new Event({ at: 'never' })).toThrow();
+	});
+
+	test('safeParse() should reject data that is not an object with a single root error', () => {
+		for (const data of [null, undefined, 'order', 42, [valid]]) {
+			const result = StrictOrder.safeParse(data as never);
+
+			expect(result.success).toBe(false);
+			expect(result.data).toBeUndefined();
+			expect(result.errors).toEqual([{ isValid: false, path: '', error: 'StrictOrder: Expected an object' }]);
+		}
+	});
+});
@@ -0,0 +1,148 @@
+/**
+ * Unit Test: Declarative validation
+ *
+ * Tests validation decorators, transformer type checks and nested paths
+ */
+
+import { describe, test, expect } from 'bun:test';
+import {
+	QModel,
+	Quick,
+	QType,
+	Required,
+	Min,
+	Max,
+	Length,
+	Pattern,
+	Email,
+	Custom,
+} from '../../../src';
+
+describe('Unit: Validation', () => {
+	interface IUser {
+		email: string;
+		name: string;
+		age: number;
+		code: string;
+		birthDate: string;
+	}
+
+	@Quick({ birthDate: Date })
+	class User extends QModel<IUser> {
+		@Required() @Email() email!: string;
+		@Length(2, 10) name!: string;
+		@Min(18) @Max(120) age!: number;
+		@Pattern(/^[A-Z]{2}\d{2}$/) code!: string;
+		@Custom((v: Date) => v.getTime() < Date.now() || 'birthDate must be in the past')
+		birthDate!: Date;
+	}
+
+	const valid: IUser = {
+		email: 'john@example.com',
+		name: 'John',
+		age: 30,
+		code: 'AB12',
+		birthDate: '1990-01-01T00:00:00.000Z',
+	};
+
+	test('Should report no results for a valid model', () => {
+		const user = new User(valid);
+
+		expect(user.validate()).toEqual([]);
+		expect(user.isValid()).toBe(true);
+	});
+
+	test('Should collect every failing rule with its path', () => {
+		const user = new User({
+			email: 'not-an-email',
+			name: 'J',
+			age: 12,
+			code: 'x',
+			birthDate: '2999-01-01T00:00:00.000Z',
+		});
+
+		const results = user.validate();
+
+		expect(user.isValid()).toBe(false);
+		expect(results.map((r) => [r.path, r.rule])).toEqual([
+			['/email', 'email'],
+			['/name', 'length'],
+			['/age', 'min'],
+			['/code', 'pattern'],
+			['/birthDate', 'custom'],
+		]);
+		expect(results[4]?.error).toBe('birthDate must be in the past');
+	});
+
+	test('Should validate the current state after mutation', () => {
+		const user = new User(valid);
+		user.age = 200;
+		user.email = '';
+
+		const results = user.validate();
+
+		expect(results.map((r) => r.rule)).toEqual(['required', 'email', 'max']);
+	});
+
+	test('Should use transformer validators for type checks', () => {
+		const user = new User(valid);
+		(user as any).birthDate = 'not a date';
+
+		const results = user.validate();
+
+		expect(results.find((r) => r.rule === 'type')?.path).toBe('/birthDate');
+	});
+
+	test('Should skip non-required rules for missing values', () => {
+		interface IOptional {
+			nickname?: string;
+		}
+		class Optional extends QModel<IOptional> {
+			@Length(3) nickname?: string;
+		}
+
+		expect(new Optional({}).isValid()).toBe(true);
+		expect(new Optional({ nickname: 'ab' }).isValid()).toBe(false);
+	});
+
+	test('Should pass the model instance to custom validators', () => {
+		interface IRange {
+			start: number;
+			end: number;
+		}
+		class Range extends QModel<IRange> {
+			@QType() start!: number;
+			@Custom((end: number, model) => end > (model as unknown as IRange).start)
+			end!: number;
+		}
+
+		expect(new Range({ start: 1, end: 2 }).isValid()).toBe(true);
+		expect(new Range({ start: 3, end: 2 }).validate()[0]?.error).toBe(
+			'Range.end: Custom validation failed'
+		);
+	});
+
+	test('Should prefix nested model paths with array indexes', () => {
+		interface IItem {
+			price: number;
+		}
+		class Item extends QModel<IItem> {
+			@Min(0) price!: number;
+		}
+
+		interface IOrder {
+			items: IItem[];
+		}
+		class Order extends QModel<IOrder> {
+			@QType(Item) items!: Item[];
+		}
+
+		const order = new Order({ items: [{ price: 1 }, { price: -5 }] });
+
+		const results = order.validate();
+
+		expect(results).toHaveLength(1);
+		expect(results[0]?.path).toBe('/items/1/price');
+		expect(results[0]?.rule).toBe('min');
+	});
+});
@@ -3,6 +3,9 @@ import { defineConfig } from 'tsup';
 export default defineConfig({
   entry: {
     index: 'src/index.ts',
+    cli: 'src/cli/index.ts',
+    react: 'src/adapters/react.ts',
+    vue: 'src/adapters/vue.ts',
   },
   format: ['cjs', 'esm'],
   dts: true,
@@ -12,7 +15,7 @@ export default defineConfig({
   treeshake: true,
   minify: false,
   outDir: 'dist',
-  external: ['reflect-metadata'],
+  external: ['reflect-metadata', 'react', 'vue'],
   // Soporte para path aliases (@/*)
   esbuildOptions(options) {
     options.alias = {